@@ -2,7 +2,10 @@ import { Request, Response } from 'express';
 import { ApiResponse, AdminStats, Category as CategoryType, Field as FieldType, Course as CourseType, CreateCategoryRequest, UpdateCategoryRequest, CreateFieldRequest, UpdateFieldRequest, CreateCourseRequest, UpdateCourseRequest } from '../types';
 import { dbManager } from '../utils/databaseManager';
 import { cacheManager } from '../utils/cacheManager';
-import { asyncHandler, sendSuccessResponse, NotFoundError, DatabaseError, handleDatabaseError } from '../middleware/errorHandler';
+import { asyncHandler, sendSuccessResponse, AppError, NotFoundError, DatabaseError, handleDatabaseError } from '../middleware/errorHandler';
+import { CoursePublishing } from '../models/CoursePublishing';
+import { CourseRevision } from '../models/CourseRevision';
+import { notifyWishlistPriceDrops } from '../services/wishlistNotifier';
 
 // Using real database data only - no mock data
 
@@ -276,7 +279,7 @@ export const getAllCoursesAdmin = async (req: Request, res: Response): Promise<v
     const query = `
       SELECT c.id, c.title, c.slug, c.description, c.short_description,
              c.banner_image, c.thumbnail_image, c.duration_hours, c.difficulty_level,
-             c.price, c.is_free, c.is_published, c.instructor_id, c.prerequisites,
+             c.price, c.is_free, c.is_published, c.status, c.publish_at, c.instructor_id, c.prerequisites,
              c.learning_outcomes::text, c.course_modules::text, c.tags, c.rating, c.total_ratings,
              c.enrolled_students, c.created_at, c.updated_at, c.field_id,
              f.name as field_name, f.slug as field_slug,
@@ -307,13 +310,13 @@ export const getAllCoursesAdmin = async (req: Request, res: Response): Promise<v
 
 export const createCourse = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { field_id, title, slug, description, short_description, banner_image, thumbnail_image, duration_hours, difficulty_level, price, is_free, is_published, instructor_id, prerequisites, learning_outcomes, course_modules, tags } = req.body as CreateCourseRequest;
+    const { field_id, title, slug, description, short_description, banner_image, thumbnail_image, duration_hours, difficulty_level, price, is_free, is_published, instructor_id, prerequisites, learning_outcomes, tags } = req.body as CreateCourseRequest;
     
     // Generate slug if not provided
     const finalSlug = slug || title.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
     
     const insertQuery = `
-      INSERT INTO courses (field_id, title, slug, description, short_description, banner_image, thumbnail_image, duration_hours, difficulty_level, price, is_free, is_published, instructor_id, prerequisites, learning_outcomes, course_modules, tags)
+      INSERT INTO courses (field_id, title, slug, description, short_description, banner_image, thumbnail_image, duration_hours, difficulty_level, price, is_free, is_published, instructor_id, prerequisites, learning_outcomes, tags, status)
       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
       RETURNING id
     `;
@@ -335,7 +338,7 @@ export const createCourse = async (req: Request, res: Response): Promise<void> =
     
     // Convert empty strings to null for JSONB fields
     const finalLearningOutcomes = learning_outcomes === '' ? null : learning_outcomes;
-    const finalCourseModules = course_modules === '' ? null : course_modules;
+    // course_modules is a snapshot maintained by the curriculum endpoints and is not written here
     
     // Convert comma-separated string to PostgreSQL array format for tags
     let finalTags = null;
@@ -347,16 +350,22 @@ export const createCourse = async (req: Request, res: Response): Promise<void> =
       }
     }
     
-    const values = [finalFieldId, title, finalSlug, description, short_description, banner_image, thumbnail_image, duration_hours, difficulty_level, price, is_free, is_published, finalInstructorId, prerequisites, finalLearningOutcomes, finalCourseModules, finalTags];
+    // is_published picks the starting status; later changes go through the status lifecycle
+    const status = is_published ? 'published' : 'draft';
+    const values = [finalFieldId, title, finalSlug, description, short_description, banner_image, thumbnail_image, duration_hours, difficulty_level, price, is_free, status === 'published', finalInstructorId, prerequisites, finalLearningOutcomes, finalTags, status];
     
-    const insertResult = await dbManager.query(insertQuery, values);
-    const newCourseId = insertResult.rows[0].id;
+    const newCourseId = await dbManager.transaction(async (client) => {
+      const insertResult = await client.query(insertQuery, values);
+      const courseId = String(insertResult.rows[0].id);
+      await new CoursePublishing().recordCreated(client, courseId, status, 'admin', req.user?.id);
+      return courseId;
+    });
     
     // Now fetch the created course with joined field and category data
     const fetchQuery = `
       SELECT c.id, c.title, c.slug, c.description, c.short_description,
              c.banner_image, c.thumbnail_image, c.duration_hours, c.difficulty_level,
-             c.price, c.is_free, c.is_published, c.instructor_id, c.prerequisites,
+             c.price, c.is_free, c.is_published, c.status, c.publish_at, c.instructor_id, c.prerequisites,
              c.learning_outcomes::text, c.course_modules::text, c.tags, c.rating, c.total_ratings,
              c.enrolled_students, c.created_at, c.updated_at, c.field_id,
              f.name as field_name, f.slug as field_slug,
@@ -392,11 +401,11 @@ export const createCourse = async (req: Request, res: Response): Promise<void> =
 export const updateCourse = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { field_id, title, slug, description, short_description, banner_image, thumbnail_image, duration_hours, difficulty_level, price, is_free, is_published, instructor_id, prerequisites, learning_outcomes, course_modules, tags } = req.body as UpdateCourseRequest;
+    const { field_id, title, slug, description, short_description, banner_image, thumbnail_image, duration_hours, difficulty_level, price, is_free, is_published, instructor_id, prerequisites, learning_outcomes, tags } = req.body as UpdateCourseRequest;
     
     // Build dynamic query based on provided fields
     const updateFields = [];
-    const values = [];
+    const values: any[] = [];
     let paramCount = 1;
     
     if (field_id !== undefined) {
@@ -455,11 +464,6 @@ export const updateCourse = async (req: Request, res: Response): Promise<void> =
       values.push(is_free);
       paramCount++;
     }
-    if (is_published !== undefined) {
-      updateFields.push(`is_published = $${paramCount}`);
-      values.push(is_published);
-      paramCount++;
-    }
     if (instructor_id !== undefined) {
       updateFields.push(`instructor_id = $${paramCount}`);
       // Handle instructor_id - convert to UUID or set to null if invalid
@@ -488,13 +492,6 @@ export const updateCourse = async (req: Request, res: Response): Promise<void> =
       values.push(finalLearningOutcomes);
       paramCount++;
     }
-    if (course_modules !== undefined) {
-      updateFields.push(`course_modules = $${paramCount}`);
-      // Convert empty string to null for JSONB field
-      const finalCourseModules = course_modules === '' ? null : course_modules;
-      values.push(finalCourseModules);
-      paramCount++;
-    }
     if (tags !== undefined) {
       updateFields.push(`tags = $${paramCount}`);
       // Convert comma-separated string to PostgreSQL array format
@@ -522,13 +519,36 @@ export const updateCourse = async (req: Request, res: Response): Promise<void> =
       WHERE id = $${paramCount}
     `;
     
-    await dbManager.query(updateQuery, values);
+    // Each edit keeps a revision of the course for comparing and restoring later. is_published is
+    // kept for existing admin forms and applied as a status change in the same transaction, so a
+    // rejected status change leaves the other fields unsaved too.
+    await dbManager.transaction(async (client) => {
+      await new CourseRevision().trackEdit(client, 'course', id, CourseRevision.editorFor(req.user), () =>
+        client.query(updateQuery, values)
+      );
+
+      if (is_published !== undefined && is_published !== null) {
+        const current = await client.query('SELECT status FROM courses WHERE id = $1', [id]);
+        const currentStatus = current.rows[0]?.status;
+        if (currentStatus && (is_published ? currentStatus !== 'published' : currentStatus === 'published')) {
+          await new CoursePublishing().transitionWithin(client, id, is_published ? 'published' : 'draft', {
+            role: 'admin',
+            actorId: req.user?.id
+          });
+        }
+      }
+    });
+    
+    // Students who saved the course hear about a price drop
+    if (price !== undefined || is_free !== undefined) {
+      notifyWishlistPriceDrops(id);
+    }
     
     // Now fetch the updated course with joined field and category data
     const fetchQuery = `
       SELECT c.id, c.title, c.slug, c.description, c.short_description,
              c.banner_image, c.thumbnail_image, c.duration_hours, c.difficulty_level,
-             c.price, c.is_free, c.is_published, c.instructor_id, c.prerequisites,
+             c.price, c.is_free, c.is_published, c.status, c.publish_at, c.instructor_id, c.prerequisites,
              c.learning_outcomes::text, c.course_modules::text, c.tags, c.rating, c.total_ratings,
              c.enrolled_students, c.created_at, c.updated_at, c.field_id,
              f.name as field_name, f.slug as field_slug,
@@ -561,6 +581,15 @@ export const updateCourse = async (req: Request, res: Response): Promise<void> =
     
     res.status(200).json(response);
   } catch (error) {
+    // A rejected status change (ValidationError, ConflictError) is the client's to fix
+    if (error instanceof AppError) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      };
+      res.status(error.statusCode).json(response);
+      return;
+    }
     console.log('Database error:', error);
     const response: ApiResponse = {
       success: false,
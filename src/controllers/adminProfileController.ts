@@ -3,6 +3,7 @@ import bcrypt from 'bcryptjs';
 import { dbManager } from '../utils/databaseManager';
 import { logger } from '../utils/logger';
 import { SecurityMonitor } from '../services/securityMonitor';
+import { identityService } from '../services/identityService';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
@@ -337,6 +338,9 @@ export const changeAdminPassword = async (req: Request, res: Response):Promise<v
 
     await dbManager.query(updateQuery, [hashedNewPassword, userId]);
 
+    // Sessions opened with the old password end; the one making this request stays signed in
+    await identityService.revokeAllSessions(userId, 'Password changed', req.user?.sessionId);
+
     logger.info(`Password changed for admin user ${userId}`, {
       userId,
       username: user.username
@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { AdminTwoFactor } from '../models/AdminTwoFactor';
+import { SecurityMonitor } from '../services/securityMonitor';
+import { RateLimitService } from '../services/rateLimitService';
+import { identityService } from '../services/identityService';
+import { dbManager } from '../utils/databaseManager';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  AppError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError
+} from '../middleware/errorHandler';
+
+const securityMonitor = new SecurityMonitor();
+let rateLimitService: RateLimitService | null = null;
+
+/**
+ * Code checks here share the login's two_factor limit, set once the security services start
+ */
+export const setTwoFactorRateLimitService = (service: RateLimitService | null): void => {
+  rateLimitService = service;
+};
+
+const findAdmin = async (id: string) => {
+  const result = await dbManager.query(
+    `SELECT id, username, role FROM users WHERE id = $1 AND (role = 'admin' OR role = 'superuser')`,
+    [id]
+  );
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Admin');
+  }
+  return result.rows[0];
+};
+
+const requireCode = async (req: Request, code: string): Promise<void> => {
+  const userId = req.user!.id;
+  if (rateLimitService) {
+    const rateLimitCheck = await rateLimitService.checkRateLimit(`admin:${userId}`, 'two_factor', req.ip);
+    if (!rateLimitCheck.allowed) {
+      throw new AppError('Too many verification attempts. Please try again later.', 429, 'RATE_LIMIT_EXCEEDED');
+    }
+  }
+
+  if (!(await new AdminTwoFactor().verify(userId, code))) {
+    await securityMonitor.logSecurityEvent('TWO_FACTOR_FAILED', { userId, ip: req.ip }, 'MEDIUM', req.ip, req.get('User-Agent'));
+    throw new UnauthorizedError('Invalid verification code');
+  }
+};
+
+// ==================== OWN TWO-FACTOR SETTINGS ====================
+
+export const getMyTwoFactor = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  sendSuccessResponse(res, await new AdminTwoFactor().getStatus(req.user!.id));
+});
+
+/**
+ * Starts enrolment; the secret and otpauth:// URI (for the QR code) only work after confirmation
+ */
+export const beginMyTwoFactorSetup = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const admin = await findAdmin(req.user!.id);
+  const enrolment = await new AdminTwoFactor().beginEnrolment(admin.id, admin.username);
+  if (!enrolment) {
+    throw new ConflictError('Two-factor authentication is already enabled');
+  }
+
+  sendSuccessResponse(res, enrolment, 'Scan the QR code with your authenticator app, then confirm a code');
+});
+
+/**
+ * Confirms enrolment with a first code; the recovery codes are shown only in this response
+ */
+export const enableMyTwoFactor = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const result = await new AdminTwoFactor().confirmEnrolment(req.user!.id, req.body.code);
+  if (result.status === 'not_pending') {
+    throw new ValidationError('Start two-factor setup first');
+  }
+  if (result.status === 'invalid') {
+    throw new UnauthorizedError('Invalid verification code');
+  }
+
+  await securityMonitor.logSecurityEvent('TWO_FACTOR_ENABLED', { userId: req.user!.id }, 'LOW', req.ip, req.get('User-Agent'));
+  sendSuccessResponse(res, { recovery_codes: result.recoveryCodes }, 'Two-factor authentication enabled');
+});
+
+export const regenerateMyRecoveryCodes = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  await requireCode(req, req.body.code);
+  const codes = await new AdminTwoFactor().regenerateRecoveryCodes(req.user!.id);
+  if (!codes) {
+    throw new ValidationError('Two-factor authentication is not enabled');
+  }
+
+  sendSuccessResponse(res, { recovery_codes: codes }, 'New recovery codes generated; the old ones no longer work');
+});
+
+export const disableMyTwoFactor = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (AdminTwoFactor.isRequired()) {
+    throw new ForbiddenError('Two-factor authentication is required for admin accounts');
+  }
+  await requireCode(req, req.body.code);
+  await new AdminTwoFactor().disable(req.user!.id);
+
+  await securityMonitor.logSecurityEvent('TWO_FACTOR_DISABLED', { userId: req.user!.id }, 'MEDIUM', req.ip, req.get('User-Agent'));
+  sendSuccessResponse(res, null, 'Two-factor authentication disabled');
+});
+
+// ==================== SUPERUSER RESET ====================
+
+/**
+ * Clears another admin's authenticator and recovery codes, e.g. after a lost phone.
+ * They sign in with their password next time (and enrol again when 2FA is required).
+ */
+export const resetAdminTwoFactor = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (req.user?.role !== 'superuser') {
+    throw new ForbiddenError('Superuser access required');
+  }
+  if (req.params.id === req.user.id) {
+    throw new ValidationError('Use your own two-factor settings to change your 2FA');
+  }
+
+  const admin = await findAdmin(req.params.id);
+  if (!(await new AdminTwoFactor().disable(admin.id))) {
+    throw new NotFoundError('Two-factor authentication for this admin');
+  }
+  // Whoever holds the lost device may be signed in as this admin
+  await identityService.revokeAllSessions(admin.id, 'Two-factor reset');
+
+  await securityMonitor.logSecurityEvent(
+    'TWO_FACTOR_RESET',
+    { userId: admin.id, username: admin.username, resetBy: req.user.id },
+    'HIGH',
+    req.ip,
+    req.get('User-Agent')
+  );
+  sendSuccessResponse(res, null, 'Two-factor authentication reset');
+});
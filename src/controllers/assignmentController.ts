@@ -0,0 +1,240 @@
+import { Request, Response } from 'express';
+import { Assignment } from '../models/Assignment';
+import { Course } from '../models/Course';
+import { CourseProgress } from '../models/CourseProgress';
+import {
+  CreateAssignmentSubmissionRequest,
+  GradeAssignmentRequest,
+  UpdateAssignmentSettingsRequest
+} from '../types';
+import handleSendEmail from '../services/emailService';
+import { parseLimit } from '../utils/pagination';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  sendPaginatedResponse,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ForbiddenError ||
+  error instanceof ConflictError ||
+  error instanceof ValidationError;
+
+const parsePage = (value: unknown): number => {
+  const page = parseInt(value as string);
+  return isNaN(page) || page < 1 ? 1 : page;
+};
+
+// ==================== STUDENT ASSIGNMENT ROUTES ====================
+
+export const getAssignmentForStudent = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, moduleId } = req.params;
+  const studentId = req.user!.id;
+
+  try {
+    const enrollment = await new Course().getUserEnrollment(studentId, id);
+    if (!enrollment) {
+      throw new ForbiddenError('You must be enrolled in this course to view its assignments');
+    }
+
+    const assignmentModel = new Assignment();
+    const assignment = await assignmentModel.getAssignmentModule(moduleId, id);
+    if (!assignment) {
+      throw new NotFoundError('Assignment');
+    }
+
+    const submissions = await assignmentModel.getStudentSubmissions(studentId, moduleId);
+    const check = Assignment.checkSubmissionAllowed(assignment, submissions);
+
+    sendSuccessResponse(res, {
+      ...assignment,
+      can_submit: check.allowed,
+      submit_blocked_reason: check.reason || null,
+      submissions
+    });
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const submitAssignment = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, moduleId } = req.params;
+  const studentId = req.user!.id;
+  const submissionData = req.body as CreateAssignmentSubmissionRequest;
+
+  try {
+    const enrollment = await new CourseProgress().resolveCourseEnrollment(studentId, id);
+    if (!enrollment) {
+      throw new ForbiddenError('You must be enrolled in this course to submit assignments');
+    }
+
+    const assignmentModel = new Assignment();
+    const assignment = await assignmentModel.getAssignmentModule(moduleId, id);
+    if (!assignment) {
+      throw new NotFoundError('Assignment');
+    }
+
+    const previous = await assignmentModel.getStudentSubmissions(studentId, moduleId);
+    const check = Assignment.checkSubmissionAllowed(assignment, previous);
+    if (!check.allowed) {
+      throw new ForbiddenError(check.reason);
+    }
+
+    const submission = await assignmentModel.createSubmission(
+      studentId,
+      moduleId,
+      enrollment.id,
+      check.attemptNumber,
+      check.isLate,
+      submissionData
+    );
+    if (!submission) {
+      throw new ConflictError('A submission for this attempt was already received');
+    }
+
+    sendSuccessResponse(
+      res,
+      submission,
+      check.isLate ? 'Assignment submitted after the due date' : 'Assignment submitted successfully',
+      201
+    );
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== ASSIGNMENTS ADMIN ROUTES ====================
+
+export const getAssignmentAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const assignment = await new Assignment().getAssignmentModule(req.params.moduleId);
+    if (!assignment) {
+      throw new NotFoundError('Assignment module');
+    }
+    sendSuccessResponse(res, assignment);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const updateAssignmentSettings = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { moduleId } = req.params;
+
+  try {
+    const assignmentModel = new Assignment();
+    if (!(await assignmentModel.getAssignmentModule(moduleId))) {
+      throw new NotFoundError('Assignment module');
+    }
+
+    const settings = await assignmentModel.updateSettings(moduleId, req.body as UpdateAssignmentSettingsRequest);
+    sendSuccessResponse(res, settings, 'Assignment settings updated successfully');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getSubmissionsForGrading = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const page = parsePage(req.query.page);
+  const limit = parseLimit(req.query.limit);
+
+  try {
+    const { submissions, total } = await new Assignment().getSubmissionsForGrading({
+      module_id: typeof req.query.module_id === 'string' ? req.query.module_id : undefined,
+      course_id: typeof req.query.course_id === 'string' ? req.query.course_id : undefined,
+      status: typeof req.query.status === 'string' ? req.query.status : undefined,
+      page,
+      limit
+    });
+
+    sendPaginatedResponse(res, submissions, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getSubmissionByIdAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const submission = await new Assignment().getSubmissionById(req.params.id);
+    if (!submission) {
+      throw new NotFoundError('Submission');
+    }
+    sendSuccessResponse(res, submission);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const gradeSubmission = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const gradeData = req.body as GradeAssignmentRequest;
+  const status = gradeData.status || 'graded';
+
+  try {
+    const assignmentModel = new Assignment();
+    const existing = await assignmentModel.getSubmissionById(id);
+    if (!existing) {
+      throw new NotFoundError('Submission');
+    }
+    if (gradeData.score > existing.max_score) {
+      throw new ValidationError(`Score cannot exceed the maximum of ${existing.max_score}`);
+    }
+
+    const submission = await assignmentModel.gradeSubmission(id, { ...gradeData, status }, req.user?.id);
+
+    // A graded (not returned) submission completes the assignment lesson
+    let progress = null;
+    if (status === 'graded' && existing.enrollment_id) {
+      const progressModel = new CourseProgress();
+      await progressModel.markModuleCompleted(String(existing.enrollment_id), String(existing.module_id));
+      progress = await progressModel.recalculateEnrollmentProgress(String(existing.enrollment_id), String(existing.course_id));
+    }
+
+    // Fire-and-forget grading notification
+    try {
+      if (existing.email) {
+        const heading = status === 'graded' ? 'Assignment Graded' : 'Assignment Returned for Revision';
+        const summary = status === 'graded'
+          ? `Your submission for <strong>${existing.module_title}</strong> in <strong>${existing.course_title}</strong> has been graded: <strong>${gradeData.score} / ${existing.max_score}</strong>.`
+          : `Your submission for <strong>${existing.module_title}</strong> in <strong>${existing.course_title}</strong> has been returned for revision. Please review the feedback and submit again.`;
+        const feedback = gradeData.feedback
+          ? `<div style=\"background:#f5f7fa; border-left:4px solid #1e3a8a; padding:12px 16px; margin-top:16px; font-size:15px; line-height:22px;\">${gradeData.feedback}</div>`
+          : '';
+        const html = `<html><body style=\"margin:0; padding:0; background:#f5f7fa; font-family:Arial, Helvetica, sans-serif;\"><div style=\"max-width:600px; margin:30px auto; background:white; border-radius:12px; overflow:hidden; box-shadow:0 4px 18px rgba(0,0,0,0.06);\"><div style=\"background:#1e3a8a; padding:22px; text-align:center;\"><img src=\"https://academy.zenow.in/zenow-academy-logo-medium.svg\" alt=\"Zenow Academy\" style=\"width:180px; filter:brightness(0) invert(1);\" /></div><div style=\"padding:30px; color:#333;\"><h2 style=\"color:#1e3a8a; margin-bottom:14px; text-align:center; font-size:24px;\">${heading}</h2><p style=\"font-size:15px; line-height:24px;\">Hi ${existing.first_name || 'there'},</p><p style=\"font-size:15px; line-height:24px;\">${summary}</p>${feedback}<div style=\"text-align:center; margin-top:25px;\"><a href=\"https://academy.zenow.in\" style=\"display:inline-block; padding:12px 24px; background:#1e3a8a; color:white; text-decoration:none; border-radius:8px; font-size:16px;\">Go to Dashboard</a></div></div><div style=\"background:#f1f1f1; padding:15px; text-align:center; color:#888; font-size:13px;\">© 2025 Zenow Academy. All rights reserved.</div></div></body></html>`;
+        handleSendEmail(existing.email, `${heading} - ${existing.module_title}`, html).catch(() => {});
+      }
+    } catch {}
+
+    sendSuccessResponse(res, { ...submission, progress }, status === 'graded' ? 'Submission graded successfully' : 'Submission returned for revision');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
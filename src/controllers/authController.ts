@@ -1,7 +1,35 @@
 import { Request, Response } from 'express';
-import authService from '../services/authService';
+import authService, { LoginResult } from '../services/authService';
+import { identityService } from '../services/identityService';
+import { AppError } from '../middleware/errorHandler';
 import crypto from 'crypto';
 
+const setTokenCookie = (res: Response, token: string): void => {
+  res.cookie('token', token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 4 * 60 * 60 * 1000 // 4 hours
+  });
+};
+
+// Password accepted, but the admin still has to pass (or set up) the second factor
+const sendTwoFactorChallenge = (res: Response, result: Exclude<LoginResult, { status: 'authenticated' }>): void => {
+  const setupRequired = result.status === 'two_factor_setup_required';
+  res.status(200).json({
+    success: true,
+    two_factor_required: true,
+    setup_required: setupRequired,
+    challenge_token: result.challengeToken,
+    message: setupRequired
+      ? 'Two-factor authentication must be set up to finish signing in.'
+      : 'Enter the code from your authenticator app or a recovery code.'
+  });
+};
+
+const errorStatus = (err: unknown, fallback: number): number => (err instanceof AppError ? err.statusCode : fallback);
+
 const register = async (req: Request, res: Response): Promise<void> => {
   try {
     const user = await authService.register(req.body);
@@ -15,10 +43,14 @@ const login = async (req: Request, res: Response): Promise<void> => {
   try {
     console.log('request is comming for login. ');
 
-    const token = await authService.login(req.body);
-    res.status(200).json({ token });
+    const result = await authService.login(req.body);
+    if (result.status !== 'authenticated') {
+      sendTwoFactorChallenge(res, result);
+      return;
+    }
+    res.status(200).json({ token: result.token });
   } catch (err) {
-    res.status(401).json({ error: (err as Error).message });
+    res.status(errorStatus(err, 401)).json({ error: (err as Error).message });
   }
 };
 
@@ -49,22 +81,22 @@ const secureLogin = async (req: Request, res: Response): Promise<void> => {
     const userAgent = req.get('User-Agent') || 'unknown';
     
     // Call auth service with fingerprint
-    const token = await authService.login({
+    const result = await authService.login({
       username,
       password,
       fingerprint,
       ip,
       userAgent
     });
+
+    // The cookie is only issued once the second factor has passed
+    if (result.status !== 'authenticated') {
+      sendTwoFactorChallenge(res, result);
+      return;
+    }
     
     // Set httpOnly cookie
-    res.cookie('token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      path: '/',
-      maxAge: 4 * 60 * 60 * 1000 // 4 hours
-    });
+    setTokenCookie(res, result.token);
     
     res.status(200).json({ 
       success: true,
@@ -72,7 +104,46 @@ const secureLogin = async (req: Request, res: Response): Promise<void> => {
     });
   } catch (err) {
     console.error('Secure login error:', err);
-    res.status(401).json({ error: (err as Error).message });
+    res.status(errorStatus(err, 401)).json({ error: (err as Error).message });
+  }
+};
+
+// Starts authenticator enrolment for an admin whose sign-in requires 2FA they have not set up yet
+const twoFactorSetup = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const enrolment = await authService.startTwoFactorSetup({ challengeToken: req.body.challenge_token });
+
+    res.status(200).json({
+      success: true,
+      secret: enrolment.secret,
+      otpauth_url: enrolment.otpauth_url,
+      message: 'Scan the QR code with your authenticator app, then verify a code to finish signing in.'
+    });
+  } catch (err) {
+    res.status(errorStatus(err, 500)).json({ error: (err as Error).message });
+  }
+};
+
+// Second login step: sets the httpOnly cookie once the code is accepted
+const twoFactorVerify = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, recoveryCodes } = await authService.completeTwoFactorLogin({
+      challengeToken: req.body.challenge_token,
+      code: req.body.code,
+      ip: req.ip || req.connection.remoteAddress || 'unknown',
+      userAgent: req.get('User-Agent') || 'unknown'
+    });
+
+    setTokenCookie(res, token);
+
+    res.status(200).json({
+      success: true,
+      message: 'Login successful.',
+      ...(recoveryCodes ? { recovery_codes: recoveryCodes } : {})
+    });
+  } catch (err) {
+    console.error('Two-factor verification error:', err);
+    res.status(errorStatus(err, 401)).json({ error: (err as Error).message });
   }
 };
 
@@ -101,11 +172,10 @@ const sessionVerify = async (req: Request, res: Response): Promise<void> => {
       return;
     }
     
-    // Decode JWT to get stored session hash
-    const jwt = require('jsonwebtoken');
-    const decoded = jwt.decode(token);
+    // Verify the token and its session to get the stored session hash
+    const verified = await identityService.verifyAccessToken(token);
     
-    if (!decoded || !decoded.fingerprintHash) {
+    if (!verified || !verified.fingerprintHash) {
       res.status(401).json({ 
         valid: false, 
         error: 'Invalid session' 
@@ -117,7 +187,7 @@ const sessionVerify = async (req: Request, res: Response): Promise<void> => {
     const currentSessionHash = crypto.createHash('sha256').update(sessionData).digest('hex');
     
     // Compare with stored hash
-    if (currentSessionHash !== decoded.fingerprintHash) {
+    if (currentSessionHash !== verified.fingerprintHash) {
       res.status(401).json({ 
         valid: false, 
         error: 'Session mismatch' 
@@ -148,7 +218,14 @@ const logout = async (req: Request, res: Response): Promise<void> => {
       sameSite: 'lax',
       path: '/'
     });
-    
+
+    // End the identity session too, so a copied token stops working
+    const token = req.cookies?.token;
+    const verified = token ? await identityService.verifyAccessToken(token) : null;
+    if (verified) {
+      await authService.logout(verified.sessionId, req.ip, req.get('User-Agent'));
+    }
+
     res.status(200).json({ 
       success: true,
       message: 'Logged out successfully' 
@@ -162,4 +239,4 @@ const tokenValidated = async (req: Request, res: Response): Promise<void> => {
   res.status(200).json({ valid: true, user: req.user });
 };
 
-export const authController = { register, login, secureLogin, sessionVerify, logout, tokenValidated };
+export const authController = { register, login, secureLogin, twoFactorSetup, twoFactorVerify, sessionVerify, logout, tokenValidated };
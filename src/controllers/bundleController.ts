@@ -0,0 +1,209 @@
+import { Request, Response } from 'express';
+import { Bundle } from '../models/Bundle';
+import { CreateBundleRequest, UpdateBundleRequest } from '../types';
+import handleSendEmail from '../services/emailService';
+import { asyncHandler, sendSuccessResponse, NotFoundError, ConflictError, PaymentRequiredError, handleDatabaseError } from '../middleware/errorHandler';
+
+// Accepts tags as an array or a comma-separated string, like the course admin forms send them
+const normalizeTags = (tags: string[] | string | undefined | null): string[] | undefined => {
+  if (tags === undefined) {
+    return undefined;
+  }
+  const tagArray = Array.isArray(tags) ? tags : (tags || '').split(',');
+  return tagArray.map(tag => tag.trim()).filter(tag => tag !== '');
+};
+
+// ==================== PUBLIC BUNDLE ROUTES ====================
+
+export const getPublishedBundles = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bundles = await new Bundle().getPublishedBundles();
+    res.status(200).json({
+      success: true,
+      data: bundles,
+      count: bundles.length
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getBundleById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bundle = await new Bundle().getBundleById(req.params.id);
+    if (!bundle) {
+      throw new NotFoundError('Bundle');
+    }
+    sendSuccessResponse(res, bundle);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getBundleBySlug = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bundle = await new Bundle().getBundleBySlug(req.params.slug);
+    if (!bundle) {
+      throw new NotFoundError('Bundle');
+    }
+    sendSuccessResponse(res, bundle);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const enrollInBundle = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const studentId = req.user!.id;
+  const studentEmail = req.user!.email;
+
+  try {
+    const bundleModel = new Bundle();
+    const bundle = await bundleModel.getBundleById(id);
+    if (!bundle) {
+      throw new NotFoundError('Bundle');
+    }
+    if (Number(bundle.bundle_price) > 0 && !(await bundleModel.getStudentEnrollment(studentId, id))) {
+      throw new PaymentRequiredError('This bundle requires payment. Start a checkout at /api/payments/checkout');
+    }
+
+    const { enrollment, created } = await bundleModel.enrollStudent(studentId, id);
+
+    if (!created) {
+      sendSuccessResponse(res, enrollment, 'Student is already enrolled in this bundle');
+      return;
+    }
+
+    // Fire-and-forget enrollment confirmation email
+    try {
+      if (studentEmail) {
+        const courseList = (bundle.courses || []).map(course => `<li style=\"margin-bottom:6px;\">${course.title}</li>`).join('');
+        const html = `<html><body style=\"margin:0; padding:0; background:#f5f7fa; font-family:Arial, Helvetica, sans-serif;\"><div style=\"max-width:600px; margin:30px auto; background:white; border-radius:12px; overflow:hidden; box-shadow:0 4px 18px rgba(0,0,0,0.06);\"><div style=\"background:#1e3a8a; padding:22px; text-align:center;\"><img src=\"https://academy.zenow.in/zenow-academy-logo-medium.svg\" alt=\"Zenow Academy\" style=\"width:180px; filter:brightness(0) invert(1);\" /></div><div style=\"padding:30px; color:#333;\"><h2 style=\"color:#1e3a8a; margin-bottom:14px; text-align:center; font-size:24px;\">Bundle Enrollment Confirmed</h2><p style=\"font-size:15px; line-height:24px;\">You have successfully enrolled in <strong>${bundle.title}</strong>, which gives you access to:</p><ul style=\"font-size:15px; line-height:22px;\">${courseList}</ul><div style=\"text-align:center; margin-top:25px;\"><a href=\"https://academy.zenow.in\" style=\"display:inline-block; padding:12px 24px; background:#1e3a8a; color:white; text-decoration:none; border-radius:8px; font-size:16px;\">Go to Dashboard</a></div></div><div style=\"background:#f1f1f1; padding:15px; text-align:center; color:#888; font-size:13px;\">© 2025 Zenow Academy. All rights reserved.</div></div></body></html>`;
+        handleSendEmail(studentEmail, `Enrollment Confirmed - ${bundle.title}`, html).catch(() => {});
+      }
+    } catch {}
+
+    sendSuccessResponse(res, enrollment, 'Successfully enrolled in bundle', 201);
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof PaymentRequiredError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getBundleEnrollmentStatus = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const enrollment = await new Bundle().getStudentEnrollment(req.user!.id, req.params.id);
+    sendSuccessResponse(res, {
+      isEnrolled: !!enrollment,
+      enrollment: enrollment || null
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== BUNDLES ADMIN CRUD ====================
+
+export const getAllBundlesAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bundles = await new Bundle().getAllBundlesAdmin();
+    res.status(200).json({
+      success: true,
+      data: bundles,
+      count: bundles.length
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getBundleByIdAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bundle = await new Bundle().getBundleById(req.params.id, false);
+    if (!bundle) {
+      throw new NotFoundError('Bundle');
+    }
+    sendSuccessResponse(res, bundle);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const createBundle = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const bundleData = req.body as CreateBundleRequest;
+
+  // Generate slug if not provided
+  const finalSlug = bundleData.slug || bundleData.title.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+
+  try {
+    const bundle = await new Bundle().createBundle({
+      ...bundleData,
+      slug: finalSlug,
+      tags: normalizeTags(bundleData.tags)
+    });
+
+    sendSuccessResponse(res, bundle, 'Bundle created successfully', 201);
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const updateBundle = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const bundleData = req.body as UpdateBundleRequest;
+
+  try {
+    const bundle = await new Bundle().updateBundle(id, {
+      ...bundleData,
+      tags: normalizeTags(bundleData.tags)
+    });
+
+    if (!bundle) {
+      throw new NotFoundError('Bundle');
+    }
+
+    sendSuccessResponse(res, bundle, 'Bundle updated successfully');
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const deleteBundle = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const bundleModel = new Bundle();
+
+    // Enrollments cascade with the bundle, so deleting would silently revoke student access
+    const enrollmentCount = await bundleModel.countEnrollments(id);
+    if (enrollmentCount > 0) {
+      throw new ConflictError(`Bundle has ${enrollmentCount} enrollment(s); unpublish it instead of deleting`);
+    }
+
+    const deleted = await bundleModel.deleteBundle(id);
+    if (!deleted) {
+      throw new NotFoundError('Bundle');
+    }
+
+    sendSuccessResponse(res, null, 'Bundle deleted successfully');
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ConflictError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { UploadedFile } from 'express-fileupload';
+import { Catalog } from '../models/Catalog';
+import { CatalogEntity } from '../types';
+import { notifyWishlistPriceDrops } from '../services/wishlistNotifier';
+import { cacheManager } from '../utils/cacheManager';
+import { parseCsv, csvToRecords } from '../utils/csv';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ConflictError ||
+  error instanceof ValidationError;
+
+const invalidateCatalogCache = async (entity: CatalogEntity): Promise<void> => {
+  try {
+    if (entity === 'categories') {
+      await cacheManager.invalidateCategoryCache();
+    } else if (entity === 'fields') {
+      await cacheManager.invalidateFieldCache();
+    } else {
+      await cacheManager.invalidateCourseCache();
+    }
+  } catch (error) {
+    console.error('Error invalidating cache after catalog import:', error);
+  }
+};
+
+// The CSV arrives as the multipart "file" field
+const readUploadedCsv = (req: Request): Record<string, string>[] => {
+  const upload = req.files?.file as UploadedFile | UploadedFile[] | undefined;
+  const file = Array.isArray(upload) ? upload[0] : upload;
+  if (!file) {
+    throw new ValidationError('Upload the CSV as the "file" form field');
+  }
+
+  try {
+    return csvToRecords(parseCsv(file.data.toString('utf8'))).records;
+  } catch (error) {
+    throw new ValidationError(`The CSV file could not be read: ${(error as Error).message}`);
+  }
+};
+
+// ==================== CATALOG CSV ADMIN ROUTES ====================
+
+export const exportCatalogCsvAdmin = (entity: CatalogEntity) =>
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      const csv = await new Catalog().exportCsv(entity);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${entity}.csv"`);
+      res.status(200).send(csv);
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  });
+
+/**
+ * Upserts the uploaded rows by slug. With ?dry_run=true nothing is written and the response
+ * shows what each row would do, including its validation errors.
+ */
+export const importCatalogCsvAdmin = (entity: CatalogEntity) =>
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const dryRun = req.query.dry_run === 'true';
+
+    try {
+      const result = await new Catalog().importCsv(entity, readUploadedCsv(req), {
+        dryRun,
+        actorId: req.user?.id
+      });
+      if (!dryRun) {
+        await invalidateCatalogCache(entity);
+        if (entity === 'courses') {
+          notifyWishlistPriceDrops();
+        }
+      }
+
+      const message = dryRun
+        ? 'Dry run complete; nothing was written'
+        : `Imported ${result.created} new and ${result.updated} updated ${entity}`;
+      sendSuccessResponse(res, result, message);
+    } catch (error) {
+      if (isKnownError(error)) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  });
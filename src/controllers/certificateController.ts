@@ -0,0 +1,194 @@
+import { Request, Response } from 'express';
+import { Certificate } from '../models/Certificate';
+import { CourseProgress } from '../models/CourseProgress';
+import { RevokeCertificateRequest } from '../types';
+import { parseLimit } from '../utils/pagination';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  sendPaginatedResponse,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ForbiddenError ||
+  error instanceof ConflictError ||
+  error instanceof ValidationError;
+
+const parsePage = (value: unknown): number => {
+  const page = parseInt(value as string);
+  return isNaN(page) || page < 1 ? 1 : page;
+};
+
+const verifyUrl = (code: string): string =>
+  `${process.env.FRONTEND_URL || 'http://localhost:5173'}/certificates/${code}`;
+
+// ==================== PUBLIC CERTIFICATE ROUTES ====================
+
+export const verifyCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const certificate = await new Certificate().getByCode(req.params.code);
+    if (!certificate) {
+      throw new NotFoundError('Certificate');
+    }
+
+    sendSuccessResponse(res, {
+      verification_code: certificate.verification_code,
+      valid: certificate.status === 'active',
+      status: certificate.status,
+      student_name: certificate.student_name,
+      course_title: certificate.course_title,
+      instructor_name: certificate.instructor_name,
+      completion_date: certificate.completion_date,
+      issued_at: certificate.issued_at,
+      revoked_at: certificate.revoked_at
+    });
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const downloadCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const certificate = await new Certificate().getByCode(req.params.code);
+    // Revoked and superseded certificates can still be verified but not downloaded
+    if (!certificate || certificate.status !== 'active') {
+      throw new NotFoundError('Certificate');
+    }
+
+    res.setHeader('Content-Type', 'image/svg+xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="certificate-${certificate.verification_code}.svg"`);
+    res.status(200).send(Certificate.renderSvg(certificate, verifyUrl(certificate.verification_code)));
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== STUDENT CERTIFICATE ROUTES ====================
+
+export const getMyCertificates = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const certificates = await new Certificate().getStudentCertificates(req.user!.id);
+    res.status(200).json({
+      success: true,
+      data: certificates,
+      count: certificates.length
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+/**
+ * Certificate for one course. Issues it on first request when the course was completed
+ * before certificates existed or automatic issuing failed.
+ */
+export const getMyCourseCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const studentId = req.user!.id;
+
+  try {
+    const enrollment = await new CourseProgress().resolveCourseEnrollment(studentId, id);
+    if (!enrollment) {
+      throw new ForbiddenError('You are not enrolled in this course');
+    }
+    if (!enrollment.is_completed) {
+      throw new ForbiddenError('Complete the course to receive its certificate');
+    }
+
+    const certificateModel = new Certificate();
+    const certificate = await certificateModel.issueForEnrollment(String(enrollment.id))
+      || await certificateModel.getStudentCourseCertificate(studentId, id);
+    if (!certificate) {
+      throw new NotFoundError('Certificate');
+    }
+
+    sendSuccessResponse(res, certificate);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== CERTIFICATES ADMIN ROUTES ====================
+
+export const getCertificatesAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const page = parsePage(req.query.page);
+  const limit = parseLimit(req.query.limit);
+
+  try {
+    const { certificates, total } = await new Certificate().getCertificates({
+      course_id: typeof req.query.course_id === 'string' ? req.query.course_id : undefined,
+      student_id: typeof req.query.student_id === 'string' ? req.query.student_id : undefined,
+      status: typeof req.query.status === 'string' ? req.query.status : undefined,
+      page,
+      limit
+    });
+
+    sendPaginatedResponse(res, certificates, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const revokeCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { reason } = req.body as RevokeCertificateRequest;
+
+  try {
+    const certificateModel = new Certificate();
+    const existing = await certificateModel.getById(id);
+    if (!existing) {
+      throw new NotFoundError('Certificate');
+    }
+    if (existing.status !== 'active') {
+      throw new ConflictError(`Only active certificates can be revoked (this one is ${existing.status})`);
+    }
+
+    const certificate = await certificateModel.revoke(id, req.user?.id, reason);
+    if (!certificate) {
+      throw new ConflictError('The certificate was changed by another request');
+    }
+
+    sendSuccessResponse(res, certificate, 'Certificate revoked successfully');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const reissueCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const certificate = await new Certificate().reissue(req.params.id);
+    if (!certificate) {
+      throw new NotFoundError('Certificate');
+    }
+
+    sendSuccessResponse(res, certificate, 'Certificate reissued successfully', 201);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
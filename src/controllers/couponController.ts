@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { Coupon } from '../models/Coupon';
+import { Coupon as CouponRecord, CreateCouponRequest, UpdateCouponRequest } from '../types';
+import { parseLimit } from '../utils/pagination';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  sendPaginatedResponse,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ForbiddenError ||
+  error instanceof ConflictError ||
+  error instanceof ValidationError;
+
+const parsePage = (value: unknown): number => {
+  const page = parseInt(value as string);
+  return isNaN(page) || page < 1 ? 1 : page;
+};
+
+/**
+ * Checks the rules that span several fields, against the stored coupon when updating
+ */
+const validateCouponRules = (data: UpdateCouponRequest, existing?: CouponRecord): void => {
+  const discountType = data.discount_type ?? existing?.discount_type;
+  const discountValue = data.discount_value ?? (existing ? parseFloat(existing.discount_value) : undefined);
+  if (discountType === 'percentage' && discountValue !== undefined && discountValue > 100) {
+    throw new ValidationError('A percentage discount cannot exceed 100');
+  }
+  const currency = data.currency !== undefined ? data.currency : existing?.currency;
+  if (discountType === 'fixed' && !currency) {
+    throw new ValidationError('A fixed discount needs the currency it is written in');
+  }
+
+  const scopeType = data.scope_type ?? existing?.scope_type ?? 'all';
+  const scopeId = data.scope_id !== undefined ? data.scope_id : existing?.scope_id;
+  if (scopeType === 'all') {
+    data.scope_id = null;
+  } else if (!scopeId) {
+    throw new ValidationError(`scope_id is required for ${scopeType} coupons`);
+  }
+
+  const startsAt = data.starts_at !== undefined ? data.starts_at : existing?.starts_at;
+  const expiresAt = data.expires_at !== undefined ? data.expires_at : existing?.expires_at;
+  if (startsAt && expiresAt && new Date(expiresAt).getTime() <= new Date(startsAt).getTime()) {
+    throw new ValidationError('expires_at must be after starts_at');
+  }
+};
+
+// ==================== COUPONS ADMIN ROUTES ====================
+
+export const getCouponsAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const coupons = await new Coupon().getCoupons();
+    res.status(200).json({
+      success: true,
+      data: coupons,
+      count: coupons.length
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const createCoupon = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const couponData = req.body as CreateCouponRequest;
+
+  try {
+    validateCouponRules(couponData);
+
+    const couponModel = new Coupon();
+    if (await couponModel.getByCode(couponData.code)) {
+      throw new ConflictError(`Coupon code '${Coupon.normalizeCode(couponData.code)}' already exists`);
+    }
+
+    const coupon = await couponModel.createCoupon(couponData, req.user?.id);
+    sendSuccessResponse(res, coupon, 'Coupon created successfully', 201);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const updateCoupon = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const couponData = req.body as UpdateCouponRequest;
+
+  try {
+    const couponModel = new Coupon();
+    const existing = await couponModel.getCouponById(id);
+    if (!existing) {
+      throw new NotFoundError('Coupon');
+    }
+    validateCouponRules(couponData, existing);
+
+    if (couponData.code && Coupon.normalizeCode(couponData.code) !== existing.code) {
+      const duplicate = await couponModel.getByCode(couponData.code);
+      if (duplicate) {
+        throw new ConflictError(`Coupon code '${Coupon.normalizeCode(couponData.code)}' already exists`);
+      }
+    }
+
+    const coupon = await couponModel.updateCoupon(id, couponData);
+    sendSuccessResponse(res, coupon, 'Coupon updated successfully');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const deleteCoupon = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const couponModel = new Coupon();
+    const existing = await couponModel.getCouponById(id);
+    if (!existing) {
+      throw new NotFoundError('Coupon');
+    }
+
+    // Redemptions are part of order history; used coupons are deactivated instead
+    if (await couponModel.countRedemptions(id) > 0) {
+      throw new ConflictError('This coupon has been used; set is_active to false instead of deleting it');
+    }
+
+    await couponModel.deleteCoupon(id);
+    sendSuccessResponse(res, null, 'Coupon deleted successfully');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getCouponRedemptions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const page = parsePage(req.query.page);
+  const limit = parseLimit(req.query.limit);
+
+  try {
+    const couponModel = new Coupon();
+    if (!(await couponModel.getCouponById(id))) {
+      throw new NotFoundError('Coupon');
+    }
+
+    const { redemptions, total } = await couponModel.getRedemptions(id, { page, limit });
+    sendPaginatedResponse(res, redemptions, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
@@ -2,8 +2,10 @@ import { Request, Response } from 'express';
 import { Category } from '../models/Category';
 import { Field } from '../models/Field';
 import { Course } from '../models/Course';
-import { ApiResponse, Category as CategoryType, Field as FieldType, Course as CourseType } from '../types';
+import { ApiResponse, Category as CategoryType, Field as FieldType, Course as CourseType, CourseSearchResult } from '../types';
 import { cacheManager } from '../utils/cacheManager';
+import { CursorPage, decodeCursor, parseCourseSort, parseLimit } from '../utils/pagination';
+import { AppError, sendPaginatedResponse } from '../middleware/errorHandler';
 import { gracefulDegradation } from '../utils/gracefulDegradation';
 import { circuitBreakers } from '../utils/circuitBreaker';
 import { logger } from '../utils/logger';
@@ -133,21 +135,24 @@ export const getFieldsByCategory = async (req: Request, res: Response): Promise<
 // Fields Controller
 export const getAllFields = async (req: Request, res: Response): Promise<void> => {
   try {
+    const limit = parseLimit(req.query.limit);
+    const cursor = decodeCursor(req.query.cursor, 'sort_order');
+
     const fieldModel = new Field();
-    const fields = await fieldModel.getAllFields();
-    
-    const response: ApiResponse<FieldType[]> = {
-      success: true,
-      data: fields,
-      count: fields.length
-    };
-    res.status(200).json(response);
+    const page = await fieldModel.getFieldPage({ cursor, limit });
+
+    sendPaginatedResponse(res, page.items, {
+      limit,
+      sort: 'sort_order',
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore
+    });
   } catch (error) {
     const response: ApiResponse = {
       success: false,
       error: (error as Error).message
     };
-    res.status(500).json(response);
+    res.status(error instanceof AppError ? error.statusCode : 500).json(response);
   }
 };
 
@@ -184,21 +189,25 @@ export const getFieldById = async (req: Request, res: Response): Promise<void> =
 export const getCoursesByField = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const fieldModel = new Field();
-    const courses = await fieldModel.getCoursesByFieldId(id);
-    
-    const response: ApiResponse<CourseType[]> = {
-      success: true,
-      data: courses,
-      count: courses.length
-    };
-    res.status(200).json(response);
+    const limit = parseLimit(req.query.limit);
+    const sort = parseCourseSort(req.query.sort);
+    const cursor = decodeCursor(req.query.cursor, sort);
+
+    const courseModel = new Course();
+    const page = await courseModel.getCoursePage({ field_id: id }, { sort, cursor, limit });
+
+    sendPaginatedResponse(res, page.items, {
+      limit,
+      sort,
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore
+    });
   } catch (error) {
     const response: ApiResponse = {
       success: false,
       error: (error as Error).message
     };
-    res.status(500).json(response);
+    res.status(error instanceof AppError ? error.statusCode : 500).json(response);
   }
 };
 
@@ -206,32 +215,65 @@ export const getCoursesByField = async (req: Request, res: Response): Promise<vo
 export const getAllCourses = async (req: Request, res: Response): Promise<void> => {
   try {
     const filters = req.query;
-    
+    const limit = parseLimit(filters.limit);
+
+    // A free-text query switches to ranked search with facet counts
+    if (typeof filters.q === 'string' && filters.q.trim()) {
+      await searchCourses(filters, limit, res);
+      return;
+    }
+
+    const sort = parseCourseSort(filters.sort);
+    const cursor = decodeCursor(filters.cursor, sort);
+
     // Try to get from cache first
-    let courses = await cacheManager.getCachedCourses(filters);
+    let page: CursorPage<CourseType> | null = await cacheManager.getCachedCoursePage(filters);
     
-    if (!courses) {
+    if (!page) {
       // Cache miss - fetch from database
       const courseModel = new Course();
-      courses = await courseModel.getAllCourses(filters);
+      page = await courseModel.getCoursePage(filters, { sort, cursor, limit });
       
       // Cache the result
-      await cacheManager.cacheCourses(courses, filters);
+      await cacheManager.cacheCoursePage(page, filters);
     }
     
-    const response: ApiResponse<CourseType[]> = {
-      success: true,
-      data: courses,
-      count: courses.length
-    };
-    res.status(200).json(response);
+    sendPaginatedResponse(res, page.items, {
+      limit,
+      sort,
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore
+    });
   } catch (error) {
     const response: ApiResponse = {
       success: false,
       error: (error as Error).message
     };
-    res.status(500).json(response);
+    res.status(error instanceof AppError ? error.statusCode : 500).json(response);
+  }
+};
+
+const searchCourses = async (filters: Request['query'], limit: number, res: Response): Promise<void> => {
+  let result: CourseSearchResult | null = await cacheManager.getCachedCourseSearch(filters);
+
+  if (!result) {
+    const courseModel = new Course();
+    result = await courseModel.searchCourses(filters, {
+      cursor: decodeCursor(filters.cursor, 'relevance'),
+      limit
+    });
+    await cacheManager.cacheCourseSearch(result, filters);
   }
+
+  sendPaginatedResponse(res, result.courses, {
+    limit,
+    sort: 'relevance',
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore
+  }, undefined, {
+    total: result.total,
+    facets: result.facets
+  });
 };
 
 export const getCourseById = async (req: Request, res: Response): Promise<void> => {
@@ -324,13 +366,31 @@ export const enrollInCourse = async (req: Request, res: Response): Promise<void>
       return;
     }
     
+    // Paid courses are only enrolled through checkout once payment is confirmed
+    const course = await courseModel.getCourseById(id);
+    if (!course) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Course not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+    if (!course.is_free && Number(course.price) > 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'This course requires payment. Start a checkout at /api/payments/checkout'
+      };
+      res.status(402).json(response);
+      return;
+    }
+
     // Enroll user
     const enrollment = await courseModel.enrollUser(userId, id);
 
     // Fire-and-forget enrollment confirmation email
     try {
-      const course = await courseModel.getCourseById(id);
-      if (userEmail && course) {
+      if (userEmail) {
         const html = `<html><body style=\"margin:0; padding:0; background:#f5f7fa; font-family:Arial, Helvetica, sans-serif;\"><div style=\"max-width:600px; margin:30px auto; background:white; border-radius:12px; overflow:hidden; box-shadow:0 4px 18px rgba(0,0,0,0.06);\"><div style=\"background:#1e3a8a; padding:22px; text-align:center;\"><img src=\"https://academy.zenow.in/zenow-academy-logo-medium.svg\" alt=\"Zenow Academy\" style=\"width:180px; filter:brightness(0) invert(1);\" /></div><div style=\"padding:30px; color:#333;\"><h2 style=\"color:#1e3a8a; margin-bottom:14px; text-align:center; font-size:24px;\">Enrollment Confirmed</h2><p style=\"font-size:15px; line-height:24px;\">You have successfully enrolled in <strong>${course.title}</strong>.</p><p style=\"font-size:15px; line-height:24px;\">We wish you a great learning journey!</p><div style=\"text-align:center; margin-top:25px;\"><a href=\"https://academy.zenow.in\" style=\"display:inline-block; padding:12px 24px; background:#1e3a8a; color:white; text-decoration:none; border-radius:8px; font-size:16px;\">Go to Dashboard</a></div></div><div style=\"background:#f1f1f1; padding:15px; text-align:center; color:#888; font-size:13px;\">© 2025 Zenow Academy. All rights reserved.</div></div></body></html>`;
         handleSendEmail(userEmail, `Enrollment Confirmed - ${course.title}`, html).catch(() => {});
       }
@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import { CourseRevision } from '../models/CourseRevision';
+import { Curriculum } from '../models/Curriculum';
+import { CourseRevisionEntity, UpdateModuleRequest } from '../types';
+import { notifyWishlistPriceDrops } from '../services/wishlistNotifier';
+import { cacheManager } from '../utils/cacheManager';
+import { parseLimit } from '../utils/pagination';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  sendPaginatedResponse,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ConflictError ||
+  error instanceof ValidationError;
+
+const parsePage = (value: unknown): number => {
+  const page = parseInt(value as string);
+  return isNaN(page) || page < 1 ? 1 : page;
+};
+
+const notFoundName = (entityType: CourseRevisionEntity): string => (entityType === 'course' ? 'Course' : 'Module');
+
+const findRevision = async (entityType: CourseRevisionEntity, entityId: string, revision: unknown) => {
+  const revisionNumber = parseInt(revision as string);
+  const found = isNaN(revisionNumber) ? null : await new CourseRevision().getRevision(entityType, entityId, revisionNumber);
+  if (!found) {
+    throw new NotFoundError('Revision');
+  }
+  return found;
+};
+
+// ==================== COURSE REVISION ADMIN ROUTES ====================
+// Each handler serves both /courses/:id/revisions and /modules/:id/revisions
+
+export const getRevisionsAdmin = (entityType: CourseRevisionEntity) =>
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const page = parsePage(req.query.page);
+    const limit = parseLimit(req.query.limit);
+
+    try {
+      const { revisions, total } = await new CourseRevision().getRevisions(entityType, req.params.id, { page, limit });
+
+      sendPaginatedResponse(res, revisions, {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      });
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  });
+
+export const getRevisionAdmin = (entityType: CourseRevisionEntity) =>
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      sendSuccessResponse(res, await findRevision(entityType, req.params.id, req.params.revision));
+    } catch (error) {
+      if (isKnownError(error)) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  });
+
+/**
+ * Field-level differences going from revision ?from= to revision ?to=
+ */
+export const compareRevisionsAdmin = (entityType: CourseRevisionEntity) =>
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    try {
+      const from = await findRevision(entityType, id, req.query.from);
+      const to = await findRevision(entityType, id, req.query.to);
+
+      sendSuccessResponse(res, {
+        from_revision: from.revision_number,
+        to_revision: to.revision_number,
+        changes: CourseRevision.diffSnapshots(from.snapshot || {}, to.snapshot || {})
+      });
+    } catch (error) {
+      if (isKnownError(error)) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  });
+
+/**
+ * Puts a course or module back to an earlier revision. The restore is itself stored as a
+ * new revision, so it can be undone the same way.
+ */
+export const restoreRevisionAdmin = (entityType: CourseRevisionEntity) =>
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const editor = CourseRevision.editorFor(req.user);
+
+    try {
+      const revision = await findRevision(entityType, id, req.params.revision);
+
+      let courseId: string;
+      if (entityType === 'course') {
+        if (!(await new CourseRevision().restoreCourse(id, revision, editor))) {
+          throw new NotFoundError(notFoundName(entityType));
+        }
+        courseId = id;
+        notifyWishlistPriceDrops(courseId);
+      } else {
+        const lesson = await new Curriculum().updateLesson(
+          id,
+          (revision.snapshot || {}) as UpdateModuleRequest,
+          editor,
+          revision.revision_number
+        );
+        if (!lesson) {
+          throw new NotFoundError(notFoundName(entityType));
+        }
+        courseId = String(lesson.course_id);
+      }
+
+      try {
+        await cacheManager.invalidateCourseCache(parseInt(courseId));
+      } catch (error) {
+        console.error('Error invalidating course cache after revision restore:', error);
+      }
+
+      const latest = await new CourseRevision().getRevisions(entityType, id, { page: 1, limit: 1 });
+      sendSuccessResponse(res, latest.revisions[0] || null, `Restored revision ${revision.revision_number}`);
+    } catch (error) {
+      if (isKnownError(error)) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  });
@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import { CoursePublishing } from '../models/CoursePublishing';
+import { ChangeCourseStatusRequest } from '../types';
+import { cacheManager } from '../utils/cacheManager';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ConflictError ||
+  error instanceof ValidationError;
+
+// ==================== COURSE STATUS ROUTES ====================
+// Shared by the admin and instructor routers; instructor routes check ownership first
+
+export const getCourseStatusHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const history = await new CoursePublishing().getHistory(req.params.courseId);
+    res.status(200).json({
+      success: true,
+      data: history,
+      count: history.length
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+/**
+ * Moves a course to any status the lifecycle allows, e.g. archiving or unpublishing it
+ */
+export const changeCourseStatusAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { courseId } = req.params;
+  const { status, comment, publish_at } = req.body as ChangeCourseStatusRequest;
+
+  try {
+    const change = await new CoursePublishing().transition(courseId, status, {
+      role: 'admin',
+      actorId: req.user!.id,
+      comment,
+      publishAt: publish_at ? new Date(publish_at) : null
+    });
+    if (!change) {
+      throw new NotFoundError('Course');
+    }
+
+    try {
+      await cacheManager.invalidateCourseCache(parseInt(courseId));
+    } catch (error) {
+      console.error('Error invalidating course cache after status change:', error);
+    }
+
+    sendSuccessResponse(res, change, 'Course status updated successfully');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { CourseTemplate } from '../models/CourseTemplate';
+import { Instructor } from '../models/Instructor';
+import { CourseTemplate as CourseTemplateType } from '../types';
+import { cacheManager } from '../utils/cacheManager';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ConflictError ||
+  error instanceof ValidationError;
+
+const invalidateCourseCache = async (): Promise<void> => {
+  try {
+    await cacheManager.invalidateCourseCache();
+  } catch (error) {
+    console.error('Error invalidating course cache after course copy:', error);
+  }
+};
+
+// ==================== COURSE TEMPLATE ADMIN ROUTES ====================
+
+/**
+ * Copies a course with its curriculum, quizzes, assignment settings and prices into a new draft
+ */
+export const cloneCourseAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const courseId = await new CourseTemplate().cloneCourse(req.params.id, req.user?.id);
+    if (!courseId) {
+      throw new NotFoundError('Course');
+    }
+    await invalidateCourseCache();
+
+    sendSuccessResponse(res, await new Instructor().getCourse(courseId), 'Course cloned as a draft', 201);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+/**
+ * Downloads the course as a template document that POST /admin/courses/import accepts as is
+ */
+export const exportCourseAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const template = await new CourseTemplate().exportCourse(req.params.id);
+    if (!template) {
+      throw new NotFoundError('Course');
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="course-${template.course.slug}.json"`);
+    res.status(200).json(template);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const importCourseAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const courseId = await new CourseTemplate().importCourse(req.body as CourseTemplateType, { actorId: req.user?.id });
+    await invalidateCourseCache();
+
+    sendSuccessResponse(res, await new Instructor().getCourse(courseId), 'Course imported as a draft', 201);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
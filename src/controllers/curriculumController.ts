@@ -0,0 +1,228 @@
+import { Request, Response } from 'express';
+import { Course } from '../models/Course';
+import { Curriculum } from '../models/Curriculum';
+import { CourseRevision } from '../models/CourseRevision';
+import {
+  CreateModuleRequest,
+  CreateSectionRequest,
+  CurriculumOrderRequest,
+  UpdateModuleRequest,
+  UpdateSectionRequest
+} from '../types';
+import { cacheManager } from '../utils/cacheManager';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  NotFoundError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+// Course payloads carry the curriculum snapshot, so cached course responses go stale on every edit
+const invalidateCurriculumCache = async (courseId?: string): Promise<void> => {
+  try {
+    await cacheManager.invalidateCourseCache(courseId ? parseInt(courseId) : undefined);
+  } catch (error) {
+    console.error('Error invalidating course cache after curriculum change:', error);
+  }
+};
+
+// ==================== PUBLIC CURRICULUM ROUTES ====================
+
+export const getPublicCurriculum = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const course = await new Course().getCourseById(id);
+    if (!course) {
+      throw new NotFoundError('Course');
+    }
+
+    // Gated lessons are listed without their content_url; free-preview lessons keep it
+    const curriculum = await new Curriculum().getCurriculum(id, false);
+    sendSuccessResponse(res, curriculum);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== CURRICULUM ADMIN ROUTES ====================
+
+export const getCurriculumAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { courseId } = req.params;
+
+  try {
+    const curriculumModel = new Curriculum();
+    if (!(await curriculumModel.courseExists(courseId))) {
+      throw new NotFoundError('Course');
+    }
+
+    const curriculum = await curriculumModel.getCurriculum(courseId, true);
+    sendSuccessResponse(res, curriculum);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getCourseLessonsAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { courseId } = req.params;
+
+  try {
+    const curriculumModel = new Curriculum();
+    if (!(await curriculumModel.courseExists(courseId))) {
+      throw new NotFoundError('Course');
+    }
+
+    const lessons = await curriculumModel.getLessons(courseId);
+    res.status(200).json({
+      success: true,
+      data: lessons,
+      count: lessons.length
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const createSection = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { courseId } = req.params;
+
+  try {
+    const curriculumModel = new Curriculum();
+    if (!(await curriculumModel.courseExists(courseId))) {
+      throw new NotFoundError('Course');
+    }
+
+    const section = await curriculumModel.createSection(courseId, req.body as CreateSectionRequest);
+    await invalidateCurriculumCache(courseId);
+    sendSuccessResponse(res, section, 'Section created successfully', 201);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const updateSection = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const section = await new Curriculum().updateSection(req.params.sectionId, req.body as UpdateSectionRequest);
+    if (!section) {
+      throw new NotFoundError('Section');
+    }
+
+    await invalidateCurriculumCache(String(section.course_id));
+    sendSuccessResponse(res, section, 'Section updated successfully');
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const deleteSection = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await new Curriculum().deleteSection(req.params.sectionId);
+    if (!deleted) {
+      throw new NotFoundError('Section');
+    }
+
+    await invalidateCurriculumCache();
+    sendSuccessResponse(res, null, 'Section deleted successfully');
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const createLesson = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { courseId } = req.params;
+
+  try {
+    const curriculumModel = new Curriculum();
+    if (!(await curriculumModel.courseExists(courseId))) {
+      throw new NotFoundError('Course');
+    }
+
+    const lesson = await curriculumModel.createLesson(courseId, req.body as CreateModuleRequest);
+    await invalidateCurriculumCache(courseId);
+    sendSuccessResponse(res, lesson, 'Module created successfully', 201);
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const updateLesson = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const lesson = await new Curriculum().updateLesson(
+      req.params.moduleId,
+      req.body as UpdateModuleRequest,
+      CourseRevision.editorFor(req.user)
+    );
+    if (!lesson) {
+      throw new NotFoundError('Module');
+    }
+
+    await invalidateCurriculumCache(String(lesson.course_id));
+    sendSuccessResponse(res, lesson, 'Module updated successfully');
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const deleteLesson = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await new Curriculum().deleteLesson(req.params.moduleId);
+    if (!deleted) {
+      throw new NotFoundError('Module');
+    }
+
+    await invalidateCurriculumCache();
+    sendSuccessResponse(res, null, 'Module deleted successfully');
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const reorderCurriculum = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { courseId } = req.params;
+
+  try {
+    const curriculumModel = new Curriculum();
+    if (!(await curriculumModel.courseExists(courseId))) {
+      throw new NotFoundError('Course');
+    }
+
+    await curriculumModel.reorderCurriculum(courseId, req.body as CurriculumOrderRequest);
+    await invalidateCurriculumCache(courseId);
+
+    const curriculum = await curriculumModel.getCurriculum(courseId, true);
+    sendSuccessResponse(res, curriculum, 'Curriculum order updated');
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
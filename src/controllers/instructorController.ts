@@ -0,0 +1,352 @@
+import { Request, Response } from 'express';
+import { Instructor } from '../models/Instructor';
+import { CoursePublishing } from '../models/CoursePublishing';
+import { CourseReviewDecisionRequest, InstructorCourseRequest } from '../types';
+import handleSendEmail from '../services/emailService';
+import { notifyWishlistPriceDrops } from '../services/wishlistNotifier';
+import { cacheManager } from '../utils/cacheManager';
+import { parseLimit } from '../utils/pagination';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  sendPaginatedResponse,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ConflictError ||
+  error instanceof ValidationError;
+
+const parsePage = (value: unknown): number => {
+  const page = parseInt(value as string);
+  return isNaN(page) || page < 1 ? 1 : page;
+};
+
+// Accepts tags as an array or a comma-separated string, like the course admin forms send them
+const normalizeTags = (tags: string[] | string | undefined | null): string[] | null | undefined => {
+  if (tags === undefined || tags === null) {
+    return tags;
+  }
+  const tagArray = Array.isArray(tags) ? tags : tags.split(',');
+  return tagArray.map(tag => tag.trim()).filter(tag => tag !== '');
+};
+
+const parseCourseFilter = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' || !value) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new ValidationError('course_id must be a course id');
+  }
+  return value;
+};
+
+// Course pages carry the course fields, so cached course responses go stale on every change
+const invalidateCourseCache = async (courseId?: string): Promise<void> => {
+  try {
+    await cacheManager.invalidateCourseCache(courseId ? parseInt(courseId) : undefined);
+  } catch (error) {
+    console.error('Error invalidating course cache after instructor change:', error);
+  }
+};
+
+const sendReviewDecisionEmail = (course: any, approved: boolean): void => {
+  try {
+    if (!course.instructor_email) {
+      return;
+    }
+    const scheduled = course.status === 'scheduled';
+    const heading = !approved ? 'Changes Requested' : scheduled ? 'Your Course Is Approved' : 'Your Course Is Live';
+    const message = approved
+      ? scheduled
+        ? `<strong>${course.title}</strong> has been approved and will be published on ${new Date(course.publish_at).toUTCString()}.`
+        : `<strong>${course.title}</strong> has been approved and is now published on Zenow Academy.`
+      : `<strong>${course.title}</strong> needs a few changes before it can be published. Update the course and submit it again from your instructor dashboard.`;
+    const note = course.review_note
+      ? `<div style=\"background:#eef4ff; border-left:5px solid #1e3a8a; padding:15px; margin:20px 0; border-radius:8px; font-size:15px;\"><p style=\"margin:0;\"><strong>Reviewer note:</strong> ${course.review_note}</p></div>`
+      : '';
+    const html = `<html><body style=\"margin:0; padding:0; background:#f5f7fa; font-family:Arial, Helvetica, sans-serif;\"><div style=\"max-width:600px; margin:30px auto; background:white; border-radius:12px; overflow:hidden; box-shadow:0 4px 18px rgba(0,0,0,0.06);\"><div style=\"background:#1e3a8a; padding:22px; text-align:center;\"><img src=\"https://academy.zenow.in/zenow-academy-logo-medium.svg\" alt=\"Zenow Academy\" style=\"width:180px; filter:brightness(0) invert(1);\" /></div><div style=\"padding:30px; color:#333;\"><h2 style=\"color:#1e3a8a; margin-bottom:14px; text-align:center; font-size:24px;\">${heading}</h2><p style=\"font-size:15px; line-height:24px;\">Hello ${course.instructor_first_name || 'there'},</p><p style=\"font-size:15px; line-height:24px;\">${message}</p>${note}<div style=\"text-align:center; margin-top:25px;\"><a href=\"https://academy.zenow.in\" style=\"display:inline-block; padding:12px 24px; background:#1e3a8a; color:white; text-decoration:none; border-radius:8px; font-size:16px;\">Go to Zenow Academy</a></div></div><div style=\"background:#f1f1f1; padding:15px; text-align:center; color:#888; font-size:13px;\">© 2025 Zenow Academy. All rights reserved.</div></div></body></html>`;
+    handleSendEmail(course.instructor_email, `${heading} - ${course.title}`, html).catch(() => {});
+  } catch {}
+};
+
+// ==================== INSTRUCTOR DASHBOARD ROUTES ====================
+
+export const getInstructorDashboard = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const dashboard = await new Instructor().getDashboard(req.user!.id);
+    sendSuccessResponse(res, dashboard);
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getInstructorEnrollments = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const page = parsePage(req.query.page);
+  const limit = parseLimit(req.query.limit);
+
+  try {
+    const { enrollments, total } = await new Instructor().getEnrollments(req.user!.id, {
+      courseId: parseCourseFilter(req.query.course_id),
+      page,
+      limit
+    });
+
+    sendPaginatedResponse(res, enrollments, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getInstructorReviews = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const page = parsePage(req.query.page);
+  const limit = parseLimit(req.query.limit);
+
+  try {
+    const { reviews, total } = await new Instructor().getReviews(req.user!.id, {
+      courseId: parseCourseFilter(req.query.course_id),
+      page,
+      limit
+    });
+
+    sendPaginatedResponse(res, reviews, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getInstructorRevenue = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revenue = await new Instructor().getRevenue(req.user!.id);
+    res.status(200).json({
+      success: true,
+      data: revenue,
+      count: revenue.length
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== INSTRUCTOR COURSE ROUTES ====================
+// Ownership of :courseId is checked by requireCourseOwner before these handlers run
+
+export const getInstructorCourses = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const courses = await new Instructor().getCourses(req.user!.id);
+    res.status(200).json({
+      success: true,
+      data: courses,
+      count: courses.length
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getInstructorCourse = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const course = await new Instructor().getCourse(req.params.courseId);
+    if (!course) {
+      throw new NotFoundError('Course');
+    }
+    sendSuccessResponse(res, course);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const createInstructorCourse = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const courseData = req.body as InstructorCourseRequest;
+
+  try {
+    const course = await new Instructor().createCourse(req.user!.id, {
+      ...courseData,
+      tags: normalizeTags(courseData.tags)
+    });
+    await invalidateCourseCache();
+
+    sendSuccessResponse(res, course, 'Course created as a draft', 201);
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const updateInstructorCourse = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { courseId } = req.params;
+  const courseData = req.body as Partial<InstructorCourseRequest>;
+
+  try {
+    const course = await new Instructor().updateCourse(courseId, {
+      ...courseData,
+      tags: normalizeTags(courseData.tags)
+    }, req.user!.id);
+    if (!course) {
+      throw new NotFoundError('Course');
+    }
+    await invalidateCourseCache(courseId);
+    if (courseData.price !== undefined || courseData.is_free !== undefined) {
+      notifyWishlistPriceDrops(courseId);
+    }
+
+    sendSuccessResponse(res, course, 'Course updated successfully');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const deleteInstructorCourse = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { courseId } = req.params;
+
+  try {
+    const deleted = await new Instructor().deleteDraftCourse(courseId);
+    if (!deleted) {
+      throw new ConflictError('Only unpublished courses without enrollments or orders can be deleted');
+    }
+    await invalidateCourseCache(courseId);
+
+    sendSuccessResponse(res, null, 'Course deleted successfully');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const submitCourseForReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { courseId } = req.params;
+
+  try {
+    const instructorModel = new Instructor();
+    const course = await instructorModel.getCourse(courseId);
+    if (!course) {
+      throw new NotFoundError('Course');
+    }
+
+    const notSubmittable = Instructor.checkSubmittable(course, parseInt(course.lesson_count) || 0);
+    if (notSubmittable) {
+      throw new ValidationError(notSubmittable);
+    }
+
+    await new CoursePublishing().transition(courseId, 'in_review', {
+      role: 'instructor',
+      actorId: req.user!.id,
+      expectedFrom: 'draft'
+    });
+
+    sendSuccessResponse(res, await instructorModel.getCourse(courseId), 'Course submitted for review');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const withdrawCourseFromReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { courseId } = req.params;
+
+  try {
+    const change = await new CoursePublishing().transition(courseId, 'draft', {
+      role: 'instructor',
+      actorId: req.user!.id,
+      expectedFrom: 'in_review'
+    });
+    if (!change) {
+      throw new NotFoundError('Course');
+    }
+
+    sendSuccessResponse(res, await new Instructor().getCourse(courseId), 'Course withdrawn from review');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== COURSE REVIEW ADMIN ROUTES ====================
+
+export const getCourseSubmissionsAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const page = parsePage(req.query.page);
+  const limit = parseLimit(req.query.limit);
+
+  try {
+    const { courses, total } = await new Instructor().getReviewQueue({ page, limit });
+
+    sendPaginatedResponse(res, courses, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+/**
+ * Approving publishes the course, or schedules it when publish_at is given; asking for
+ * changes sends it back to draft with the note
+ */
+export const reviewCourseSubmission = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { decision, note, publish_at } = req.body as CourseReviewDecisionRequest;
+  const approve = decision === 'approve';
+  const publishAt = publish_at ? new Date(publish_at) : null;
+
+  try {
+    const change = await new CoursePublishing().transition(
+      id,
+      approve ? (publishAt ? 'scheduled' : 'published') : 'draft',
+      { role: 'admin', actorId: req.user!.id, comment: note, publishAt, expectedFrom: 'in_review' }
+    );
+    if (!change) {
+      throw new NotFoundError('Course');
+    }
+    await invalidateCourseCache(id);
+
+    const course = await new Instructor().getCourse(id);
+    sendReviewDecisionEmail(course, approve);
+
+    const message = !approve
+      ? 'Changes requested from the instructor'
+      : publishAt ? 'Course approved and scheduled' : 'Course approved and published';
+    sendSuccessResponse(res, course, message);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
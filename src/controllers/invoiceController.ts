@@ -0,0 +1,157 @@
+import { Request, Response } from 'express';
+import { Invoice, InvoiceFilters } from '../models/Invoice';
+import { Invoice as InvoiceRecord } from '../types';
+import { parseLimit } from '../utils/pagination';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  sendPaginatedResponse,
+  NotFoundError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ValidationError;
+
+const parsePage = (value: unknown): number => {
+  const page = parseInt(value as string);
+  return isNaN(page) || page < 1 ? 1 : page;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FINANCIAL_YEAR_PATTERN = /^\d{4}-\d{2}$/;
+
+const parseFilters = (query: Request['query']): InvoiceFilters => {
+  const filters: InvoiceFilters = {};
+  for (const key of ['from', 'to'] as const) {
+    const value = query[key];
+    if (typeof value === 'string' && value) {
+      if (!DATE_PATTERN.test(value)) {
+        throw new ValidationError(`${key} must be a date in YYYY-MM-DD format`);
+      }
+      filters[key] = value;
+    }
+  }
+  if (typeof query.financial_year === 'string' && query.financial_year) {
+    if (!FINANCIAL_YEAR_PATTERN.test(query.financial_year)) {
+      throw new ValidationError('financial_year must look like 2025-26');
+    }
+    filters.financial_year = query.financial_year;
+  }
+  if (typeof query.currency === 'string' && query.currency) {
+    filters.currency = query.currency;
+  }
+  return filters;
+};
+
+const sendInvoiceHtml = (res: Response, invoice: InvoiceRecord): void => {
+  const fileName = invoice.invoice_number.replace(/\//g, '-');
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="invoice-${fileName}.html"`);
+  res.status(200).send(Invoice.renderHtml(invoice));
+};
+
+// ==================== STUDENT INVOICE ROUTES ====================
+
+export const getMyInvoices = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invoices = await new Invoice().getStudentInvoices(req.user!.id);
+    res.status(200).json({
+      success: true,
+      data: invoices,
+      count: invoices.length
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const downloadMyInvoice = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invoice = await new Invoice().getInvoiceById(req.params.id, req.user!.id);
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+    sendInvoiceHtml(res, invoice);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== INVOICES ADMIN ROUTES ====================
+
+export const getInvoicesAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const page = parsePage(req.query.page);
+  const limit = parseLimit(req.query.limit);
+
+  try {
+    const { invoices, total } = await new Invoice().getInvoices({ ...parseFilters(req.query), page, limit });
+
+    sendPaginatedResponse(res, invoices, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+/**
+ * CSV of every invoice matching the filters, oldest first, for accounting
+ */
+export const exportInvoicesAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const filters = parseFilters(req.query);
+    const invoices = await new Invoice().getInvoicesForExport(filters);
+    const suffix = filters.financial_year || [filters.from, filters.to].filter(Boolean).join('_to_') || 'all';
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="invoices-${suffix}.csv"`);
+    res.status(200).send(Invoice.toCsv(invoices));
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getInvoiceAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invoice = await new Invoice().getInvoiceById(req.params.id);
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+    sendSuccessResponse(res, invoice);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const downloadInvoiceAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invoice = await new Invoice().getInvoiceById(req.params.id);
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+    sendInvoiceHtml(res, invoice);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
@@ -0,0 +1,298 @@
+import { Request, Response } from 'express';
+import { Course } from '../models/Course';
+import { Bundle } from '../models/Bundle';
+import { Order, BillingRegion } from '../models/Order';
+import { CoursePrice } from '../models/CoursePrice';
+import { Invoice } from '../models/Invoice';
+import { Coupon, CouponItem } from '../models/Coupon';
+import {
+  Coupon as CouponRecord,
+  CreateCheckoutRequest,
+  PaymentProviderName,
+  PriceQuote,
+  PriceQuoteRequest
+} from '../types';
+import { getPaymentProvider } from '../services/paymentProviders';
+import handleSendEmail from '../services/emailService';
+import { logger } from '../utils/logger';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  AppError,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ForbiddenError ||
+  error instanceof ConflictError ||
+  error instanceof ValidationError;
+
+const frontendUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+/**
+ * Prices a course or bundle for a student in the currency of their country, applying a coupon
+ * code when given. Prices include tax. Throws for free items, items already owned and coupons
+ * that do not apply.
+ */
+const buildQuote = async (
+  studentId: string,
+  request: PriceQuoteRequest
+): Promise<{ quote: PriceQuote; coupon: CouponRecord | null; region: BillingRegion }> => {
+  const { item_type, item_id, coupon_code } = request;
+  let itemTitle: string;
+  let basePrice: number;
+  const couponItem: CouponItem = { type: item_type, id: item_id };
+
+  if (item_type === 'course') {
+    const courseModel = new Course();
+    const course = await courseModel.getCourseById(item_id);
+    if (!course) {
+      throw new NotFoundError('Course');
+    }
+    basePrice = Number(course.price) || 0;
+    if (course.is_free || basePrice <= 0) {
+      throw new ValidationError('This course is free; enroll directly instead');
+    }
+    if (await courseModel.getUserEnrollment(studentId, item_id)) {
+      throw new ConflictError('You are already enrolled in this course');
+    }
+    itemTitle = course.title;
+    couponItem.field_id = course.field_id;
+    couponItem.category_id = course.category_id;
+  } else {
+    const bundleModel = new Bundle();
+    const bundle = await bundleModel.getBundleById(item_id);
+    if (!bundle) {
+      throw new NotFoundError('Bundle');
+    }
+    basePrice = Number(bundle.bundle_price) || 0;
+    if (basePrice <= 0) {
+      throw new ValidationError('This bundle is free; enroll directly instead');
+    }
+    if (await bundleModel.getStudentEnrollment(studentId, item_id)) {
+      throw new ConflictError('You are already enrolled in this bundle');
+    }
+    itemTitle = bundle.title;
+  }
+
+  const region = await new Order().getBillingRegion(studentId);
+  const prices = await new CoursePrice().getPrices(item_type, item_id);
+  const { amount: subtotal, currency } = CoursePrice.pickPrice(prices, CoursePrice.currencyForCountry(region.country), basePrice);
+
+  let coupon: CouponRecord | null = null;
+  let discount = 0;
+  if (coupon_code) {
+    const couponModel = new Coupon();
+    coupon = await couponModel.getByCode(coupon_code);
+    if (!coupon) {
+      throw new ValidationError('Coupon code not found');
+    }
+
+    const [usage, hasPriorPurchase] = await Promise.all([
+      couponModel.getUsage(coupon.id, studentId),
+      coupon.first_purchase_only ? couponModel.hasPriorPurchase(studentId) : Promise.resolve(false)
+    ]);
+    const reason = Coupon.checkEligibility(coupon, { item: couponItem, amount: subtotal, currency, usage, hasPriorPurchase });
+    if (reason) {
+      throw new ValidationError(reason);
+    }
+    discount = Coupon.calculateDiscount(coupon, subtotal);
+  }
+
+  const total = Math.round((subtotal - discount) * 100) / 100;
+  const tax = Invoice.calculateTax(total, region);
+
+  return {
+    coupon,
+    region,
+    quote: {
+      item_type,
+      item_id,
+      item_title: itemTitle,
+      currency,
+      subtotal,
+      discount,
+      total,
+      tax: { type: tax.tax_type, rate: tax.tax_rate, amount: tax.tax_amount, inclusive: true },
+      coupon: coupon ? { id: coupon.id, code: coupon.code, description: coupon.description } : null
+    }
+  };
+};
+
+// ==================== STUDENT CHECKOUT ROUTES ====================
+
+export const getPriceQuote = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { quote } = await buildQuote(req.user!.id, req.body as PriceQuoteRequest);
+    sendSuccessResponse(res, quote);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const createCheckout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const checkoutRequest = req.body as CreateCheckoutRequest;
+  const studentId = req.user!.id;
+
+  try {
+    const provider = getPaymentProvider(checkoutRequest.provider);
+    if (!provider) {
+      throw new ValidationError(`Payment provider '${checkoutRequest.provider}' is not available`);
+    }
+
+    const { quote, coupon, region } = await buildQuote(studentId, checkoutRequest);
+
+    const orderModel = new Order();
+    const order = await orderModel.createOrder({
+      student_id: studentId,
+      item_type: quote.item_type,
+      item_id: quote.item_id,
+      item_title: quote.item_title,
+      subtotal: quote.subtotal,
+      discount: quote.discount,
+      amount: quote.total,
+      currency: quote.currency,
+      tax: quote.tax.amount,
+      billing: region,
+      provider: provider.name,
+      coupon_id: coupon?.id
+    });
+
+    // A coupon covering the full price needs no payment
+    if (quote.total <= 0) {
+      const result = await orderModel.completeFreeOrder(order.id);
+      if (result.status === 'rejected') {
+        throw new ValidationError(result.order?.failure_reason || 'Order could not be completed');
+      }
+      sendSuccessResponse(res, {
+        order: result.order,
+        checkout: null
+      }, 'Order completed successfully', 201);
+      return;
+    }
+
+    let session;
+    try {
+      session = await provider.createCheckout(order, {
+        customerEmail: req.user!.email,
+        successUrl: `${frontendUrl()}/checkout/success?order=${order.order_number}`,
+        cancelUrl: `${frontendUrl()}/checkout/cancel?order=${order.order_number}`
+      });
+    } catch (error) {
+      logger.error('Checkout Creation Error', error as Error, { orderNumber: order.order_number, provider: provider.name });
+      await orderModel.markFailed(order.id, 'Could not start checkout with the payment provider');
+      throw new AppError('Could not start checkout with the payment provider', 502, 'PAYMENT_PROVIDER_ERROR');
+    }
+
+    const saved = await orderModel.setProviderReference(order.id, session.reference);
+
+    sendSuccessResponse(res, {
+      order: saved,
+      checkout: {
+        provider: provider.name,
+        reference: session.reference,
+        redirect_url: session.redirectUrl
+      }
+    }, 'Checkout created successfully', 201);
+  } catch (error) {
+    if (isKnownError(error) || error instanceof AppError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getMyOrders = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const orders = await new Order().getStudentOrders(req.user!.id);
+    res.status(200).json({
+      success: true,
+      data: orders,
+      count: orders.length
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getMyOrder = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const order = await new Order().getStudentOrder(req.user!.id, req.params.orderNumber);
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+    sendSuccessResponse(res, order);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== PAYMENT WEBHOOKS ====================
+
+/**
+ * Provider callbacks. The signature is checked against the raw body before anything is
+ * read from it; redelivered events are acknowledged without being applied again.
+ */
+export const handlePaymentWebhook = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const provider = getPaymentProvider(req.params.provider);
+  if (!provider) {
+    throw new NotFoundError('Payment provider');
+  }
+  if (!req.rawBody) {
+    throw new ValidationError('Webhook body must be JSON');
+  }
+
+  const event = await provider.parseWebhook(req.rawBody, req.headers);
+  const providerName: PaymentProviderName = provider.name;
+
+  try {
+    const orderModel = new Order();
+
+    // PayPal only pays out once the approved order is captured; the capture sends its own event
+    if (event.outcome === 'approved' && event.reference && provider.capture
+      && !(await orderModel.isEventRecorded(providerName, event.id))) {
+      const order = await orderModel.getByProviderReference(providerName, event.reference);
+      if (order && order.status === 'pending') {
+        await provider.capture(event.reference);
+      }
+    }
+
+    const result = await orderModel.applyPaymentEvent(providerName, event);
+
+    logger.info('Payment Webhook Processed', {
+      provider: providerName,
+      eventId: event.id,
+      eventType: event.type,
+      status: result.status,
+      orderNumber: result.order?.order_number
+    });
+
+    // Fire-and-forget enrollment confirmation email
+    try {
+      if (result.status === 'fulfilled' && result.enrollmentCreated && result.student?.email && result.order) {
+        const order = result.order;
+        const html = `<html><body style=\"margin:0; padding:0; background:#f5f7fa; font-family:Arial, Helvetica, sans-serif;\"><div style=\"max-width:600px; margin:30px auto; background:white; border-radius:12px; overflow:hidden; box-shadow:0 4px 18px rgba(0,0,0,0.06);\"><div style=\"background:#1e3a8a; padding:22px; text-align:center;\"><img src=\"https://academy.zenow.in/zenow-academy-logo-medium.svg\" alt=\"Zenow Academy\" style=\"width:180px; filter:brightness(0) invert(1);\" /></div><div style=\"padding:30px; color:#333;\"><h2 style=\"color:#1e3a8a; margin-bottom:14px; text-align:center; font-size:24px;\">Payment Received</h2><p style=\"font-size:15px; line-height:24px;\">Hi ${result.student.first_name || 'there'},</p><p style=\"font-size:15px; line-height:24px;\">We received your payment of <strong>${order.currency} ${order.amount}</strong> for <strong>${order.item_title}</strong> (order ${order.order_number}). You are now enrolled.${result.invoice ? ` Your invoice ${result.invoice.invoice_number} can be downloaded from your profile.` : ''}</p><div style=\"text-align:center; margin-top:25px;\"><a href=\"https://academy.zenow.in\" style=\"display:inline-block; padding:12px 24px; background:#1e3a8a; color:white; text-decoration:none; border-radius:8px; font-size:16px;\">Start Learning</a></div></div><div style=\"background:#f1f1f1; padding:15px; text-align:center; color:#888; font-size:13px;\">© 2025 Zenow Academy. All rights reserved.</div></div></body></html>`;
+        handleSendEmail(result.student.email, `Enrollment Confirmed - ${order.item_title}`, html).catch(() => {});
+      }
+    } catch {}
+
+    res.status(200).json({
+      success: true,
+      data: { received: true, status: result.status }
+    });
+  } catch (error) {
+    logger.error('Payment Webhook Error', error as Error, { provider: providerName, eventId: event.id });
+    throw handleDatabaseError(error);
+  }
+});
@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { CoursePrice } from '../models/CoursePrice';
+import { OrderItemType, SetItemPricesRequest } from '../types';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  NotFoundError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ValidationError;
+
+const notFoundName = (itemType: OrderItemType): string => (itemType === 'course' ? 'Course' : 'Bundle');
+
+// ==================== PRICES ADMIN ROUTES ====================
+
+/**
+ * Handlers for one item type, mounted under /courses/:id/prices and /bundles/:id/prices
+ */
+export const getItemPricesAdmin = (itemType: OrderItemType) =>
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      const priceModel = new CoursePrice();
+      const base = await priceModel.getBasePrice(itemType, req.params.id);
+      if (!base) {
+        throw new NotFoundError(notFoundName(itemType));
+      }
+
+      sendSuccessResponse(res, {
+        base,
+        prices: await priceModel.getPrices(itemType, req.params.id)
+      });
+    } catch (error) {
+      if (isKnownError(error)) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  });
+
+export const setItemPricesAdmin = (itemType: OrderItemType) =>
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { prices } = req.body as SetItemPricesRequest;
+
+    try {
+      const priceModel = new CoursePrice();
+      const base = await priceModel.getBasePrice(itemType, req.params.id);
+      if (!base) {
+        throw new NotFoundError(notFoundName(itemType));
+      }
+      // The base currency is priced by the course or bundle itself
+      if (prices.some(price => price.currency.toUpperCase() === base.currency)) {
+        throw new ValidationError(`${base.currency} is the base currency; change the ${itemType} price instead`);
+      }
+
+      sendSuccessResponse(res, {
+        base,
+        prices: await priceModel.setPrices(itemType, req.params.id, prices)
+      }, 'Prices updated successfully');
+    } catch (error) {
+      if (isKnownError(error)) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  });
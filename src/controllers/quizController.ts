@@ -0,0 +1,341 @@
+import { Request, Response } from 'express';
+import { CourseProgress } from '../models/CourseProgress';
+import { Quiz } from '../models/Quiz';
+import {
+  CreateQuizQuestionRequest,
+  QuizAnswers,
+  UpdateQuizQuestionRequest,
+  UpdateQuizSettingsRequest
+} from '../types';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ForbiddenError ||
+  error instanceof ConflictError ||
+  error instanceof ValidationError;
+
+const attemptsRemaining = (maxAttempts: number | null, used: number): number | null =>
+  maxAttempts ? Math.max(maxAttempts - used, 0) : null;
+
+/**
+ * Loads the quiz module of an enrolled course, or throws
+ */
+const requireEnrolledQuiz = async (studentId: string, courseId: string, moduleId: string) => {
+  // Attempts and progress are keyed on the course-level enrollment, also for bundle access
+  const enrollment = await new CourseProgress().resolveCourseEnrollment(studentId, courseId);
+  if (!enrollment) {
+    throw new ForbiddenError('You must be enrolled in this course to take its quizzes');
+  }
+
+  const quiz = await new Quiz().getQuizModule(moduleId, courseId);
+  if (!quiz) {
+    throw new NotFoundError('Quiz');
+  }
+
+  return { enrollment, quiz };
+};
+
+// ==================== STUDENT QUIZ ROUTES ====================
+
+export const getQuizOverview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, moduleId } = req.params;
+  const studentId = req.user!.id;
+
+  try {
+    const { quiz } = await requireEnrolledQuiz(studentId, id, moduleId);
+    const quizModel = new Quiz();
+
+    const [questions, history, inProgress] = await Promise.all([
+      quizModel.getQuestions(moduleId),
+      quizModel.getAttemptHistory(studentId, moduleId),
+      quizModel.getInProgressAttempt(studentId, moduleId)
+    ]);
+    const submitted = history.filter(attempt => attempt.status === 'submitted');
+    const scores = submitted.map(attempt => parseFloat(String(attempt.score)) || 0);
+
+    sendSuccessResponse(res, {
+      module_id: String(quiz.id),
+      title: quiz.title,
+      description: quiz.description,
+      passing_score: quiz.passing_score,
+      max_attempts: quiz.max_attempts,
+      question_count: questions.length,
+      attempts_used: submitted.length,
+      attempts_remaining: attemptsRemaining(quiz.max_attempts, submitted.length),
+      best_score: scores.length > 0 ? Math.max(...scores) : null,
+      passed: submitted.some(attempt => attempt.passed),
+      in_progress_attempt_id: inProgress ? String(inProgress.id) : null
+    });
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const startQuizAttempt = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, moduleId } = req.params;
+  const studentId = req.user!.id;
+
+  try {
+    const { enrollment, quiz } = await requireEnrolledQuiz(studentId, id, moduleId);
+    const quizModel = new Quiz();
+
+    // Resume an unfinished attempt instead of burning another one
+    let attempt = await quizModel.getInProgressAttempt(studentId, moduleId);
+    let created = false;
+
+    if (!attempt) {
+      const used = await quizModel.countSubmittedAttempts(studentId, moduleId);
+      if (attemptsRemaining(quiz.max_attempts, used) === 0) {
+        throw new ForbiddenError('No attempts remaining for this quiz');
+      }
+
+      const questions = await quizModel.getQuestions(moduleId);
+      if (questions.length === 0) {
+        throw new ValidationError('This quiz has no questions yet');
+      }
+
+      const questionIds = questions.map(question => String(question.id));
+      attempt = await quizModel.startAttempt(
+        studentId,
+        moduleId,
+        enrollment.id,
+        quiz.shuffle_questions ? Quiz.shuffle(questionIds) : questionIds
+      );
+      created = attempt !== null;
+
+      // A concurrent request opened one first; resume that instead
+      attempt = attempt || await quizModel.getInProgressAttempt(studentId, moduleId);
+      if (!attempt) {
+        throw new ConflictError('Could not start a quiz attempt, please try again');
+      }
+    }
+
+    const questions = await quizModel.getQuestionsByIds(moduleId, attempt.question_ids.map(String));
+
+    sendSuccessResponse(res, {
+      attempt_id: String(attempt.id),
+      started_at: attempt.started_at,
+      passing_score: quiz.passing_score,
+      questions: questions.map(Quiz.toStudentQuestion)
+    }, created ? 'Quiz attempt started' : 'Resuming quiz attempt', created ? 201 : 200);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const submitQuizAttempt = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, moduleId, attemptId } = req.params;
+  const studentId = req.user!.id;
+  const answers = (req.body.answers || {}) as QuizAnswers;
+
+  try {
+    const { quiz } = await requireEnrolledQuiz(studentId, id, moduleId);
+    const quizModel = new Quiz();
+
+    const attempt = await quizModel.getAttempt(attemptId, studentId, moduleId);
+    if (!attempt) {
+      throw new NotFoundError('Quiz attempt');
+    }
+    if (attempt.status !== 'in_progress') {
+      throw new ConflictError('This attempt has already been submitted');
+    }
+
+    // An attempt opened before the limit was used up must not grade (or reveal answers) past it
+    const usedBefore = await quizModel.countSubmittedAttempts(studentId, moduleId);
+    if (attemptsRemaining(quiz.max_attempts, usedBefore) === 0) {
+      throw new ForbiddenError('No attempts remaining for this quiz');
+    }
+
+    // Grade only the questions served in this attempt
+    const questions = await quizModel.getQuestionsByIds(moduleId, attempt.question_ids.map(String));
+    const grade = Quiz.gradeQuiz(questions, answers, quiz.passing_score);
+
+    const submitted = await quizModel.submitAttempt(attemptId, answers, grade, quiz.max_attempts);
+    if (!submitted) {
+      const usedNow = await quizModel.countSubmittedAttempts(studentId, moduleId);
+      if (attemptsRemaining(quiz.max_attempts, usedNow) === 0) {
+        throw new ForbiddenError('No attempts remaining for this quiz');
+      }
+      throw new ConflictError('This attempt has already been submitted');
+    }
+
+    let progress = null;
+    if (grade.passed && attempt.enrollment_id) {
+      const progressModel = new CourseProgress();
+      await progressModel.markModuleCompleted(String(attempt.enrollment_id), moduleId);
+      progress = await progressModel.recalculateEnrollmentProgress(String(attempt.enrollment_id), id);
+    }
+
+    const used = await quizModel.countSubmittedAttempts(studentId, moduleId);
+    const remaining = attemptsRemaining(quiz.max_attempts, used);
+
+    // Correct answers are only revealed once they can no longer help a retry
+    const revealAnswers = grade.passed || remaining === 0;
+    const byId = new Map(questions.map(question => [String(question.id), question]));
+
+    sendSuccessResponse(res, {
+      attempt_id: String(submitted.id),
+      score: grade.score,
+      passed: grade.passed,
+      passing_score: quiz.passing_score,
+      points_earned: grade.points_earned,
+      points_possible: grade.points_possible,
+      attempts_remaining: remaining,
+      results: grade.results.map(result => ({
+        ...result,
+        ...(revealAnswers ? {
+          correct_answers: byId.get(result.question_id)?.correct_answers,
+          explanation: byId.get(result.question_id)?.explanation || null
+        } : {})
+      })),
+      progress
+    }, grade.passed ? 'Quiz passed' : 'Quiz submitted');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getQuizAttemptHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, moduleId } = req.params;
+  const studentId = req.user!.id;
+
+  try {
+    await requireEnrolledQuiz(studentId, id, moduleId);
+    const attempts = await new Quiz().getAttemptHistory(studentId, moduleId);
+
+    res.status(200).json({
+      success: true,
+      data: attempts,
+      count: attempts.length
+    });
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== QUIZ ADMIN ROUTES ====================
+
+const requireQuizModule = async (moduleId: string) => {
+  const quiz = await new Quiz().getQuizModule(moduleId);
+  if (!quiz) {
+    throw new NotFoundError('Quiz module');
+  }
+  return quiz;
+};
+
+export const getQuizAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { moduleId } = req.params;
+
+  try {
+    const quiz = await requireQuizModule(moduleId);
+    const questions = await new Quiz().getQuestions(moduleId);
+
+    sendSuccessResponse(res, {
+      ...quiz,
+      questions
+    });
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const updateQuizSettings = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { moduleId } = req.params;
+
+  try {
+    await requireQuizModule(moduleId);
+    const settings = await new Quiz().updateSettings(moduleId, req.body as UpdateQuizSettingsRequest);
+    sendSuccessResponse(res, settings, 'Quiz settings updated successfully');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const createQuizQuestion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { moduleId } = req.params;
+  const questionData = req.body as CreateQuizQuestionRequest;
+
+  try {
+    await requireQuizModule(moduleId);
+    Quiz.validateQuestion(questionData);
+
+    const question = await new Quiz().createQuestion(moduleId, questionData);
+    sendSuccessResponse(res, question, 'Question created successfully', 201);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const updateQuizQuestion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { questionId } = req.params;
+  const questionData = req.body as UpdateQuizQuestionRequest;
+
+  try {
+    const quizModel = new Quiz();
+    const existing = await quizModel.getQuestionById(questionId);
+    if (!existing) {
+      throw new NotFoundError('Question');
+    }
+
+    // Validate the question as it will look after the update
+    Quiz.validateQuestion({
+      question_type: questionData.question_type ?? existing.question_type,
+      prompt: questionData.prompt ?? existing.prompt,
+      options: questionData.options ?? existing.options ?? undefined,
+      correct_answers: questionData.correct_answers ?? existing.correct_answers ?? []
+    });
+
+    const question = await quizModel.updateQuestion(questionId, questionData);
+    sendSuccessResponse(res, question, 'Question updated successfully');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const deleteQuizQuestion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await new Quiz().deleteQuestion(req.params.questionId);
+    if (!deleted) {
+      throw new NotFoundError('Question');
+    }
+    sendSuccessResponse(res, null, 'Question deleted successfully');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
@@ -0,0 +1,24 @@
+import { Request, Response } from 'express';
+import { Recommendation } from '../models/Recommendation';
+import { asyncHandler, handleDatabaseError } from '../middleware/errorHandler';
+
+/**
+ * Courses for the current student ranked by their interests, learning goals, the fields of
+ * courses they have and what students with the same courses took. personalized is false when
+ * there was nothing to go on and the list is the most popular courses.
+ */
+export const getMyRecommendations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50);
+
+  try {
+    const { courses, personalized } = await new Recommendation().getRecommendations(req.user!.id, limit);
+    res.status(200).json({
+      success: true,
+      data: courses,
+      count: courses.length,
+      personalized
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
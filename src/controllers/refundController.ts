@@ -0,0 +1,234 @@
+import { Request, Response } from 'express';
+import { Order } from '../models/Order';
+import { RefundRequest } from '../models/RefundRequest';
+import { paymentService } from '../services/paymentService';
+import { SecurityMonitor } from '../services/securityMonitor';
+import { CreateRefundRequest, RefundDecisionRequest } from '../types';
+import { parseLimit } from '../utils/pagination';
+import { logger } from '../utils/logger';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  sendPaginatedResponse,
+  AppError,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const securityMonitor = new SecurityMonitor();
+
+const isKnownError = (error: unknown): boolean =>
+  error instanceof NotFoundError ||
+  error instanceof ForbiddenError ||
+  error instanceof ConflictError ||
+  error instanceof ValidationError;
+
+const parsePage = (value: unknown): number => {
+  const page = parseInt(value as string);
+  return isNaN(page) || page < 1 ? 1 : page;
+};
+
+const audit = (req: Request, eventType: string, data: Record<string, any>, severity: 'LOW' | 'MEDIUM' | 'HIGH' = 'MEDIUM') =>
+  securityMonitor.logSecurityEvent(
+    eventType,
+    { ...data, actorId: req.user?.id, timestamp: new Date().toISOString() },
+    severity,
+    req.ip,
+    req.get('User-Agent') || 'Unknown'
+  );
+
+// ==================== STUDENT REFUND ROUTES ====================
+
+export const requestRefund = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { reason } = req.body as CreateRefundRequest;
+  const studentId = req.user!.id;
+
+  try {
+    const order = await new Order().getStudentOrder(studentId, req.params.orderNumber);
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    const notRefundable = RefundRequest.checkRefundable(order, RefundRequest.getWindowDays());
+    if (notRefundable) {
+      throw new ValidationError(notRefundable);
+    }
+
+    const refundModel = new RefundRequest();
+    const open = await refundModel.getOpenRequestForOrder(order.id);
+    if (open) {
+      throw new ConflictError(`A refund for this order is already ${open.status}`);
+    }
+
+    const request = await refundModel.createRequest(order.id, studentId, reason);
+    await audit(req, 'refund_requested', {
+      refundRequestId: request.id,
+      orderNumber: order.order_number,
+      amount: order.amount,
+      currency: order.currency
+    }, 'LOW');
+
+    sendSuccessResponse(res, request, 'Refund request submitted', 201);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getMyRefundRequests = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const requests = await new RefundRequest().getStudentRequests(req.user!.id);
+    res.status(200).json({
+      success: true,
+      data: requests,
+      count: requests.length
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== REFUNDS ADMIN ROUTES ====================
+
+export const getRefundRequestsAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const page = parsePage(req.query.page);
+  const limit = parseLimit(req.query.limit);
+
+  try {
+    const { requests, total } = await new RefundRequest().getRequests({
+      status: typeof req.query.status === 'string' ? req.query.status : undefined,
+      page,
+      limit
+    });
+
+    sendPaginatedResponse(res, requests, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const getRefundRequestAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const request = await new RefundRequest().getById(req.params.id);
+    if (!request) {
+      throw new NotFoundError('Refund request');
+    }
+    sendSuccessResponse(res, request);
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+/**
+ * Refunds the payment with its provider, then closes the request and revokes the access the
+ * order granted. A provider failure leaves the request pending so it can be retried or denied.
+ */
+export const approveRefund = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { note } = req.body as RefundDecisionRequest;
+
+  try {
+    const refundModel = new RefundRequest();
+    const existing = await refundModel.getById(id);
+    if (!existing) {
+      throw new NotFoundError('Refund request');
+    }
+
+    const claimed = await refundModel.claim(id, req.user?.id);
+    if (!claimed) {
+      throw new ConflictError(`This refund request is already ${existing.status}`);
+    }
+    await audit(req, 'refund_approval_started', { refundRequestId: id, orderNumber: existing.order_number });
+
+    // Orders fully covered by a coupon have no payment; nothing goes back to the provider
+    let providerRefundId: string | null = null;
+    if (Number(existing.amount) > 0) {
+      const payment = await refundModel.getOrderPayment(existing.order_id);
+      if (!payment) {
+        await refundModel.releaseClaim(id, 'No payment was found for this order');
+        throw new ConflictError('No payment was found for this order');
+      }
+
+      if (payment.status === 'refunded') {
+        // An earlier attempt refunded the money but stopped before recording it
+        providerRefundId = payment.refund_id;
+      } else {
+        const refund = await paymentService.processRefund(payment.id, existing.reason);
+        if (!refund.success) {
+          await refundModel.releaseClaim(id, refund.error || 'Refund failed');
+          await audit(req, 'refund_provider_failed', {
+            refundRequestId: id,
+            orderNumber: existing.order_number,
+            paymentId: payment.id,
+            error: refund.error
+          }, 'HIGH');
+          throw new AppError(`The payment provider could not refund this order: ${refund.error}`, 502, 'REFUND_PROVIDER_ERROR');
+        }
+        providerRefundId = refund.refundId || null;
+      }
+
+      await audit(req, 'refund_payment_refunded', {
+        refundRequestId: id,
+        orderNumber: existing.order_number,
+        paymentId: payment.id,
+        providerRefundId,
+        amount: payment.amount
+      });
+    }
+
+    const result = await refundModel.completeApproval(id, req.user?.id, note, providerRefundId);
+    await audit(req, 'refund_approved', {
+      refundRequestId: id,
+      orderNumber: result.order.order_number,
+      studentId: result.order.student_id,
+      deactivatedEnrollments: result.deactivatedEnrollments
+    });
+
+    sendSuccessResponse(res, result, 'Refund approved successfully');
+  } catch (error) {
+    if (isKnownError(error) || error instanceof AppError) {
+      throw error;
+    }
+    logger.error('Refund Approval Error', error as Error, { refundRequestId: id });
+    throw handleDatabaseError(error);
+  }
+});
+
+export const denyRefund = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { note } = req.body as RefundDecisionRequest;
+
+  try {
+    const refundModel = new RefundRequest();
+    const existing = await refundModel.getById(id);
+    if (!existing) {
+      throw new NotFoundError('Refund request');
+    }
+
+    const request = await refundModel.deny(id, req.user?.id, note || '');
+    if (!request) {
+      throw new ConflictError(`Only pending refund requests can be denied (this one is ${existing.status})`);
+    }
+    await audit(req, 'refund_denied', { refundRequestId: id, orderNumber: existing.order_number, note });
+
+    sendSuccessResponse(res, request, 'Refund denied');
+  } catch (error) {
+    if (isKnownError(error)) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
@@ -0,0 +1,200 @@
+import { Request, Response } from 'express';
+import { Course } from '../models/Course';
+import { Review } from '../models/Review';
+import { CreateReviewRequest, UpdateReviewRequest, ReviewStatus } from '../types';
+import { cacheManager } from '../utils/cacheManager';
+import { parseLimit } from '../utils/pagination';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  sendPaginatedResponse,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const parsePage = (value: unknown): number => {
+  const page = parseInt(value as string);
+  return isNaN(page) || page < 1 ? 1 : page;
+};
+
+// Ratings feed the cached catalog listings and course detail
+const invalidateCourseRating = async (courseId: string): Promise<void> => {
+  try {
+    await cacheManager.invalidateCourseCache(parseInt(courseId));
+  } catch (error) {
+    console.error('Error invalidating course cache after review change:', error);
+  }
+};
+
+// ==================== PUBLIC REVIEW ROUTES ====================
+
+export const getCourseReviews = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const page = parsePage(req.query.page);
+  const limit = parseLimit(req.query.limit);
+  const sort = typeof req.query.sort === 'string' ? req.query.sort : 'newest';
+
+  try {
+    const course = await new Course().getCourseById(id);
+    if (!course) {
+      throw new NotFoundError('Course');
+    }
+
+    const reviewModel = new Review();
+    const [{ reviews, total }, summary] = await Promise.all([
+      reviewModel.getCourseReviews(id, { page, limit, sort }),
+      reviewModel.getRatingSummary(id)
+    ]);
+
+    sendPaginatedResponse(res, reviews, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }, undefined, { summary });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== STUDENT REVIEW ROUTES ====================
+
+export const getMyCourseReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const review = await new Review().getStudentReview(req.user!.id, req.params.id);
+    if (!review) {
+      throw new NotFoundError('Review');
+    }
+    sendSuccessResponse(res, review);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const createCourseReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const studentId = req.user!.id;
+  const reviewData = req.body as CreateReviewRequest;
+
+  try {
+    const courseModel = new Course();
+    const course = await courseModel.getCourseById(id);
+    if (!course) {
+      throw new NotFoundError('Course');
+    }
+
+    const enrollment = await courseModel.getUserEnrollment(studentId, id);
+    if (!enrollment) {
+      throw new ForbiddenError('You must be enrolled in this course to review it');
+    }
+
+    // Verified purchase: the student holds an enrollment for a course that is not free
+    const isVerifiedPurchase = !course.is_free && parseFloat(String(course.price)) > 0;
+
+    const review = await new Review().createReview(studentId, id, reviewData, isVerifiedPurchase);
+    if (!review) {
+      throw new ConflictError('You have already reviewed this course');
+    }
+
+    await invalidateCourseRating(id);
+    sendSuccessResponse(res, review, 'Review submitted successfully', 201);
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ForbiddenError || error instanceof ConflictError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const updateCourseReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const review = await new Review().updateReview(req.user!.id, id, req.body as UpdateReviewRequest);
+    if (!review) {
+      throw new NotFoundError('Review');
+    }
+
+    await invalidateCourseRating(id);
+    sendSuccessResponse(res, review, 'Review updated successfully');
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const deleteCourseReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const deleted = await new Review().deleteReview(req.user!.id, id);
+    if (!deleted) {
+      throw new NotFoundError('Review');
+    }
+
+    await invalidateCourseRating(id);
+    sendSuccessResponse(res, null, 'Review deleted successfully');
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+// ==================== REVIEWS ADMIN MODERATION ====================
+
+export const getReviewsForModeration = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const page = parsePage(req.query.page);
+  const limit = parseLimit(req.query.limit);
+  const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+  const courseId = typeof req.query.course_id === 'string' ? req.query.course_id : undefined;
+
+  try {
+    const { reviews, total } = await new Review().getReviewsForModeration({
+      status,
+      course_id: courseId,
+      page,
+      limit
+    });
+
+    sendPaginatedResponse(res, reviews, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+export const moderateReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { status, reason } = req.body as { status: ReviewStatus; reason?: string };
+
+  try {
+    const review = await new Review().moderateReview(id, status, reason, req.user?.id);
+    if (!review) {
+      throw new NotFoundError('Review');
+    }
+
+    await invalidateCourseRating(String(review.course_id));
+    sendSuccessResponse(res, review, 'Review moderation updated');
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { dbManager } from '../utils/databaseManager';
+import { identityService } from '../services/identityService';
 import { asyncHandler, sendSuccessResponse, NotFoundError, DatabaseError, handleDatabaseError } from '../middleware/errorHandler';
 import bcrypt from 'bcryptjs';
 
@@ -374,6 +375,9 @@ export const changePassword = asyncHandler(async (req: Request, res: Response):
       [newPasswordHash, studentId]
     );
 
+    // Sessions opened with the old password end; the one making this request stays signed in
+    await identityService.revokeAllSessions(studentId, 'Password changed', req.user?.sessionId);
+
     sendSuccessResponse(res, {
       message: 'Password changed successfully'
     });
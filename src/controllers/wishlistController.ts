@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { Wishlist } from '../models/Wishlist';
+import { AddWishlistRequest } from '../types';
+import { parseLimit } from '../utils/pagination';
+import {
+  asyncHandler,
+  sendSuccessResponse,
+  sendPaginatedResponse,
+  NotFoundError,
+  handleDatabaseError
+} from '../middleware/errorHandler';
+
+const parsePage = (value: unknown): number => {
+  const page = parseInt(value as string);
+  return isNaN(page) || page < 1 ? 1 : page;
+};
+
+// ==================== STUDENT WISHLIST ROUTES ====================
+
+export const getMyWishlist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const page = parsePage(req.query.page);
+  const limit = parseLimit(req.query.limit);
+
+  try {
+    const { items, total } = await new Wishlist().getWishlist(req.user!.id, { page, limit });
+
+    sendPaginatedResponse(res, items, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    throw handleDatabaseError(error);
+  }
+});
+
+/**
+ * Saves a published course; saving one that is already on the list is not an error
+ */
+export const addToMyWishlist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { course_id, notify_price_drop } = req.body as AddWishlistRequest;
+
+  try {
+    const result = await new Wishlist().addCourse(req.user!.id, String(course_id), notify_price_drop);
+    if (!result) {
+      throw new NotFoundError('Course');
+    }
+
+    if (result.created) {
+      sendSuccessResponse(res, result.item, 'Course saved to your wishlist', 201);
+    } else {
+      sendSuccessResponse(res, result.item, 'Course is already in your wishlist');
+    }
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const updateMyWishlistItem = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { courseId } = req.params;
+  const wishlist = new Wishlist();
+
+  try {
+    const updated = await wishlist.updateItem(req.user!.id, courseId, req.body.notify_price_drop);
+    if (!updated) {
+      throw new NotFoundError('Wishlist item');
+    }
+
+    sendSuccessResponse(res, await wishlist.getItem(req.user!.id, courseId), 'Wishlist item updated');
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
+
+export const removeFromMyWishlist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const removed = await new Wishlist().removeCourse(req.user!.id, req.params.courseId);
+    if (!removed) {
+      throw new NotFoundError('Wishlist item');
+    }
+
+    sendSuccessResponse(res, null, 'Course removed from your wishlist');
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw handleDatabaseError(error);
+  }
+});
@@ -1081,6 +1081,10 @@ export const openApiSpec: OpenAPIV3.Document = {
             type: 'integer',
             description: 'Parent course ID'
           },
+          section_id: {
+            type: 'integer',
+            description: 'Parent section ID'
+          },
           title: {
             type: 'string',
             description: 'Module title',
@@ -1090,7 +1094,7 @@ export const openApiSpec: OpenAPIV3.Document = {
             type: 'string',
             description: 'Module description'
           },
-          content_type: {
+          module_type: {
             type: 'string',
             enum: ['video', 'text', 'quiz', 'assignment'],
             description: 'Type of content',
@@ -1099,7 +1103,7 @@ export const openApiSpec: OpenAPIV3.Document = {
           content_url: {
             type: 'string',
             format: 'uri',
-            description: 'Content URL'
+            description: 'Content URL; omitted from public curriculum unless the module is free'
           },
           duration_minutes: {
             type: 'integer',
@@ -1108,7 +1112,7 @@ export const openApiSpec: OpenAPIV3.Document = {
           },
           sort_order: {
             type: 'integer',
-            description: 'Display order',
+            description: 'Display order within the section',
             example: 1
           },
           is_free: {
@@ -1124,7 +1128,7 @@ export const openApiSpec: OpenAPIV3.Document = {
             format: 'date-time'
           }
         },
-        required: ['id', 'course_id', 'title', 'content_type', 'sort_order', 'is_free', 'created_at', 'updated_at']
+        required: ['id', 'course_id', 'title', 'module_type', 'sort_order', 'is_free', 'created_at', 'updated_at']
       },
       Enrollment: {
         type: 'object',
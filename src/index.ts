@@ -14,11 +14,14 @@ import { sanitizeInput, validateRateLimit } from "./middleware/validation";
 import config from "./config";
 import { connectCockroach, pool } from "./db/cockroach";
 import { dbManager } from "./utils/databaseManager";
-import { SessionService } from "./services/sessionService";
 import { RateLimitService } from "./services/rateLimitService";
 import { SecurityMonitor } from "./services/securityMonitor";
 import { initializeSecurityServices } from "./services/authService";
+import { identityService } from "./services/identityService";
+import { studentAuthService } from "./services/studentAuthService";
+import { setTwoFactorRateLimitService } from "./controllers/adminTwoFactorController";
 import { cacheManager } from "./utils/cacheManager";
+import { startCoursePublishScheduler } from "./services/coursePublishScheduler";
 import {
   logger,
   requestLogger,
@@ -90,6 +93,12 @@ app.use(
       }
       return value;
     },
+    // Payment providers sign the exact bytes they send
+    verify: (req, _res, buf) => {
+      if (req.url?.includes("/payments/webhooks/")) {
+        (req as express.Request).rawBody = Buffer.from(buf);
+      }
+    },
   })
 );
 app.use(bodyParser.urlencoded({ extended: false, limit: "10mb" }));
@@ -121,22 +130,22 @@ initializeDatabase();
 // Initialize cache manager with graceful fallback
 
 // Initialize security services
-let sessionService: SessionService;
 let rateLimitService: RateLimitService;
 let securityMonitor: SecurityMonitor;
 
 const initializeSecurity = async () => {
   try {
-    sessionService = new SessionService();
     rateLimitService = new RateLimitService();
     securityMonitor = new SecurityMonitor();
 
     // Initialize auth service with security services
     initializeSecurityServices({
-      sessionService,
       rateLimitService,
       securityMonitor,
     });
+    studentAuthService.setRateLimitService(rateLimitService);
+    identityService.setRateLimitService(rateLimitService);
+    setTwoFactorRateLimitService(rateLimitService);
 
     // Initialize graceful degradation service
     await gracefulDegradation.cacheFallbackData();
@@ -202,6 +211,9 @@ const startAsyncInitializers = async () => {
   try {
     initializeCrashPrevention();
   } catch {}
+  try {
+    startCoursePublishScheduler();
+  } catch {}
 };
 
 // CSRF protection for state-changing operations (temporarily disabled)
@@ -285,7 +297,7 @@ app.get("/api/health-legacy", (req, res) => {
           : "Redis disconnected",
       },
       security: {
-        sessionManagement: !!sessionService,
+        sessionManagement: true,
         rateLimiting: !!rateLimitService,
         securityMonitoring: !!securityMonitor,
         csrfProtection: true,
@@ -336,7 +348,7 @@ try {
     console.log(`🚀 Server running on port ${PORT}`);
     console.log(`🔒 Enhanced security features enabled:`);
     console.log(`   - AES-256-GCM encryption`);
-    console.log(`   - Session management with blacklisting`);
+    console.log(`   - Revocable identity sessions for students and staff`);
     console.log(`   - Rate limiting and IP blocking`);
     console.log(`   - CSRF protection`);
     console.log(`   - Security monitoring and audit logging`);
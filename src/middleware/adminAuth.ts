@@ -1,29 +1,8 @@
-import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { AuthUser } from '../types';
+import { authenticateIdentity } from './identityAuth';
 
-export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
-  const authHeader = req.headers.authorization;
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    res.status(401).json({ error: 'No token provided' });
-    return;
-  }
-  
-  const token = authHeader.split(' ')[1];
-  
-  try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as AuthUser;
-    
-    // Check if user has admin or superuser role
-    if (decoded.role !== 'admin' && decoded.role !== 'superuser') {
-      res.status(403).json({ error: 'Admin access required' });
-      return;
-    }
-    
-    req.user = decoded;
-    next();
-  } catch (err) {
-    res.status(401).json({ error: 'Invalid token' });
-  }
-};
+// Admin or superuser with a Bearer token
+export const requireAdmin = authenticateIdentity({
+  source: 'bearer',
+  types: ['admin', 'superuser'],
+  forbidden: { status: 403, error: 'Admin access required' }
+});
@@ -1,25 +1,6 @@
-import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { AuthUser } from '../types';
+import { authenticateIdentity } from './identityAuth';
 
-export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
-  const authHeader = req.headers.authorization;
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    res.status(401).json({ error: 'No token provided' });
-    return;
-  }
-  
-  const token = authHeader.split(' ')[1];
-  
-  try {
-    const jwtSecret = process.env.JWT_SECRET || 'your-secret-key';
-    const decoded = jwt.verify(token, jwtSecret) as AuthUser;
-    req.user = decoded;
-    next();
-  } catch (err) {
-    res.status(401).json({ error: 'Invalid token' });
-  }
-};
+// Any signed-in principal with a Bearer token
+export const authenticate = authenticateIdentity({ source: 'bearer' });
 
 export const authenticateToken = authenticate; // Alias for backward compatibility
@@ -1,50 +1,69 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { AuthUser } from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { authenticateIdentity } from './identityAuth';
 
 // Cookie-based authentication middleware
-export const authenticateCookie = (req: Request, res: Response, next: NextFunction): void => {
-  try {
-    // Get token from httpOnly cookie
-    const token = req.cookies?.token;
-    
-    if (!token) {
-      res.status(401).json({ error: 'No token provided' });
-      return;
-    }
-    
-    // Verify JWT token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as AuthUser;
-    req.user = decoded;
-    next();
-  } catch (err) {
-    res.status(401).json({ error: 'Invalid token' });
-  }
-};
+export const authenticateCookie = authenticateIdentity({ source: 'cookie' });
 
 // Admin-only cookie authentication
-export const requireAdminCookie = (req: Request, res: Response, next: NextFunction): void => {
-  try {
-    // Get token from httpOnly cookie
-    const token = req.cookies?.token;
-    
-    if (!token) {
+export const requireAdminCookie = authenticateIdentity({
+  source: 'cookie',
+  types: ['admin', 'superuser'],
+  forbidden: { status: 403, error: 'Admin access required' }
+});
+
+// Instructor-only cookie authentication; admins manage courses through the admin routes
+export const requireInstructorCookie = authenticateIdentity({
+  source: 'cookie',
+  types: ['instructor'],
+  forbidden: { status: 403, error: 'Instructor access required' }
+});
+
+// How to find the course behind each route parameter an ownership check can start from
+const OWNED_COURSE_LOOKUPS = {
+  courseId: { label: 'Course', query: 'SELECT id, instructor_id FROM courses WHERE id = $1' },
+  sectionId: {
+    label: 'Section',
+    query: 'SELECT c.id, c.instructor_id FROM course_sections s JOIN courses c ON s.course_id = c.id WHERE s.id = $1'
+  },
+  moduleId: {
+    label: 'Module',
+    query: 'SELECT c.id, c.instructor_id FROM course_modules m JOIN courses c ON m.course_id = c.id WHERE m.id = $1'
+  }
+} as const;
+
+// Course ownership check; runs after requireInstructorCookie or requireAdminCookie, and admins always pass
+export const requireCourseOwner = (param: keyof typeof OWNED_COURSE_LOOKUPS = 'courseId') =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
       res.status(401).json({ error: 'No token provided' });
       return;
     }
-    
-    // Verify JWT token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as AuthUser;
-    
-    // Check if user has admin or superuser role
-    if (decoded.role !== 'admin' && decoded.role !== 'superuser') {
-      res.status(403).json({ error: 'Admin access required' });
+
+    const lookup = OWNED_COURSE_LOOKUPS[param];
+    const id = req.params[param];
+    if (!id || !/^\d+$/.test(id)) {
+      res.status(404).json({ error: `${lookup.label} not found` });
       return;
     }
-    
-    req.user = decoded;
-    next();
-  } catch (err) {
-    res.status(401).json({ error: 'Invalid token' });
-  }
-};
+
+    try {
+      const result = await dbManager.query(lookup.query, [id]);
+      const course = result.rows[0];
+
+      if (!course) {
+        res.status(404).json({ error: `${lookup.label} not found` });
+        return;
+      }
+
+      const isAdmin = req.user.role === 'admin' || req.user.role === 'superuser';
+      if (!isAdmin && String(course.instructor_id) !== String(req.user.id)) {
+        res.status(403).json({ error: 'You can only manage your own courses' });
+        return;
+      }
+
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
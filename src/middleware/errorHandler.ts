@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { PagePagination, CursorPagination } from '../types';
 
 // Standardized error response interface
 export interface StandardError {
@@ -59,6 +60,12 @@ export class ConflictError extends AppError {
   }
 }
 
+export class PaymentRequiredError extends AppError {
+  constructor(message: string = 'Payment required') {
+    super(message, 402, 'PAYMENT_REQUIRED');
+  }
+}
+
 export class DatabaseError extends AppError {
   constructor(message: string, originalError?: any) {
     super(message, 500, 'DATABASE_ERROR');
@@ -194,18 +201,16 @@ export const sendSuccessResponse = (res: Response, data: any, message?: string,
 export const sendPaginatedResponse = (
   res: Response, 
   data: any[], 
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  },
-  message?: string
+  pagination: PagePagination | CursorPagination,
+  message?: string,
+  extras: Record<string, any> = {}
 ): void => {
   const response = {
     success: true,
     data,
+    count: data.length,
     pagination,
+    ...extras,
     message,
     timestamp: new Date().toISOString()
   };
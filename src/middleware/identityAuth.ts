@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from 'express';
+import { identityService } from '../services/identityService';
+import { PrincipalType } from '../types';
+
+export interface IdentityAuthOptions {
+  // Where the access token comes from: the Authorization header or the httpOnly cookie set at admin login
+  source: 'bearer' | 'cookie';
+  // Principal types allowed through; any signed-in principal when left out
+  types?: PrincipalType[];
+  // Response for a signed-in principal of another type
+  forbidden?: { status: number; error: string };
+}
+
+const readToken = (req: Request, source: IdentityAuthOptions['source']): string | null => {
+  if (source === 'cookie') {
+    return req.cookies?.token || null;
+  }
+  const authHeader = req.headers.authorization;
+  return authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : null;
+};
+
+/**
+ * Authenticates the request through the identity service: checks the token and that its session
+ * has not been revoked, applies the principal's rate limit and sets req.user
+ */
+export const authenticateIdentity = ({ source, types, forbidden = { status: 403, error: 'Access denied' } }: IdentityAuthOptions) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const token = readToken(req, source);
+    if (!token) {
+      res.status(401).json({ error: 'No token provided' });
+      return;
+    }
+
+    try {
+      const verified = await identityService.verifyAccessToken(token);
+      if (!verified) {
+        res.status(401).json({ error: 'Invalid token' });
+        return;
+      }
+
+      const { principal, sessionId } = verified;
+      if (types && !types.includes(principal.type)) {
+        res.status(forbidden.status).json({ error: forbidden.error });
+        return;
+      }
+
+      const rateLimit = await identityService.checkRateLimit(principal, req.ip);
+      if (!rateLimit.allowed) {
+        if (rateLimit.resetTime) {
+          res.set('Retry-After', String(Math.max(1, Math.ceil((rateLimit.resetTime - Date.now()) / 1000))));
+        }
+        res.status(429).json({ error: 'Too many requests' });
+        return;
+      }
+
+      req.user = {
+        id: principal.id,
+        email: principal.email || '',
+        role: principal.type,
+        sessionId
+      };
+      next();
+    } catch (err) {
+      console.error('Identity authentication failed:', err);
+      res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+    }
+  };
@@ -1,36 +1,36 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { authenticateIdentity } from './identityAuth';
 import { dbManager } from '../utils/databaseManager';
-import config from '../config';
 
-export const authenticateStudent = (req: Request, res: Response, next: NextFunction): void => {
-  const authHeader = req.headers.authorization;
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    res.status(401).json({ error: 'No token provided' });
+// Student with a Bearer token; staff tokens are refused like any other wrong kind of token
+export const authenticateStudent = authenticateIdentity({
+  source: 'bearer',
+  types: ['student'],
+  forbidden: { status: 401, error: 'Invalid token type' }
+});
+
+/**
+ * Blocks enrollment and checkout until the student has verified their email, when
+ * REQUIRE_VERIFIED_EMAIL_FOR_ENROLLMENT is true. Use after authenticateStudent.
+ */
+export const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (process.env.REQUIRE_VERIFIED_EMAIL_FOR_ENROLLMENT !== 'true') {
+    next();
     return;
   }
 
-  const token = authHeader.substring(7);
-  
   try {
-    const jwtSecret = config.jwtSecret;
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    
-    if (decoded.type !== 'student') {
-      res.status(401).json({ error: 'Invalid token type' });
+    const result = await dbManager.query('SELECT email_verified FROM students WHERE id = $1', [req.user?.id]);
+    if (!result.rows[0]?.email_verified) {
+      res.status(403).json({
+        error: 'Verify your email address before enrolling',
+        code: 'EMAIL_NOT_VERIFIED'
+      });
       return;
     }
-
-    // Set user info for the request
-    req.user = {
-      id: decoded.studentId,
-      email: decoded.email,
-      role: 'student'
-    };
-    
     next();
   } catch (err) {
-    res.status(401).json({ error: 'Invalid token' });
+    console.error('Email verification check failed:', err);
+    res.status(500).json({ error: 'Could not check email verification' });
   }
 };
@@ -104,6 +104,55 @@ const studentLoginSchema = Joi.object({
     })
 });
 
+// Phone OTP validation schemas
+const otpPhone = Joi.string()
+  .pattern(/^\+?[\d\s\-\(\)]+$/)
+  .min(10)
+  .max(20)
+  .required()
+  .messages({
+    'string.pattern.base': 'Please provide a valid phone number',
+    'string.min': 'Phone number must be at least 10 characters long',
+    'string.max': 'Phone number cannot exceed 20 characters',
+    'any.required': 'Phone number is required'
+  });
+
+const otpPurpose = Joi.string()
+  .valid('login', 'verify_phone')
+  .default('login')
+  .messages({
+    'any.only': 'Purpose must be one of: login, verify_phone'
+  });
+
+const otpRequestSchema = Joi.object({
+  phone: otpPhone,
+  purpose: otpPurpose
+});
+
+const otpVerifySchema = Joi.object({
+  phone: otpPhone,
+  purpose: otpPurpose,
+  code: Joi.string()
+    .pattern(/^\d{4,8}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Code must be the digits from the SMS',
+      'any.required': 'Code is required'
+    })
+});
+
+const oidcCallbackSchema = Joi.object({
+  code: Joi.string().max(2048).required().messages({
+    'any.required': 'Authorization code is required'
+  }),
+  state: Joi.string().max(255).required().messages({
+    'any.required': 'State is required'
+  }),
+  state_token: Joi.string().max(4096).required().messages({
+    'any.required': 'State token is required'
+  })
+});
+
 /**
  * Validate student registration data
  */
@@ -159,3 +208,38 @@ export const validateStudentLogin = (req: Request, res: Response, next: NextFunc
   req.body = value;
   next();
 };
+
+const validateWith = (schema: Joi.ObjectSchema) => (req: Request, res: Response, next: NextFunction): void => {
+  const { error, value } = schema.validate(req.body, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    const errorMessages = error.details.map(detail => detail.message);
+    res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errorMessages
+    });
+    return;
+  }
+
+  req.body = value;
+  next();
+};
+
+/**
+ * Validate phone OTP request data
+ */
+export const validateOtpRequest = validateWith(otpRequestSchema);
+
+/**
+ * Validate phone OTP verification data
+ */
+export const validateOtpVerify = validateWith(otpVerifySchema);
+
+/**
+ * Validate the code and state returned from a social sign-in provider
+ */
+export const validateOidcCallback = validateWith(oidcCallbackSchema);
@@ -113,6 +113,405 @@ export const validationSchemas = {
     ).optional()
   }),
 
+  // Instructor course schemas; publishing and instructor_id are not accepted
+  createInstructorCourse: Joi.object({
+    field_id: Joi.string().pattern(/^\d+$/).required(),
+    title: Joi.string().min(2).max(200).required(),
+    slug: Joi.string().min(2).max(200).pattern(/^[a-z0-9-]+$/).allow('').optional(),
+    description: Joi.string().max(5000).allow('', null).optional(),
+    short_description: Joi.string().max(500).allow('', null).optional(),
+    banner_image: Joi.string().allow('', null).optional(),
+    thumbnail_image: Joi.string().allow('', null).optional(),
+    duration_hours: Joi.number().integer().min(0).max(1000).optional(),
+    difficulty_level: Joi.string().valid('beginner', 'intermediate', 'advanced').optional(),
+    price: Joi.number().min(0).max(9999.99).optional(),
+    is_free: Joi.boolean().optional(),
+    prerequisites: Joi.string().max(2000).allow('', null).optional(),
+    learning_outcomes: Joi.array().items(Joi.string()).allow(null).optional(),
+    tags: Joi.alternatives().try(
+      Joi.string().allow('', null),
+      Joi.array().items(Joi.string())
+    ).optional()
+  }),
+
+  updateInstructorCourse: Joi.object({
+    field_id: Joi.string().pattern(/^\d+$/).optional(),
+    title: Joi.string().min(2).max(200).optional(),
+    slug: Joi.string().min(2).max(200).pattern(/^[a-z0-9-]+$/).optional(),
+    description: Joi.string().max(5000).allow('', null).optional(),
+    short_description: Joi.string().max(500).allow('', null).optional(),
+    banner_image: Joi.string().allow('', null).optional(),
+    thumbnail_image: Joi.string().allow('', null).optional(),
+    duration_hours: Joi.number().integer().min(0).max(1000).optional(),
+    difficulty_level: Joi.string().valid('beginner', 'intermediate', 'advanced').optional(),
+    price: Joi.number().min(0).max(9999.99).optional(),
+    is_free: Joi.boolean().optional(),
+    prerequisites: Joi.string().max(2000).allow('', null).optional(),
+    learning_outcomes: Joi.array().items(Joi.string()).allow(null).optional(),
+    tags: Joi.alternatives().try(
+      Joi.string().allow('', null),
+      Joi.array().items(Joi.string())
+    ).optional()
+  }).min(1),
+
+  reviewCourseSubmission: Joi.object({
+    decision: Joi.string().valid('approve', 'request_changes').required(),
+    note: Joi.string().trim().max(2000).when('decision', {
+      is: 'request_changes',
+      then: Joi.string().min(3).required(),
+      otherwise: Joi.allow('', null).optional()
+    }),
+    publish_at: Joi.date().iso().when('decision', {
+      is: 'approve',
+      then: Joi.optional(),
+      otherwise: Joi.forbidden()
+    })
+  }),
+
+  changeCourseStatus: Joi.object({
+    status: Joi.string().valid('draft', 'in_review', 'scheduled', 'published', 'archived').required(),
+    comment: Joi.string().trim().max(2000).allow('', null).optional(),
+    publish_at: Joi.date().iso().when('status', {
+      is: 'scheduled',
+      then: Joi.required(),
+      otherwise: Joi.forbidden()
+    })
+  }),
+
+  compareRevisions: Joi.object({
+    from: Joi.number().integer().min(1).required(),
+    to: Joi.number().integer().min(1).required()
+  }),
+
+  // Course template schema (the document produced by GET /admin/courses/:id/export)
+  importCourse: Joi.object({
+    format: Joi.string().valid('zenow-course').required(),
+    version: Joi.number().valid(1).required(),
+    exported_at: Joi.string().optional(),
+    course: Joi.object({
+      category_slug: Joi.string().max(100).required(),
+      field_slug: Joi.string().max(100).required(),
+      title: Joi.string().min(2).max(200).required(),
+      slug: Joi.string().min(2).max(200).pattern(/^[a-z0-9-]+$/).required(),
+      description: Joi.string().max(5000).allow('', null).optional(),
+      short_description: Joi.string().max(500).allow('', null).optional(),
+      banner_image: Joi.string().max(255).allow('', null).optional(),
+      thumbnail_image: Joi.string().max(255).allow('', null).optional(),
+      duration_hours: Joi.number().integer().min(0).max(1000).default(0),
+      difficulty_level: Joi.string().valid('beginner', 'intermediate', 'advanced').default('beginner'),
+      price: Joi.number().min(0).max(9999.99).default(0),
+      is_free: Joi.boolean().default(false),
+      instructor_email: Joi.string().email().allow('', null).optional(),
+      prerequisites: Joi.string().max(2000).allow('', null).optional(),
+      learning_outcomes: Joi.any().optional(),
+      tags: Joi.array().items(Joi.string().max(100)).allow(null).optional(),
+      prices: Joi.array().items(Joi.object({
+        currency: Joi.string().pattern(/^[A-Za-z]{3}$/).required(),
+        amount: Joi.number().positive().precision(2).required()
+      })).unique((a, b) => a.currency.toUpperCase() === b.currency.toUpperCase()).max(20).default([])
+    }).required(),
+    sections: Joi.array().items(Joi.object({
+      title: Joi.string().min(1).max(200).required(),
+      description: Joi.string().max(2000).allow('', null).optional(),
+      lessons: Joi.array().items(Joi.object({
+        title: Joi.string().min(1).max(200).required(),
+        description: Joi.string().max(5000).allow('', null).optional(),
+        module_type: Joi.string().valid('video', 'text', 'quiz', 'assignment').default('video'),
+        content_url: Joi.string().max(500).allow('', null).optional(),
+        duration_minutes: Joi.number().integer().min(0).default(0),
+        is_free: Joi.boolean().default(false),
+        quiz: Joi.object({
+          settings: Joi.object({
+            passing_score: Joi.number().integer().min(0).max(100).default(70),
+            max_attempts: Joi.number().integer().min(1).allow(null).default(null),
+            shuffle_questions: Joi.boolean().default(true)
+          }).allow(null).default(null),
+          questions: Joi.array().items(Joi.object({
+            question_type: Joi.string().valid('single_choice', 'multiple_choice', 'true_false', 'short_answer').required(),
+            prompt: Joi.string().min(1).max(5000).required(),
+            options: Joi.array().items(Joi.object({
+              id: Joi.string().max(50).required(),
+              text: Joi.string().max(1000).required()
+            })).max(20).allow(null).optional(),
+            correct_answers: Joi.array().items(Joi.string().max(500), Joi.boolean()).min(1).required(),
+            explanation: Joi.string().max(5000).allow('', null).optional(),
+            points: Joi.number().integer().min(1).max(100).default(1),
+            sort_order: Joi.number().integer().min(0).default(0)
+          })).max(200).default([])
+        }).optional(),
+        assignment: Joi.object({
+          instructions: Joi.string().max(10000).allow('', null).optional(),
+          due_at: Joi.date().iso().allow(null).optional(),
+          allow_late: Joi.boolean().default(true),
+          max_submissions: Joi.number().integer().min(1).allow(null).default(null),
+          resubmit_after_grading: Joi.boolean().default(false),
+          max_score: Joi.number().integer().min(1).max(1000).default(100)
+        }).optional()
+      })).max(500).default([])
+    })).max(100).default([]),
+    media: Joi.array().items(Joi.string()).optional()
+  }),
+
+  // Bundle schemas
+  createBundle: Joi.object({
+    title: Joi.string().min(2).max(200).required(),
+    slug: Joi.string().min(2).max(200).pattern(/^[a-z0-9-]+$/).allow('').optional(),
+    description: Joi.string().max(5000).allow('', null).optional(),
+    short_description: Joi.string().max(500).allow('', null).optional(),
+    banner_image: Joi.string().allow('', null).optional(),
+    thumbnail_image: Joi.string().allow('', null).optional(),
+    difficulty_level: Joi.string().valid('beginner', 'intermediate', 'advanced').optional(),
+    bundle_price: Joi.number().min(0).max(99999.99).required(),
+    is_published: Joi.boolean().optional(),
+    instructor_id: Joi.string().uuid().allow('', null).optional(),
+    prerequisites: Joi.string().max(2000).allow('', null).optional(),
+    learning_outcomes: Joi.array().items(Joi.string()).allow(null).optional(),
+    tags: Joi.alternatives().try(
+      Joi.string().allow('', null),
+      Joi.array().items(Joi.string())
+    ).optional(),
+    course_ids: Joi.array().items(Joi.string().pattern(/^\d+$/)).unique().min(1).required()
+  }),
+
+  updateBundle: Joi.object({
+    title: Joi.string().min(2).max(200).optional(),
+    slug: Joi.string().min(2).max(200).pattern(/^[a-z0-9-]+$/).optional(),
+    description: Joi.string().max(5000).allow('', null).optional(),
+    short_description: Joi.string().max(500).allow('', null).optional(),
+    banner_image: Joi.string().allow('', null).optional(),
+    thumbnail_image: Joi.string().allow('', null).optional(),
+    difficulty_level: Joi.string().valid('beginner', 'intermediate', 'advanced').optional(),
+    bundle_price: Joi.number().min(0).max(99999.99).optional(),
+    is_published: Joi.boolean().optional(),
+    instructor_id: Joi.string().uuid().allow('', null).optional(),
+    prerequisites: Joi.string().max(2000).allow('', null).optional(),
+    learning_outcomes: Joi.array().items(Joi.string()).allow(null).optional(),
+    tags: Joi.alternatives().try(
+      Joi.string().allow('', null),
+      Joi.array().items(Joi.string())
+    ).optional(),
+    course_ids: Joi.array().items(Joi.string().pattern(/^\d+$/)).unique().min(1).optional()
+  }),
+
+  // Curriculum schemas
+  createSection: Joi.object({
+    title: Joi.string().min(1).max(200).required(),
+    description: Joi.string().max(2000).allow('', null).optional()
+  }),
+
+  updateSection: Joi.object({
+    title: Joi.string().min(1).max(200).optional(),
+    description: Joi.string().max(2000).allow('', null).optional()
+  }).min(1),
+
+  createModule: Joi.object({
+    section_id: Joi.string().pattern(/^\d+$/).optional(),
+    title: Joi.string().min(1).max(200).required(),
+    description: Joi.string().max(5000).allow('', null).optional(),
+    module_type: Joi.string().valid('video', 'text', 'quiz', 'assignment').optional(),
+    content_url: Joi.string().max(500).allow('', null).optional(),
+    duration_minutes: Joi.number().integer().min(0).optional(),
+    is_free: Joi.boolean().optional()
+  }),
+
+  updateModule: Joi.object({
+    section_id: Joi.string().pattern(/^\d+$/).optional(),
+    title: Joi.string().min(1).max(200).optional(),
+    description: Joi.string().max(5000).allow('', null).optional(),
+    module_type: Joi.string().valid('video', 'text', 'quiz', 'assignment').optional(),
+    content_url: Joi.string().max(500).allow('', null).optional(),
+    duration_minutes: Joi.number().integer().min(0).optional(),
+    is_free: Joi.boolean().optional()
+  }).min(1),
+
+  reorderCurriculum: Joi.object({
+    sections: Joi.array().items(Joi.object({
+      id: Joi.string().pattern(/^\d+$/).required(),
+      lessons: Joi.array().items(Joi.string().pattern(/^\d+$/)).required()
+    })).required()
+  }),
+
+  // Quiz schemas
+  updateQuizSettings: Joi.object({
+    passing_score: Joi.number().integer().min(0).max(100).optional(),
+    max_attempts: Joi.number().integer().min(1).allow(null).optional(),
+    shuffle_questions: Joi.boolean().optional()
+  }).min(1),
+
+  createQuizQuestion: Joi.object({
+    question_type: Joi.string().valid('single_choice', 'multiple_choice', 'true_false', 'short_answer').required(),
+    prompt: Joi.string().min(1).max(5000).required(),
+    options: Joi.array().items(Joi.object({
+      id: Joi.string().max(50).required(),
+      text: Joi.string().max(1000).required()
+    })).max(20).optional(),
+    correct_answers: Joi.array().items(Joi.string().max(500), Joi.boolean()).min(1).required(),
+    explanation: Joi.string().max(5000).allow('', null).optional(),
+    points: Joi.number().integer().min(1).max(100).optional(),
+    sort_order: Joi.number().integer().min(0).optional()
+  }),
+
+  updateQuizQuestion: Joi.object({
+    question_type: Joi.string().valid('single_choice', 'multiple_choice', 'true_false', 'short_answer').optional(),
+    prompt: Joi.string().min(1).max(5000).optional(),
+    options: Joi.array().items(Joi.object({
+      id: Joi.string().max(50).required(),
+      text: Joi.string().max(1000).required()
+    })).max(20).allow(null).optional(),
+    correct_answers: Joi.array().items(Joi.string().max(500), Joi.boolean()).min(1).optional(),
+    explanation: Joi.string().max(5000).allow('', null).optional(),
+    points: Joi.number().integer().min(1).max(100).optional(),
+    sort_order: Joi.number().integer().min(0).optional()
+  }).min(1),
+
+  submitQuizAttempt: Joi.object({
+    answers: Joi.object().pattern(
+      Joi.string().pattern(/^\d+$/),
+      Joi.alternatives().try(
+        Joi.string().max(2000).allow(''),
+        Joi.boolean(),
+        Joi.array().items(Joi.string().max(50))
+      )
+    ).required()
+  }),
+
+  // Assignment schemas
+  updateAssignmentSettings: Joi.object({
+    instructions: Joi.string().max(10000).allow('', null).optional(),
+    due_at: Joi.date().iso().allow(null).optional(),
+    allow_late: Joi.boolean().optional(),
+    max_submissions: Joi.number().integer().min(1).allow(null).optional(),
+    resubmit_after_grading: Joi.boolean().optional(),
+    max_score: Joi.number().integer().min(1).max(1000).optional()
+  }).min(1),
+
+  submitAssignment: Joi.object({
+    submission_text: Joi.string().max(20000).allow('').optional(),
+    attachments: Joi.array().items(Joi.object({
+      url: Joi.string().uri({ scheme: ['http', 'https'] }).max(500).required(),
+      filename: Joi.string().max(255).required(),
+      content_type: Joi.string().max(100).optional(),
+      size: Joi.number().integer().min(0).optional()
+    })).max(10).optional()
+  }).or('submission_text', 'attachments'),
+
+  gradeAssignment: Joi.object({
+    score: Joi.number().min(0).required(),
+    feedback: Joi.string().max(5000).allow('').optional(),
+    status: Joi.string().valid('graded', 'returned').optional()
+  }),
+
+  // Payment schemas
+  createCheckout: Joi.object({
+    item_type: Joi.string().valid('course', 'bundle').required(),
+    item_id: Joi.string().pattern(/^\d+$/).required(),
+    provider: Joi.string().valid('stripe', 'paypal', 'fake').required(),
+    coupon_code: Joi.string().trim().max(40).optional()
+  }),
+
+  priceQuote: Joi.object({
+    item_type: Joi.string().valid('course', 'bundle').required(),
+    item_id: Joi.string().pattern(/^\d+$/).required(),
+    coupon_code: Joi.string().trim().max(40).optional()
+  }),
+
+  // Pricing schemas
+  setItemPrices: Joi.object({
+    prices: Joi.array().items(Joi.object({
+      currency: Joi.string().pattern(/^[A-Za-z]{3}$/).required(),
+      amount: Joi.number().positive().precision(2).required()
+    })).unique((a, b) => a.currency.toUpperCase() === b.currency.toUpperCase()).max(20).required()
+  }),
+
+  // Refund schemas
+  requestRefund: Joi.object({
+    reason: Joi.string().trim().min(10).max(1000).required()
+  }),
+
+  approveRefund: Joi.object({
+    note: Joi.string().max(1000).allow('').optional()
+  }),
+
+  denyRefund: Joi.object({
+    note: Joi.string().trim().min(3).max(1000).required()
+  }),
+
+  // Coupon schemas
+  createCoupon: Joi.object({
+    code: Joi.string().trim().pattern(/^[A-Za-z0-9_-]+$/).min(3).max(40).required(),
+    description: Joi.string().max(500).allow('', null).optional(),
+    discount_type: Joi.string().valid('percentage', 'fixed').required(),
+    discount_value: Joi.number().positive().precision(2).required(),
+    max_discount_amount: Joi.number().positive().precision(2).allow(null).optional(),
+    min_order_amount: Joi.number().min(0).precision(2).allow(null).optional(),
+    scope_type: Joi.string().valid('all', 'course', 'bundle', 'field', 'category').default('all'),
+    scope_id: Joi.string().pattern(/^\d+$/).allow(null).optional(),
+    currency: Joi.string().pattern(/^[A-Za-z]{3}$/).allow(null).optional(),
+    starts_at: Joi.date().iso().allow(null).optional(),
+    expires_at: Joi.date().iso().allow(null).optional(),
+    max_redemptions: Joi.number().integer().min(1).allow(null).optional(),
+    max_redemptions_per_student: Joi.number().integer().min(1).allow(null).optional(),
+    first_purchase_only: Joi.boolean().optional(),
+    is_active: Joi.boolean().optional()
+  }),
+
+  updateCoupon: Joi.object({
+    code: Joi.string().trim().pattern(/^[A-Za-z0-9_-]+$/).min(3).max(40).optional(),
+    description: Joi.string().max(500).allow('', null).optional(),
+    discount_type: Joi.string().valid('percentage', 'fixed').optional(),
+    discount_value: Joi.number().positive().precision(2).optional(),
+    max_discount_amount: Joi.number().positive().precision(2).allow(null).optional(),
+    min_order_amount: Joi.number().min(0).precision(2).allow(null).optional(),
+    scope_type: Joi.string().valid('all', 'course', 'bundle', 'field', 'category').optional(),
+    scope_id: Joi.string().pattern(/^\d+$/).allow(null).optional(),
+    currency: Joi.string().pattern(/^[A-Za-z]{3}$/).allow(null).optional(),
+    starts_at: Joi.date().iso().allow(null).optional(),
+    expires_at: Joi.date().iso().allow(null).optional(),
+    max_redemptions: Joi.number().integer().min(1).allow(null).optional(),
+    max_redemptions_per_student: Joi.number().integer().min(1).allow(null).optional(),
+    first_purchase_only: Joi.boolean().optional(),
+    is_active: Joi.boolean().optional()
+  }).min(1),
+
+  // Certificate schemas
+  revokeCertificate: Joi.object({
+    reason: Joi.string().min(3).max(1000).required()
+  }),
+
+  // Progress schemas
+  updateCourseProgress: Joi.object({
+    moduleId: Joi.string().pattern(/^\d+$/).required(),
+    isCompleted: Joi.boolean().optional(),
+    timeSpent: Joi.number().integer().min(0).optional(),
+    lastPosition: Joi.number().integer().min(0).optional()
+  }),
+
+  // Wishlist schemas
+  addWishlistItem: Joi.object({
+    course_id: Joi.alternatives().try(Joi.number().integer().min(1), Joi.string().pattern(/^\d+$/)).required(),
+    notify_price_drop: Joi.boolean().optional()
+  }),
+
+  updateWishlistItem: Joi.object({
+    notify_price_drop: Joi.boolean().required()
+  }),
+
+  // Review schemas
+  createReview: Joi.object({
+    rating: Joi.number().integer().min(1).max(5).required(),
+    review_text: Joi.string().max(5000).allow('').optional()
+  }),
+
+  updateReview: Joi.object({
+    rating: Joi.number().integer().min(1).max(5).optional(),
+    review_text: Joi.string().max(5000).allow('').optional()
+  }).min(1),
+
+  moderateReview: Joi.object({
+    status: Joi.string().valid('visible', 'flagged', 'hidden').required(),
+    reason: Joi.string().max(1000).allow('', null).optional()
+  }),
+
   // Auth schemas
   register: Joi.object({
     username: Joi.string().min(3).max(50).pattern(/^[a-zA-Z0-9_]+$/).required(),
@@ -125,6 +524,20 @@ export const validationSchemas = {
     fingerprint: Joi.string().optional()
   }),
 
+  twoFactorSetup: Joi.object({
+    challenge_token: Joi.string().required()
+  }),
+
+  // An authenticator code or a recovery code
+  twoFactorVerify: Joi.object({
+    challenge_token: Joi.string().required(),
+    code: Joi.string().trim().min(6).max(20).required()
+  }),
+
+  twoFactorCode: Joi.object({
+    code: Joi.string().trim().min(6).max(20).required()
+  }),
+
   // Query parameter schemas
   pagination: Joi.object({
     page: Joi.number().integer().min(1).optional(),
@@ -139,6 +552,10 @@ export const validationSchemas = {
     difficulty_level: Joi.string().valid('beginner', 'intermediate', 'advanced').optional(),
     is_free: Joi.boolean().optional(),
     search: Joi.string().max(100).optional(),
+    q: Joi.string().max(200).optional(),
+    price_bucket: Joi.string().valid('free', 'under_1000', '1000_4999', '5000_plus').optional(),
+    sort: Joi.string().valid('newest', 'price_asc', 'price_desc', 'rating', 'enrolled_students', 'title').optional(),
+    cursor: Joi.string().max(500).optional(),
     limit: Joi.number().integer().min(1).max(100).optional()
   }),
 
@@ -0,0 +1,11 @@
+-- Migration: Add Course Search Indexes
+-- Description: Adds trigram and inverted indexes used by ranked course search (typo-tolerant title and tag matching)
+
+-- Trigram support for similarity() based typo tolerance
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Trigram index for fuzzy title matching
+CREATE INDEX IF NOT EXISTS idx_courses_title_trgm ON courses USING GIN (title gin_trgm_ops);
+
+-- Inverted index for exact tag overlap
+CREATE INDEX IF NOT EXISTS idx_courses_tags ON courses USING GIN (tags);
@@ -0,0 +1,42 @@
+-- Migration: Add Review Moderation
+-- Description: Points course reviews at students and adds moderation status used to hide or flag reviews.
+-- Reviews whose author is not a student cannot satisfy the new foreign key; they are moved, unchanged,
+-- to course_reviews_archive rather than deleted.
+
+-- Same columns as course_reviews, without constraints, plus when the row was moved
+CREATE TABLE IF NOT EXISTS course_reviews_archive (
+    id INTEGER PRIMARY KEY,
+    user_id UUID,
+    course_id INTEGER,
+    bundle_id INTEGER,
+    rating INTEGER,
+    review_text TEXT,
+    is_verified_purchase BOOLEAN,
+    created_at TIMESTAMP,
+    updated_at TIMESTAMP,
+    archived_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    archive_reason TEXT
+);
+
+-- Reviews are written by students, not admin users
+ALTER TABLE course_reviews DROP CONSTRAINT IF EXISTS course_reviews_user_id_fkey;
+INSERT INTO course_reviews_archive (
+    id, user_id, course_id, bundle_id, rating, review_text, is_verified_purchase, created_at, updated_at, archive_reason
+)
+SELECT id, user_id, course_id, bundle_id, rating, review_text, is_verified_purchase, created_at, updated_at,
+       'Author is not a student (review moderation, migration 011)'
+FROM course_reviews
+WHERE user_id NOT IN (SELECT id FROM students)
+ON CONFLICT (id) DO NOTHING;
+DELETE FROM course_reviews WHERE user_id NOT IN (SELECT id FROM students);
+ALTER TABLE course_reviews
+ADD CONSTRAINT course_reviews_user_id_fkey
+FOREIGN KEY (user_id) REFERENCES students(id) ON DELETE CASCADE;
+
+-- Moderation state: visible, flagged (still public, queued for review) or hidden
+ALTER TABLE course_reviews ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'visible';
+ALTER TABLE course_reviews ADD COLUMN IF NOT EXISTS moderation_reason TEXT;
+ALTER TABLE course_reviews ADD COLUMN IF NOT EXISTS moderated_by UUID;
+ALTER TABLE course_reviews ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_course_reviews_course_status ON course_reviews(course_id, status);
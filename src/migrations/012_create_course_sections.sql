@@ -0,0 +1,18 @@
+-- Migration: Create Course Sections
+-- Description: Adds course sections so the curriculum is stored as course -> section -> lesson (course_modules)
+
+CREATE TABLE IF NOT EXISTS course_sections (
+    id SERIAL PRIMARY KEY,
+    course_id INTEGER NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    title VARCHAR(200) NOT NULL,
+    description TEXT,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Lessons belong to a section; sort_order on course_modules is the position within that section
+ALTER TABLE course_modules ADD COLUMN IF NOT EXISTS section_id INTEGER REFERENCES course_sections(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_course_sections_course_id ON course_sections(course_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_course_modules_section_id ON course_modules(section_id, sort_order);
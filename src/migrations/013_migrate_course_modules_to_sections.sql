@@ -0,0 +1,128 @@
+-- Migration: Migrate Course Modules To Sections
+-- Description: Moves existing curriculum (course_modules rows and the courses.course_modules JSONB) into sections.
+-- Kept separate from 012 because CockroachDB cannot write a column added earlier in the same transaction.
+
+-- 1. Courses that already have course_modules rows: those rows win, grouped under a default section
+INSERT INTO course_sections (course_id, title, sort_order)
+SELECT DISTINCT cm.course_id, 'Course Content', 1
+FROM course_modules cm
+WHERE cm.course_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM course_sections s WHERE s.course_id = cm.course_id);
+
+UPDATE course_modules cm
+SET section_id = (
+  SELECT s.id FROM course_sections s
+  WHERE s.course_id = cm.course_id
+  ORDER BY s.sort_order, s.id
+  LIMIT 1
+)
+WHERE cm.section_id IS NULL AND cm.course_id IS NOT NULL;
+
+-- 2. Structured JSONB (at least one element carrying a "lessons" array): each element becomes a
+-- section. An element without lessons in such an array becomes a section holding itself as its
+-- only lesson, so mixed arrays lose nothing.
+INSERT INTO course_sections (course_id, title, description, sort_order)
+SELECT c.id,
+       LEFT(COALESCE(
+         NULLIF(elem.value->>'title', ''),
+         CASE WHEN jsonb_typeof(elem.value) = 'string' THEN NULLIF(elem.value#>>'{}', '') END,
+         'Section ' || elem.ordinality::TEXT
+       ), 200),
+       CASE WHEN jsonb_typeof(elem.value->'lessons') = 'array' THEN elem.value->>'description' END,
+       elem.ordinality::INT
+FROM courses c
+CROSS JOIN jsonb_array_elements(c.course_modules) WITH ORDINALITY AS elem(value, ordinality)
+WHERE jsonb_typeof(c.course_modules) = 'array'
+  AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(c.course_modules) AS structured(value)
+    WHERE jsonb_typeof(structured.value->'lessons') = 'array'
+  )
+  AND jsonb_typeof(elem.value) IN ('string', 'object')
+  AND NOT EXISTS (SELECT 1 FROM course_sections s WHERE s.course_id = c.id);
+
+INSERT INTO course_modules (course_id, section_id, title, description, module_type, content_url, duration_minutes, sort_order, is_free)
+SELECT c.id,
+       s.id,
+       LEFT(COALESCE(NULLIF(lesson.value->>'title', ''), lesson.value#>>'{}'), 200),
+       lesson.value->>'description',
+       LEFT(COALESCE(lesson.value->>'module_type', lesson.value->>'content_type', 'video'), 50),
+       LEFT(lesson.value->>'content_url', 500),
+       CASE WHEN lesson.value->>'duration_minutes' ~ '^[0-9]+$' THEN (lesson.value->>'duration_minutes')::INT ELSE 0 END,
+       lesson.ordinality::INT,
+       COALESCE(lesson.value->>'is_free' = 'true', false)
+FROM courses c
+CROSS JOIN jsonb_array_elements(c.course_modules) WITH ORDINALITY AS elem(value, ordinality)
+CROSS JOIN jsonb_array_elements(
+  CASE WHEN jsonb_typeof(elem.value->'lessons') = 'array' THEN elem.value->'lessons' ELSE jsonb_build_array(elem.value) END
+) WITH ORDINALITY AS lesson(value, ordinality)
+JOIN course_sections s ON s.course_id = c.id AND s.sort_order = elem.ordinality::INT
+WHERE jsonb_typeof(c.course_modules) = 'array'
+  AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(c.course_modules) AS structured(value)
+    WHERE jsonb_typeof(structured.value->'lessons') = 'array'
+  )
+  AND jsonb_typeof(lesson.value) IN ('string', 'object')
+  AND NOT EXISTS (SELECT 1 FROM course_modules cm WHERE cm.course_id = c.id);
+
+-- 3. Flat JSONB (plain titles or lesson objects, no element carrying "lessons"): one default
+-- section holding every element as a lesson
+INSERT INTO course_sections (course_id, title, sort_order)
+SELECT c.id, 'Course Content', 1
+FROM courses c
+WHERE jsonb_typeof(c.course_modules) = 'array'
+  AND jsonb_array_length(c.course_modules) > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(c.course_modules) AS structured(value)
+    WHERE jsonb_typeof(structured.value->'lessons') = 'array'
+  )
+  AND NOT EXISTS (SELECT 1 FROM course_sections s WHERE s.course_id = c.id);
+
+INSERT INTO course_modules (course_id, section_id, title, description, module_type, content_url, duration_minutes, sort_order, is_free)
+SELECT c.id,
+       s.id,
+       LEFT(COALESCE(NULLIF(elem.value->>'title', ''), elem.value#>>'{}'), 200),
+       elem.value->>'description',
+       LEFT(COALESCE(elem.value->>'module_type', elem.value->>'content_type', 'video'), 50),
+       LEFT(elem.value->>'content_url', 500),
+       CASE WHEN elem.value->>'duration_minutes' ~ '^[0-9]+$' THEN (elem.value->>'duration_minutes')::INT ELSE 0 END,
+       elem.ordinality::INT,
+       COALESCE(elem.value->>'is_free' = 'true', false)
+FROM courses c
+CROSS JOIN jsonb_array_elements(c.course_modules) WITH ORDINALITY AS elem(value, ordinality)
+-- Only the default section made above; a course never has more than that one here
+JOIN course_sections s ON s.course_id = c.id AND s.sort_order = 1 AND s.title = 'Course Content'
+WHERE jsonb_typeof(c.course_modules) = 'array'
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(c.course_modules) AS structured(value)
+    WHERE jsonb_typeof(structured.value->'lessons') = 'array'
+  )
+  AND jsonb_typeof(elem.value) IN ('string', 'object')
+  AND NOT EXISTS (SELECT 1 FROM course_modules cm WHERE cm.course_id = c.id);
+
+-- 4. Rewrite courses.course_modules as a read-only snapshot of the relational curriculum
+UPDATE courses c
+SET course_modules = (
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'id', s.id::TEXT,
+      'title', s.title,
+      'description', s.description,
+      'lessons', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id::TEXT,
+            'title', m.title,
+            'module_type', m.module_type,
+            'duration_minutes', m.duration_minutes,
+            'is_free', m.is_free
+          ) ORDER BY m.sort_order, m.id
+        )
+        FROM course_modules m
+        WHERE m.section_id = s.id
+      ), '[]'::JSONB)
+    ) ORDER BY s.sort_order, s.id
+  )
+  FROM course_sections s
+  WHERE s.course_id = c.id
+)
+WHERE EXISTS (SELECT 1 FROM course_sections s WHERE s.course_id = c.id);
@@ -0,0 +1,52 @@
+-- Migration: Create Quiz Tables
+-- Description: Question banks, settings and graded attempts for course modules of type 'quiz'
+
+-- One settings row per quiz module
+CREATE TABLE IF NOT EXISTS quiz_settings (
+    module_id INTEGER PRIMARY KEY REFERENCES course_modules(id) ON DELETE CASCADE,
+    passing_score INTEGER DEFAULT 70 CHECK (passing_score >= 0 AND passing_score <= 100),
+    max_attempts INTEGER CHECK (max_attempts IS NULL OR max_attempts > 0),
+    shuffle_questions BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Question bank; options is [{ id, text }] for choice questions, correct_answers holds
+-- option ids, a single boolean (true_false) or accepted answers (short_answer)
+CREATE TABLE IF NOT EXISTS quiz_questions (
+    id SERIAL PRIMARY KEY,
+    module_id INTEGER NOT NULL REFERENCES course_modules(id) ON DELETE CASCADE,
+    question_type VARCHAR(20) NOT NULL CHECK (question_type IN ('single_choice', 'multiple_choice', 'true_false', 'short_answer')),
+    prompt TEXT NOT NULL,
+    options JSONB,
+    correct_answers JSONB NOT NULL,
+    explanation TEXT,
+    points INTEGER DEFAULT 1 CHECK (points > 0),
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Attempts keep the question order served to the student and the graded answers
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+    id SERIAL PRIMARY KEY,
+    module_id INTEGER NOT NULL REFERENCES course_modules(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    enrollment_id INTEGER REFERENCES enrollments(id) ON DELETE CASCADE,
+    status VARCHAR(20) DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'submitted')),
+    question_ids JSONB NOT NULL,
+    answers JSONB,
+    results JSONB,
+    points_earned INTEGER DEFAULT 0,
+    points_possible INTEGER DEFAULT 0,
+    score DECIMAL(5,2),
+    passed BOOLEAN DEFAULT false,
+    started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    submitted_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_module_id ON quiz_questions(module_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_student_module ON quiz_attempts(student_id, module_id);
+-- At most one open attempt per student and quiz, so concurrent starts cannot get around max_attempts
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_attempts_one_in_progress ON quiz_attempts(student_id, module_id) WHERE status = 'in_progress';
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_status ON quiz_attempts(status);
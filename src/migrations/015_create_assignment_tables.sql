@@ -0,0 +1,37 @@
+-- Migration: Create Assignment Tables
+-- Description: Settings and student submissions with grading for course modules of type 'assignment'
+
+-- One settings row per assignment module
+CREATE TABLE IF NOT EXISTS assignment_settings (
+    module_id INTEGER PRIMARY KEY REFERENCES course_modules(id) ON DELETE CASCADE,
+    instructions TEXT,
+    due_at TIMESTAMP,
+    allow_late BOOLEAN DEFAULT true,
+    max_submissions INTEGER CHECK (max_submissions IS NULL OR max_submissions > 0),
+    resubmit_after_grading BOOLEAN DEFAULT false,
+    max_score INTEGER DEFAULT 100 CHECK (max_score > 0),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Every submission is kept; attachments is [{ url, filename, content_type, size }]
+CREATE TABLE IF NOT EXISTS assignment_submissions (
+    id SERIAL PRIMARY KEY,
+    module_id INTEGER NOT NULL REFERENCES course_modules(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    enrollment_id INTEGER REFERENCES enrollments(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL DEFAULT 1,
+    submission_text TEXT,
+    attachments JSONB DEFAULT '[]',
+    status VARCHAR(20) DEFAULT 'submitted' CHECK (status IN ('submitted', 'graded', 'returned')),
+    is_late BOOLEAN DEFAULT false,
+    submitted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    score DECIMAL(6,2),
+    feedback TEXT,
+    graded_by UUID,
+    graded_at TIMESTAMP,
+    UNIQUE(module_id, student_id, attempt_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_submissions_student_module ON assignment_submissions(student_id, module_id);
+CREATE INDEX IF NOT EXISTS idx_assignment_submissions_status ON assignment_submissions(status, submitted_at);
@@ -0,0 +1,27 @@
+-- Migration: Create Certificates
+-- Description: Completion certificates with public verification codes, revocation and reissue history
+
+-- Names and title are snapshotted at issue time so a certificate keeps verifying as printed
+CREATE TABLE IF NOT EXISTS certificates (
+    id SERIAL PRIMARY KEY,
+    verification_code VARCHAR(32) NOT NULL UNIQUE,
+    enrollment_id INTEGER REFERENCES enrollments(id) ON DELETE SET NULL,
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    course_id INTEGER NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    student_name VARCHAR(255) NOT NULL,
+    course_title VARCHAR(255) NOT NULL,
+    instructor_name VARCHAR(255),
+    completion_date TIMESTAMP NOT NULL,
+    issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'revoked', 'reissued')),
+    revoked_at TIMESTAMP,
+    revoked_by UUID,
+    revocation_reason TEXT,
+    reissued_from INTEGER REFERENCES certificates(id) ON DELETE SET NULL
+);
+
+-- At most one valid certificate per student and course
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificates_active_student_course
+    ON certificates(student_id, course_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_certificates_course ON certificates(course_id);
+CREATE INDEX IF NOT EXISTS idx_certificates_status ON certificates(status);
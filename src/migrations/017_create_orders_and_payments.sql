@@ -0,0 +1,60 @@
+-- Migration: Create Orders and Payments
+-- Description: Checkout orders for paid courses and bundles, provider payments and processed webhook events
+
+-- One order per checkout; the enrollment is created only once the provider confirms payment
+CREATE TABLE IF NOT EXISTS orders (
+    id SERIAL PRIMARY KEY,
+    order_number VARCHAR(32) NOT NULL UNIQUE,
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    item_type VARCHAR(10) NOT NULL CHECK (item_type IN ('course', 'bundle')),
+    course_id INTEGER REFERENCES courses(id) ON DELETE SET NULL,
+    bundle_id INTEGER REFERENCES course_bundles(id) ON DELETE SET NULL,
+    item_title VARCHAR(255) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed', 'cancelled', 'refunded')),
+    provider VARCHAR(20) NOT NULL,
+    provider_reference VARCHAR(255),
+    failure_reason TEXT,
+    enrollment_id INTEGER REFERENCES enrollments(id) ON DELETE SET NULL,
+    paid_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_provider_reference ON orders(provider, provider_reference);
+CREATE INDEX IF NOT EXISTS idx_orders_student ON orders(student_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
+
+-- Captured provider transactions; transaction_id is the Stripe payment intent or PayPal capture id
+CREATE TABLE IF NOT EXISTS payments (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL,
+    user_id UUID REFERENCES students(id) ON DELETE SET NULL,
+    course_id INTEGER REFERENCES courses(id) ON DELETE SET NULL,
+    bundle_id INTEGER REFERENCES course_bundles(id) ON DELETE SET NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+    payment_method VARCHAR(20) NOT NULL,
+    transaction_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed', 'refunded')),
+    refund_id VARCHAR(255),
+    refund_reason TEXT,
+    refunded_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(payment_method, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_order ON payments(order_id);
+
+-- Every webhook event is recorded once; a redelivered event id is acknowledged without reprocessing
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+    id SERIAL PRIMARY KEY,
+    provider VARCHAR(20) NOT NULL,
+    event_id VARCHAR(255) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL,
+    payload JSONB,
+    received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(provider, event_id)
+);
@@ -0,0 +1,47 @@
+-- Migration: Create Coupons
+-- Description: Admin-managed discount codes, their redemptions per order, and discount columns on orders
+
+-- scope_id points at a course, bundle, field or category depending on scope_type ('all' has none)
+CREATE TABLE IF NOT EXISTS coupons (
+    id SERIAL PRIMARY KEY,
+    code VARCHAR(40) NOT NULL UNIQUE,
+    description VARCHAR(500),
+    discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+    discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+    max_discount_amount DECIMAL(10,2),
+    min_order_amount DECIMAL(10,2),
+    scope_type VARCHAR(20) NOT NULL DEFAULT 'all' CHECK (scope_type IN ('all', 'course', 'bundle', 'field', 'category')),
+    scope_id INTEGER,
+    starts_at TIMESTAMP,
+    expires_at TIMESTAMP,
+    max_redemptions INTEGER CHECK (max_redemptions IS NULL OR max_redemptions > 0),
+    max_redemptions_per_student INTEGER DEFAULT 1 CHECK (max_redemptions_per_student IS NULL OR max_redemptions_per_student > 0),
+    first_purchase_only BOOLEAN DEFAULT false,
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_scope ON coupons(scope_type, scope_id);
+
+-- One redemption per order: pending at checkout, redeemed once paid, released if the payment fails
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+    id SERIAL PRIMARY KEY,
+    coupon_id INTEGER NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+    order_id INTEGER NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    original_amount DECIMAL(10,2) NOT NULL,
+    discount_amount DECIMAL(10,2) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'redeemed', 'released')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    redeemed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon ON coupon_redemptions(coupon_id, status);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_student ON coupon_redemptions(student_id, coupon_id);
+
+-- amount stays the charged total; subtotal is the list price before the coupon
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS subtotal_amount DECIMAL(10,2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS coupon_id INTEGER REFERENCES coupons(id) ON DELETE SET NULL;
@@ -0,0 +1,30 @@
+-- Migration: Create Refund Requests
+-- Description: Student refund requests reviewed by admins, and active flags so refunds can revoke access
+
+-- processing marks a request whose provider refund is in flight; a failed refund returns it to pending
+CREATE TABLE IF NOT EXISTS refund_requests (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'approved', 'denied')),
+    admin_note TEXT,
+    reviewed_by UUID,
+    reviewed_at TIMESTAMP,
+    provider_refund_id VARCHAR(255),
+    failure_reason TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- At most one open or approved request per order; denied ones may be followed by a new request
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refund_requests_open_order
+    ON refund_requests(order_id) WHERE status IN ('pending', 'processing', 'approved');
+CREATE INDEX IF NOT EXISTS idx_refund_requests_status ON refund_requests(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_refund_requests_student ON refund_requests(student_id, created_at DESC);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP;
+
+-- Refunded enrollments and their progress are kept for history but no longer grant access
+ALTER TABLE enrollments ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE course_progress ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
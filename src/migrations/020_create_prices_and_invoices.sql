@@ -0,0 +1,61 @@
+-- Migration: Create Prices And Invoices
+-- Description: Per-currency course and bundle prices, tax details on orders, and numbered invoices for paid orders
+
+-- courses.price / course_bundles.bundle_price stay the price in PAYMENT_CURRENCY; rows here add other currencies
+CREATE TABLE IF NOT EXISTS course_prices (
+    id SERIAL PRIMARY KEY,
+    course_id INTEGER REFERENCES courses(id) ON DELETE CASCADE,
+    bundle_id INTEGER REFERENCES course_bundles(id) ON DELETE CASCADE,
+    currency VARCHAR(3) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((course_id IS NULL) <> (bundle_id IS NULL)),
+    UNIQUE(course_id, currency),
+    UNIQUE(bundle_id, currency)
+);
+
+-- Fixed-amount coupons are only valid in the currency they were written for
+ALTER TABLE coupons ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+
+-- Billing region and the tax included in amount, captured at checkout
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS billing_country VARCHAR(100);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS billing_state VARCHAR(100);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(10,2) DEFAULT 0;
+
+-- Invoice numbers run without gaps within an Indian financial year (April to March)
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+    financial_year VARCHAR(7) PRIMARY KEY,
+    last_number INTEGER NOT NULL DEFAULT 0
+);
+
+-- Everything printed on the invoice is stored as issued, so it outlives the order and student it was issued to
+CREATE TABLE IF NOT EXISTS invoices (
+    id SERIAL PRIMARY KEY,
+    invoice_number VARCHAR(32) NOT NULL UNIQUE,
+    financial_year VARCHAR(7) NOT NULL,
+    order_id INTEGER UNIQUE REFERENCES orders(id) ON DELETE SET NULL,
+    student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+    billing_name VARCHAR(255) NOT NULL,
+    billing_email VARCHAR(255),
+    billing_country VARCHAR(100),
+    billing_state VARCHAR(100),
+    item_type VARCHAR(10) NOT NULL,
+    item_title VARCHAR(255) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    subtotal_amount DECIMAL(10,2) NOT NULL,
+    discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    taxable_amount DECIMAL(10,2) NOT NULL,
+    tax_type VARCHAR(20) NOT NULL CHECK (tax_type IN ('intra_state', 'inter_state', 'export')),
+    tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+    cgst_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    sgst_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    igst_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(10,2) NOT NULL,
+    payment_provider VARCHAR(20),
+    issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_student ON invoices(student_id, issued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_issued ON invoices(issued_at);
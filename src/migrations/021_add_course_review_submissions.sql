@@ -0,0 +1,10 @@
+-- Migration: Add Course Review Submissions
+-- Description: Lets instructors submit their own courses for admin review before they are published.
+-- Where a course is in its review is courses.status (022); these columns hold the submission and the
+-- latest review decision.
+
+-- NULL until the instructor first submits the course; admin-created courses never need a review
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP;
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS review_note TEXT;
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
@@ -0,0 +1,27 @@
+-- Migration: Add Course Status Lifecycle
+-- Description: Replaces the is_published toggle with draft, in_review, scheduled, published and archived
+-- statuses, a publish_at time for scheduled courses and a history of every status change.
+-- is_published stays and is kept equal to (status = 'published'); existing rows are backfilled by 023.
+
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'in_review', 'scheduled', 'published', 'archived'));
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ;
+
+-- submitted_at orders the admin review queue
+CREATE INDEX IF NOT EXISTS idx_courses_status ON courses(status, submitted_at);
+CREATE INDEX IF NOT EXISTS idx_courses_publish_at ON courses(publish_at) WHERE status = 'scheduled';
+
+-- One row per status change; from_status is NULL for the row written when a course is created
+CREATE TABLE IF NOT EXISTS course_status_history (
+    id SERIAL PRIMARY KEY,
+    course_id INTEGER NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    comment TEXT,
+    publish_at TIMESTAMPTZ,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    changed_by_role VARCHAR(20) NOT NULL CHECK (changed_by_role IN ('admin', 'instructor', 'system')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_status_history_course ON course_status_history(course_id, created_at);
@@ -0,0 +1,11 @@
+-- Migration: Backfill Course Status
+-- Description: Derives status for existing courses from is_published: published or draft.
+-- Kept separate from 022 because CockroachDB cannot write a column added earlier in the same transaction.
+
+UPDATE courses
+SET status = CASE WHEN is_published = true THEN 'published' ELSE 'draft' END;
+
+INSERT INTO course_status_history (course_id, from_status, to_status, comment, changed_by_role)
+SELECT id, NULL, status, 'Status derived from the course when the lifecycle was introduced', 'system'
+FROM courses
+WHERE NOT EXISTS (SELECT 1 FROM course_status_history h WHERE h.course_id = courses.id);
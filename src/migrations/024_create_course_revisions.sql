@@ -0,0 +1,24 @@
+-- Migration: Create Course Revisions
+-- Description: Stores a snapshot of a course or module after every edit, with who made it and a
+-- field-level diff against the previous revision, so admins can compare and restore earlier versions.
+-- Status changes are not revisions; they are kept in course_status_history.
+
+CREATE TABLE IF NOT EXISTS course_revisions (
+    id SERIAL PRIMARY KEY,
+    course_id INTEGER NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('course', 'module')),
+    -- No foreign key for modules: their history outlives a deleted module until the course goes
+    entity_id INTEGER NOT NULL,
+    revision_number INTEGER NOT NULL,
+    -- baseline is the state before the first tracked edit, so the original can be restored too
+    change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('baseline', 'update', 'restore')),
+    snapshot JSONB NOT NULL,
+    changes JSONB NOT NULL DEFAULT '[]',
+    restored_from INTEGER,
+    edited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    edited_by_role VARCHAR(20) NOT NULL CHECK (edited_by_role IN ('admin', 'instructor', 'system')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(entity_type, entity_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_revisions_course ON course_revisions(course_id, created_at);
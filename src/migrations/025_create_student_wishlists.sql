@@ -0,0 +1,19 @@
+-- Migration: Create Student Wishlists
+-- Description: Courses students have saved for later. notified_price / notified_is_free hold the
+-- price the student was last told about (the price when the course was saved), so a later drop
+-- or a switch to free is emailed once to students who opted in.
+
+CREATE TABLE IF NOT EXISTS student_wishlists (
+    id SERIAL PRIMARY KEY,
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    course_id INTEGER NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    notify_price_drop BOOLEAN NOT NULL DEFAULT true,
+    notified_price DECIMAL(10,2),
+    notified_is_free BOOLEAN,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(student_id, course_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_wishlists_student ON student_wishlists(student_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_student_wishlists_course ON student_wishlists(course_id);
@@ -0,0 +1,21 @@
+-- Migration: Create Student OTPs
+-- Description: One-time codes sent by SMS for passwordless login and phone verification.
+-- Only an HMAC of the code is stored. There is one row per phone and purpose; requesting a new
+-- code replaces it, so only the latest code works.
+
+CREATE TABLE IF NOT EXISTS student_otps (
+    id SERIAL PRIMARY KEY,
+    phone VARCHAR(20) NOT NULL,
+    purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('login', 'verify_phone')),
+    -- Set for phone verification (the signed-in student); login resolves the student on verify
+    student_id UUID REFERENCES students(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP NOT NULL,
+    consumed_at TIMESTAMP,
+    last_sent_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(phone, purpose)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_otps_expires ON student_otps(expires_at);
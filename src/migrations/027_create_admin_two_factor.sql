@@ -0,0 +1,24 @@
+-- Migration: Create Admin Two-Factor Authentication
+-- Description: TOTP secrets and one-time recovery codes for admin users.
+-- A row with enabled_at NULL is an enrolment that has not been confirmed with a code yet.
+-- The secret is stored encrypted; recovery codes only as SHA-256 hashes.
+
+CREATE TABLE IF NOT EXISTS admin_two_factor (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    secret_encrypted TEXT NOT NULL,
+    enabled_at TIMESTAMP,
+    -- Time step of the last accepted code, so the same code cannot be used twice
+    last_used_step BIGINT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS admin_recovery_codes (
+    id SERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_recovery_codes_user ON admin_recovery_codes(user_id);
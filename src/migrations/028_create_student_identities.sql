@@ -0,0 +1,20 @@
+-- Migration: Create Student Identities
+-- Description: External sign-in accounts (Google and other OpenID Connect providers) linked to
+-- students, keyed by the provider's stable subject id. A student has at most one account per
+-- provider. has_password is false for students created through social sign-in until they set a
+-- password, so their last linked account cannot be removed.
+
+CREATE TABLE IF NOT EXISTS student_identities (
+    id SERIAL PRIMARY KEY,
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    provider VARCHAR(30) NOT NULL,
+    subject VARCHAR(255) NOT NULL,
+    -- Email the provider reported when the account was linked
+    email VARCHAR(255),
+    last_login_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(provider, subject),
+    UNIQUE(student_id, provider)
+);
+
+ALTER TABLE students ADD COLUMN IF NOT EXISTS has_password BOOLEAN NOT NULL DEFAULT true;
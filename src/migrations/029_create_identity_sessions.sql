@@ -0,0 +1,24 @@
+-- Migration: Create Identity Sessions
+-- Description: One session store for students and staff users (instructors, admins, superusers).
+-- Every access and refresh token names its session, so revoking the session ends them at once.
+-- Refresh tokens are kept only as SHA-256 hashes. Replaces user_sessions and student_refresh_tokens
+-- for new sign-ins; tokens issued before this migration have no session and must sign in again.
+
+CREATE TABLE IF NOT EXISTS identity_sessions (
+    session_id VARCHAR(64) PRIMARY KEY,
+    principal_type VARCHAR(20) NOT NULL CHECK (principal_type IN ('student', 'instructor', 'admin', 'superuser')),
+    -- students.id for students, users.id for staff
+    principal_id UUID NOT NULL,
+    fingerprint_hash VARCHAR(64),
+    refresh_token_hash VARCHAR(64),
+    ip_address VARCHAR(64),
+    user_agent TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_activity TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    revoked_at TIMESTAMP,
+    revoked_reason VARCHAR(100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_identity_sessions_principal ON identity_sessions(principal_id);
+CREATE INDEX IF NOT EXISTS idx_identity_sessions_expires ON identity_sessions(expires_at);
@@ -0,0 +1,239 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { PoolClient } from 'pg';
+import { AdminTwoFactorStatus, TwoFactorMethod } from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { generateSecret, provisioningUri, verifyTotp } from '../utils/totp';
+
+export type TwoFactorEnrolment = { secret: string; otpauth_url: string };
+
+export type TwoFactorConfirmResult =
+  | { status: 'enabled'; recoveryCodes: string[] }
+  | { status: 'invalid' }
+  | { status: 'not_pending' };
+
+const ISSUER = 'Zenow Academy';
+const RECOVERY_CODE_COUNT = 10;
+
+export class AdminTwoFactor {
+
+  static isRequired(): boolean {
+    return process.env.ADMIN_2FA_REQUIRED === 'true';
+  }
+
+  private static key(): Buffer {
+    const secret = process.env.ADMIN_2FA_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key';
+    return createHash('sha256').update(secret).digest();
+  }
+
+  /**
+   * AES-256-GCM, stored as iv:tag:ciphertext in hex
+   */
+  static encryptSecret(secret: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', AdminTwoFactor.key(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('hex')).join(':');
+  }
+
+  static decryptSecret(stored: string): string {
+    const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'hex'));
+    const decipher = createDecipheriv('aes-256-gcm', AdminTwoFactor.key(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Recovery codes look like "3f9a2-c41be"; case and separators are ignored when one is entered
+   */
+  static generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+    return Array.from({ length: count }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  static hashRecoveryCode(code: string): string {
+    const normalized = String(code || '').toLowerCase().replace(/[^0-9a-f]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  async getStatus(userId: string): Promise<AdminTwoFactorStatus> {
+    try {
+      const result = await dbManager.query(
+        `SELECT t.enabled_at,
+                (SELECT COUNT(*) FROM admin_recovery_codes r WHERE r.user_id = $1 AND r.used_at IS NULL) AS recovery_codes_remaining
+         FROM admin_two_factor t
+         WHERE t.user_id = $1 AND t.enabled_at IS NOT NULL`,
+        [userId]
+      );
+      const row = result.rows[0];
+
+      return {
+        enabled: !!row,
+        enabled_at: row ? row.enabled_at : null,
+        recovery_codes_remaining: row ? Number(row.recovery_codes_remaining) || 0 : 0,
+        required: AdminTwoFactor.isRequired()
+      };
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts (or restarts) enrolment with a fresh secret. Returns null when 2FA is already enabled;
+   * it has to be turned off or reset before a new authenticator can be enrolled.
+   */
+  async beginEnrolment(userId: string, account: string): Promise<TwoFactorEnrolment | null> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const existing = await client.query(
+          'SELECT enabled_at FROM admin_two_factor WHERE user_id = $1 FOR UPDATE',
+          [userId]
+        );
+        if (existing.rows[0]?.enabled_at) {
+          return null;
+        }
+
+        const secret = generateSecret();
+        await client.query(
+          `INSERT INTO admin_two_factor (user_id, secret_encrypted, enabled_at, last_used_step)
+           VALUES ($1, $2, NULL, NULL)
+           ON CONFLICT (user_id) DO UPDATE SET
+             secret_encrypted = EXCLUDED.secret_encrypted, last_used_step = NULL, updated_at = NOW()`,
+          [userId, AdminTwoFactor.encryptSecret(secret)]
+        );
+
+        return { secret, otpauth_url: provisioningUri(secret, account, ISSUER) };
+      });
+    } catch (error) {
+      console.error('Error starting two-factor enrolment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turns 2FA on once the admin proves their authenticator works, and issues the recovery codes.
+   * The codes are returned once and only their hashes are kept.
+   */
+  async confirmEnrolment(userId: string, code: string): Promise<TwoFactorConfirmResult> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          'SELECT secret_encrypted, enabled_at FROM admin_two_factor WHERE user_id = $1 FOR UPDATE',
+          [userId]
+        );
+        const row = result.rows[0];
+        if (!row || row.enabled_at) {
+          return { status: 'not_pending' as const };
+        }
+
+        const step = verifyTotp(AdminTwoFactor.decryptSecret(row.secret_encrypted), code);
+        if (step === null) {
+          return { status: 'invalid' as const };
+        }
+
+        await client.query(
+          'UPDATE admin_two_factor SET enabled_at = NOW(), last_used_step = $1, updated_at = NOW() WHERE user_id = $2',
+          [step, userId]
+        );
+        const recoveryCodes = await this.replaceRecoveryCodes(client, userId);
+
+        return { status: 'enabled' as const, recoveryCodes };
+      });
+    } catch (error) {
+      console.error('Error confirming two-factor enrolment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks a second-factor code: an authenticator code first, then an unused recovery code,
+   * which is used up. Returns how the admin got in, or null.
+   */
+  async verify(userId: string, code: string): Promise<TwoFactorMethod | null> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          `SELECT secret_encrypted, last_used_step FROM admin_two_factor
+           WHERE user_id = $1 AND enabled_at IS NOT NULL FOR UPDATE`,
+          [userId]
+        );
+        const row = result.rows[0];
+        if (!row) {
+          return null;
+        }
+
+        const lastUsedStep = row.last_used_step === null || row.last_used_step === undefined ? -1 : Number(row.last_used_step);
+        const step = verifyTotp(AdminTwoFactor.decryptSecret(row.secret_encrypted), code, { afterStep: lastUsedStep });
+        if (step !== null) {
+          await client.query(
+            'UPDATE admin_two_factor SET last_used_step = $1, updated_at = NOW() WHERE user_id = $2',
+            [step, userId]
+          );
+          return 'totp' as const;
+        }
+
+        const recovery = await client.query(
+          `UPDATE admin_recovery_codes SET used_at = NOW()
+           WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+           RETURNING id`,
+          [userId, AdminTwoFactor.hashRecoveryCode(code)]
+        );
+        return recovery.rows.length > 0 ? 'recovery_code' as const : null;
+      });
+    } catch (error) {
+      console.error('Error verifying two-factor code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * New set of recovery codes for an enabled account; earlier codes stop working.
+   * Returns null when 2FA is not enabled.
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[] | null> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          'SELECT user_id FROM admin_two_factor WHERE user_id = $1 AND enabled_at IS NOT NULL FOR UPDATE',
+          [userId]
+        );
+        if (result.rows.length === 0) {
+          return null;
+        }
+        return this.replaceRecoveryCodes(client, userId);
+      });
+    } catch (error) {
+      console.error('Error regenerating recovery codes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes the secret and recovery codes; the admin signs in with a password only (or is asked to
+   * enrol again when 2FA is required). Returns false when there was nothing to remove.
+   */
+  async disable(userId: string): Promise<boolean> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        await client.query('DELETE FROM admin_recovery_codes WHERE user_id = $1', [userId]);
+        const result = await client.query('DELETE FROM admin_two_factor WHERE user_id = $1 RETURNING user_id', [userId]);
+        return result.rows.length > 0;
+      });
+    } catch (error) {
+      console.error('Error disabling two-factor authentication:', error);
+      throw error;
+    }
+  }
+
+  private async replaceRecoveryCodes(client: PoolClient, userId: string): Promise<string[]> {
+    const codes = AdminTwoFactor.generateRecoveryCodes();
+    await client.query('DELETE FROM admin_recovery_codes WHERE user_id = $1', [userId]);
+    await client.query(
+      'INSERT INTO admin_recovery_codes (user_id, code_hash) SELECT $1, UNNEST($2::TEXT[])',
+      [userId, codes.map(code => AdminTwoFactor.hashRecoveryCode(code))]
+    );
+    return codes;
+  }
+}
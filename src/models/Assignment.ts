@@ -0,0 +1,253 @@
+import {
+  AssignmentSettings,
+  AssignmentSubmission,
+  CreateAssignmentSubmissionRequest,
+  GradeAssignmentRequest,
+  UpdateAssignmentSettingsRequest
+} from '../types';
+import { dbManager } from '../utils/databaseManager';
+
+const SETTINGS_COLUMNS = ['instructions', 'due_at', 'allow_late', 'max_submissions', 'resubmit_after_grading', 'max_score'] as const;
+
+export interface SubmissionCheck {
+  allowed: boolean;
+  reason?: string;
+  isLate: boolean;
+  attemptNumber: number;
+}
+
+export class Assignment {
+
+  /**
+   * Applies the resubmission rules to a student's previous submissions (newest first)
+   */
+  static checkSubmissionAllowed(
+    settings: AssignmentSettings,
+    previous: Pick<AssignmentSubmission, 'status' | 'attempt_number'>[],
+    now: Date = new Date()
+  ): SubmissionCheck {
+    const latest = previous[0];
+    const attemptNumber = latest ? latest.attempt_number + 1 : 1;
+    const isLate = !!settings.due_at && now.getTime() > new Date(settings.due_at).getTime();
+
+    if (latest?.status === 'graded' && !settings.resubmit_after_grading) {
+      return { allowed: false, reason: 'This assignment has already been graded', isLate, attemptNumber };
+    }
+    if (settings.max_submissions && previous.length >= settings.max_submissions) {
+      return { allowed: false, reason: 'No submissions remaining for this assignment', isLate, attemptNumber };
+    }
+    if (isLate && !settings.allow_late) {
+      return { allowed: false, reason: 'The due date for this assignment has passed', isLate, attemptNumber };
+    }
+
+    return { allowed: true, isLate, attemptNumber };
+  }
+
+  async getAssignmentModule(moduleId: string, courseId?: string): Promise<any | null> {
+    try {
+      const values: any[] = [moduleId];
+      let courseCondition = '';
+      if (courseId) {
+        values.push(courseId);
+        courseCondition = 'AND m.course_id = $2';
+      }
+
+      const result = await dbManager.query(
+        `SELECT m.id as module_id, m.course_id, m.title, m.description,
+                c.title as course_title,
+                s.instructions, s.due_at,
+                COALESCE(s.allow_late, true) as allow_late,
+                s.max_submissions,
+                COALESCE(s.resubmit_after_grading, false) as resubmit_after_grading,
+                COALESCE(s.max_score, 100) as max_score
+         FROM course_modules m
+         JOIN courses c ON m.course_id = c.id
+         LEFT JOIN assignment_settings s ON s.module_id = m.id
+         WHERE m.id = $1 AND m.module_type = 'assignment' ${courseCondition}`,
+        values
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching assignment module:', error);
+      throw error;
+    }
+  }
+
+  async updateSettings(moduleId: string, data: UpdateAssignmentSettingsRequest): Promise<AssignmentSettings> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        await client.query(
+          'INSERT INTO assignment_settings (module_id) VALUES ($1) ON CONFLICT (module_id) DO NOTHING',
+          [moduleId]
+        );
+
+        const updateFields: string[] = [];
+        const values: any[] = [];
+
+        for (const column of SETTINGS_COLUMNS) {
+          if (data[column] !== undefined) {
+            values.push(data[column]);
+            updateFields.push(`${column} = $${values.length}`);
+          }
+        }
+
+        values.push(moduleId);
+        const result = await client.query(
+          `UPDATE assignment_settings
+           SET ${[...updateFields, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+           WHERE module_id = $${values.length}
+           RETURNING module_id, instructions, due_at, allow_late, max_submissions, resubmit_after_grading, max_score`,
+          values
+        );
+        return result.rows[0];
+      });
+    } catch (error) {
+      console.error('Error updating assignment settings:', error);
+      throw error;
+    }
+  }
+
+  async getStudentSubmissions(studentId: string, moduleId: string): Promise<AssignmentSubmission[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT * FROM assignment_submissions
+         WHERE student_id = $1 AND module_id = $2
+         ORDER BY attempt_number DESC`,
+        [studentId, moduleId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching assignment submissions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Inserts the next attempt; the (module, student, attempt_number) key rejects a concurrent duplicate
+   */
+  async createSubmission(
+    studentId: string,
+    moduleId: string,
+    enrollmentId: string,
+    attemptNumber: number,
+    isLate: boolean,
+    data: CreateAssignmentSubmissionRequest
+  ): Promise<AssignmentSubmission | null> {
+    try {
+      const result = await dbManager.query(
+        `INSERT INTO assignment_submissions (module_id, student_id, enrollment_id, attempt_number, submission_text, attachments, is_late)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (module_id, student_id, attempt_number) DO NOTHING
+         RETURNING *`,
+        [
+          moduleId,
+          studentId,
+          enrollmentId,
+          attemptNumber,
+          data.submission_text || null,
+          JSON.stringify(data.attachments || []),
+          isLate
+        ]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error creating assignment submission:', error);
+      throw error;
+    }
+  }
+
+  async getSubmissionsForGrading(filters: {
+    module_id?: string;
+    course_id?: string;
+    status?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ submissions: any[]; total: number }> {
+    try {
+      let whereClause = 'WHERE 1=1';
+      const values: any[] = [];
+
+      if (filters.module_id) {
+        values.push(filters.module_id);
+        whereClause += ` AND sub.module_id = $${values.length}`;
+      }
+      if (filters.course_id) {
+        values.push(filters.course_id);
+        whereClause += ` AND m.course_id = $${values.length}`;
+      }
+      if (filters.status) {
+        values.push(filters.status);
+        whereClause += ` AND sub.status = $${values.length}`;
+      }
+
+      const submissionsQuery = `
+        SELECT sub.*, m.title as module_title, m.course_id, c.title as course_title,
+               st.first_name, st.last_name, st.email, st.student_id as student_code
+        FROM assignment_submissions sub
+        JOIN course_modules m ON sub.module_id = m.id
+        JOIN courses c ON m.course_id = c.id
+        JOIN students st ON sub.student_id = st.id
+        ${whereClause}
+        ORDER BY sub.submitted_at ASC, sub.id ASC
+        LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+      `;
+      const countQuery = `
+        SELECT COUNT(*) as total
+        FROM assignment_submissions sub
+        JOIN course_modules m ON sub.module_id = m.id
+        ${whereClause}
+      `;
+
+      const [submissionsResult, countResult] = await Promise.all([
+        dbManager.query(submissionsQuery, [...values, filters.limit, (filters.page - 1) * filters.limit]),
+        dbManager.query(countQuery, values)
+      ]);
+
+      return {
+        submissions: submissionsResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching submissions for grading:', error);
+      throw error;
+    }
+  }
+
+  async getSubmissionById(submissionId: string): Promise<any | null> {
+    try {
+      const result = await dbManager.query(
+        `SELECT sub.*, m.title as module_title, m.course_id, c.title as course_title,
+                COALESCE(s.max_score, 100) as max_score,
+                st.first_name, st.last_name, st.email, st.student_id as student_code
+         FROM assignment_submissions sub
+         JOIN course_modules m ON sub.module_id = m.id
+         JOIN courses c ON m.course_id = c.id
+         JOIN students st ON sub.student_id = st.id
+         LEFT JOIN assignment_settings s ON s.module_id = sub.module_id
+         WHERE sub.id = $1`,
+        [submissionId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching assignment submission:', error);
+      throw error;
+    }
+  }
+
+  async gradeSubmission(submissionId: string, data: GradeAssignmentRequest, graderId: string | undefined): Promise<AssignmentSubmission | null> {
+    try {
+      const result = await dbManager.query(
+        `UPDATE assignment_submissions
+         SET status = $2, score = $3, feedback = $4, graded_by = $5, graded_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [submissionId, data.status || 'graded', data.score, data.feedback || null, graderId || null]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error grading assignment submission:', error);
+      throw error;
+    }
+  }
+
+}
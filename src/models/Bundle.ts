@@ -0,0 +1,305 @@
+import { PoolClient } from 'pg';
+import { CourseBundle as BundleType, CreateBundleRequest, UpdateBundleRequest } from '../types';
+import { dbManager } from '../utils/databaseManager';
+
+// Columns an admin may change directly; pricing totals are derived from the bundle's courses
+const EDITABLE_COLUMNS = [
+  'title', 'slug', 'description', 'short_description', 'banner_image', 'thumbnail_image',
+  'difficulty_level', 'bundle_price', 'is_published', 'instructor_id', 'prerequisites',
+  'learning_outcomes', 'tags'
+] as const;
+
+export class Bundle {
+
+  /**
+   * Adds savings versus individual_price. DECIMAL columns arrive from pg as strings.
+   */
+  static withSavings(bundle: any): BundleType {
+    const bundlePrice = parseFloat(bundle.bundle_price) || 0;
+    const individualPrice = parseFloat(bundle.individual_price) || 0;
+    const savings = Math.max(individualPrice - bundlePrice, 0);
+
+    return {
+      ...bundle,
+      course_count: bundle.course_count !== undefined ? parseInt(bundle.course_count) || 0 : undefined,
+      savings_amount: Math.round(savings * 100) / 100,
+      savings_percentage: individualPrice > 0 ? Math.round((savings / individualPrice) * 10000) / 100 : 0
+    };
+  }
+
+  async getPublishedBundles(): Promise<BundleType[]> {
+    try {
+      const query = `
+        SELECT b.*,
+               (SELECT COUNT(*) FROM bundle_courses bc WHERE bc.bundle_id = b.id) as course_count
+        FROM course_bundles b
+        WHERE b.is_published = true
+        ORDER BY b.created_at DESC
+      `;
+      const result = await dbManager.query(query);
+      return result.rows.map(Bundle.withSavings);
+    } catch (error) {
+      console.error('Error fetching bundles:', error);
+      throw error;
+    }
+  }
+
+  async getAllBundlesAdmin(): Promise<BundleType[]> {
+    try {
+      const query = `
+        SELECT b.*,
+               (SELECT COUNT(*) FROM bundle_courses bc WHERE bc.bundle_id = b.id) as course_count,
+               (SELECT COUNT(*) FROM enrollments e WHERE e.bundle_id = b.id) as enrollment_count
+        FROM course_bundles b
+        ORDER BY b.created_at DESC
+      `;
+      const result = await dbManager.query(query);
+      return result.rows.map(Bundle.withSavings);
+    } catch (error) {
+      console.error('Error fetching bundles for admin:', error);
+      throw error;
+    }
+  }
+
+  async getBundleById(id: string, publishedOnly: boolean = true): Promise<BundleType | null> {
+    try {
+      const query = `
+        SELECT * FROM course_bundles
+        WHERE id = $1 ${publishedOnly ? 'AND is_published = true' : ''}
+      `;
+      const result = await dbManager.query(query, [id]);
+      if (!result.rows[0]) {
+        return null;
+      }
+
+      const courses = await this.getBundleCourses(id, publishedOnly);
+      return Bundle.withSavings({ ...result.rows[0], course_count: courses.length, courses });
+    } catch (error) {
+      console.error('Error fetching bundle by ID:', error);
+      throw error;
+    }
+  }
+
+  async getBundleBySlug(slug: string): Promise<BundleType | null> {
+    try {
+      const result = await dbManager.query(
+        'SELECT * FROM course_bundles WHERE slug = $1 AND is_published = true',
+        [slug]
+      );
+      if (!result.rows[0]) {
+        return null;
+      }
+
+      const courses = await this.getBundleCourses(result.rows[0].id, true);
+      return Bundle.withSavings({ ...result.rows[0], course_count: courses.length, courses });
+    } catch (error) {
+      console.error('Error fetching bundle by slug:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Courses in bundle order. Public callers only see published courses.
+   */
+  async getBundleCourses(bundleId: string, publishedOnly: boolean = true): Promise<any[]> {
+    try {
+      const query = `
+        SELECT c.id, c.title, c.slug, c.short_description, c.thumbnail_image,
+               c.duration_hours, c.difficulty_level, c.price, c.is_free, c.is_published,
+               c.rating, c.total_ratings, c.enrolled_students,
+               f.name as field_name, f.slug as field_slug,
+               bc.sort_order
+        FROM bundle_courses bc
+        JOIN courses c ON bc.course_id = c.id
+        JOIN fields f ON c.field_id = f.id
+        WHERE bc.bundle_id = $1 ${publishedOnly ? 'AND c.is_published = true' : ''}
+        ORDER BY bc.sort_order ASC, bc.id ASC
+      `;
+      const result = await dbManager.query(query, [bundleId]);
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching bundle courses:', error);
+      throw error;
+    }
+  }
+
+  async createBundle(bundleData: CreateBundleRequest): Promise<BundleType | null> {
+    try {
+      const bundleId = await dbManager.transaction(async (client) => {
+        const columns = EDITABLE_COLUMNS.filter(column => bundleData[column] !== undefined);
+        const values = columns.map(column => this.toColumnValue(column, bundleData[column]));
+        const placeholders = columns.map((_, index) => `$${index + 1}`);
+
+        const result = await client.query(
+          `INSERT INTO course_bundles (${columns.join(', ')}) VALUES (${placeholders.join(', ')}) RETURNING id`,
+          values
+        );
+        const id = result.rows[0].id;
+
+        await this.replaceCourses(client, id, bundleData.course_ids || []);
+        await this.refreshTotals(client, id);
+        return id;
+      });
+
+      return this.getBundleById(bundleId, false);
+    } catch (error) {
+      console.error('Error creating bundle:', error);
+      throw error;
+    }
+  }
+
+  async updateBundle(id: string, bundleData: UpdateBundleRequest): Promise<BundleType | null> {
+    try {
+      const updated = await dbManager.transaction(async (client) => {
+        const columns = EDITABLE_COLUMNS.filter(column => bundleData[column] !== undefined);
+        const values: any[] = columns.map(column => this.toColumnValue(column, bundleData[column]));
+        const assignments = columns.map((column, index) => `${column} = $${index + 1}`);
+        assignments.push('updated_at = CURRENT_TIMESTAMP');
+        values.push(id);
+
+        const result = await client.query(
+          `UPDATE course_bundles SET ${assignments.join(', ')} WHERE id = $${values.length} RETURNING id`,
+          values
+        );
+        if (result.rows.length === 0) {
+          return false;
+        }
+
+        if (bundleData.course_ids !== undefined) {
+          await this.replaceCourses(client, id, bundleData.course_ids);
+        }
+        await this.refreshTotals(client, id);
+        return true;
+      });
+
+      return updated ? this.getBundleById(id, false) : null;
+    } catch (error) {
+      console.error('Error updating bundle:', error);
+      throw error;
+    }
+  }
+
+  async deleteBundle(id: string): Promise<boolean> {
+    try {
+      const result = await dbManager.query('DELETE FROM course_bundles WHERE id = $1 RETURNING id', [id]);
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Error deleting bundle:', error);
+      throw error;
+    }
+  }
+
+  async countEnrollments(bundleId: string): Promise<number> {
+    try {
+      const result = await dbManager.query(
+        'SELECT COUNT(*) as total FROM enrollments WHERE bundle_id = $1',
+        [bundleId]
+      );
+      return parseInt(result.rows[0].total) || 0;
+    } catch (error) {
+      console.error('Error counting bundle enrollments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A single enrollment row carries bundle_id; course access is resolved through bundle_courses,
+   * so courses added to the bundle later are covered too.
+   */
+  async enrollStudent(studentId: string, bundleId: string): Promise<{ enrollment: any; created: boolean }> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const inserted = await client.query(
+          `INSERT INTO enrollments (user_id, bundle_id, enrollment_type)
+           VALUES ($1, $2, 'bundle')
+           ON CONFLICT (user_id, bundle_id) DO NOTHING
+           RETURNING *`,
+          [studentId, bundleId]
+        );
+
+        if (inserted.rows[0]) {
+          await client.query(
+            'UPDATE course_bundles SET enrolled_students = COALESCE(enrolled_students, 0) + 1 WHERE id = $1',
+            [bundleId]
+          );
+          return { enrollment: inserted.rows[0], created: true };
+        }
+
+        const existing = await client.query(
+          'SELECT * FROM enrollments WHERE user_id = $1 AND bundle_id = $2',
+          [studentId, bundleId]
+        );
+        return { enrollment: existing.rows[0], created: false };
+      });
+    } catch (error) {
+      console.error('Error enrolling student in bundle:', error);
+      throw error;
+    }
+  }
+
+  async getStudentEnrollment(studentId: string, bundleId: string): Promise<any> {
+    try {
+      const result = await dbManager.query(
+        'SELECT * FROM enrollments WHERE user_id = $1 AND bundle_id = $2 AND is_active = true',
+        [studentId, bundleId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching bundle enrollment:', error);
+      throw error;
+    }
+  }
+
+  private toColumnValue(column: typeof EDITABLE_COLUMNS[number], value: any): any {
+    if (column === 'learning_outcomes') {
+      return value === null ? null : JSON.stringify(value);
+    }
+    if (column === 'instructor_id' && value === '') {
+      return null;
+    }
+    return value;
+  }
+
+  private async replaceCourses(client: PoolClient, bundleId: string, courseIds: string[]): Promise<void> {
+    await client.query('DELETE FROM bundle_courses WHERE bundle_id = $1', [bundleId]);
+
+    for (const [index, courseId] of courseIds.entries()) {
+      await client.query(
+        'INSERT INTO bundle_courses (bundle_id, course_id, sort_order) VALUES ($1, $2, $3)',
+        [bundleId, courseId, index]
+      );
+    }
+  }
+
+  /**
+   * Recomputes individual_price, duration and discount from the bundle's current courses
+   */
+  private async refreshTotals(client: PoolClient, bundleId: string): Promise<void> {
+    await client.query(
+      `UPDATE course_bundles b
+       SET individual_price = totals.price_total,
+           total_duration_hours = totals.duration_total
+       FROM (
+         SELECT COALESCE(SUM(c.price), 0) as price_total,
+                COALESCE(SUM(c.duration_hours), 0) as duration_total
+         FROM bundle_courses bc
+         JOIN courses c ON bc.course_id = c.id
+         WHERE bc.bundle_id = $1
+       ) totals
+       WHERE b.id = $1`,
+      [bundleId]
+    );
+
+    await client.query(
+      `UPDATE course_bundles
+       SET discount_percentage = CASE
+         WHEN individual_price > 0 AND individual_price > bundle_price
+           THEN ROUND((individual_price - bundle_price) / individual_price * 100, 2)
+         ELSE 0
+       END
+       WHERE id = $1`,
+      [bundleId]
+    );
+  }
+
+}
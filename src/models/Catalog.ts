@@ -0,0 +1,310 @@
+import { PoolClient } from 'pg';
+import Joi from 'joi';
+import { CatalogEntity, CatalogImportResult, CatalogImportRow } from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { toCsv } from '../utils/csv';
+import { validationSchemas } from '../middleware/validation';
+import { ValidationError } from '../middleware/errorHandler';
+import { CoursePublishing } from './CoursePublishing';
+import { CourseRevision } from './CourseRevision';
+
+// Columns of each CSV, in file order; the slug columns identify the row for upserts
+export const CATALOG_COLUMNS: Record<CatalogEntity, readonly string[]> = {
+  categories: ['name', 'slug', 'description', 'icon_url', 'banner_image', 'sort_order', 'is_active'],
+  fields: ['category_slug', 'name', 'slug', 'description', 'icon_url', 'banner_image', 'sort_order', 'is_active'],
+  courses: [
+    'category_slug', 'field_slug', 'title', 'slug', 'description', 'short_description', 'banner_image',
+    'thumbnail_image', 'duration_hours', 'difficulty_level', 'price', 'is_free', 'instructor_email',
+    'prerequisites', 'learning_outcomes', 'tags', 'status'
+  ]
+};
+
+// Table columns an import writes; status is exported for reference but changes through the lifecycle only
+const WRITABLE_COLUMNS: Record<CatalogEntity, readonly string[]> = {
+  categories: ['name', 'slug', 'description', 'icon_url', 'banner_image', 'sort_order', 'is_active'],
+  fields: ['category_id', 'name', 'slug', 'description', 'icon_url', 'banner_image', 'sort_order', 'is_active'],
+  courses: [
+    'field_id', 'title', 'slug', 'description', 'short_description', 'banner_image', 'thumbnail_image',
+    'duration_hours', 'difficulty_level', 'price', 'is_free', 'instructor_id', 'prerequisites',
+    'learning_outcomes', 'tags'
+  ]
+};
+
+const ROW_SCHEMAS: Record<CatalogEntity, Joi.ObjectSchema> = {
+  categories: validationSchemas.createCategory,
+  fields: validationSchemas.createField,
+  courses: validationSchemas.createCourse
+};
+
+const PARENT_COLUMNS = ['category_id', 'field_id'];
+
+const MAX_IMPORT_ROWS = 2000;
+
+// Ids of the rows an import refers to, loaded once per upload
+export interface CatalogLookups {
+  categories: Map<string, string>;
+  // Keyed by "<category_slug>/<field_slug>"
+  fields: Map<string, string>;
+  // Keyed by lower-cased email
+  users: Map<string, string>;
+}
+
+export interface PreparedCatalogRow {
+  key: string | null;
+  values: Record<string, any>;
+  errors: string[];
+}
+
+const slugify = (text: string): string => text.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+
+export class Catalog {
+
+  /**
+   * Validates one CSV record with the same Joi schema as the matching create endpoint and
+   * resolves slugs and emails to ids. Empty cells are treated as not given, so an update
+   * leaves those columns as they are. key is the upsert key the row matches on.
+   */
+  static prepareRow(entity: CatalogEntity, record: Record<string, string>, lookups: CatalogLookups): PreparedCatalogRow {
+    const errors: string[] = [];
+    const data: Record<string, any> = {};
+    for (const column of CATALOG_COLUMNS[entity]) {
+      const value = (record[column] ?? '').trim();
+      if (value !== '') {
+        data[column] = value;
+      }
+    }
+
+    const label = data.name || data.title;
+    if (!data.slug && typeof label === 'string') {
+      data.slug = slugify(label);
+    }
+
+    let parentKey = '';
+    if (entity === 'fields') {
+      parentKey = `${data.category_slug || ''}/`;
+      data.category_id = lookups.categories.get(data.category_slug);
+      if (!data.category_id) {
+        errors.push(data.category_slug ? `Unknown category_slug ${data.category_slug}` : 'category_slug is required');
+      }
+    }
+
+    if (entity === 'courses') {
+      parentKey = `${data.category_slug || ''}/${data.field_slug || ''}/`;
+      data.field_id = lookups.fields.get(`${data.category_slug}/${data.field_slug}`);
+      if (!data.field_id) {
+        errors.push(`Unknown field ${data.category_slug || '?'}/${data.field_slug || '?'}`);
+      }
+      if (data.instructor_email) {
+        data.instructor_id = lookups.users.get(data.instructor_email.toLowerCase());
+        if (!data.instructor_id) {
+          errors.push(`No user with instructor_email ${data.instructor_email}`);
+        }
+      }
+      if (data.learning_outcomes !== undefined) {
+        try {
+          data.learning_outcomes = JSON.parse(data.learning_outcomes);
+        } catch {
+          errors.push('learning_outcomes must be JSON, e.g. ["First outcome","Second outcome"]');
+        }
+      }
+      if (data.tags !== undefined) {
+        data.tags = data.tags.split(',').map((tag: string) => tag.trim()).filter((tag: string) => tag !== '');
+      }
+    }
+
+    // Lookup failures are reported above, so the schema's own message for the missing id is dropped
+    const { error, value } = ROW_SCHEMAS[entity].validate(
+      Object.fromEntries(Object.entries(data).filter(([column]) => WRITABLE_COLUMNS[entity].includes(column))),
+      { abortEarly: false, stripUnknown: true, convert: true }
+    );
+    if (error) {
+      errors.push(...error.details
+        .filter(detail => !PARENT_COLUMNS.includes(String(detail.path[0])))
+        .map(detail => detail.message));
+    }
+
+    return {
+      key: data.slug ? `${parentKey}${data.slug}` : null,
+      values: error ? {} : value,
+      errors
+    };
+  }
+
+  async exportCsv(entity: CatalogEntity): Promise<string> {
+    try {
+      const queries: Record<CatalogEntity, string> = {
+        categories: `SELECT name, slug, description, icon_url, banner_image, sort_order, is_active
+                     FROM categories ORDER BY sort_order ASC, name ASC`,
+        fields: `SELECT c.slug as category_slug, f.name, f.slug, f.description, f.icon_url, f.banner_image,
+                        f.sort_order, f.is_active
+                 FROM fields f
+                 JOIN categories c ON f.category_id = c.id
+                 ORDER BY c.sort_order ASC, c.name ASC, f.sort_order ASC, f.name ASC`,
+        courses: `SELECT cat.slug as category_slug, f.slug as field_slug, co.title, co.slug, co.description,
+                         co.short_description, co.banner_image, co.thumbnail_image, co.duration_hours,
+                         co.difficulty_level, co.price, co.is_free, u.email as instructor_email,
+                         co.prerequisites, co.learning_outcomes::text as learning_outcomes,
+                         array_to_string(co.tags, ',') as tags, co.status
+                  FROM courses co
+                  JOIN fields f ON co.field_id = f.id
+                  JOIN categories cat ON f.category_id = cat.id
+                  LEFT JOIN users u ON co.instructor_id = u.id
+                  ORDER BY cat.slug ASC, f.slug ASC, co.slug ASC`
+      };
+
+      const result = await dbManager.query(queries[entity]);
+      return toCsv(CATALOG_COLUMNS[entity], result.rows);
+    } catch (error) {
+      console.error(`Error exporting ${entity} CSV:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upserts every record by slug in one transaction. A dry run reports what each row would do
+   * without writing; a real import with any invalid row throws ValidationError and writes nothing.
+   */
+  async importCsv(
+    entity: CatalogEntity,
+    records: Record<string, string>[],
+    options: { dryRun: boolean; actorId?: string | null }
+  ): Promise<CatalogImportResult> {
+    if (records.length === 0) {
+      throw new ValidationError('The CSV file has no rows');
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`A CSV import can have at most ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    try {
+      return await dbManager.transaction(async (client) => {
+        const lookups = await this.loadLookups(client, records);
+        const existing = await this.loadExistingKeys(client, entity);
+
+        const seen = new Set<string>();
+        const prepared = records.map((record, index) => {
+          const row = Catalog.prepareRow(entity, record, lookups);
+          if (row.key && seen.has(row.key)) {
+            row.errors.push('The same slug appears earlier in this file');
+          }
+          if (row.key) {
+            seen.add(row.key);
+          }
+          return { ...row, line: index + 2 };
+        });
+
+        const rows: CatalogImportRow[] = prepared.map(row => ({
+          line: row.line,
+          slug: row.values.slug || null,
+          action: row.errors.length > 0 ? 'error' : row.key && existing.has(row.key) ? 'update' : 'create',
+          ...(row.errors.length > 0 ? { errors: row.errors } : {})
+        }));
+
+        const failed = rows.filter(row => row.action === 'error');
+        if (failed.length > 0 && !options.dryRun) {
+          throw new ValidationError(`${failed.length} of ${rows.length} rows are invalid; nothing was imported`, failed);
+        }
+
+        if (!options.dryRun) {
+          for (const row of prepared) {
+            const id = existing.get(row.key as string);
+            if (id) {
+              await this.updateRow(client, entity, id, row.values, options.actorId);
+            } else {
+              await this.insertRow(client, entity, row.values, options.actorId);
+            }
+          }
+        }
+
+        return {
+          entity,
+          dry_run: options.dryRun,
+          total_rows: rows.length,
+          created: rows.filter(row => row.action === 'create').length,
+          updated: rows.filter(row => row.action === 'update').length,
+          rows
+        };
+      });
+    } catch (error) {
+      console.error(`Error importing ${entity} CSV:`, error);
+      throw error;
+    }
+  }
+
+  private async loadLookups(client: PoolClient, records: Record<string, string>[]): Promise<CatalogLookups> {
+    const emails = [...new Set(records.map(record => (record.instructor_email || '').trim().toLowerCase()).filter(Boolean))];
+    const [categories, fields, users] = await Promise.all([
+      client.query('SELECT id, slug FROM categories'),
+      client.query('SELECT f.id, f.slug, c.slug as category_slug FROM fields f JOIN categories c ON f.category_id = c.id'),
+      emails.length > 0
+        ? client.query('SELECT id, LOWER(email) as email FROM users WHERE LOWER(email) = ANY($1)', [emails])
+        : Promise.resolve({ rows: [] as any[] })
+    ]);
+
+    return {
+      categories: new Map(categories.rows.map(row => [row.slug, String(row.id)])),
+      fields: new Map(fields.rows.map(row => [`${row.category_slug}/${row.slug}`, String(row.id)])),
+      users: new Map(users.rows.map((row: any) => [row.email, String(row.id)]))
+    };
+  }
+
+  // Upsert keys of the rows already in the table, matching PreparedCatalogRow.key
+  private async loadExistingKeys(client: PoolClient, entity: CatalogEntity): Promise<Map<string, string>> {
+    const queries: Record<CatalogEntity, string> = {
+      categories: 'SELECT id, slug as key FROM categories',
+      fields: `SELECT f.id, CONCAT(c.slug, '/', f.slug) as key FROM fields f JOIN categories c ON f.category_id = c.id`,
+      courses: `SELECT co.id, CONCAT(cat.slug, '/', f.slug, '/', co.slug) as key
+                FROM courses co
+                JOIN fields f ON co.field_id = f.id
+                JOIN categories cat ON f.category_id = cat.id`
+    };
+    const result = await client.query(queries[entity]);
+    return new Map(result.rows.map(row => [row.key, String(row.id)]));
+  }
+
+  private toColumnValue(column: string, value: any): any {
+    return column === 'learning_outcomes' && value !== null ? JSON.stringify(value) : value;
+  }
+
+  private async insertRow(client: PoolClient, entity: CatalogEntity, values: Record<string, any>, actorId?: string | null): Promise<void> {
+    const columns = Object.keys(values);
+    const params = columns.map(column => this.toColumnValue(column, values[column]));
+    const placeholders = columns.map((_, index) => `$${index + 1}`);
+
+    // Imported courses start as drafts, like any new course
+    if (entity === 'courses') {
+      const result = await client.query(
+        `INSERT INTO courses (${columns.join(', ')}, status, is_published)
+         VALUES (${placeholders.join(', ')}, 'draft', false)
+         RETURNING id`,
+        params
+      );
+      await new CoursePublishing().recordCreated(client, String(result.rows[0].id), 'draft', 'admin', actorId);
+      return;
+    }
+
+    await client.query(`INSERT INTO ${entity} (${columns.join(', ')}) VALUES (${placeholders.join(', ')})`, params);
+  }
+
+  private async updateRow(
+    client: PoolClient,
+    entity: CatalogEntity,
+    id: string,
+    values: Record<string, any>,
+    actorId?: string | null
+  ): Promise<void> {
+    const columns = Object.keys(values);
+    const params = columns.map(column => this.toColumnValue(column, values[column]));
+    const assignments = columns.map((column, index) => `${column} = $${index + 1}`);
+    assignments.push('updated_at = CURRENT_TIMESTAMP');
+    params.push(id);
+    const update = () => client.query(`UPDATE ${entity} SET ${assignments.join(', ')} WHERE id = $${params.length}`, params);
+
+    if (entity === 'courses') {
+      await new CourseRevision().trackEdit(client, 'course', id, { id: actorId, role: 'admin' }, update);
+      return;
+    }
+    await update();
+  }
+
+}
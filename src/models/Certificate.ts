@@ -0,0 +1,339 @@
+import { randomInt } from 'crypto';
+import { PoolClient } from 'pg';
+import { Certificate as CertificateRecord } from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { ConflictError } from '../middleware/errorHandler';
+
+// No 0/O or 1/I so codes survive being read off a printed certificate
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Current student name, course title and instructor for a certificate snapshot
+const SNAPSHOT_SQL = `
+  SELECT CONCAT_WS(' ', s.first_name, s.last_name) as student_name,
+         c.title as course_title,
+         COALESCE(NULLIF(CONCAT_WS(' ', u.first_name, u.last_name), ''), u.username) as instructor_name
+  FROM students s
+  JOIN courses c ON c.id = $2
+  LEFT JOIN users u ON c.instructor_id = u.id
+  WHERE s.id = $1
+`;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export class Certificate {
+
+  /**
+   * Random code in the form ZA-XXXX-XXXX-XXXX
+   */
+  static generateVerificationCode(): string {
+    const groups: string[] = [];
+    for (let group = 0; group < 3; group++) {
+      let chars = '';
+      for (let i = 0; i < 4; i++) {
+        chars += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+      }
+      groups.push(chars);
+    }
+    return `ZA-${groups.join('-')}`;
+  }
+
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Renders a landscape A4 certificate as a standalone SVG document
+   */
+  static renderSvg(certificate: CertificateRecord, verifyUrl: string): string {
+    const completedOn = new Date(certificate.completion_date).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+      timeZone: 'UTC'
+    });
+    const instructorLine = certificate.instructor_name
+      ? `<text x="561" y="560" text-anchor="middle" font-size="18" fill="#555">Instructor: ${escapeXml(certificate.instructor_name)}</text>`
+      : '';
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="1123" height="794" viewBox="0 0 1123 794" font-family="Georgia, 'Times New Roman', serif">
+  <rect width="1123" height="794" fill="#ffffff"/>
+  <rect x="24" y="24" width="1075" height="746" fill="none" stroke="#1e3a8a" stroke-width="6"/>
+  <rect x="40" y="40" width="1043" height="714" fill="none" stroke="#1e3a8a" stroke-width="1.5"/>
+  <text x="561" y="130" text-anchor="middle" font-size="22" letter-spacing="6" fill="#1e3a8a">ZENOW ACADEMY</text>
+  <text x="561" y="215" text-anchor="middle" font-size="48" fill="#1e3a8a">Certificate of Completion</text>
+  <text x="561" y="290" text-anchor="middle" font-size="20" fill="#555">This certifies that</text>
+  <text x="561" y="360" text-anchor="middle" font-size="44" font-weight="bold" fill="#222">${escapeXml(certificate.student_name)}</text>
+  <line x1="311" y1="380" x2="811" y2="380" stroke="#1e3a8a" stroke-width="1"/>
+  <text x="561" y="430" text-anchor="middle" font-size="20" fill="#555">has successfully completed the course</text>
+  <text x="561" y="490" text-anchor="middle" font-size="32" fill="#222">${escapeXml(certificate.course_title)}</text>
+  ${instructorLine}
+  <text x="561" y="600" text-anchor="middle" font-size="18" fill="#555">Completed on ${escapeXml(completedOn)}</text>
+  <text x="561" y="700" text-anchor="middle" font-size="14" font-family="Arial, Helvetica, sans-serif" fill="#888">Certificate ID ${escapeXml(certificate.verification_code)} · Verify at ${escapeXml(verifyUrl)}</text>
+</svg>`;
+  }
+
+  private async loadSnapshot(client: PoolClient, studentId: string, courseId: string): Promise<any | null> {
+    const result = await client.query(SNAPSHOT_SQL, [studentId, courseId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Issues the certificate for a completed course enrollment. Idempotent: an existing valid
+   * certificate is returned, and a revoked one is never replaced automatically.
+   */
+  async issueForEnrollment(enrollmentId: string): Promise<CertificateRecord | null> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const enrollmentResult = await client.query(
+          `SELECT id, user_id, course_id, is_completed, completion_date
+           FROM enrollments
+           WHERE id = $1 AND course_id IS NOT NULL`,
+          [enrollmentId]
+        );
+        const enrollment = enrollmentResult.rows[0];
+        if (!enrollment || !enrollment.is_completed) {
+          return null;
+        }
+
+        const existing = await client.query(
+          `SELECT * FROM certificates
+           WHERE student_id = $1 AND course_id = $2 AND status IN ('active', 'revoked')
+           ORDER BY issued_at DESC, id DESC
+           LIMIT 1`,
+          [enrollment.user_id, enrollment.course_id]
+        );
+        if (existing.rows[0]) {
+          return existing.rows[0].status === 'active' ? existing.rows[0] : null;
+        }
+
+        const snapshot = await this.loadSnapshot(client, enrollment.user_id, enrollment.course_id);
+        if (!snapshot) {
+          return null;
+        }
+
+        // A concurrent issue for the same student and course hits the partial unique index
+        await client.query(
+          `INSERT INTO certificates (verification_code, enrollment_id, student_id, course_id, student_name, course_title, instructor_name, completion_date)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, NOW()))
+           ON CONFLICT DO NOTHING`,
+          [
+            Certificate.generateVerificationCode(),
+            enrollment.id,
+            enrollment.user_id,
+            enrollment.course_id,
+            snapshot.student_name,
+            snapshot.course_title,
+            snapshot.instructor_name || null,
+            enrollment.completion_date
+          ]
+        );
+
+        const issued = await client.query(
+          `SELECT * FROM certificates WHERE student_id = $1 AND course_id = $2 AND status = 'active'`,
+          [enrollment.user_id, enrollment.course_id]
+        );
+        return issued.rows[0] || null;
+      });
+    } catch (error) {
+      console.error('Error issuing certificate:', error);
+      throw error;
+    }
+  }
+
+  async getByCode(code: string): Promise<CertificateRecord | null> {
+    try {
+      const result = await dbManager.query(
+        'SELECT * FROM certificates WHERE verification_code = $1',
+        [Certificate.normalizeCode(code)]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching certificate by code:', error);
+      throw error;
+    }
+  }
+
+  async getById(certificateId: string): Promise<CertificateRecord | null> {
+    try {
+      const result = await dbManager.query('SELECT * FROM certificates WHERE id = $1', [certificateId]);
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching certificate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A student's certificates; superseded (reissued) ones are left out
+   */
+  async getStudentCertificates(studentId: string): Promise<any[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT cert.*, c.slug as course_slug, c.thumbnail_image
+         FROM certificates cert
+         JOIN courses c ON cert.course_id = c.id
+         WHERE cert.student_id = $1 AND cert.status <> 'reissued'
+         ORDER BY cert.issued_at DESC, cert.id DESC`,
+        [studentId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching student certificates:', error);
+      throw error;
+    }
+  }
+
+  async getStudentCourseCertificate(studentId: string, courseId: string): Promise<CertificateRecord | null> {
+    try {
+      const result = await dbManager.query(
+        `SELECT * FROM certificates
+         WHERE student_id = $1 AND course_id = $2 AND status <> 'reissued'
+         ORDER BY issued_at DESC, id DESC
+         LIMIT 1`,
+        [studentId, courseId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching course certificate:', error);
+      throw error;
+    }
+  }
+
+  async getCertificates(filters: {
+    course_id?: string;
+    student_id?: string;
+    status?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ certificates: any[]; total: number }> {
+    try {
+      let whereClause = 'WHERE 1=1';
+      const values: any[] = [];
+
+      if (filters.course_id) {
+        values.push(filters.course_id);
+        whereClause += ` AND cert.course_id = $${values.length}`;
+      }
+      if (filters.student_id) {
+        values.push(filters.student_id);
+        whereClause += ` AND cert.student_id = $${values.length}`;
+      }
+      if (filters.status) {
+        values.push(filters.status);
+        whereClause += ` AND cert.status = $${values.length}`;
+      }
+
+      const certificatesQuery = `
+        SELECT cert.*, s.email, s.student_id as student_code
+        FROM certificates cert
+        JOIN students s ON cert.student_id = s.id
+        ${whereClause}
+        ORDER BY cert.issued_at DESC, cert.id DESC
+        LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+      `;
+      const countQuery = `
+        SELECT COUNT(*) as total
+        FROM certificates cert
+        ${whereClause}
+      `;
+
+      const [certificatesResult, countResult] = await Promise.all([
+        dbManager.query(certificatesQuery, [...values, filters.limit, (filters.page - 1) * filters.limit]),
+        dbManager.query(countQuery, values)
+      ]);
+
+      return {
+        certificates: certificatesResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching certificates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revokes a valid certificate; returns null when it is not currently active
+   */
+  async revoke(certificateId: string, adminId: string | undefined, reason: string): Promise<CertificateRecord | null> {
+    try {
+      const result = await dbManager.query(
+        `UPDATE certificates
+         SET status = 'revoked', revoked_at = CURRENT_TIMESTAMP, revoked_by = $2, revocation_reason = $3
+         WHERE id = $1 AND status = 'active'
+         RETURNING *`,
+        [certificateId, adminId || null, reason]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error revoking certificate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces an active or revoked certificate with a new one under a fresh code, taking
+   * current student and course names. The old certificate stops verifying.
+   */
+  async reissue(certificateId: string): Promise<CertificateRecord | null> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const currentResult = await client.query(
+          'SELECT * FROM certificates WHERE id = $1 FOR UPDATE',
+          [certificateId]
+        );
+        const current = currentResult.rows[0];
+        if (!current) {
+          return null;
+        }
+        if (current.status === 'reissued') {
+          throw new ConflictError('This certificate has already been reissued');
+        }
+
+        const otherActive = await client.query(
+          `SELECT id FROM certificates
+           WHERE student_id = $1 AND course_id = $2 AND status = 'active' AND id <> $3`,
+          [current.student_id, current.course_id, current.id]
+        );
+        if (otherActive.rows[0]) {
+          throw new ConflictError('The student already holds a valid certificate for this course');
+        }
+
+        await client.query(
+          `UPDATE certificates SET status = 'reissued' WHERE id = $1`,
+          [current.id]
+        );
+
+        const snapshot = await this.loadSnapshot(client, current.student_id, current.course_id);
+        const result = await client.query(
+          `INSERT INTO certificates (verification_code, enrollment_id, student_id, course_id, student_name, course_title, instructor_name, completion_date, reissued_from)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+           RETURNING *`,
+          [
+            Certificate.generateVerificationCode(),
+            current.enrollment_id,
+            current.student_id,
+            current.course_id,
+            snapshot?.student_name || current.student_name,
+            snapshot?.course_title || current.course_title,
+            snapshot ? snapshot.instructor_name || null : current.instructor_name,
+            current.completion_date,
+            current.id
+          ]
+        );
+        return result.rows[0];
+      });
+    } catch (error) {
+      console.error('Error reissuing certificate:', error);
+      throw error;
+    }
+  }
+
+}
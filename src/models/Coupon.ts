@@ -0,0 +1,387 @@
+import { PoolClient } from 'pg';
+import {
+  Coupon as CouponRecord,
+  CreateCouponRequest,
+  OrderItemType,
+  UpdateCouponRequest
+} from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { ValidationError } from '../middleware/errorHandler';
+
+const EDITABLE_COLUMNS = [
+  'code', 'description', 'discount_type', 'discount_value', 'max_discount_amount', 'min_order_amount',
+  'scope_type', 'scope_id', 'currency', 'starts_at', 'expires_at', 'max_redemptions', 'max_redemptions_per_student',
+  'first_purchase_only', 'is_active'
+] as const;
+
+// Redeemed uses, plus pending checkouts young enough to still be paid; abandoned ones stop counting
+const USAGE_SQL = `
+  SELECT COUNT(*) as total,
+         COUNT(*) FILTER (WHERE cr.student_id = $2) as student
+  FROM coupon_redemptions cr
+  WHERE cr.coupon_id = $1
+    AND (cr.status = 'redeemed' OR (cr.status = 'pending' AND cr.created_at > NOW() - INTERVAL '60 minutes'))
+`;
+
+// The same usage without the redemption of order $3
+const OTHER_USAGE_SQL = `${USAGE_SQL} AND cr.order_id <> $3`;
+
+export interface CouponItem {
+  type: OrderItemType;
+  id: string;
+  field_id?: string | null;
+  category_id?: string | null;
+}
+
+export interface CouponUsage {
+  total: number;
+  student: number;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export class Coupon {
+
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Discount for an amount, capped by max_discount_amount and never more than the amount itself
+   */
+  static calculateDiscount(
+    coupon: Pick<CouponRecord, 'discount_type' | 'discount_value' | 'max_discount_amount'>,
+    amount: number
+  ): number {
+    const value = parseFloat(coupon.discount_value) || 0;
+    let discount = coupon.discount_type === 'percentage' ? (amount * value) / 100 : value;
+
+    if (coupon.max_discount_amount !== null && coupon.max_discount_amount !== undefined) {
+      discount = Math.min(discount, parseFloat(coupon.max_discount_amount));
+    }
+    return roundMoney(Math.max(0, Math.min(discount, amount)));
+  }
+
+  static appliesTo(coupon: Pick<CouponRecord, 'scope_type' | 'scope_id'>, item: CouponItem): boolean {
+    const scopeId = coupon.scope_id !== null && coupon.scope_id !== undefined ? String(coupon.scope_id) : null;
+    switch (coupon.scope_type) {
+      case 'all':
+        return true;
+      case 'course':
+        return item.type === 'course' && String(item.id) === scopeId;
+      case 'bundle':
+        return item.type === 'bundle' && String(item.id) === scopeId;
+      case 'field':
+        return item.type === 'course' && !!item.field_id && String(item.field_id) === scopeId;
+      case 'category':
+        return item.type === 'course' && !!item.category_id && String(item.category_id) === scopeId;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Reason the coupon cannot be used for this purchase, or null when it can
+   */
+  static checkEligibility(
+    coupon: CouponRecord,
+    context: {
+      item: CouponItem;
+      amount: number;
+      currency?: string;
+      usage: CouponUsage;
+      hasPriorPurchase: boolean;
+      now?: Date;
+    }
+  ): string | null {
+    const now = context.now || new Date();
+
+    if (!coupon.is_active) {
+      return 'This coupon is no longer active';
+    }
+    if (coupon.starts_at && new Date(coupon.starts_at).getTime() > now.getTime()) {
+      return 'This coupon is not active yet';
+    }
+    if (coupon.expires_at && new Date(coupon.expires_at).getTime() <= now.getTime()) {
+      return 'This coupon has expired';
+    }
+    if (!Coupon.appliesTo(coupon, context.item)) {
+      return 'This coupon does not apply to this item';
+    }
+    // Fixed amounts and minimums are written in the coupon's currency
+    if (coupon.currency && context.currency && coupon.currency.toUpperCase() !== context.currency.toUpperCase()) {
+      return `This coupon is not valid for payments in ${context.currency.toUpperCase()}`;
+    }
+    if (coupon.min_order_amount && context.amount < parseFloat(coupon.min_order_amount)) {
+      return `This coupon requires a minimum order of ${coupon.min_order_amount}`;
+    }
+    if (coupon.first_purchase_only && context.hasPriorPurchase) {
+      return 'This coupon is only valid on your first purchase';
+    }
+    return Coupon.checkUsageCaps(coupon, context.usage);
+  }
+
+  static checkUsageCaps(
+    coupon: Pick<CouponRecord, 'max_redemptions' | 'max_redemptions_per_student'>,
+    usage: CouponUsage
+  ): string | null {
+    if (coupon.max_redemptions && usage.total >= coupon.max_redemptions) {
+      return 'This coupon has reached its usage limit';
+    }
+    if (coupon.max_redemptions_per_student && usage.student >= coupon.max_redemptions_per_student) {
+      return 'You have already used this coupon';
+    }
+    return null;
+  }
+
+  async getByCode(code: string): Promise<CouponRecord | null> {
+    try {
+      const result = await dbManager.query('SELECT * FROM coupons WHERE code = $1', [Coupon.normalizeCode(code)]);
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching coupon by code:', error);
+      throw error;
+    }
+  }
+
+  async getCouponById(id: string): Promise<CouponRecord | null> {
+    try {
+      const result = await dbManager.query('SELECT * FROM coupons WHERE id = $1', [id]);
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching coupon:', error);
+      throw error;
+    }
+  }
+
+  async getUsage(couponId: string, studentId: string): Promise<CouponUsage> {
+    try {
+      const result = await dbManager.query(
+        USAGE_SQL,
+        [couponId, studentId]
+      );
+      return {
+        total: parseInt(result.rows[0].total) || 0,
+        student: parseInt(result.rows[0].student) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching coupon usage:', error);
+      throw error;
+    }
+  }
+
+  async hasPriorPurchase(studentId: string): Promise<boolean> {
+    try {
+      const result = await dbManager.query(
+        `SELECT 1 FROM orders WHERE student_id = $1 AND status IN ('paid', 'refunded') LIMIT 1`,
+        [studentId]
+      );
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Error checking prior purchases:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Holds a use of the coupon for a new order. Runs inside the order transaction with the coupon
+   * row locked, so concurrent checkouts cannot go past the usage caps.
+   */
+  async reserveForOrder(
+    client: PoolClient,
+    couponId: string,
+    order: { id: string; student_id: string },
+    originalAmount: number,
+    discountAmount: number
+  ): Promise<void> {
+    const locked = await client.query('SELECT * FROM coupons WHERE id = $1 FOR UPDATE', [couponId]);
+    if (!locked.rows[0]) {
+      throw new ValidationError('Coupon code not found');
+    }
+
+    const usageResult = await client.query(
+      USAGE_SQL,
+      [couponId, order.student_id]
+    );
+    const reason = Coupon.checkUsageCaps(locked.rows[0], {
+      total: parseInt(usageResult.rows[0].total) || 0,
+      student: parseInt(usageResult.rows[0].student) || 0
+    });
+    if (reason) {
+      throw new ValidationError(reason);
+    }
+
+    await client.query(
+      `INSERT INTO coupon_redemptions (coupon_id, order_id, student_id, original_amount, discount_amount)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [couponId, order.id, order.student_id, originalAmount, discountAmount]
+    );
+  }
+
+  /**
+   * Redeems the coupon held by a paid order, or returns why it cannot be. A pending use stops
+   * counting after an hour while provider checkouts stay payable much longer, so the caps are
+   * checked again with the coupon row locked; a use released after a failed payment is not revived.
+   */
+  async redeemForOrder(client: PoolClient, order: { id: string; student_id: string }): Promise<string | null> {
+    const redemption = await client.query(
+      'SELECT coupon_id, status FROM coupon_redemptions WHERE order_id = $1 FOR UPDATE',
+      [order.id]
+    );
+    const held = redemption.rows[0];
+    if (!held || held.status === 'redeemed') {
+      return null;
+    }
+    if (held.status !== 'pending') {
+      return 'The coupon on this order was released before payment';
+    }
+
+    const locked = await client.query('SELECT * FROM coupons WHERE id = $1 FOR UPDATE', [held.coupon_id]);
+    if (locked.rows[0]) {
+      const usageResult = await client.query(
+        OTHER_USAGE_SQL,
+        [held.coupon_id, order.student_id, order.id]
+      );
+      const reason = Coupon.checkUsageCaps(locked.rows[0], {
+        total: parseInt(usageResult.rows[0].total) || 0,
+        student: parseInt(usageResult.rows[0].student) || 0
+      });
+      if (reason) {
+        return reason;
+      }
+    }
+
+    await client.query(
+      `UPDATE coupon_redemptions SET status = 'redeemed', redeemed_at = CURRENT_TIMESTAMP
+       WHERE order_id = $1 AND status = 'pending'`,
+      [order.id]
+    );
+    return null;
+  }
+
+  async getCoupons(): Promise<any[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT c.*,
+                COUNT(cr.id) FILTER (WHERE cr.status = 'redeemed') as redeemed_count,
+                COUNT(cr.id) FILTER (WHERE cr.status = 'pending') as pending_count,
+                COALESCE(SUM(cr.discount_amount) FILTER (WHERE cr.status = 'redeemed'), 0) as total_discount
+         FROM coupons c
+         LEFT JOIN coupon_redemptions cr ON cr.coupon_id = c.id
+         GROUP BY c.id
+         ORDER BY c.created_at DESC, c.id DESC`
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching coupons:', error);
+      throw error;
+    }
+  }
+
+  async createCoupon(data: CreateCouponRequest, adminId: string | undefined): Promise<CouponRecord> {
+    try {
+      const columns: string[] = EDITABLE_COLUMNS.filter(column => data[column] !== undefined);
+      const values: any[] = EDITABLE_COLUMNS
+        .filter(column => data[column] !== undefined)
+        .map(column => this.toColumnValue(column, data[column]));
+      columns.push('created_by');
+      values.push(adminId || null);
+      const placeholders = columns.map((_, index) => `$${index + 1}`);
+
+      const result = await dbManager.query(
+        `INSERT INTO coupons (${columns.join(', ')}) VALUES (${placeholders.join(', ')}) RETURNING *`,
+        values
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating coupon:', error);
+      throw error;
+    }
+  }
+
+  async updateCoupon(id: string, data: UpdateCouponRequest): Promise<CouponRecord | null> {
+    try {
+      const columns = EDITABLE_COLUMNS.filter(column => data[column] !== undefined);
+      const values: any[] = columns.map(column => this.toColumnValue(column, data[column]));
+      const assignments = columns.map((column, index) => `${column} = $${index + 1}`);
+      assignments.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(id);
+
+      const result = await dbManager.query(
+        `UPDATE coupons SET ${assignments.join(', ')} WHERE id = $${values.length} RETURNING *`,
+        values
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error updating coupon:', error);
+      throw error;
+    }
+  }
+
+  async deleteCoupon(id: string): Promise<boolean> {
+    try {
+      const result = await dbManager.query('DELETE FROM coupons WHERE id = $1 RETURNING id', [id]);
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Error deleting coupon:', error);
+      throw error;
+    }
+  }
+
+  async countRedemptions(couponId: string): Promise<number> {
+    try {
+      const result = await dbManager.query(
+        'SELECT COUNT(*) as total FROM coupon_redemptions WHERE coupon_id = $1',
+        [couponId]
+      );
+      return parseInt(result.rows[0].total) || 0;
+    } catch (error) {
+      console.error('Error counting coupon redemptions:', error);
+      throw error;
+    }
+  }
+
+  async getRedemptions(
+    couponId: string,
+    options: { page: number; limit: number }
+  ): Promise<{ redemptions: any[]; total: number }> {
+    try {
+      const redemptionsQuery = `
+        SELECT cr.*, o.order_number, o.item_type, o.item_title, o.amount as order_amount,
+               o.currency, o.status as order_status,
+               s.first_name, s.last_name, s.email, s.student_id as student_code
+        FROM coupon_redemptions cr
+        JOIN orders o ON cr.order_id = o.id
+        JOIN students s ON cr.student_id = s.id
+        WHERE cr.coupon_id = $1
+        ORDER BY cr.created_at DESC, cr.id DESC
+        LIMIT $2 OFFSET $3
+      `;
+      const countQuery = 'SELECT COUNT(*) as total FROM coupon_redemptions WHERE coupon_id = $1';
+
+      const [redemptionsResult, countResult] = await Promise.all([
+        dbManager.query(redemptionsQuery, [couponId, options.limit, (options.page - 1) * options.limit]),
+        dbManager.query(countQuery, [couponId])
+      ]);
+
+      return {
+        redemptions: redemptionsResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching coupon redemptions:', error);
+      throw error;
+    }
+  }
+
+  private toColumnValue(column: typeof EDITABLE_COLUMNS[number], value: any): any {
+    if (column === 'code' && typeof value === 'string') {
+      return Coupon.normalizeCode(value);
+    }
+    if (column === 'currency' && typeof value === 'string') {
+      return value.toUpperCase() || null;
+    }
+    return value === '' ? null : value;
+  }
+
+}
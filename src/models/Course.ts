@@ -1,17 +1,159 @@
-import { Course as CourseType, CreateCourseRequest, UpdateCourseRequest } from '../types';
+import {
+  Course as CourseType,
+  CreateCourseRequest,
+  UpdateCourseRequest,
+  CourseSearchFacets,
+  CourseSearchResult,
+  FacetBucket
+} from '../types';
 import { dbManager } from '../utils/databaseManager';
+import {
+  COURSE_SORTS,
+  CourseSort,
+  CursorPage,
+  CursorPayload,
+  KeysetSort,
+  buildKeysetCondition,
+  buildKeysetOrder,
+  buildKeysetSelect,
+  toKeysetPage
+} from '../utils/pagination';
 
-interface CourseFilters {
+export interface CourseFilters {
   category_id?: string;
   field_id?: string;
   difficulty_level?: string;
   is_free?: boolean;
   search?: string;
+  q?: string;
+  price_bucket?: string;
   limit?: number;
 }
 
+export interface CoursePageOptions {
+  sort: CourseSort;
+  cursor: CursorPayload | null;
+  limit: number;
+}
+
+// Price facet buckets in display order; boundaries are defined by PRICE_BUCKET_SQL
+export const PRICE_BUCKETS = [
+  { value: 'free', label: 'Free' },
+  { value: 'under_1000', label: 'Under 1,000' },
+  { value: '1000_4999', label: '1,000 - 4,999' },
+  { value: '5000_plus', label: '5,000 and above' }
+];
+
+const PRICE_BUCKET_SQL = `
+  CASE
+    WHEN c.is_free = true OR c.price = 0 THEN 'free'
+    WHEN c.price < 1000 THEN 'under_1000'
+    WHEN c.price < 5000 THEN '1000_4999'
+    ELSE '5000_plus'
+  END
+`;
+
+// Searchable text for a course: title, summary, tags, outcomes and taxonomy names.
+// $1 is always the raw query and $2 the normalized search terms.
+const SEARCH_DOCUMENT = `
+  to_tsvector('english', concat_ws(' ',
+    c.title, c.short_description, array_to_string(c.tags, ' '),
+    c.learning_outcomes::TEXT, f.name, cat.name
+  ))
+`;
+
+// Typo tolerance: any word of the title or tags within trigram distance of a search term
+const FUZZY_WORD_MATCH = `
+  EXISTS (
+    SELECT 1
+    FROM unnest(string_to_array(lower(concat_ws(' ', c.title, array_to_string(c.tags, ' '))), ' ')) AS w(word)
+    WHERE w.word <> '' AND EXISTS (
+      SELECT 1 FROM unnest($2::TEXT[]) AS t(term) WHERE similarity(w.word, t.term) >= 0.4
+    )
+  )
+`;
+
+const TAG_MATCH_COUNT = `
+  (SELECT COUNT(*) FROM unnest(c.tags) AS tg(tag) WHERE lower(tg.tag) = ANY($2::TEXT[]))
+`;
+
+// Title and tags weigh most, then summary and taxonomy, then learning outcomes
+const SEARCH_RANK = `
+  (
+    COALESCE(ts_rank(to_tsvector('english', c.title), plainto_tsquery('english', $1)), 0)::FLOAT * 4.0
+    + COALESCE(ts_rank(to_tsvector('english', array_to_string(c.tags, ' ')), plainto_tsquery('english', $1)), 0)::FLOAT * 3.0
+    + COALESCE(ts_rank(to_tsvector('english', COALESCE(c.short_description, '')), plainto_tsquery('english', $1)), 0)::FLOAT * 2.0
+    + COALESCE(ts_rank(to_tsvector('english', f.name || ' ' || cat.name), plainto_tsquery('english', $1)), 0)::FLOAT * 2.0
+    + COALESCE(ts_rank(to_tsvector('english', COALESCE(c.learning_outcomes::TEXT, '')), plainto_tsquery('english', $1)), 0)::FLOAT
+    + similarity(lower(c.title), lower($1))::FLOAT * 2.0
+    + ${TAG_MATCH_COUNT}::FLOAT * 1.5
+    + (CASE WHEN ${FUZZY_WORD_MATCH} THEN 1.0 ELSE 0.0 END)
+  )
+`;
+
+// Rank depends only on the course and the query, so (rank, id) is a stable keyset for search pages
+const SEARCH_SORT: KeysetSort = {
+  columns: [SEARCH_RANK, 'c.id'],
+  types: ['FLOAT8', 'INT8'],
+  direction: 'DESC'
+};
+
+const MAX_SEARCH_TERMS = 10;
+
 export class Course {
 
+  /**
+   * Split a free-text query into lowercase, de-duplicated terms for tag and fuzzy matching
+   */
+  static tokenizeSearch(query: string): string[] {
+    const terms = query
+      .toLowerCase()
+      .split(/[^a-z0-9+#.]+/)
+      .map(term => term.replace(/^\.+|\.+$/g, ''))
+      .filter(term => term.length >= 2);
+
+    return Array.from(new Set(terms)).slice(0, MAX_SEARCH_TERMS);
+  }
+
+  /**
+   * Catalog filters shared by the listing and search queries. Appends to values in place.
+   */
+  private buildFilterClause(filters: CourseFilters, values: any[]): string {
+    let clause = '';
+
+    if (filters.category_id) {
+      values.push(filters.category_id);
+      clause += ` AND cat.id = $${values.length}`;
+    }
+
+    if (filters.field_id) {
+      values.push(filters.field_id);
+      clause += ` AND f.id = $${values.length}`;
+    }
+
+    if (filters.difficulty_level) {
+      values.push(filters.difficulty_level);
+      clause += ` AND c.difficulty_level = $${values.length}`;
+    }
+
+    if (filters.is_free !== undefined) {
+      values.push(filters.is_free);
+      clause += ` AND c.is_free = $${values.length}`;
+    }
+
+    if (filters.search) {
+      values.push(`%${filters.search}%`);
+      clause += ` AND (c.title ILIKE $${values.length} OR c.description ILIKE $${values.length})`;
+    }
+
+    if (filters.price_bucket) {
+      values.push(filters.price_bucket);
+      clause += ` AND ${PRICE_BUCKET_SQL} = $${values.length}`;
+    }
+
+    return clause;
+  }
+
   async getAllCourses(filters: CourseFilters = {}): Promise<CourseType[]> {
     try {
       let query = `
@@ -32,43 +174,13 @@ export class Course {
       `;
       
       const values: any[] = [];
-      let paramCount = 1;
-
-      if (filters.category_id) {
-        query += ` AND cat.id = $${paramCount}`;
-        values.push(filters.category_id);
-        paramCount++;
-      }
-
-      if (filters.field_id) {
-        query += ` AND f.id = $${paramCount}`;
-        values.push(filters.field_id);
-        paramCount++;
-      }
-
-      if (filters.difficulty_level) {
-        query += ` AND c.difficulty_level = $${paramCount}`;
-        values.push(filters.difficulty_level);
-        paramCount++;
-      }
-
-      if (filters.is_free !== undefined) {
-        query += ` AND c.is_free = $${paramCount}`;
-        values.push(filters.is_free);
-        paramCount++;
-      }
-
-      if (filters.search) {
-        query += ` AND (c.title ILIKE $${paramCount} OR c.description ILIKE $${paramCount})`;
-        values.push(`%${filters.search}%`);
-        paramCount++;
-      }
+      query += this.buildFilterClause(filters, values);
 
       query += ` ORDER BY c.created_at DESC`;
 
       if (filters.limit) {
-        query += ` LIMIT $${paramCount}`;
         values.push(filters.limit);
+        query += ` LIMIT $${values.length}`;
       }
 
       const result = await dbManager.query(query, values);
@@ -79,6 +191,177 @@ export class Course {
     }
   }
 
+  /**
+   * One page of the published catalog in a stable keyset order
+   */
+  async getCoursePage(filters: CourseFilters, options: CoursePageOptions): Promise<CursorPage<CourseType>> {
+    try {
+      const sort = COURSE_SORTS[options.sort];
+      const values: any[] = [];
+
+      let where = `WHERE c.is_published = true AND f.is_active = true AND cat.is_active = true`;
+      where += this.buildFilterClause(filters, values);
+      where += buildKeysetCondition(sort, options.cursor, values);
+
+      values.push(options.limit + 1);
+      const query = `
+        SELECT c.id, c.title, c.slug, c.description, c.short_description,
+               c.banner_image, c.thumbnail_image, c.duration_hours,
+               c.difficulty_level, c.price, c.is_free, c.is_published,
+               c.instructor_id, c.prerequisites, c.learning_outcomes,
+               c.course_modules, c.tags, c.rating, c.total_ratings,
+               c.enrolled_students, c.created_at, c.updated_at,
+               f.name as field_name, f.slug as field_slug,
+               cat.name as category_name, cat.slug as category_slug,
+               u.username as instructor_name, u.username as instructor_email,
+               ${buildKeysetSelect(sort)}
+        FROM courses c
+        JOIN fields f ON c.field_id = f.id
+        JOIN categories cat ON f.category_id = cat.id
+        LEFT JOIN users u ON c.instructor_id = u.id
+        ${where}
+        ORDER BY ${buildKeysetOrder(sort)}
+        LIMIT $${values.length}
+      `;
+
+      const result = await dbManager.query(query, values);
+      return toKeysetPage<CourseType>(result.rows, options.limit, options.sort, sort);
+    } catch (error) {
+      console.error('Error fetching course page:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ranked full-text search over published courses with facet counts.
+   * Facets reflect the query plus any active filters.
+   */
+  async searchCourses(filters: CourseFilters, options: { cursor: CursorPayload | null; limit: number }): Promise<CourseSearchResult> {
+    try {
+      const queryText = (filters.q || '').trim();
+      const values: any[] = [queryText, Course.tokenizeSearch(queryText)];
+
+      let where = `
+        WHERE c.is_published = true AND f.is_active = true AND cat.is_active = true
+          AND (
+            ${SEARCH_DOCUMENT} @@ plainto_tsquery('english', $1)
+            OR ${TAG_MATCH_COUNT} > 0
+            OR ${FUZZY_WORD_MATCH}
+          )
+      `;
+      where += this.buildFilterClause(filters, values);
+
+      // Facets count every match; only the page itself starts after the cursor
+      const pageValues = [...values];
+      const afterCursor = buildKeysetCondition(SEARCH_SORT, options.cursor, pageValues);
+      pageValues.push(options.limit + 1);
+
+      const coursesQuery = `
+        SELECT c.id, c.title, c.slug, c.description, c.short_description,
+               c.banner_image, c.thumbnail_image, c.duration_hours,
+               c.difficulty_level, c.price, c.is_free, c.is_published,
+               c.instructor_id, c.prerequisites, c.learning_outcomes,
+               c.course_modules, c.tags, c.rating, c.total_ratings,
+               c.enrolled_students, c.created_at, c.updated_at,
+               f.name as field_name, f.slug as field_slug,
+               cat.name as category_name, cat.slug as category_slug,
+               u.username as instructor_name, u.username as instructor_email,
+               ${SEARCH_RANK} as search_rank,
+               ${buildKeysetSelect(SEARCH_SORT)}
+        FROM courses c
+        JOIN fields f ON c.field_id = f.id
+        JOIN categories cat ON f.category_id = cat.id
+        LEFT JOIN users u ON c.instructor_id = u.id
+        ${where}${afterCursor}
+        ORDER BY ${buildKeysetOrder(SEARCH_SORT)}
+        LIMIT $${pageValues.length}
+      `;
+
+      const facetsQuery = `
+        WITH matched AS (
+          SELECT c.difficulty_level, c.is_free, ${PRICE_BUCKET_SQL} as price_bucket,
+                 cat.id as category_id, cat.name as category_name,
+                 f.id as field_id, f.name as field_name
+          FROM courses c
+          JOIN fields f ON c.field_id = f.id
+          JOIN categories cat ON f.category_id = cat.id
+          ${where}
+        )
+        SELECT 'total' as facet, NULL::TEXT as value, NULL::TEXT as label, COUNT(*) as count FROM matched
+        UNION ALL
+        SELECT 'difficulty_level', difficulty_level::TEXT, NULL::TEXT, COUNT(*) FROM matched GROUP BY difficulty_level
+        UNION ALL
+        SELECT 'is_free', is_free::TEXT, NULL::TEXT, COUNT(*) FROM matched GROUP BY is_free
+        UNION ALL
+        SELECT 'price', price_bucket::TEXT, NULL::TEXT, COUNT(*) FROM matched GROUP BY price_bucket
+        UNION ALL
+        SELECT 'category', category_id::TEXT, category_name::TEXT, COUNT(*) FROM matched GROUP BY category_id, category_name
+        UNION ALL
+        SELECT 'field', field_id::TEXT, field_name::TEXT, COUNT(*) FROM matched GROUP BY field_id, field_name
+      `;
+
+      const [coursesResult, facetsResult] = await Promise.all([
+        dbManager.query(coursesQuery, pageValues),
+        dbManager.query(facetsQuery, values)
+      ]);
+
+      const page = toKeysetPage<CourseType>(coursesResult.rows, options.limit, 'relevance', SEARCH_SORT);
+
+      return {
+        courses: page.items,
+        ...this.buildFacets(facetsResult.rows),
+        hasMore: page.hasMore,
+        nextCursor: page.nextCursor
+      };
+    } catch (error) {
+      console.error('Error searching courses:', error);
+      throw error;
+    }
+  }
+
+  private buildFacets(rows: any[]): { total: number; facets: CourseSearchFacets } {
+    const facets: CourseSearchFacets = {
+      difficulty_level: [],
+      is_free: [],
+      price: [],
+      category: [],
+      field: []
+    };
+    let total = 0;
+
+    for (const row of rows) {
+      const count = parseInt(row.count) || 0;
+
+      if (row.facet === 'total') {
+        total = count;
+        continue;
+      }
+
+      if (row.value === null || !(row.facet in facets)) {
+        continue;
+      }
+
+      const bucket: FacetBucket = { value: row.value, count };
+      if (row.label) {
+        bucket.label = row.label;
+      }
+      facets[row.facet as keyof CourseSearchFacets].push(bucket);
+    }
+
+    // Always report every price bucket, in a stable order
+    facets.price = PRICE_BUCKETS.map(priceBucket => ({
+      value: priceBucket.value,
+      label: priceBucket.label,
+      count: facets.price.find(bucket => bucket.value === priceBucket.value)?.count || 0
+    }));
+
+    for (const key of ['difficulty_level', 'is_free', 'category', 'field'] as const) {
+      facets[key].sort((a, b) => b.count - a.count);
+    }
+
+    return { total, facets };
+  }
+
   async getCourseById(id: string | number): Promise<CourseType | null> {
     try {
       const query = `
@@ -88,6 +371,7 @@ export class Course {
                c.instructor_id, c.prerequisites, c.learning_outcomes,
                c.course_modules, c.tags, c.rating, c.total_ratings,
                c.enrolled_students, c.created_at, c.updated_at,
+               c.field_id, f.category_id,
                f.name as field_name, f.slug as field_slug,
                cat.name as category_name, cat.slug as category_slug,
                u.username as instructor_name, u.username as instructor_email
@@ -242,27 +526,50 @@ export class Course {
     }
   }
 
+  /**
+   * Enrolls the user, reactivating an enrollment ended by a refund
+   */
   async enrollUser(userId: string, courseId: string): Promise<any> {
     try {
       const query = `
         INSERT INTO enrollments (user_id, course_id, enrollment_type)
         VALUES ($1, $2, 'course')
-        ON CONFLICT (user_id, course_id) DO NOTHING
+        ON CONFLICT (user_id, course_id) DO UPDATE SET is_active = true WHERE enrollments.is_active = false
         RETURNING *
       `;
       const result = await dbManager.query(query, [userId, courseId]);
-      return result.rows[0];
+      if (result.rows[0]) {
+        return result.rows[0];
+      }
+
+      // Already active, e.g. enrolled by a concurrent request
+      const existing = await dbManager.query(
+        'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
+        [userId, courseId]
+      );
+      return existing.rows[0];
     } catch (error) {
       console.error('Error enrolling user:', error);
       throw error;
     }
   }
 
+  /**
+   * Direct course enrollment, or a bundle enrollment whose bundle contains the course
+   */
   async getUserEnrollment(userId: string, courseId: string): Promise<any> {
     try {
       const query = `
-        SELECT * FROM enrollments 
-        WHERE user_id = $1 AND course_id = $2
+        SELECT e.*, (e.course_id IS NULL) as access_via_bundle
+        FROM enrollments e
+        WHERE e.user_id = $1
+          AND e.is_active = true
+          AND (
+            e.course_id = $2
+            OR e.bundle_id IN (SELECT bc.bundle_id FROM bundle_courses bc WHERE bc.course_id = $2)
+          )
+        ORDER BY access_via_bundle ASC, e.enrollment_date ASC
+        LIMIT 1
       `;
       const result = await dbManager.query(query, [userId, courseId]);
       return result.rows[0] || null;
@@ -0,0 +1,111 @@
+import { CoursePrice as CoursePriceRecord, OrderItemType } from '../types';
+import { dbManager } from '../utils/databaseManager';
+
+const INDIA_NAMES = ['in', 'ind', 'india', 'bharat'];
+
+export class CoursePrice {
+
+  static baseCurrency(): string {
+    return (process.env.PAYMENT_CURRENCY || 'USD').toUpperCase();
+  }
+
+  static isIndia(country?: string | null): boolean {
+    return !!country && INDIA_NAMES.includes(country.trim().toLowerCase());
+  }
+
+  /**
+   * Checkout currency for a student's country: INR in India, otherwise
+   * INTERNATIONAL_CURRENCY (USD by default)
+   */
+  static currencyForCountry(country?: string | null): string {
+    return CoursePrice.isIndia(country)
+      ? 'INR'
+      : (process.env.INTERNATIONAL_CURRENCY || 'USD').toUpperCase();
+  }
+
+  /**
+   * Price in the wanted currency, falling back to the base price (in PAYMENT_CURRENCY) when the
+   * item has no price in that currency
+   */
+  static pickPrice(
+    prices: Pick<CoursePriceRecord, 'currency' | 'amount'>[],
+    currency: string,
+    basePrice: number
+  ): { amount: number; currency: string } {
+    const match = prices.find(price => price.currency.toUpperCase() === currency.toUpperCase());
+    if (match) {
+      return { amount: parseFloat(match.amount) || 0, currency: match.currency.toUpperCase() };
+    }
+    return { amount: basePrice, currency: CoursePrice.baseCurrency() };
+  }
+
+  /**
+   * Base price of a course or bundle (published or not), or null when it does not exist
+   */
+  async getBasePrice(itemType: OrderItemType, itemId: string): Promise<{ amount: string; currency: string } | null> {
+    try {
+      const result = await dbManager.query(
+        itemType === 'course'
+          ? 'SELECT price as amount FROM courses WHERE id = $1'
+          : 'SELECT bundle_price as amount FROM course_bundles WHERE id = $1',
+        [itemId]
+      );
+      return result.rows[0] ? { amount: result.rows[0].amount, currency: CoursePrice.baseCurrency() } : null;
+    } catch (error) {
+      console.error('Error fetching base price:', error);
+      throw error;
+    }
+  }
+
+  async getPrices(itemType: OrderItemType, itemId: string): Promise<CoursePriceRecord[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT * FROM course_prices WHERE ${itemType === 'course' ? 'course_id' : 'bundle_id'} = $1 ORDER BY currency`,
+        [itemId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching item prices:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the extra-currency prices of a course or bundle with the given list
+   */
+  async setPrices(
+    itemType: OrderItemType,
+    itemId: string,
+    prices: { currency: string; amount: number }[]
+  ): Promise<CoursePriceRecord[]> {
+    const column = itemType === 'course' ? 'course_id' : 'bundle_id';
+    try {
+      return await dbManager.transaction(async (client) => {
+        const currencies = prices.map(price => price.currency.toUpperCase());
+        await client.query(
+          `DELETE FROM course_prices WHERE ${column} = $1 AND NOT (currency = ANY($2))`,
+          [itemId, currencies]
+        );
+
+        for (const price of prices) {
+          await client.query(
+            `INSERT INTO course_prices (${column}, currency, amount)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (${column}, currency) DO UPDATE SET amount = EXCLUDED.amount, updated_at = CURRENT_TIMESTAMP`,
+            [itemId, price.currency.toUpperCase(), price.amount]
+          );
+        }
+
+        const result = await client.query(
+          `SELECT * FROM course_prices WHERE ${column} = $1 ORDER BY currency`,
+          [itemId]
+        );
+        return result.rows;
+      });
+    } catch (error) {
+      console.error('Error saving item prices:', error);
+      throw error;
+    }
+  }
+
+}
@@ -0,0 +1,208 @@
+import { dbManager } from '../utils/databaseManager';
+import { Certificate } from './Certificate';
+
+export class CourseProgress {
+
+  /**
+   * Returns the course-level enrollment progress is recorded against. Students with access
+   * only through a bundle get a course-level row created on first use, so progress for each
+   * course of a bundle is tracked separately.
+   */
+  async resolveCourseEnrollment(studentId: string, courseId: string): Promise<any | null> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const direct = await client.query(
+          'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
+          [studentId, courseId]
+        );
+        if (direct.rows[0]?.is_active) {
+          return direct.rows[0];
+        }
+
+        const viaBundle = await client.query(
+          `SELECT e.id FROM enrollments e
+           JOIN bundle_courses bc ON bc.bundle_id = e.bundle_id
+           WHERE e.user_id = $1 AND bc.course_id = $2 AND e.is_active = true
+           LIMIT 1`,
+          [studentId, courseId]
+        );
+        if (!viaBundle.rows[0]) {
+          return null;
+        }
+
+        // A refunded course row comes back into use while an active bundle still covers the course
+        if (direct.rows[0]) {
+          const reactivated = await client.query(
+            'UPDATE enrollments SET is_active = true WHERE id = $1 RETURNING *',
+            [direct.rows[0].id]
+          );
+          await client.query('UPDATE course_progress SET is_active = true WHERE enrollment_id = $1', [direct.rows[0].id]);
+          return reactivated.rows[0];
+        }
+
+        await client.query(
+          `INSERT INTO enrollments (user_id, course_id, enrollment_type)
+           VALUES ($1, $2, 'bundle_course')
+           ON CONFLICT (user_id, course_id) DO NOTHING`,
+          [studentId, courseId]
+        );
+        const created = await client.query(
+          'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
+          [studentId, courseId]
+        );
+        return created.rows[0] || null;
+      });
+    } catch (error) {
+      console.error('Error resolving course enrollment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upserts a lesson's progress. isCompleted left undefined only records time and position.
+   */
+  async recordModuleProgress(
+    enrollmentId: string,
+    moduleId: string,
+    data: { isCompleted?: boolean; timeSpent?: number; lastPosition?: number }
+  ): Promise<void> {
+    try {
+      await dbManager.query(
+        `INSERT INTO course_progress (enrollment_id, module_id, is_completed, completion_date, time_spent_minutes, last_position_seconds, updated_at)
+         VALUES ($1, $2, COALESCE($3, false), CASE WHEN $3 = true THEN NOW() ELSE NULL END, COALESCE($4, 0), COALESCE($5, 0), NOW())
+         ON CONFLICT (enrollment_id, module_id)
+         DO UPDATE SET
+           is_completed = COALESCE($3, course_progress.is_completed),
+           completion_date = CASE
+             WHEN $3 = true THEN COALESCE(course_progress.completion_date, NOW())
+             WHEN $3 = false THEN NULL
+             ELSE course_progress.completion_date
+           END,
+           time_spent_minutes = COALESCE($4, course_progress.time_spent_minutes),
+           last_position_seconds = COALESCE($5, course_progress.last_position_seconds),
+           updated_at = NOW()`,
+        [
+          enrollmentId,
+          moduleId,
+          data.isCompleted ?? null,
+          data.timeSpent ?? null,
+          data.lastPosition ?? null
+        ]
+      );
+    } catch (error) {
+      console.error('Error recording module progress:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks a lesson completed for an enrollment, keeping the first completion date
+   */
+  async markModuleCompleted(enrollmentId: string, moduleId: string): Promise<void> {
+    try {
+      await dbManager.query(
+        `INSERT INTO course_progress (enrollment_id, module_id, is_completed, completion_date, updated_at)
+         VALUES ($1, $2, true, NOW(), NOW())
+         ON CONFLICT (enrollment_id, module_id)
+         DO UPDATE SET
+           is_completed = true,
+           completion_date = COALESCE(course_progress.completion_date, NOW()),
+           updated_at = NOW()`,
+        [enrollmentId, moduleId]
+      );
+    } catch (error) {
+      console.error('Error marking module completed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recomputes completion_percentage / is_completed on a course enrollment from its
+   * completed lessons. Bundle enrollments span several courses and are left untouched.
+   * Completing the course issues its certificate.
+   */
+  async recalculateEnrollmentProgress(
+    enrollmentId: string,
+    courseId: string
+  ): Promise<{ completionPercentage: number; isCourseCompleted: boolean }> {
+    try {
+      const progressResult = await dbManager.query(
+        `SELECT
+           COUNT(cm.id) as total_modules,
+           COUNT(cp.module_id) as completed_modules,
+           (SELECT is_completed FROM enrollments WHERE id = $1) as was_completed
+         FROM course_modules cm
+         LEFT JOIN course_progress cp ON cm.id = cp.module_id AND cp.enrollment_id = $1 AND cp.is_completed = true
+         WHERE cm.course_id = $2`,
+        [enrollmentId, courseId]
+      );
+
+      const totalModules = parseInt(progressResult.rows[0]?.total_modules) || 0;
+      const completedModules = parseInt(progressResult.rows[0]?.completed_modules) || 0;
+      const completionPercentage = totalModules > 0
+        ? Math.round((completedModules / totalModules) * 100)
+        : 0;
+      const isCourseCompleted = completionPercentage === 100;
+
+      await dbManager.query(
+        `UPDATE enrollments
+         SET completion_percentage = $1,
+             is_completed = $2,
+             completion_date = CASE WHEN $2 THEN COALESCE(completion_date, NOW()) ELSE NULL END,
+             last_accessed = NOW()
+         WHERE id = $3 AND course_id = $4`,
+        [completionPercentage, isCourseCompleted, enrollmentId, courseId]
+      );
+
+      if (isCourseCompleted && !progressResult.rows[0]?.was_completed) {
+        try {
+          await new Certificate().issueForEnrollment(enrollmentId);
+        } catch (error) {
+          // Progress is already saved; the student can still claim the certificate later
+          console.error('Error issuing certificate on course completion:', error);
+        }
+      }
+
+      return { completionPercentage, isCourseCompleted };
+    } catch (error) {
+      console.error('Error recalculating enrollment progress:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Next incomplete lesson (in curriculum order) for each unfinished course enrollment,
+   * most recently accessed first
+   */
+  async getContinueLearning(studentId: string, limit: number): Promise<any[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT e.id as enrollment_id, e.course_id, e.completion_percentage, e.last_accessed,
+                c.title as course_title, c.slug as course_slug, c.thumbnail_image,
+                next_module.id as module_id, next_module.title as module_title,
+                next_module.module_type, next_module.section_id, next_module.section_title,
+                COALESCE(next_module.last_position_seconds, 0) as last_position_seconds
+         FROM enrollments e
+         JOIN courses c ON e.course_id = c.id
+         LEFT JOIN LATERAL (
+           SELECT m.id, m.title, m.module_type, m.section_id, s.title as section_title, cp.last_position_seconds
+           FROM course_modules m
+           LEFT JOIN course_sections s ON m.section_id = s.id
+           LEFT JOIN course_progress cp ON cp.module_id = m.id AND cp.enrollment_id = e.id
+           WHERE m.course_id = e.course_id AND COALESCE(cp.is_completed, false) = false
+           ORDER BY s.sort_order ASC NULLS LAST, m.sort_order ASC, m.id ASC
+           LIMIT 1
+         ) next_module ON true
+         WHERE e.user_id = $1 AND e.is_active = true AND COALESCE(e.is_completed, false) = false
+         ORDER BY e.last_accessed DESC NULLS LAST, e.id DESC
+         LIMIT $2`,
+        [studentId, limit]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching continue learning:', error);
+      throw error;
+    }
+  }
+
+}
@@ -0,0 +1,215 @@
+import { PoolClient } from 'pg';
+import { CourseStatus, CourseStatusActorRole, CourseStatusChange } from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { ConflictError, ValidationError } from '../middleware/errorHandler';
+
+export const COURSE_STATUSES: CourseStatus[] = ['draft', 'in_review', 'scheduled', 'published', 'archived'];
+
+// Moves an admin may make; instructors and the scheduler are limited further in checkTransition
+const TRANSITIONS: Record<CourseStatus, CourseStatus[]> = {
+  draft: ['in_review', 'scheduled', 'published', 'archived'],
+  in_review: ['draft', 'scheduled', 'published'],
+  scheduled: ['draft', 'published', 'archived'],
+  published: ['draft', 'archived'],
+  archived: ['draft', 'published']
+};
+
+const INSTRUCTOR_TRANSITIONS: Partial<Record<CourseStatus, CourseStatus[]>> = {
+  draft: ['in_review'],
+  in_review: ['draft']
+};
+
+export interface StatusTransitionOptions {
+  role: CourseStatusActorRole;
+  actorId?: string | null;
+  comment?: string | null;
+  publishAt?: Date | null;
+  // Only move the course if it is still in this status
+  expectedFrom?: CourseStatus;
+}
+
+export class CoursePublishing {
+
+  /**
+   * Why the course cannot move from one status to the other, or null when it can
+   */
+  static checkTransition(
+    from: CourseStatus,
+    to: CourseStatus,
+    options: Pick<StatusTransitionOptions, 'role' | 'comment' | 'publishAt'>,
+    now: Date = new Date()
+  ): string | null {
+    if (from === to) {
+      return `The course is already ${to.replace('_', ' ')}`;
+    }
+    if (!TRANSITIONS[from].includes(to)) {
+      return `A ${from.replace('_', ' ')} course cannot be moved to ${to.replace('_', ' ')}`;
+    }
+    if (options.role === 'instructor' && !(INSTRUCTOR_TRANSITIONS[from] || []).includes(to)) {
+      return 'Only an admin can make this status change';
+    }
+    if (options.role === 'system' && !(from === 'scheduled' && to === 'published')) {
+      return 'Only scheduled courses are published automatically';
+    }
+
+    if (to === 'scheduled') {
+      if (!options.publishAt) {
+        return 'publish_at is required to schedule a course';
+      }
+      if (options.publishAt.getTime() <= now.getTime()) {
+        return 'publish_at must be in the future';
+      }
+    } else if (options.publishAt) {
+      return 'publish_at only applies when scheduling a course';
+    }
+
+    // Sending a course back from review needs the reviewer to say what to change
+    if (options.role === 'admin' && from === 'in_review' && to === 'draft' && !options.comment?.trim()) {
+      return 'A comment is required when sending a course back from review';
+    }
+    return null;
+  }
+
+  /**
+   * Records the status a new course starts in; runs inside the transaction that inserts it
+   */
+  async recordCreated(
+    client: PoolClient,
+    courseId: string,
+    status: CourseStatus,
+    role: CourseStatusActorRole,
+    actorId?: string | null
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO course_status_history (course_id, from_status, to_status, changed_by, changed_by_role)
+       VALUES ($1, NULL, $2, $3, $4)`,
+      [courseId, status, actorId || null, role]
+    );
+  }
+
+  /**
+   * Moves a course to a new status, keeping is_published in sync and writing the history row.
+   * Returns null when the course does not exist; throws ValidationError for a disallowed move and
+   * ConflictError when the course is no longer in options.expectedFrom.
+   */
+  async transition(courseId: string, to: CourseStatus, options: StatusTransitionOptions): Promise<CourseStatusChange | null> {
+    try {
+      return await dbManager.transaction((client) => this.transitionWithin(client, courseId, to, options));
+    } catch (error) {
+      console.error('Error changing course status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Same as transition, inside a transaction the caller already holds, so a status change can
+   * succeed or fail together with other edits to the course
+   */
+  async transitionWithin(
+    client: PoolClient,
+    courseId: string,
+    to: CourseStatus,
+    options: StatusTransitionOptions
+  ): Promise<CourseStatusChange | null> {
+    const existing = await client.query('SELECT id, status, publish_at FROM courses WHERE id = $1 FOR UPDATE', [courseId]);
+    const course = existing.rows[0];
+    if (!course) {
+      return null;
+    }
+
+    const from = course.status as CourseStatus;
+    if (options.expectedFrom && from !== options.expectedFrom) {
+      throw new ConflictError(`The course is ${from.replace('_', ' ')}, not ${options.expectedFrom.replace('_', ' ')}`);
+    }
+    const notAllowed = CoursePublishing.checkTransition(from, to, options);
+    if (notAllowed) {
+      throw new ValidationError(notAllowed);
+    }
+
+    if (options.role === 'system' && (!course.publish_at || new Date(course.publish_at) > new Date())) {
+      throw new ValidationError('The course is not due to be published yet');
+    }
+
+    const comment = options.comment?.trim() || null;
+    const values: any[] = [courseId, to, options.publishAt || null];
+    const assignments = [
+      'status = $2',
+      "is_published = ($2 = 'published')",
+      'publish_at = $3',
+      'updated_at = CURRENT_TIMESTAMP'
+    ];
+    if (to === 'in_review') {
+      assignments.push('submitted_at = CURRENT_TIMESTAMP', 'review_note = NULL', 'reviewed_by = NULL', 'reviewed_at = NULL');
+    } else if (from === 'in_review' && options.role === 'admin') {
+      // The latest review decision stays on the course for the instructor to read
+      values.push(comment, options.actorId || null);
+      assignments.push('review_note = $4', 'reviewed_by = $5', 'reviewed_at = CURRENT_TIMESTAMP');
+    }
+    await client.query(`UPDATE courses SET ${assignments.join(', ')} WHERE id = $1`, values);
+
+    const history = await client.query(
+      `INSERT INTO course_status_history (course_id, from_status, to_status, comment, publish_at, changed_by, changed_by_role)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [courseId, from, to, comment, options.publishAt || null, options.actorId || null, options.role]
+    );
+    return history.rows[0];
+  }
+
+  async getHistory(courseId: string): Promise<CourseStatusChange[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT h.*, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as changed_by_name
+         FROM course_status_history h
+         LEFT JOIN users u ON h.changed_by = u.id
+         WHERE h.course_id = $1
+         ORDER BY h.created_at DESC, h.id DESC`,
+        [courseId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching course status history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Publishes scheduled courses whose publish_at has passed. Safe to run from several
+   * instances at once: each course is re-checked under a row lock before it moves.
+   */
+  async publishDueCourses(limit: number = 100): Promise<string[]> {
+    try {
+      const due = await dbManager.query(
+        `SELECT id FROM courses
+         WHERE status = 'scheduled' AND publish_at <= CURRENT_TIMESTAMP
+         ORDER BY publish_at ASC
+         LIMIT $1`,
+        [limit]
+      );
+
+      const published: string[] = [];
+      for (const row of due.rows) {
+        try {
+          const change = await this.transition(String(row.id), 'published', {
+            role: 'system',
+            comment: 'Published on schedule',
+            expectedFrom: 'scheduled'
+          });
+          if (change) {
+            published.push(String(row.id));
+          }
+        } catch (error) {
+          // Rescheduled or moved by an admin since it was selected
+          if (!(error instanceof ValidationError) && !(error instanceof ConflictError)) {
+            throw error;
+          }
+        }
+      }
+      return published;
+    } catch (error) {
+      console.error('Error publishing scheduled courses:', error);
+      throw error;
+    }
+  }
+
+}
@@ -0,0 +1,217 @@
+import { PoolClient } from 'pg';
+import {
+  AuthUser,
+  CourseRevision as CourseRevisionType,
+  CourseRevisionEditor,
+  CourseRevisionEntity,
+  CourseRevisionFieldChange
+} from '../types';
+import { dbManager } from '../utils/databaseManager';
+
+// Content columns kept in each snapshot; status changes have their own history
+const REVISION_COLUMNS: Record<CourseRevisionEntity, readonly string[]> = {
+  course: [
+    'field_id', 'title', 'slug', 'description', 'short_description', 'banner_image', 'thumbnail_image',
+    'duration_hours', 'difficulty_level', 'price', 'is_free', 'instructor_id', 'prerequisites',
+    'learning_outcomes', 'tags'
+  ],
+  module: ['section_id', 'title', 'description', 'module_type', 'content_url', 'duration_minutes', 'is_free']
+};
+
+const REVISION_SOURCES: Record<CourseRevisionEntity, { table: string; courseColumn: string }> = {
+  course: { table: 'courses', courseColumn: 'id' },
+  module: { table: 'course_modules', courseColumn: 'course_id' }
+};
+
+const REVISION_SUMMARY_COLUMNS = `
+  r.id, r.course_id, r.entity_type, r.entity_id, r.revision_number, r.change_type, r.changes,
+  r.restored_from, r.edited_by, r.edited_by_role, r.created_at,
+  NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as edited_by_name
+`;
+
+export interface CapturedSnapshot {
+  courseId: string;
+  snapshot: Record<string, any>;
+}
+
+export class CourseRevision {
+
+  static editorFor(user?: AuthUser): CourseRevisionEditor {
+    return { id: user?.id || null, role: user?.role === 'instructor' ? 'instructor' : 'admin' };
+  }
+
+  /**
+   * Field-level changes between two snapshots, in the order the fields appear
+   */
+  static diffSnapshots(before: Record<string, any>, after: Record<string, any>): CourseRevisionFieldChange[] {
+    const fields = [...Object.keys(before), ...Object.keys(after).filter(field => !(field in before))];
+    return fields
+      .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+      .map(field => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+  }
+
+  /**
+   * Locks the course or module row and reads the columns a revision keeps.
+   * Values go through JSON so they compare equal to snapshots read back from JSONB.
+   */
+  async capture(client: PoolClient, entityType: CourseRevisionEntity, entityId: string): Promise<CapturedSnapshot | null> {
+    const { table, courseColumn } = REVISION_SOURCES[entityType];
+    const result = await client.query(
+      `SELECT ${courseColumn} as revision_course_id, ${REVISION_COLUMNS[entityType].join(', ')}
+       FROM ${table} WHERE id = $1 FOR UPDATE`,
+      [entityId]
+    );
+    if (!result.rows[0]) {
+      return null;
+    }
+
+    const { revision_course_id, ...snapshot } = result.rows[0];
+    return { courseId: String(revision_course_id), snapshot: JSON.parse(JSON.stringify(snapshot)) };
+  }
+
+  /**
+   * Runs an edit inside the caller's transaction and stores a revision when it changed any
+   * tracked column. Returns null, without running the edit, when the course or module is missing.
+   */
+  async trackEdit<T>(
+    client: PoolClient,
+    entityType: CourseRevisionEntity,
+    entityId: string,
+    editor: CourseRevisionEditor,
+    edit: (before: CapturedSnapshot) => Promise<T>,
+    restoredFrom: number | null = null
+  ): Promise<T | null> {
+    const before = await this.capture(client, entityType, entityId);
+    if (!before) {
+      return null;
+    }
+
+    const result = await edit(before);
+    const after = await this.capture(client, entityType, entityId);
+    const changes = after ? CourseRevision.diffSnapshots(before.snapshot, after.snapshot) : [];
+    if (!after || changes.length === 0) {
+      return result;
+    }
+
+    const latest = await client.query(
+      'SELECT MAX(revision_number) as latest FROM course_revisions WHERE entity_type = $1 AND entity_id = $2',
+      [entityType, entityId]
+    );
+    let revisionNumber = parseInt(latest.rows[0]?.latest) || 0;
+
+    // The first tracked edit also keeps the state it replaced, so the original can be restored
+    if (revisionNumber === 0) {
+      revisionNumber++;
+      await this.insertRevision(client, entityType, entityId, before.courseId, revisionNumber, 'baseline', before.snapshot, [], null, { role: 'system' });
+    }
+
+    await this.insertRevision(
+      client, entityType, entityId, after.courseId, revisionNumber + 1,
+      restoredFrom === null ? 'update' : 'restore', after.snapshot, changes, restoredFrom, editor
+    );
+    return result;
+  }
+
+  async getRevisions(
+    entityType: CourseRevisionEntity,
+    entityId: string,
+    options: { page: number; limit: number }
+  ): Promise<{ revisions: CourseRevisionType[]; total: number }> {
+    try {
+      const [revisionsResult, countResult] = await Promise.all([
+        dbManager.query(
+          `SELECT ${REVISION_SUMMARY_COLUMNS}
+           FROM course_revisions r
+           LEFT JOIN users u ON r.edited_by = u.id
+           WHERE r.entity_type = $1 AND r.entity_id = $2
+           ORDER BY r.revision_number DESC
+           LIMIT $3 OFFSET $4`,
+          [entityType, entityId, options.limit, (options.page - 1) * options.limit]
+        ),
+        dbManager.query(
+          'SELECT COUNT(*) as total FROM course_revisions WHERE entity_type = $1 AND entity_id = $2',
+          [entityType, entityId]
+        )
+      ]);
+
+      return {
+        revisions: revisionsResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching course revisions:', error);
+      throw error;
+    }
+  }
+
+  async getRevision(entityType: CourseRevisionEntity, entityId: string, revisionNumber: number): Promise<CourseRevisionType | null> {
+    try {
+      const result = await dbManager.query(
+        `SELECT ${REVISION_SUMMARY_COLUMNS}, r.snapshot
+         FROM course_revisions r
+         LEFT JOIN users u ON r.edited_by = u.id
+         WHERE r.entity_type = $1 AND r.entity_id = $2 AND r.revision_number = $3`,
+        [entityType, entityId, revisionNumber]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching course revision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Puts the course columns back to a revision's snapshot, recorded as a new revision.
+   * Returns false when the course no longer exists. Modules are restored through
+   * Curriculum.updateLesson so section moves and the curriculum snapshot are handled as for an edit.
+   */
+  async restoreCourse(courseId: string, revision: CourseRevisionType, editor: CourseRevisionEditor): Promise<boolean> {
+    try {
+      const restored = await dbManager.transaction((client) =>
+        this.trackEdit(client, 'course', courseId, editor, async () => {
+          const snapshot = revision.snapshot || {};
+          const columns = REVISION_COLUMNS.course.filter(column => column in snapshot);
+          const values: any[] = columns.map(column =>
+            column === 'learning_outcomes' && snapshot[column] !== null ? JSON.stringify(snapshot[column]) : snapshot[column]
+          );
+          const assignments = columns.map((column, index) => `${column} = $${index + 1}`);
+          assignments.push('updated_at = CURRENT_TIMESTAMP');
+          values.push(courseId);
+
+          await client.query(`UPDATE courses SET ${assignments.join(', ')} WHERE id = $${values.length}`, values);
+          return true;
+        }, revision.revision_number)
+      );
+      return restored !== null;
+    } catch (error) {
+      console.error('Error restoring course revision:', error);
+      throw error;
+    }
+  }
+
+  private async insertRevision(
+    client: PoolClient,
+    entityType: CourseRevisionEntity,
+    entityId: string,
+    courseId: string,
+    revisionNumber: number,
+    changeType: CourseRevisionType['change_type'],
+    snapshot: Record<string, any>,
+    changes: CourseRevisionFieldChange[],
+    restoredFrom: number | null,
+    editor: CourseRevisionEditor
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO course_revisions (
+         course_id, entity_type, entity_id, revision_number, change_type, snapshot, changes,
+         restored_from, edited_by, edited_by_role
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        courseId, entityType, entityId, revisionNumber, changeType, JSON.stringify(snapshot),
+        JSON.stringify(changes), restoredFrom, editor.id || null, editor.role
+      ]
+    );
+  }
+
+}
@@ -0,0 +1,379 @@
+import { PoolClient } from 'pg';
+import {
+  CourseTemplate as CourseTemplateType,
+  CourseTemplateLesson,
+  CourseTemplateSection,
+  CreateQuizQuestionRequest
+} from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { ConflictError, ValidationError } from '../middleware/errorHandler';
+import { CoursePublishing } from './CoursePublishing';
+import { Curriculum } from './Curriculum';
+import { Quiz } from './Quiz';
+
+const TEMPLATE_FORMAT = 'zenow-course';
+const TEMPLATE_VERSION = 1;
+
+// CockroachDB returns INT8 and DECIMAL columns as strings; templates carry plain numbers
+const toNumber = (value: any): number | null => (value === null || value === undefined ? null : Number(value));
+
+export interface CourseImportOptions {
+  actorId?: string | null;
+  // Override the template's field, title and slug, e.g. for a clone
+  fieldId?: string;
+  title?: string;
+  slug?: string;
+}
+
+export class CourseTemplate {
+
+  /**
+   * Assembles the portable template from the course rows; lessons without a section are left out
+   */
+  static buildTemplate(
+    course: any,
+    prices: any[],
+    sections: any[],
+    lessons: any[],
+    quizSettings: any[],
+    questions: any[],
+    assignments: any[]
+  ): CourseTemplateType {
+    const settingsByModule = new Map(quizSettings.map(row => [String(row.module_id), row]));
+    const assignmentByModule = new Map(assignments.map(row => [String(row.module_id), row]));
+    const questionsByModule = new Map<string, any[]>();
+    for (const question of questions) {
+      const moduleId = String(question.module_id);
+      questionsByModule.set(moduleId, [...(questionsByModule.get(moduleId) || []), question]);
+    }
+
+    const lessonsBySection = new Map<string, CourseTemplateLesson[]>();
+    for (const lesson of lessons) {
+      const moduleId = String(lesson.id);
+      const entry: CourseTemplateLesson = {
+        title: lesson.title,
+        description: lesson.description,
+        module_type: lesson.module_type,
+        content_url: lesson.content_url,
+        duration_minutes: toNumber(lesson.duration_minutes) || 0,
+        is_free: !!lesson.is_free
+      };
+
+      const settings = settingsByModule.get(moduleId);
+      const moduleQuestions = questionsByModule.get(moduleId) || [];
+      if (settings || moduleQuestions.length > 0) {
+        entry.quiz = {
+          settings: settings
+            ? {
+                passing_score: toNumber(settings.passing_score) as number,
+                max_attempts: toNumber(settings.max_attempts),
+                shuffle_questions: !!settings.shuffle_questions
+              }
+            : null,
+          questions: moduleQuestions.map(question => ({
+            question_type: question.question_type,
+            prompt: question.prompt,
+            options: question.options,
+            correct_answers: question.correct_answers,
+            explanation: question.explanation,
+            points: toNumber(question.points) as number,
+            sort_order: toNumber(question.sort_order) as number
+          }))
+        };
+      }
+
+      const assignment = assignmentByModule.get(moduleId);
+      if (assignment) {
+        entry.assignment = {
+          instructions: assignment.instructions,
+          due_at: assignment.due_at ? new Date(assignment.due_at).toISOString() : null,
+          allow_late: !!assignment.allow_late,
+          max_submissions: toNumber(assignment.max_submissions),
+          resubmit_after_grading: !!assignment.resubmit_after_grading,
+          max_score: toNumber(assignment.max_score) as number
+        };
+      }
+
+      const sectionId = String(lesson.section_id);
+      lessonsBySection.set(sectionId, [...(lessonsBySection.get(sectionId) || []), entry]);
+    }
+
+    const templateSections: CourseTemplateSection[] = sections.map(section => ({
+      title: section.title,
+      description: section.description,
+      lessons: lessonsBySection.get(String(section.id)) || []
+    }));
+
+    const template: CourseTemplateType = {
+      format: TEMPLATE_FORMAT,
+      version: TEMPLATE_VERSION,
+      exported_at: new Date().toISOString(),
+      course: {
+        category_slug: course.category_slug,
+        field_slug: course.field_slug,
+        title: course.title,
+        slug: course.slug,
+        description: course.description,
+        short_description: course.short_description,
+        banner_image: course.banner_image,
+        thumbnail_image: course.thumbnail_image,
+        duration_hours: toNumber(course.duration_hours) || 0,
+        difficulty_level: course.difficulty_level,
+        price: toNumber(course.price) || 0,
+        is_free: !!course.is_free,
+        instructor_email: course.instructor_email,
+        prerequisites: course.prerequisites,
+        learning_outcomes: course.learning_outcomes,
+        tags: course.tags,
+        prices: prices.map(row => ({ currency: row.currency, amount: toNumber(row.amount) as number }))
+      },
+      sections: templateSections,
+      media: []
+    };
+    template.media = CourseTemplate.collectMedia(template);
+    return template;
+  }
+
+  /**
+   * Image and lesson URLs referenced by a template, without duplicates
+   */
+  static collectMedia(template: Pick<CourseTemplateType, 'course' | 'sections'>): string[] {
+    const urls = [
+      template.course.banner_image,
+      template.course.thumbnail_image,
+      ...template.sections.flatMap(section => section.lessons.map(lesson => lesson.content_url))
+    ];
+    return [...new Set(urls.filter((url): url is string => typeof url === 'string' && url.trim() !== ''))];
+  }
+
+  /**
+   * First free "<slug>-copy", "<slug>-copy-2", ... slug for a clone
+   */
+  static cloneSlug(slug: string, takenSlugs: string[]): string {
+    const taken = new Set(takenSlugs);
+    const base = `${slug.replace(/-copy(-\d+)?$/, '')}-copy`;
+    let candidate = base;
+    for (let suffix = 2; taken.has(candidate); suffix++) {
+      candidate = `${base}-${suffix}`;
+    }
+    return candidate;
+  }
+
+  async exportCourse(courseId: string): Promise<CourseTemplateType | null> {
+    try {
+      const courseResult = await dbManager.query(
+        `SELECT c.*, f.slug as field_slug, cat.slug as category_slug, u.email as instructor_email
+         FROM courses c
+         JOIN fields f ON c.field_id = f.id
+         JOIN categories cat ON f.category_id = cat.id
+         LEFT JOIN users u ON c.instructor_id = u.id
+         WHERE c.id = $1`,
+        [courseId]
+      );
+      if (!courseResult.rows[0]) {
+        return null;
+      }
+
+      const moduleFilter = 'module_id IN (SELECT id FROM course_modules WHERE course_id = $1)';
+      const [prices, sections, lessons, quizSettings, questions, assignments] = await Promise.all([
+        dbManager.query('SELECT currency, amount FROM course_prices WHERE course_id = $1 ORDER BY currency', [courseId]),
+        dbManager.query('SELECT * FROM course_sections WHERE course_id = $1 ORDER BY sort_order, id', [courseId]),
+        dbManager.query('SELECT * FROM course_modules WHERE course_id = $1 ORDER BY sort_order, id', [courseId]),
+        dbManager.query(`SELECT * FROM quiz_settings WHERE ${moduleFilter}`, [courseId]),
+        dbManager.query(`SELECT * FROM quiz_questions WHERE ${moduleFilter} ORDER BY sort_order, id`, [courseId]),
+        dbManager.query(`SELECT * FROM assignment_settings WHERE ${moduleFilter}`, [courseId])
+      ]);
+
+      return CourseTemplate.buildTemplate(
+        courseResult.rows[0],
+        prices.rows,
+        sections.rows,
+        lessons.rows,
+        quizSettings.rows,
+        questions.rows,
+        assignments.rows
+      );
+    } catch (error) {
+      console.error('Error exporting course:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a draft course from a template with its sections, lessons, quizzes, assignment
+   * settings and prices. Throws ValidationError when the field does not exist here and
+   * ConflictError when the slug is already used in that field. Returns the new course id.
+   */
+  async importCourse(template: CourseTemplateType, options: CourseImportOptions = {}): Promise<string> {
+    const { course } = template;
+    const title = options.title || course.title;
+    const slug = options.slug || course.slug;
+
+    // Check every question up front so a bad one does not leave half a course behind
+    for (const section of template.sections) {
+      for (const lesson of section.lessons) {
+        for (const question of lesson.quiz?.questions || []) {
+          Quiz.validateQuestion(question as CreateQuizQuestionRequest);
+        }
+      }
+    }
+
+    try {
+      return await dbManager.transaction(async (client) => {
+        const fieldId = options.fieldId || await this.findField(client, course.category_slug, course.field_slug);
+
+        const existing = await client.query('SELECT id FROM courses WHERE field_id = $1 AND slug = $2', [fieldId, slug]);
+        if (existing.rows[0]) {
+          throw new ConflictError(`A course with slug ${slug} already exists in this field`);
+        }
+
+        const instructor = course.instructor_email
+          ? await client.query('SELECT id FROM users WHERE LOWER(email) = LOWER($1)', [course.instructor_email])
+          : null;
+
+        const inserted = await client.query(
+          `INSERT INTO courses (
+             field_id, title, slug, description, short_description, banner_image, thumbnail_image,
+             duration_hours, difficulty_level, price, is_free, is_published, instructor_id,
+             prerequisites, learning_outcomes, tags, status
+           )
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, false, $12, $13, $14, $15, 'draft')
+           RETURNING id`,
+          [
+            fieldId, title, slug, course.description ?? null, course.short_description ?? null,
+            course.banner_image ?? null, course.thumbnail_image ?? null, course.duration_hours,
+            course.difficulty_level, course.price, course.is_free, instructor?.rows[0]?.id || null,
+            course.prerequisites ?? null,
+            course.learning_outcomes === undefined || course.learning_outcomes === null ? null : JSON.stringify(course.learning_outcomes),
+            course.tags ?? null
+          ]
+        );
+        const courseId = String(inserted.rows[0].id);
+        await new CoursePublishing().recordCreated(client, courseId, 'draft', 'admin', options.actorId);
+
+        for (const price of course.prices) {
+          await client.query(
+            'INSERT INTO course_prices (course_id, currency, amount) VALUES ($1, $2, $3)',
+            [courseId, price.currency.toUpperCase(), price.amount]
+          );
+        }
+
+        for (const [sectionIndex, section] of template.sections.entries()) {
+          const sectionResult = await client.query(
+            'INSERT INTO course_sections (course_id, title, description, sort_order) VALUES ($1, $2, $3, $4) RETURNING id',
+            [courseId, section.title, section.description ?? null, sectionIndex + 1]
+          );
+          const sectionId = String(sectionResult.rows[0].id);
+
+          for (const [lessonIndex, lesson] of section.lessons.entries()) {
+            await this.insertLesson(client, courseId, sectionId, lessonIndex + 1, lesson);
+          }
+        }
+
+        await new Curriculum().refreshSnapshot(client, courseId);
+        return courseId;
+      });
+    } catch (error) {
+      console.error('Error importing course:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copies a course into a new draft with a free "-copy" slug in the same field.
+   * Returns null when the source course does not exist.
+   */
+  async cloneCourse(courseId: string, actorId?: string | null): Promise<string | null> {
+    try {
+      const template = await this.exportCourse(courseId);
+      if (!template) {
+        return null;
+      }
+
+      const source = await dbManager.query('SELECT field_id FROM courses WHERE id = $1', [courseId]);
+      const fieldId = String(source.rows[0].field_id);
+      const taken = await dbManager.query(
+        'SELECT slug FROM courses WHERE field_id = $1 AND slug LIKE $2',
+        [fieldId, `${template.course.slug.replace(/-copy(-\d+)?$/, '')}-copy%`]
+      );
+
+      return await this.importCourse(template, {
+        actorId,
+        fieldId,
+        title: `${template.course.title.slice(0, 193)} (Copy)`,
+        slug: CourseTemplate.cloneSlug(template.course.slug, taken.rows.map((row: any) => row.slug))
+      });
+    } catch (error) {
+      console.error('Error cloning course:', error);
+      throw error;
+    }
+  }
+
+  private async findField(client: PoolClient, categorySlug: string, fieldSlug: string): Promise<string> {
+    const field = await client.query(
+      `SELECT f.id FROM fields f
+       JOIN categories cat ON f.category_id = cat.id
+       WHERE f.slug = $1 AND cat.slug = $2`,
+      [fieldSlug, categorySlug]
+    );
+    if (!field.rows[0]) {
+      throw new ValidationError(`Field ${categorySlug}/${fieldSlug} does not exist; create it before importing`);
+    }
+    return String(field.rows[0].id);
+  }
+
+  private async insertLesson(
+    client: PoolClient,
+    courseId: string,
+    sectionId: string,
+    sortOrder: number,
+    lesson: CourseTemplateLesson
+  ): Promise<void> {
+    const lessonResult = await client.query(
+      `INSERT INTO course_modules (
+         course_id, section_id, title, description, module_type, content_url, duration_minutes, is_free, sort_order
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id`,
+      [
+        courseId, sectionId, lesson.title, lesson.description ?? null, lesson.module_type,
+        lesson.content_url ?? null, lesson.duration_minutes, lesson.is_free, sortOrder
+      ]
+    );
+    const moduleId = String(lessonResult.rows[0].id);
+
+    if (lesson.quiz?.settings) {
+      await client.query(
+        'INSERT INTO quiz_settings (module_id, passing_score, max_attempts, shuffle_questions) VALUES ($1, $2, $3, $4)',
+        [moduleId, lesson.quiz.settings.passing_score, lesson.quiz.settings.max_attempts, lesson.quiz.settings.shuffle_questions]
+      );
+    }
+    for (const question of lesson.quiz?.questions || []) {
+      await client.query(
+        `INSERT INTO quiz_questions (module_id, question_type, prompt, options, correct_answers, explanation, points, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          moduleId, question.question_type, question.prompt,
+          question.options ? JSON.stringify(question.options) : null,
+          JSON.stringify(question.correct_answers), question.explanation ?? null,
+          question.points, question.sort_order
+        ]
+      );
+    }
+
+    if (lesson.assignment) {
+      const assignment = lesson.assignment;
+      await client.query(
+        `INSERT INTO assignment_settings (
+           module_id, instructions, due_at, allow_late, max_submissions, resubmit_after_grading, max_score
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          moduleId, assignment.instructions ?? null, assignment.due_at ?? null, assignment.allow_late,
+          assignment.max_submissions, assignment.resubmit_after_grading, assignment.max_score
+        ]
+      );
+    }
+  }
+
+}
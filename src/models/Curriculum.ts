@@ -0,0 +1,420 @@
+import { PoolClient } from 'pg';
+import {
+  CourseCurriculum,
+  CourseRevisionEditor,
+  CourseModule,
+  CourseSection,
+  CreateModuleRequest,
+  CreateSectionRequest,
+  CurriculumOrderRequest,
+  UpdateModuleRequest,
+  UpdateSectionRequest
+} from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { ValidationError } from '../middleware/errorHandler';
+import { CourseRevision } from './CourseRevision';
+
+const SECTION_COLUMNS = ['title', 'description'] as const;
+const LESSON_COLUMNS = ['section_id', 'title', 'description', 'module_type', 'content_url', 'duration_minutes', 'is_free'] as const;
+
+const DEFAULT_SECTION_TITLE = 'Course Content';
+
+// courses.course_modules is kept as a read-only snapshot of the relational curriculum
+// so existing course payloads stay in step with it; content_url is never copied into it.
+const REFRESH_SNAPSHOT_SQL = `
+  UPDATE courses c
+  SET course_modules = COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', s.id::TEXT,
+        'title', s.title,
+        'description', s.description,
+        'lessons', COALESCE((
+          SELECT jsonb_agg(
+            jsonb_build_object(
+              'id', m.id::TEXT,
+              'title', m.title,
+              'module_type', m.module_type,
+              'duration_minutes', m.duration_minutes,
+              'is_free', m.is_free
+            ) ORDER BY m.sort_order, m.id
+          )
+          FROM course_modules m
+          WHERE m.section_id = s.id
+        ), '[]'::JSONB)
+      ) ORDER BY s.sort_order, s.id
+    )
+    FROM course_sections s
+    WHERE s.course_id = c.id
+  ), '[]'::JSONB),
+  updated_at = CURRENT_TIMESTAMP
+  WHERE c.id = $1
+`;
+
+export class Curriculum {
+
+  /**
+   * Groups section and lesson rows into the course -> section -> lesson tree.
+   * Without includeContent, content_url is only exposed on free-preview lessons.
+   */
+  static buildCurriculum(courseId: string, sections: any[], lessons: any[], includeContent: boolean): CourseCurriculum {
+    const bySection = new Map<string, CourseSection>();
+    const tree: CourseSection[] = sections.map(section => {
+      const node: CourseSection = { ...section, id: String(section.id), lessons: [] };
+      bySection.set(node.id, node);
+      return node;
+    });
+
+    let totalLessons = 0;
+    let totalDuration = 0;
+
+    for (const lesson of lessons) {
+      const section = bySection.get(String(lesson.section_id));
+      if (!section) {
+        continue;
+      }
+      section.lessons.push({
+        ...lesson,
+        content_url: includeContent || lesson.is_free ? lesson.content_url : null
+      });
+      totalLessons++;
+      totalDuration += parseInt(lesson.duration_minutes) || 0;
+    }
+
+    return {
+      course_id: String(courseId),
+      sections: tree,
+      total_lessons: totalLessons,
+      total_duration_minutes: totalDuration
+    };
+  }
+
+  /**
+   * Rebuilds courses.course_modules after sections or lessons are written outside this model
+   */
+  async refreshSnapshot(client: PoolClient, courseId: string): Promise<void> {
+    await client.query(REFRESH_SNAPSHOT_SQL, [courseId]);
+  }
+
+  async courseExists(courseId: string): Promise<boolean> {
+    try {
+      const result = await dbManager.query('SELECT id FROM courses WHERE id = $1', [courseId]);
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Error checking course:', error);
+      throw error;
+    }
+  }
+
+  async getCurriculum(courseId: string, includeContent: boolean = false): Promise<CourseCurriculum> {
+    try {
+      const [sectionsResult, lessonsResult] = await Promise.all([
+        dbManager.query(
+          `SELECT id, course_id, title, description, sort_order, created_at, updated_at
+           FROM course_sections
+           WHERE course_id = $1
+           ORDER BY sort_order ASC, id ASC`,
+          [courseId]
+        ),
+        dbManager.query(
+          `SELECT id, course_id, section_id, title, description, module_type, content_url,
+                  duration_minutes, sort_order, is_free, created_at, updated_at
+           FROM course_modules
+           WHERE course_id = $1
+           ORDER BY sort_order ASC, id ASC`,
+          [courseId]
+        )
+      ]);
+
+      return Curriculum.buildCurriculum(courseId, sectionsResult.rows, lessonsResult.rows, includeContent);
+    } catch (error) {
+      console.error('Error fetching curriculum:', error);
+      throw error;
+    }
+  }
+
+  async getLessons(courseId: string): Promise<CourseModule[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT m.*
+         FROM course_modules m
+         LEFT JOIN course_sections s ON m.section_id = s.id
+         WHERE m.course_id = $1
+         ORDER BY s.sort_order ASC NULLS LAST, m.sort_order ASC, m.id ASC`,
+        [courseId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching course lessons:', error);
+      throw error;
+    }
+  }
+
+  async createSection(courseId: string, data: CreateSectionRequest): Promise<CourseSection> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          `INSERT INTO course_sections (course_id, title, description, sort_order)
+           VALUES ($1, $2, $3, (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM course_sections WHERE course_id = $1))
+           RETURNING *`,
+          [courseId, data.title, data.description || null]
+        );
+
+        await client.query(REFRESH_SNAPSHOT_SQL, [courseId]);
+        return { ...result.rows[0], lessons: [] };
+      });
+    } catch (error) {
+      console.error('Error creating section:', error);
+      throw error;
+    }
+  }
+
+  async updateSection(sectionId: string, data: UpdateSectionRequest): Promise<CourseSection | null> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const updateFields: string[] = [];
+        const values: any[] = [];
+
+        for (const column of SECTION_COLUMNS) {
+          if (data[column] !== undefined) {
+            values.push(data[column]);
+            updateFields.push(`${column} = $${values.length}`);
+          }
+        }
+
+        values.push(sectionId);
+        const result = await client.query(
+          `UPDATE course_sections
+           SET ${[...updateFields, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+           WHERE id = $${values.length}
+           RETURNING *`,
+          values
+        );
+
+        const section = result.rows[0];
+        if (!section) {
+          return null;
+        }
+
+        await client.query(REFRESH_SNAPSHOT_SQL, [section.course_id]);
+        return section;
+      });
+    } catch (error) {
+      console.error('Error updating section:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the section together with its lessons (and their progress rows, via cascade)
+   */
+  async deleteSection(sectionId: string): Promise<boolean> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          'DELETE FROM course_sections WHERE id = $1 RETURNING course_id',
+          [sectionId]
+        );
+        if (!result.rows[0]) {
+          return false;
+        }
+
+        await client.query(REFRESH_SNAPSHOT_SQL, [result.rows[0].course_id]);
+        return true;
+      });
+    } catch (error) {
+      console.error('Error deleting section:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Appends a lesson to the given section, or to the last section of the course
+   * (creating a default one for a course without sections).
+   */
+  async createLesson(courseId: string, data: CreateModuleRequest): Promise<CourseModule> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const sectionId = data.section_id
+          ? await this.requireSection(client, courseId, data.section_id)
+          : await this.lastOrDefaultSection(client, courseId);
+
+        const result = await client.query(
+          `INSERT INTO course_modules (course_id, section_id, title, description, module_type, content_url, duration_minutes, is_free, sort_order)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8,
+                   (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM course_modules WHERE section_id = $2))
+           RETURNING *`,
+          [
+            courseId,
+            sectionId,
+            data.title,
+            data.description || null,
+            data.module_type || 'video',
+            data.content_url || null,
+            data.duration_minutes || 0,
+            data.is_free || false
+          ]
+        );
+
+        await client.query(REFRESH_SNAPSHOT_SQL, [courseId]);
+        return result.rows[0];
+      });
+    } catch (error) {
+      console.error('Error creating lesson:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a lesson and stores a revision of it; restoredFrom marks a restore of that revision
+   */
+  async updateLesson(
+    moduleId: string,
+    data: UpdateModuleRequest,
+    editor: CourseRevisionEditor,
+    restoredFrom: number | null = null
+  ): Promise<CourseModule | null> {
+    try {
+      return await dbManager.transaction((client) =>
+        new CourseRevision().trackEdit(client, 'module', moduleId, editor, async ({ courseId, snapshot }) => {
+          const updateFields: string[] = [];
+          const values: any[] = [];
+
+          for (const column of LESSON_COLUMNS) {
+            if (data[column] !== undefined) {
+              values.push(data[column]);
+              updateFields.push(`${column} = $${values.length}`);
+            }
+          }
+
+          // Moving to another section appends the lesson to it
+          if (data.section_id !== undefined && String(data.section_id) !== String(snapshot.section_id)) {
+            await this.requireSection(client, courseId, data.section_id);
+            values.push(data.section_id);
+            updateFields.push(`sort_order = (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM course_modules WHERE section_id = $${values.length})`);
+          }
+
+          values.push(moduleId);
+          const result = await client.query(
+            `UPDATE course_modules
+             SET ${[...updateFields, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+             WHERE id = $${values.length}
+             RETURNING *`,
+            values
+          );
+
+          await client.query(REFRESH_SNAPSHOT_SQL, [courseId]);
+          return result.rows[0] as CourseModule;
+        }, restoredFrom)
+      );
+    } catch (error) {
+      console.error('Error updating lesson:', error);
+      throw error;
+    }
+  }
+
+  async deleteLesson(moduleId: string): Promise<boolean> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          'DELETE FROM course_modules WHERE id = $1 RETURNING course_id',
+          [moduleId]
+        );
+        if (!result.rows[0]) {
+          return false;
+        }
+
+        await client.query(REFRESH_SNAPSHOT_SQL, [result.rows[0].course_id]);
+        return true;
+      });
+    } catch (error) {
+      console.error('Error deleting lesson:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a drag-and-drop ordering. The payload must list every section of the
+   * course exactly once and every lesson exactly once; lessons may move between sections.
+   */
+  async reorderCurriculum(courseId: string, order: CurriculumOrderRequest): Promise<void> {
+    try {
+      await dbManager.transaction(async (client) => {
+        const [sectionsResult, lessonsResult] = await Promise.all([
+          client.query('SELECT id FROM course_sections WHERE course_id = $1', [courseId]),
+          client.query('SELECT id FROM course_modules WHERE course_id = $1', [courseId])
+        ]);
+
+        Curriculum.assertSameIds(
+          sectionsResult.rows.map(row => String(row.id)),
+          order.sections.map(section => String(section.id)),
+          'sections'
+        );
+        Curriculum.assertSameIds(
+          lessonsResult.rows.map(row => String(row.id)),
+          order.sections.flatMap(section => section.lessons.map(String)),
+          'lessons'
+        );
+
+        for (const [sectionIndex, section] of order.sections.entries()) {
+          await client.query(
+            'UPDATE course_sections SET sort_order = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+            [sectionIndex + 1, section.id]
+          );
+
+          for (const [lessonIndex, lessonId] of section.lessons.entries()) {
+            await client.query(
+              'UPDATE course_modules SET section_id = $1, sort_order = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3',
+              [section.id, lessonIndex + 1, lessonId]
+            );
+          }
+        }
+
+        await client.query(REFRESH_SNAPSHOT_SQL, [courseId]);
+      });
+    } catch (error) {
+      console.error('Error reordering curriculum:', error);
+      throw error;
+    }
+  }
+
+  static assertSameIds(expected: string[], received: string[], label: string): void {
+    const expectedSet = new Set(expected);
+    const receivedSet = new Set(received);
+
+    if (receivedSet.size !== received.length) {
+      throw new ValidationError(`Curriculum order lists some ${label} more than once`);
+    }
+    if (expectedSet.size !== receivedSet.size || received.some(id => !expectedSet.has(id))) {
+      throw new ValidationError(`Curriculum order must list every ${label.replace(/s$/, '')} of the course exactly once`);
+    }
+  }
+
+  private async requireSection(client: PoolClient, courseId: string, sectionId: string): Promise<string> {
+    const result = await client.query(
+      'SELECT id FROM course_sections WHERE id = $1 AND course_id = $2',
+      [sectionId, courseId]
+    );
+    if (!result.rows[0]) {
+      throw new ValidationError('Section does not belong to this course');
+    }
+    return String(result.rows[0].id);
+  }
+
+  private async lastOrDefaultSection(client: PoolClient, courseId: string): Promise<string> {
+    const existing = await client.query(
+      'SELECT id FROM course_sections WHERE course_id = $1 ORDER BY sort_order DESC, id DESC LIMIT 1',
+      [courseId]
+    );
+    if (existing.rows[0]) {
+      return String(existing.rows[0].id);
+    }
+
+    const created = await client.query(
+      'INSERT INTO course_sections (course_id, title, sort_order) VALUES ($1, $2, 1) RETURNING id',
+      [courseId, DEFAULT_SECTION_TITLE]
+    );
+    return String(created.rows[0].id);
+  }
+
+}
@@ -1,5 +1,14 @@
 import { Field as FieldType, CreateFieldRequest, UpdateFieldRequest } from '../types';
 import { dbManager } from '../utils/databaseManager';
+import {
+  FIELD_SORT,
+  CursorPage,
+  CursorPayload,
+  buildKeysetCondition,
+  buildKeysetOrder,
+  buildKeysetSelect,
+  toKeysetPage
+} from '../utils/pagination';
 
 export class Field {
 
@@ -27,6 +36,36 @@ export class Field {
     }
   }
 
+  async getFieldPage(options: { cursor: CursorPayload | null; limit: number }): Promise<CursorPage<FieldType>> {
+    try {
+      const values: any[] = [];
+      const cursorCondition = buildKeysetCondition(FIELD_SORT, options.cursor, values);
+      values.push(options.limit + 1);
+
+      const query = `
+        SELECT f.id, f.name, f.slug, f.description, f.icon_url, f.banner_image,
+               f.is_active, f.sort_order, f.created_at, f.updated_at,
+               c.name as category_name, c.slug as category_slug,
+               COUNT(co.id) as course_count,
+               ${buildKeysetSelect(FIELD_SORT)}
+        FROM fields f
+        JOIN categories c ON f.category_id = c.id
+        LEFT JOIN courses co ON f.id = co.field_id AND co.is_published = true
+        WHERE f.is_active = true AND c.is_active = true${cursorCondition}
+        GROUP BY f.id, f.name, f.slug, f.description, f.icon_url, f.banner_image,
+                 f.is_active, f.sort_order, f.created_at, f.updated_at,
+                 c.name, c.slug
+        ORDER BY ${buildKeysetOrder(FIELD_SORT)}
+        LIMIT $${values.length}
+      `;
+      const result = await dbManager.query(query, values);
+      return toKeysetPage<FieldType>(result.rows, options.limit, 'sort_order', FIELD_SORT);
+    } catch (error) {
+      console.error('Error fetching field page:', error);
+      throw error;
+    }
+  }
+
   async getFieldById(id: number | string): Promise<FieldType | null> {
     try {
       const query = `
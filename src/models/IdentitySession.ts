@@ -0,0 +1,107 @@
+import { createHash } from 'crypto';
+import { IdentitySession as IdentitySessionRow, Principal } from '../types';
+import { dbManager } from '../utils/databaseManager';
+
+export interface NewIdentitySession {
+  sessionId: string;
+  principal: Principal;
+  expiresAt: Date;
+  fingerprintHash?: string | null;
+  refreshToken?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+export class IdentitySession {
+
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  async create(session: NewIdentitySession): Promise<void> {
+    try {
+      await dbManager.query(
+        `INSERT INTO identity_sessions
+           (session_id, principal_type, principal_id, fingerprint_hash, refresh_token_hash, ip_address, user_agent, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          session.sessionId,
+          session.principal.type,
+          session.principal.id,
+          session.fingerprintHash || null,
+          session.refreshToken ? IdentitySession.hashToken(session.refreshToken) : null,
+          session.ip || null,
+          session.userAgent || null,
+          session.expiresAt
+        ]
+      );
+    } catch (error) {
+      console.error('Error creating identity session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Session that has neither expired nor been revoked, or null
+   */
+  async findActive(sessionId: string): Promise<IdentitySessionRow | null> {
+    try {
+      const result = await dbManager.query(
+        `SELECT session_id, principal_type, principal_id, refresh_token_hash, created_at, last_activity, expires_at
+         FROM identity_sessions
+         WHERE session_id = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+        [sessionId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error finding identity session:', error);
+      throw error;
+    }
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    try {
+      await dbManager.query('UPDATE identity_sessions SET last_activity = NOW() WHERE session_id = $1', [sessionId]);
+    } catch (error) {
+      console.error('Error updating identity session activity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns false when the session was already revoked or does not exist
+   */
+  async revoke(sessionId: string, reason: string): Promise<boolean> {
+    try {
+      const result = await dbManager.query(
+        `UPDATE identity_sessions SET revoked_at = NOW(), revoked_reason = $2
+         WHERE session_id = $1 AND revoked_at IS NULL`,
+        [sessionId, reason]
+      );
+      return (result.rowCount || 0) > 0;
+    } catch (error) {
+      console.error('Error revoking identity session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Signs the principal out everywhere, optionally keeping the session making the request.
+   * Returns the ids of the sessions that were revoked.
+   */
+  async revokeAllForPrincipal(principalId: string, reason: string, exceptSessionId?: string): Promise<string[]> {
+    try {
+      const result = await dbManager.query(
+        `UPDATE identity_sessions SET revoked_at = NOW(), revoked_reason = $2
+         WHERE principal_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+           AND ($3::VARCHAR IS NULL OR session_id <> $3)
+         RETURNING session_id`,
+        [principalId, reason, exceptSessionId || null]
+      );
+      return result.rows.map((row: any) => row.session_id);
+    } catch (error) {
+      console.error('Error revoking identity sessions:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,376 @@
+import { Course as CourseType, CourseStatus, InstructorCourseRequest } from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { CoursePublishing } from './CoursePublishing';
+import { CourseRevision } from './CourseRevision';
+
+// Columns an instructor may change on their own course; publishing goes through admin review
+const EDITABLE_COLUMNS = [
+  'field_id', 'title', 'slug', 'description', 'short_description', 'banner_image', 'thumbnail_image',
+  'duration_hours', 'difficulty_level', 'price', 'is_free', 'prerequisites', 'learning_outcomes', 'tags'
+] as const;
+
+const COURSE_SELECT = `
+  SELECT c.id, c.title, c.slug, c.description, c.short_description,
+         c.banner_image, c.thumbnail_image, c.duration_hours, c.difficulty_level,
+         c.price, c.is_free, c.is_published, c.instructor_id, c.prerequisites,
+         c.learning_outcomes::text, c.tags, c.rating, c.total_ratings, c.enrolled_students,
+         c.status, c.publish_at, c.review_note, c.submitted_at, c.reviewed_at,
+         c.created_at, c.updated_at, c.field_id,
+         f.name as field_name, f.slug as field_slug,
+         cat.name as category_name, cat.slug as category_slug,
+         u.first_name as instructor_first_name, u.email as instructor_email,
+         (SELECT COUNT(*) FROM course_modules m WHERE m.course_id = c.id) as lesson_count
+  FROM courses c
+  JOIN fields f ON c.field_id = f.id
+  JOIN categories cat ON f.category_id = cat.id
+  LEFT JOIN users u ON c.instructor_id = u.id
+`;
+
+export class Instructor {
+
+  static slugify(title: string): string {
+    return title.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+  }
+
+  /**
+   * Why a course cannot be submitted for review yet, or null when it can
+   */
+  static checkSubmittable(
+    course: Pick<CourseType, 'description'> & { status: CourseStatus },
+    lessonCount: number
+  ): string | null {
+    if (course.status === 'in_review') {
+      return 'This course is already waiting for review';
+    }
+    if (course.status !== 'draft') {
+      return `A ${course.status} course cannot be submitted for review`;
+    }
+    if (!course.description || !course.description.trim()) {
+      return 'Add a description before submitting the course';
+    }
+    if (lessonCount < 1) {
+      return 'Add at least one lesson before submitting the course';
+    }
+    return null;
+  }
+
+  async getCourses(instructorId: string): Promise<any[]> {
+    try {
+      const result = await dbManager.query(
+        `${COURSE_SELECT} WHERE c.instructor_id = $1 ORDER BY c.created_at DESC`,
+        [instructorId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching instructor courses:', error);
+      throw error;
+    }
+  }
+
+  async getCourse(courseId: string): Promise<any | null> {
+    try {
+      const result = await dbManager.query(`${COURSE_SELECT} WHERE c.id = $1`, [courseId]);
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching instructor course:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a draft course owned by the instructor
+   */
+  async createCourse(instructorId: string, courseData: InstructorCourseRequest): Promise<any> {
+    try {
+      const courseId = await dbManager.transaction(async (client) => {
+        const data = { ...courseData, slug: courseData.slug || Instructor.slugify(courseData.title) };
+        const columns = EDITABLE_COLUMNS.filter(column => data[column] !== undefined);
+        const values: any[] = columns.map(column => this.toColumnValue(column, data[column]));
+        const placeholders = columns.map((_, index) => `$${index + 1}`);
+        values.push(instructorId);
+
+        const result = await client.query(
+          `INSERT INTO courses (${columns.join(', ')}, instructor_id, status, is_published)
+           VALUES (${placeholders.join(', ')}, $${values.length}, 'draft', false)
+           RETURNING id`,
+          values
+        );
+        const id = String(result.rows[0].id);
+
+        await new CoursePublishing().recordCreated(client, id, 'draft', 'instructor', instructorId);
+        return id;
+      });
+
+      return this.getCourse(courseId);
+    } catch (error) {
+      console.error('Error creating instructor course:', error);
+      throw error;
+    }
+  }
+
+  async updateCourse(courseId: string, courseData: Partial<InstructorCourseRequest>, editorId: string): Promise<any | null> {
+    try {
+      const columns = EDITABLE_COLUMNS.filter(column => courseData[column] !== undefined);
+      const values: any[] = columns.map(column => this.toColumnValue(column, courseData[column]));
+      const assignments = columns.map((column, index) => `${column} = $${index + 1}`);
+      assignments.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(courseId);
+
+      const updated = await dbManager.transaction((client) =>
+        new CourseRevision().trackEdit(client, 'course', courseId, { id: editorId, role: 'instructor' }, () =>
+          client.query(`UPDATE courses SET ${assignments.join(', ')} WHERE id = $${values.length}`, values)
+        )
+      );
+      if (!updated) {
+        return null;
+      }
+
+      return this.getCourse(courseId);
+    } catch (error) {
+      console.error('Error updating instructor course:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a draft course that has no enrollments or orders.
+   * Returns false when the course no longer qualifies.
+   */
+  async deleteDraftCourse(courseId: string): Promise<boolean> {
+    try {
+      const result = await dbManager.query(
+        `DELETE FROM courses c
+         WHERE c.id = $1 AND c.status = 'draft'
+           AND NOT EXISTS (SELECT 1 FROM enrollments e WHERE e.course_id = c.id)
+           AND NOT EXISTS (SELECT 1 FROM orders o WHERE o.course_id = c.id)
+         RETURNING c.id`,
+        [courseId]
+      );
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Error deleting instructor course:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Totals across the instructor's courses. Revenue counts paid orders for the courses
+   * themselves, per currency and without the tax they include; bundle sales are not attributed.
+   */
+  async getDashboard(instructorId: string): Promise<any> {
+    try {
+      const [coursesResult, enrollmentsResult, revenueResult] = await Promise.all([
+        dbManager.query(
+          `SELECT COUNT(*) as total_courses,
+                  COUNT(*) FILTER (WHERE status = 'draft') as draft_courses,
+                  COUNT(*) FILTER (WHERE status = 'in_review') as in_review_courses,
+                  COUNT(*) FILTER (WHERE status = 'scheduled') as scheduled_courses,
+                  COUNT(*) FILTER (WHERE status = 'published') as published_courses,
+                  COUNT(*) FILTER (WHERE status = 'archived') as archived_courses,
+                  COALESCE(SUM(total_ratings), 0) as total_ratings,
+                  COALESCE(SUM(rating * total_ratings) / NULLIF(SUM(total_ratings), 0), 0) as average_rating
+           FROM courses
+           WHERE instructor_id = $1`,
+          [instructorId]
+        ),
+        dbManager.query(
+          `SELECT COUNT(*) as active_enrollments,
+                  COUNT(DISTINCT e.user_id) as unique_students,
+                  COUNT(*) FILTER (WHERE e.is_completed = true) as completed_enrollments
+           FROM enrollments e
+           JOIN courses c ON e.course_id = c.id
+           WHERE c.instructor_id = $1 AND e.is_active = true`,
+          [instructorId]
+        ),
+        this.queryRevenue(instructorId, false)
+      ]);
+
+      const courses = coursesResult.rows[0];
+      const enrollments = enrollmentsResult.rows[0];
+
+      return {
+        courses: {
+          total: parseInt(courses.total_courses) || 0,
+          draft: parseInt(courses.draft_courses) || 0,
+          in_review: parseInt(courses.in_review_courses) || 0,
+          scheduled: parseInt(courses.scheduled_courses) || 0,
+          published: parseInt(courses.published_courses) || 0,
+          archived: parseInt(courses.archived_courses) || 0
+        },
+        enrollments: {
+          active: parseInt(enrollments.active_enrollments) || 0,
+          unique_students: parseInt(enrollments.unique_students) || 0,
+          completed: parseInt(enrollments.completed_enrollments) || 0
+        },
+        ratings: {
+          average: Math.round((parseFloat(courses.average_rating) || 0) * 100) / 100,
+          total: parseInt(courses.total_ratings) || 0
+        },
+        revenue: revenueResult.rows
+      };
+    } catch (error) {
+      console.error('Error fetching instructor dashboard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Paid and refunded order totals per course and currency
+   */
+  async getRevenue(instructorId: string): Promise<any[]> {
+    try {
+      const result = await this.queryRevenue(instructorId, true);
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching instructor revenue:', error);
+      throw error;
+    }
+  }
+
+  async getEnrollments(
+    instructorId: string,
+    options: { courseId?: string; page: number; limit: number }
+  ): Promise<{ enrollments: any[]; total: number }> {
+    try {
+      const params: any[] = [instructorId];
+      let courseCondition = '';
+      if (options.courseId) {
+        params.push(options.courseId);
+        courseCondition = `AND e.course_id = $${params.length}`;
+      }
+
+      const fromClause = `
+        FROM enrollments e
+        JOIN courses c ON e.course_id = c.id
+        JOIN students s ON e.user_id = s.id
+        WHERE c.instructor_id = $1 AND e.is_active = true ${courseCondition}
+      `;
+
+      const [enrollmentsResult, countResult] = await Promise.all([
+        dbManager.query(
+          `SELECT e.id, e.course_id, c.title as course_title, e.bundle_id, e.enrollment_date,
+                  e.completion_percentage, e.is_completed, e.completion_date, e.last_accessed,
+                  s.first_name, s.last_name
+           ${fromClause}
+           ORDER BY e.enrollment_date DESC, e.id DESC
+           LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+          [...params, options.limit, (options.page - 1) * options.limit]
+        ),
+        dbManager.query(`SELECT COUNT(*) as total ${fromClause}`, params)
+      ]);
+
+      return {
+        enrollments: enrollmentsResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching instructor enrollments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reviews students can see on the instructor's courses; hidden reviews are left out
+   */
+  async getReviews(
+    instructorId: string,
+    options: { courseId?: string; page: number; limit: number }
+  ): Promise<{ reviews: any[]; total: number }> {
+    try {
+      const params: any[] = [instructorId];
+      let courseCondition = '';
+      if (options.courseId) {
+        params.push(options.courseId);
+        courseCondition = `AND r.course_id = $${params.length}`;
+      }
+
+      const fromClause = `
+        FROM course_reviews r
+        JOIN courses c ON r.course_id = c.id
+        LEFT JOIN students s ON r.user_id = s.id
+        WHERE c.instructor_id = $1 AND COALESCE(r.status, 'visible') <> 'hidden' ${courseCondition}
+      `;
+
+      const [reviewsResult, countResult] = await Promise.all([
+        dbManager.query(
+          `SELECT r.id, r.course_id, c.title as course_title, r.rating, r.review_text,
+                  r.is_verified_purchase, r.created_at, r.updated_at,
+                  s.first_name, s.last_name
+           ${fromClause}
+           ORDER BY r.created_at DESC, r.id DESC
+           LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+          [...params, options.limit, (options.page - 1) * options.limit]
+        ),
+        dbManager.query(`SELECT COUNT(*) as total ${fromClause}`, params)
+      ]);
+
+      return {
+        reviews: reviewsResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching instructor reviews:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Admin review queue: courses in review, oldest submission first
+   */
+  async getReviewQueue(options: { page: number; limit: number }): Promise<{ courses: any[]; total: number }> {
+    try {
+      const [coursesResult, countResult] = await Promise.all([
+        dbManager.query(
+          `SELECT c.id, c.title, c.slug, c.short_description, c.price, c.is_free, c.status,
+                  c.submitted_at, c.instructor_id, u.first_name as instructor_first_name,
+                  u.last_name as instructor_last_name, u.email as instructor_email,
+                  (SELECT COUNT(*) FROM course_modules m WHERE m.course_id = c.id) as lesson_count
+           FROM courses c
+           LEFT JOIN users u ON c.instructor_id = u.id
+           WHERE c.status = 'in_review'
+           ORDER BY c.submitted_at ASC, c.id ASC
+           LIMIT $1 OFFSET $2`,
+          [options.limit, (options.page - 1) * options.limit]
+        ),
+        dbManager.query("SELECT COUNT(*) as total FROM courses WHERE status = 'in_review'")
+      ]);
+
+      return {
+        courses: coursesResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching course review queue:', error);
+      throw error;
+    }
+  }
+
+  private queryRevenue(instructorId: string, perCourse: boolean) {
+    const courseColumns = perCourse ? 'c.id as course_id, c.title as course_title, ' : '';
+    const courseGrouping = perCourse ? 'c.id, c.title, ' : '';
+
+    return dbManager.query(
+      `SELECT ${courseColumns}o.currency,
+              COUNT(*) FILTER (WHERE o.status = 'paid') as paid_orders,
+              COALESCE(SUM(o.amount) FILTER (WHERE o.status = 'paid'), 0) as gross_amount,
+              COALESCE(SUM(COALESCE(o.tax_amount, 0)) FILTER (WHERE o.status = 'paid'), 0) as tax_amount,
+              COALESCE(SUM(o.amount - COALESCE(o.tax_amount, 0)) FILTER (WHERE o.status = 'paid'), 0) as net_amount,
+              COUNT(*) FILTER (WHERE o.status = 'refunded') as refunded_orders,
+              COALESCE(SUM(o.amount) FILTER (WHERE o.status = 'refunded'), 0) as refunded_amount
+       FROM orders o
+       JOIN courses c ON o.course_id = c.id
+       WHERE c.instructor_id = $1 AND o.item_type = 'course' AND o.status IN ('paid', 'refunded')
+       GROUP BY ${courseGrouping}o.currency
+       ORDER BY ${courseGrouping}o.currency`,
+      [instructorId]
+    );
+  }
+
+  private toColumnValue(column: typeof EDITABLE_COLUMNS[number], value: any): any {
+    if (column === 'learning_outcomes') {
+      return value === null ? null : JSON.stringify(value);
+    }
+    return value;
+  }
+
+}
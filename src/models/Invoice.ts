@@ -0,0 +1,356 @@
+import { PoolClient } from 'pg';
+import { Invoice as InvoiceRecord, InvoiceTaxType, Order as OrderRecord } from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { toCsv } from '../utils/csv';
+import { CoursePrice } from './CoursePrice';
+
+// Invoice dates and financial years follow Indian Standard Time (UTC+05:30)
+const IST_OFFSET_MINUTES = 330;
+
+export interface TaxBreakdown {
+  tax_type: InvoiceTaxType;
+  tax_rate: number;
+  taxable_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  tax_amount: number;
+}
+
+export interface TaxConfig {
+  rate: number;
+  sellerState: string;
+}
+
+export interface InvoiceFilters {
+  from?: string;
+  to?: string;
+  financial_year?: string;
+  currency?: string;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const normalizeState = (state?: string | null): string => (state || '').trim().toLowerCase();
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const CSV_COLUMNS: (keyof InvoiceRecord | 'order_number' | 'order_status')[] = [
+  'invoice_number', 'issued_at', 'order_number', 'order_status', 'billing_name', 'billing_email',
+  'billing_country', 'billing_state', 'item_type', 'item_title', 'currency', 'subtotal_amount',
+  'discount_amount', 'taxable_amount', 'tax_type', 'tax_rate', 'cgst_amount', 'sgst_amount',
+  'igst_amount', 'tax_amount', 'total_amount', 'payment_provider'
+];
+
+export class Invoice {
+
+  static getTaxConfig(): TaxConfig {
+    const rate = parseFloat(process.env.GST_RATE || '');
+    return {
+      rate: isNaN(rate) || rate < 0 ? 18 : rate,
+      sellerState: process.env.TAX_SELLER_STATE || ''
+    };
+  }
+
+  /**
+   * GST included in a tax-inclusive total. Within the seller's state it splits into CGST and SGST,
+   * elsewhere in India it is IGST; sales outside India are zero-rated exports.
+   */
+  static calculateTax(
+    total: number,
+    region: { country?: string | null; state?: string | null },
+    config: TaxConfig = Invoice.getTaxConfig()
+  ): TaxBreakdown {
+    if (!CoursePrice.isIndia(region.country) || config.rate === 0 || total <= 0) {
+      return {
+        tax_type: 'export',
+        tax_rate: 0,
+        taxable_amount: roundMoney(total),
+        cgst_amount: 0,
+        sgst_amount: 0,
+        igst_amount: 0,
+        tax_amount: 0
+      };
+    }
+
+    const taxableAmount = roundMoney(total / (1 + config.rate / 100));
+    const taxAmount = roundMoney(total - taxableAmount);
+
+    // Without a state on the profile the place of supply is the seller's own state
+    const intraState = !region.state || normalizeState(region.state) === normalizeState(config.sellerState);
+    if (intraState) {
+      const cgst = roundMoney(taxAmount / 2);
+      return {
+        tax_type: 'intra_state',
+        tax_rate: config.rate,
+        taxable_amount: taxableAmount,
+        cgst_amount: cgst,
+        sgst_amount: roundMoney(taxAmount - cgst),
+        igst_amount: 0,
+        tax_amount: taxAmount
+      };
+    }
+
+    return {
+      tax_type: 'inter_state',
+      tax_rate: config.rate,
+      taxable_amount: taxableAmount,
+      cgst_amount: 0,
+      sgst_amount: 0,
+      igst_amount: taxAmount,
+      tax_amount: taxAmount
+    };
+  }
+
+  /**
+   * Indian financial year (April to March) of a date, e.g. 2025-26
+   */
+  static financialYear(date: Date = new Date()): string {
+    const ist = new Date(date.getTime() + IST_OFFSET_MINUTES * 60 * 1000);
+    const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+
+  /**
+   * e.g. ZA/25-26/000042 — kept within the 16 characters GST allows
+   */
+  static formatInvoiceNumber(prefix: string, financialYear: string, sequence: number): string {
+    return `${prefix}/${financialYear.slice(2)}/${String(sequence).padStart(6, '0')}`;
+  }
+
+  static toCsv(invoices: any[]): string {
+    return toCsv(CSV_COLUMNS, invoices);
+  }
+
+  static renderHtml(invoice: InvoiceRecord): string {
+    const seller = {
+      name: process.env.INVOICE_SELLER_NAME || 'Zenow Academy',
+      address: process.env.INVOICE_SELLER_ADDRESS || '',
+      gstin: process.env.INVOICE_SELLER_GSTIN || ''
+    };
+    const money = (value: unknown) => `${escapeHtml(invoice.currency)} ${Number(value || 0).toFixed(2)}`;
+    const row = (label: string, value: string) =>
+      `<tr><td style="padding:6px 0; color:#555;">${label}</td><td style="padding:6px 0; text-align:right;">${value}</td></tr>`;
+
+    const taxRows = invoice.tax_type === 'intra_state'
+      ? row(`CGST @ ${Number(invoice.tax_rate) / 2}%`, money(invoice.cgst_amount))
+        + row(`SGST @ ${Number(invoice.tax_rate) / 2}%`, money(invoice.sgst_amount))
+      : invoice.tax_type === 'inter_state'
+        ? row(`IGST @ ${Number(invoice.tax_rate)}%`, money(invoice.igst_amount))
+        : row('GST (export of services, zero-rated)', money(0));
+
+    const discountRow = Number(invoice.discount_amount) > 0
+      ? row('Discount', `- ${money(invoice.discount_amount)}`)
+      : '';
+
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Invoice ${escapeHtml(invoice.invoice_number)}</title></head>`
+      + `<body style="margin:0; padding:0; background:#f5f7fa; font-family:Arial, Helvetica, sans-serif;">`
+      + `<div style="max-width:700px; margin:30px auto; background:white; border-radius:12px; overflow:hidden; box-shadow:0 4px 18px rgba(0,0,0,0.06);">`
+      + `<div style="background:#1e3a8a; padding:22px; color:white;"><h1 style="margin:0; font-size:24px;">Tax Invoice</h1>`
+      + `<p style="margin:6px 0 0;">${escapeHtml(invoice.invoice_number)} &middot; ${escapeHtml(new Date(invoice.issued_at).toISOString().slice(0, 10))}</p></div>`
+      + `<div style="padding:30px; color:#333; font-size:14px; line-height:22px;">`
+      + `<table style="width:100%; margin-bottom:20px;"><tr>`
+      + `<td style="vertical-align:top;"><strong>${escapeHtml(seller.name)}</strong><br>${escapeHtml(seller.address)}`
+      + `${seller.gstin ? `<br>GSTIN: ${escapeHtml(seller.gstin)}` : ''}</td>`
+      + `<td style="vertical-align:top; text-align:right;"><strong>Billed to</strong><br>${escapeHtml(invoice.billing_name)}<br>${escapeHtml(invoice.billing_email)}`
+      + `<br>${escapeHtml([invoice.billing_state, invoice.billing_country].filter(Boolean).join(', '))}</td>`
+      + `</tr></table>`
+      + `<table style="width:100%; border-collapse:collapse;">`
+      + row(`${escapeHtml(invoice.item_title)} (${escapeHtml(invoice.item_type)})`, money(invoice.subtotal_amount))
+      + discountRow
+      + row('Taxable value', money(invoice.taxable_amount))
+      + taxRows
+      + `<tr><td style="padding:10px 0; border-top:1px solid #ddd;"><strong>Total (tax inclusive)</strong></td>`
+      + `<td style="padding:10px 0; border-top:1px solid #ddd; text-align:right;"><strong>${money(invoice.total_amount)}</strong></td></tr>`
+      + `</table></div>`
+      + `<div style="background:#f1f1f1; padding:15px; text-align:center; color:#888; font-size:13px;">© 2025 Zenow Academy. All rights reserved.</div>`
+      + `</div></body></html>`;
+  }
+
+  /**
+   * Issues the invoice for a paid order inside the fulfilment transaction. The sequence row is
+   * locked by the upsert, so numbers stay unique and gapless per financial year.
+   */
+  async createForOrder(
+    client: PoolClient,
+    order: OrderRecord,
+    student: { first_name?: string; last_name?: string; email?: string } | undefined
+  ): Promise<InvoiceRecord> {
+    const existing = await client.query('SELECT * FROM invoices WHERE order_id = $1', [order.id]);
+    if (existing.rows[0]) {
+      return existing.rows[0];
+    }
+
+    const financialYear = Invoice.financialYear(order.paid_at ? new Date(order.paid_at) : new Date());
+    const sequence = await client.query(
+      `INSERT INTO invoice_sequences (financial_year, last_number)
+       VALUES ($1, 1)
+       ON CONFLICT (financial_year) DO UPDATE SET last_number = invoice_sequences.last_number + 1
+       RETURNING last_number`,
+      [financialYear]
+    );
+    const invoiceNumber = Invoice.formatInvoiceNumber(
+      process.env.INVOICE_PREFIX || 'ZA',
+      financialYear,
+      parseInt(sequence.rows[0].last_number)
+    );
+
+    const total = Number(order.amount);
+    const tax = Invoice.calculateTax(total, { country: order.billing_country, state: order.billing_state });
+    const billingName = [student?.first_name, student?.last_name].filter(Boolean).join(' ') || 'Student';
+
+    const result = await client.query(
+      `INSERT INTO invoices (invoice_number, financial_year, order_id, student_id, billing_name, billing_email,
+                             billing_country, billing_state, item_type, item_title, currency, subtotal_amount,
+                             discount_amount, taxable_amount, tax_type, tax_rate, cgst_amount, sgst_amount,
+                             igst_amount, tax_amount, total_amount, payment_provider)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)
+       RETURNING *`,
+      [
+        invoiceNumber,
+        financialYear,
+        order.id,
+        order.student_id,
+        billingName,
+        student?.email || null,
+        order.billing_country || null,
+        order.billing_state || null,
+        order.item_type,
+        order.item_title,
+        order.currency,
+        order.subtotal_amount ?? total,
+        order.discount_amount ?? 0,
+        tax.taxable_amount,
+        tax.tax_type,
+        tax.tax_rate,
+        tax.cgst_amount,
+        tax.sgst_amount,
+        tax.igst_amount,
+        tax.tax_amount,
+        total,
+        order.provider
+      ]
+    );
+    return result.rows[0];
+  }
+
+  async getStudentInvoices(studentId: string): Promise<InvoiceRecord[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT i.*, o.order_number
+         FROM invoices i
+         LEFT JOIN orders o ON i.order_id = o.id
+         WHERE i.student_id = $1
+         ORDER BY i.issued_at DESC, i.id DESC`,
+        [studentId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching student invoices:', error);
+      throw error;
+    }
+  }
+
+  async getInvoiceById(id: string, studentId?: string): Promise<InvoiceRecord | null> {
+    try {
+      const params: any[] = [id];
+      let ownerClause = '';
+      if (studentId) {
+        params.push(studentId);
+        ownerClause = 'AND i.student_id = $2';
+      }
+
+      const result = await dbManager.query(
+        `SELECT i.*, o.order_number
+         FROM invoices i
+         LEFT JOIN orders o ON i.order_id = o.id
+         WHERE i.id = $1 ${ownerClause}`,
+        params
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching invoice:', error);
+      throw error;
+    }
+  }
+
+  async getInvoices(filters: InvoiceFilters & { page: number; limit: number }): Promise<{ invoices: any[]; total: number }> {
+    try {
+      const { whereClause, params } = this.buildFilters(filters);
+
+      const invoicesQuery = `
+        SELECT i.*, o.order_number, o.status as order_status
+        FROM invoices i
+        LEFT JOIN orders o ON i.order_id = o.id
+        ${whereClause}
+        ORDER BY i.issued_at DESC, i.id DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `;
+      const countQuery = `SELECT COUNT(*) as total FROM invoices i ${whereClause}`;
+
+      const [invoicesResult, countResult] = await Promise.all([
+        dbManager.query(invoicesQuery, [...params, filters.limit, (filters.page - 1) * filters.limit]),
+        dbManager.query(countQuery, params)
+      ]);
+
+      return {
+        invoices: invoicesResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+      throw error;
+    }
+  }
+
+  async getInvoicesForExport(filters: InvoiceFilters): Promise<any[]> {
+    try {
+      const { whereClause, params } = this.buildFilters(filters);
+      const result = await dbManager.query(
+        `SELECT i.*, o.order_number, o.status as order_status
+         FROM invoices i
+         LEFT JOIN orders o ON i.order_id = o.id
+         ${whereClause}
+         ORDER BY i.issued_at ASC, i.id ASC`,
+        params
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error exporting invoices:', error);
+      throw error;
+    }
+  }
+
+  private buildFilters(filters: InvoiceFilters): { whereClause: string; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`i.issued_at >= $${params.length}`);
+    }
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`i.issued_at < $${params.length}::DATE + INTERVAL '1 day'`);
+    }
+    if (filters.financial_year) {
+      params.push(filters.financial_year);
+      conditions.push(`i.financial_year = $${params.length}`);
+    }
+    if (filters.currency) {
+      params.push(filters.currency.toUpperCase());
+      conditions.push(`i.currency = $${params.length}`);
+    }
+
+    return {
+      whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+
+}
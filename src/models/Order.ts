@@ -0,0 +1,402 @@
+import { randomBytes } from 'crypto';
+import { PoolClient } from 'pg';
+import { Invoice as InvoiceRecord, Order as OrderRecord, OrderItemType, PaymentProviderName } from '../types';
+import { PaymentEvent } from '../services/paymentProviders';
+import { dbManager } from '../utils/databaseManager';
+import { Coupon } from './Coupon';
+import { Invoice } from './Invoice';
+
+export interface PaymentEventResult {
+  status: 'duplicate' | 'ignored' | 'unmatched' | 'fulfilled' | 'already_paid' | 'failed' | 'rejected';
+  order?: OrderRecord;
+  enrollmentCreated?: boolean;
+  student?: { email: string; first_name: string };
+  invoice?: InvoiceRecord;
+}
+
+export interface BillingRegion {
+  country: string | null;
+  state: string | null;
+}
+
+export class Order {
+
+  /**
+   * Human-friendly order reference, e.g. ORD-20250309-4F1A9C2B
+   */
+  static generateOrderNumber(now: Date = new Date()): string {
+    const date = now.toISOString().slice(0, 10).replace(/-/g, '');
+    return `ORD-${date}-${randomBytes(4).toString('hex').toUpperCase()}`;
+  }
+
+  /**
+   * Reason a confirmed payment cannot fulfil the order, or null when amount and currency match
+   */
+  static checkPaymentMatches(order: Pick<OrderRecord, 'amount' | 'currency'>, event: Pick<PaymentEvent, 'amount' | 'currency'>): string | null {
+    if (event.currency && event.currency.toUpperCase() !== order.currency.toUpperCase()) {
+      return `Paid in ${event.currency.toUpperCase()} but the order is in ${order.currency}`;
+    }
+    if (event.amount !== undefined && Math.round(event.amount * 100) !== Math.round(Number(order.amount) * 100)) {
+      return `Paid ${event.amount} but the order total is ${order.amount}`;
+    }
+    return null;
+  }
+
+  /**
+   * Creates a pending order; with a coupon, its use is reserved in the same transaction
+   */
+  async createOrder(data: {
+    student_id: string;
+    item_type: OrderItemType;
+    item_id: string;
+    item_title: string;
+    subtotal: number;
+    discount: number;
+    amount: number;
+    currency: string;
+    tax: number;
+    billing: BillingRegion;
+    provider: PaymentProviderName;
+    coupon_id?: string | null;
+  }): Promise<OrderRecord> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          `INSERT INTO orders (order_number, student_id, item_type, course_id, bundle_id, item_title,
+                               subtotal_amount, discount_amount, amount, currency, provider, coupon_id,
+                               tax_amount, billing_country, billing_state)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+           RETURNING *`,
+          [
+            Order.generateOrderNumber(),
+            data.student_id,
+            data.item_type,
+            data.item_type === 'course' ? data.item_id : null,
+            data.item_type === 'bundle' ? data.item_id : null,
+            data.item_title,
+            data.subtotal,
+            data.discount,
+            data.amount,
+            data.currency,
+            data.provider,
+            data.coupon_id || null,
+            data.tax,
+            data.billing.country,
+            data.billing.state
+          ]
+        );
+        const order: OrderRecord = result.rows[0];
+
+        if (data.coupon_id) {
+          await new Coupon().reserveForOrder(client, data.coupon_id, order, data.subtotal, data.discount);
+        }
+        return order;
+      });
+    } catch (error) {
+      console.error('Error creating order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Country and state from the student's profile; they set the checkout currency and tax
+   */
+  async getBillingRegion(studentId: string): Promise<BillingRegion> {
+    try {
+      const result = await dbManager.query('SELECT country, state FROM students WHERE id = $1', [studentId]);
+      return {
+        country: result.rows[0]?.country || null,
+        state: result.rows[0]?.state || null
+      };
+    } catch (error) {
+      console.error('Error fetching billing region:', error);
+      throw error;
+    }
+  }
+
+  async setProviderReference(orderId: string, reference: string): Promise<OrderRecord> {
+    try {
+      const result = await dbManager.query(
+        `UPDATE orders SET provider_reference = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [orderId, reference]
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error saving order provider reference:', error);
+      throw error;
+    }
+  }
+
+  async markFailed(orderId: string, reason: string): Promise<void> {
+    try {
+      await dbManager.transaction(async (client) => {
+        await client.query(
+          `UPDATE orders SET status = 'failed', failure_reason = $2, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1 AND status = 'pending'`,
+          [orderId, reason]
+        );
+        await this.releaseCoupon(client, orderId);
+      });
+    } catch (error) {
+      console.error('Error marking order failed:', error);
+      throw error;
+    }
+  }
+
+  async getStudentOrders(studentId: string): Promise<OrderRecord[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT * FROM orders
+         WHERE student_id = $1
+         ORDER BY created_at DESC, id DESC`,
+        [studentId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching student orders:', error);
+      throw error;
+    }
+  }
+
+  async getStudentOrder(studentId: string, orderNumber: string): Promise<OrderRecord | null> {
+    try {
+      const result = await dbManager.query(
+        'SELECT * FROM orders WHERE student_id = $1 AND order_number = $2',
+        [studentId, orderNumber]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching order:', error);
+      throw error;
+    }
+  }
+
+  async getByProviderReference(provider: PaymentProviderName, reference: string): Promise<OrderRecord | null> {
+    try {
+      const result = await dbManager.query(
+        'SELECT * FROM orders WHERE provider = $1 AND provider_reference = $2',
+        [provider, reference]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching order by provider reference:', error);
+      throw error;
+    }
+  }
+
+  async isEventRecorded(provider: PaymentProviderName, eventId: string): Promise<boolean> {
+    try {
+      const result = await dbManager.query(
+        'SELECT 1 FROM payment_webhook_events WHERE provider = $1 AND event_id = $2',
+        [provider, eventId]
+      );
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Error checking webhook event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records a verified webhook event and applies it to its order in one transaction. A paid event
+   * stores the payment and creates the enrollment; an event id seen before changes nothing.
+   */
+  async applyPaymentEvent(provider: PaymentProviderName, event: PaymentEvent): Promise<PaymentEventResult> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const recorded = await client.query(
+          `INSERT INTO payment_webhook_events (provider, event_id, event_type, payload)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (provider, event_id) DO NOTHING
+           RETURNING id`,
+          [provider, event.id, event.type, JSON.stringify(event.payload)]
+        );
+        if (!recorded.rows[0]) {
+          return { status: 'duplicate' as const };
+        }
+        if (!event.reference || event.outcome === 'ignored' || event.outcome === 'approved') {
+          return { status: 'ignored' as const };
+        }
+
+        const orderResult = await client.query(
+          'SELECT * FROM orders WHERE provider = $1 AND provider_reference = $2 FOR UPDATE',
+          [provider, event.reference]
+        );
+        const order: OrderRecord | undefined = orderResult.rows[0];
+        if (!order) {
+          return { status: 'unmatched' as const };
+        }
+
+        await client.query(
+          'UPDATE payment_webhook_events SET order_id = $1 WHERE id = $2',
+          [order.id, recorded.rows[0].id]
+        );
+
+        if (event.outcome === 'failed') {
+          const failed = await client.query(
+            `UPDATE orders SET status = 'failed', failure_reason = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 AND status = 'pending'
+             RETURNING *`,
+            [order.id, event.failureReason || 'Payment failed']
+          );
+          if (failed.rows[0]) {
+            await this.releaseCoupon(client, order.id);
+          }
+          return { status: 'failed' as const, order: failed.rows[0] || order };
+        }
+
+        if (order.status === 'paid') {
+          return { status: 'already_paid' as const, order };
+        }
+
+        const mismatch = Order.checkPaymentMatches(order, event);
+        if (mismatch) {
+          return this.reject(client, order, mismatch);
+        }
+
+        return this.fulfil(client, order, provider, event.transactionId || event.reference);
+      });
+    } catch (error) {
+      console.error('Error applying payment event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fulfils an order whose coupon brings the total to zero, without a payment provider
+   */
+  async completeFreeOrder(orderId: string): Promise<PaymentEventResult> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const orderResult = await client.query('SELECT * FROM orders WHERE id = $1 FOR UPDATE', [orderId]);
+        const order: OrderRecord | undefined = orderResult.rows[0];
+        if (!order || Number(order.amount) > 0) {
+          return { status: 'rejected' as const, order };
+        }
+        if (order.status === 'paid') {
+          return { status: 'already_paid' as const, order };
+        }
+        return this.fulfil(client, order, order.provider, null);
+      });
+    } catch (error) {
+      console.error('Error completing free order:', error);
+      throw error;
+    }
+  }
+
+  private async releaseCoupon(client: PoolClient, orderId: string): Promise<void> {
+    await client.query(
+      `UPDATE coupon_redemptions SET status = 'released' WHERE order_id = $1 AND status = 'pending'`,
+      [orderId]
+    );
+  }
+
+  private async reject(client: PoolClient, order: OrderRecord, reason: string): Promise<PaymentEventResult> {
+    const rejected = await client.query(
+      `UPDATE orders SET status = 'failed', failure_reason = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [order.id, reason]
+    );
+    await this.releaseCoupon(client, order.id);
+    return { status: 'rejected' as const, order: rejected.rows[0] };
+  }
+
+  /**
+   * Redeems the coupon, stores the payment, creates (or reactivates a refunded) enrollment, marks
+   * the order paid and issues its invoice. Rejected when the coupon went past its caps meanwhile.
+   */
+  private async fulfil(
+    client: PoolClient,
+    order: OrderRecord,
+    provider: PaymentProviderName,
+    transactionId: string | null
+  ): Promise<PaymentEventResult> {
+    const couponProblem = await new Coupon().redeemForOrder(client, order);
+    if (couponProblem) {
+      return this.reject(client, order, couponProblem);
+    }
+
+    if (transactionId) {
+      await client.query(
+        `INSERT INTO payments (order_id, user_id, course_id, bundle_id, amount, currency, payment_method, transaction_id, status)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'completed')
+         ON CONFLICT (payment_method, transaction_id) DO NOTHING`,
+        [
+          order.id,
+          order.student_id,
+          order.course_id || null,
+          order.bundle_id || null,
+          order.amount,
+          order.currency,
+          provider,
+          transactionId
+        ]
+      );
+    }
+
+    let enrollment;
+    if (order.item_type === 'bundle') {
+      enrollment = await client.query(
+        `INSERT INTO enrollments (user_id, bundle_id, enrollment_type)
+         VALUES ($1, $2, 'bundle')
+         ON CONFLICT (user_id, bundle_id) DO UPDATE SET is_active = true WHERE enrollments.is_active = false
+         RETURNING id`,
+        [order.student_id, order.bundle_id]
+      );
+      if (enrollment.rows[0]) {
+        await client.query(
+          'UPDATE course_bundles SET enrolled_students = COALESCE(enrolled_students, 0) + 1 WHERE id = $1',
+          [order.bundle_id]
+        );
+      }
+    } else {
+      enrollment = await client.query(
+        `INSERT INTO enrollments (user_id, course_id, enrollment_type)
+         VALUES ($1, $2, 'course')
+         ON CONFLICT (user_id, course_id) DO UPDATE SET is_active = true WHERE enrollments.is_active = false
+         RETURNING id`,
+        [order.student_id, order.course_id]
+      );
+    }
+    const enrollmentCreated = !!enrollment.rows[0];
+    if (enrollmentCreated) {
+      // Buying again after a refund restores the earlier progress
+      await client.query('UPDATE course_progress SET is_active = true WHERE enrollment_id = $1', [enrollment.rows[0].id]);
+    }
+
+    const paid = await client.query(
+      `UPDATE orders
+       SET status = 'paid', paid_at = CURRENT_TIMESTAMP, failure_reason = NULL, updated_at = CURRENT_TIMESTAMP,
+           enrollment_id = (
+             SELECT id FROM enrollments
+             WHERE user_id = $2 AND (course_id = $3 OR bundle_id = $4)
+             LIMIT 1
+           )
+       WHERE id = $1
+       RETURNING *`,
+      [order.id, order.student_id, order.item_type === 'course' ? order.course_id : null, order.item_type === 'bundle' ? order.bundle_id : null]
+    );
+
+    const student = await client.query(
+      'SELECT email, first_name, last_name FROM students WHERE id = $1',
+      [order.student_id]
+    );
+
+    // Only money actually taken gets an invoice; coupon-covered orders have nothing to bill
+    const invoice = transactionId && Number(order.amount) > 0
+      ? await new Invoice().createForOrder(client, paid.rows[0], student.rows[0])
+      : undefined;
+
+    return {
+      status: 'fulfilled' as const,
+      order: paid.rows[0],
+      enrollmentCreated,
+      student: student.rows[0],
+      invoice
+    };
+  }
+
+}
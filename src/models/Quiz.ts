@@ -0,0 +1,413 @@
+import crypto from 'crypto';
+import {
+  CreateQuizQuestionRequest,
+  QuizAnswers,
+  QuizAttempt,
+  QuizGradeResult,
+  QuizQuestion,
+  QuizSettings,
+  UpdateQuizQuestionRequest,
+  UpdateQuizSettingsRequest
+} from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { ValidationError } from '../middleware/errorHandler';
+
+const DEFAULT_SETTINGS = {
+  passing_score: 70,
+  max_attempts: null,
+  shuffle_questions: true
+};
+
+const QUESTION_COLUMNS = ['question_type', 'prompt', 'options', 'correct_answers', 'explanation', 'points', 'sort_order'] as const;
+const JSON_COLUMNS = new Set<string>(['options', 'correct_answers']);
+
+const normalizeText = (value: unknown): string => String(value).trim().toLowerCase().replace(/\s+/g, ' ');
+
+const toBoolean = (value: unknown): boolean | null => {
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  return null;
+};
+
+export class Quiz {
+
+  /**
+   * Checks that a question's options and correct answers fit its type
+   */
+  static validateQuestion(question: CreateQuizQuestionRequest): void {
+    const answers = question.correct_answers || [];
+    const optionIds = new Set((question.options || []).map(option => option.id));
+
+    switch (question.question_type) {
+      case 'single_choice':
+      case 'multiple_choice':
+        if (optionIds.size < 2 || optionIds.size !== (question.options || []).length) {
+          throw new ValidationError('Choice questions need at least two options with unique ids');
+        }
+        if (answers.some(answer => !optionIds.has(String(answer)))) {
+          throw new ValidationError('Correct answers must reference option ids');
+        }
+        if (question.question_type === 'single_choice' && answers.length !== 1) {
+          throw new ValidationError('Single choice questions need exactly one correct answer');
+        }
+        break;
+      case 'true_false':
+        if (answers.length !== 1 || toBoolean(answers[0]) === null) {
+          throw new ValidationError('True/false questions need a single true or false answer');
+        }
+        break;
+      case 'short_answer':
+        if (answers.some(answer => typeof answer !== 'string' || answer.trim() === '')) {
+          throw new ValidationError('Short answer questions need non-empty accepted answers');
+        }
+        break;
+    }
+  }
+
+  /**
+   * Grades answers against the served questions. Multiple choice is all-or-nothing,
+   * short answers match case- and whitespace-insensitively.
+   */
+  static gradeQuiz(questions: QuizQuestion[], answers: QuizAnswers, passingScore: number): QuizGradeResult {
+    let pointsEarned = 0;
+    let pointsPossible = 0;
+
+    const results = questions.map(question => {
+      const answer = answers[String(question.id)];
+      const expected = question.correct_answers || [];
+      const points = question.points || 1;
+      let correct = false;
+
+      if (answer !== undefined && answer !== null) {
+        switch (question.question_type) {
+          case 'single_choice':
+            correct = !Array.isArray(answer) && String(answer) === String(expected[0]);
+            break;
+          case 'multiple_choice': {
+            const given = new Set((Array.isArray(answer) ? answer : [answer]).map(String));
+            correct = given.size === expected.length && expected.every(id => given.has(String(id)));
+            break;
+          }
+          case 'true_false':
+            correct = toBoolean(answer) !== null && toBoolean(answer) === toBoolean(expected[0]);
+            break;
+          case 'short_answer':
+            correct = !Array.isArray(answer) && expected.some(accepted => normalizeText(accepted) === normalizeText(answer));
+            break;
+        }
+      }
+
+      pointsPossible += points;
+      if (correct) {
+        pointsEarned += points;
+      }
+
+      return {
+        question_id: String(question.id),
+        correct,
+        points_awarded: correct ? points : 0,
+        points_possible: points
+      };
+    });
+
+    const score = pointsPossible > 0 ? Math.round((pointsEarned / pointsPossible) * 10000) / 100 : 0;
+
+    return {
+      results,
+      points_earned: pointsEarned,
+      points_possible: pointsPossible,
+      score,
+      passed: pointsPossible > 0 && score >= passingScore
+    };
+  }
+
+  /**
+   * Fisher-Yates shuffle; returns a new array
+   */
+  static shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = crypto.randomInt(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /**
+   * Question as served to a student: no correct answers or explanation
+   */
+  static toStudentQuestion(question: QuizQuestion): Omit<QuizQuestion, 'correct_answers' | 'explanation'> {
+    const { correct_answers, explanation, ...visible } = question;
+    return visible;
+  }
+
+  async getQuizModule(moduleId: string, courseId?: string): Promise<any | null> {
+    try {
+      const values: any[] = [moduleId];
+      let courseCondition = '';
+      if (courseId) {
+        values.push(courseId);
+        courseCondition = 'AND m.course_id = $2';
+      }
+
+      const result = await dbManager.query(
+        `SELECT m.id, m.course_id, m.title, m.description, m.module_type,
+                COALESCE(qs.passing_score, ${DEFAULT_SETTINGS.passing_score}) as passing_score,
+                qs.max_attempts,
+                COALESCE(qs.shuffle_questions, ${DEFAULT_SETTINGS.shuffle_questions}) as shuffle_questions
+         FROM course_modules m
+         LEFT JOIN quiz_settings qs ON qs.module_id = m.id
+         WHERE m.id = $1 AND m.module_type = 'quiz' ${courseCondition}`,
+        values
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching quiz module:', error);
+      throw error;
+    }
+  }
+
+  async updateSettings(moduleId: string, data: UpdateQuizSettingsRequest): Promise<QuizSettings> {
+    try {
+      const result = await dbManager.query(
+        `INSERT INTO quiz_settings (module_id, passing_score, max_attempts, shuffle_questions)
+         VALUES ($1, COALESCE($2, ${DEFAULT_SETTINGS.passing_score}), $3, COALESCE($4, ${DEFAULT_SETTINGS.shuffle_questions}))
+         ON CONFLICT (module_id)
+         DO UPDATE SET
+           passing_score = COALESCE($2, quiz_settings.passing_score),
+           max_attempts = CASE WHEN $5 THEN $3 ELSE quiz_settings.max_attempts END,
+           shuffle_questions = COALESCE($4, quiz_settings.shuffle_questions),
+           updated_at = CURRENT_TIMESTAMP
+         RETURNING module_id, passing_score, max_attempts, shuffle_questions`,
+        [
+          moduleId,
+          data.passing_score ?? null,
+          data.max_attempts ?? null,
+          data.shuffle_questions ?? null,
+          data.max_attempts !== undefined
+        ]
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error updating quiz settings:', error);
+      throw error;
+    }
+  }
+
+  async getQuestions(moduleId: string): Promise<QuizQuestion[]> {
+    try {
+      const result = await dbManager.query(
+        'SELECT * FROM quiz_questions WHERE module_id = $1 ORDER BY sort_order ASC, id ASC',
+        [moduleId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching quiz questions:', error);
+      throw error;
+    }
+  }
+
+  async getQuestionsByIds(moduleId: string, questionIds: string[]): Promise<QuizQuestion[]> {
+    try {
+      const result = await dbManager.query(
+        'SELECT * FROM quiz_questions WHERE module_id = $1 AND id = ANY($2::INT8[])',
+        [moduleId, questionIds]
+      );
+
+      // Keep the order the questions were served in
+      const byId = new Map(result.rows.map((row: QuizQuestion) => [String(row.id), row]));
+      return questionIds.map(id => byId.get(String(id))).filter((row): row is QuizQuestion => !!row);
+    } catch (error) {
+      console.error('Error fetching quiz questions by id:', error);
+      throw error;
+    }
+  }
+
+  async getQuestionById(questionId: string): Promise<QuizQuestion | null> {
+    try {
+      const result = await dbManager.query('SELECT * FROM quiz_questions WHERE id = $1', [questionId]);
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching quiz question:', error);
+      throw error;
+    }
+  }
+
+  async createQuestion(moduleId: string, data: CreateQuizQuestionRequest): Promise<QuizQuestion> {
+    try {
+      const result = await dbManager.query(
+        `INSERT INTO quiz_questions (module_id, question_type, prompt, options, correct_answers, explanation, points, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7,
+                 COALESCE($8, (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM quiz_questions WHERE module_id = $1)))
+         RETURNING *`,
+        [
+          moduleId,
+          data.question_type,
+          data.prompt,
+          data.options ? JSON.stringify(data.options) : null,
+          JSON.stringify(data.correct_answers),
+          data.explanation || null,
+          data.points || 1,
+          data.sort_order ?? null
+        ]
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating quiz question:', error);
+      throw error;
+    }
+  }
+
+  async updateQuestion(questionId: string, data: UpdateQuizQuestionRequest): Promise<QuizQuestion | null> {
+    try {
+      const updateFields: string[] = [];
+      const values: any[] = [];
+
+      for (const column of QUESTION_COLUMNS) {
+        if (data[column] !== undefined) {
+          values.push(JSON_COLUMNS.has(column) && data[column] !== null ? JSON.stringify(data[column]) : data[column]);
+          updateFields.push(`${column} = $${values.length}`);
+        }
+      }
+
+      values.push(questionId);
+      const result = await dbManager.query(
+        `UPDATE quiz_questions
+         SET ${[...updateFields, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+         WHERE id = $${values.length}
+         RETURNING *`,
+        values
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error updating quiz question:', error);
+      throw error;
+    }
+  }
+
+  async deleteQuestion(questionId: string): Promise<boolean> {
+    try {
+      const result = await dbManager.query('DELETE FROM quiz_questions WHERE id = $1 RETURNING id', [questionId]);
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Error deleting quiz question:', error);
+      throw error;
+    }
+  }
+
+  async countSubmittedAttempts(studentId: string, moduleId: string): Promise<number> {
+    try {
+      const result = await dbManager.query(
+        `SELECT COUNT(*) as total FROM quiz_attempts
+         WHERE student_id = $1 AND module_id = $2 AND status = 'submitted'`,
+        [studentId, moduleId]
+      );
+      return parseInt(result.rows[0].total) || 0;
+    } catch (error) {
+      console.error('Error counting quiz attempts:', error);
+      throw error;
+    }
+  }
+
+  async getInProgressAttempt(studentId: string, moduleId: string): Promise<QuizAttempt | null> {
+    try {
+      const result = await dbManager.query(
+        `SELECT * FROM quiz_attempts
+         WHERE student_id = $1 AND module_id = $2 AND status = 'in_progress'
+         ORDER BY started_at DESC
+         LIMIT 1`,
+        [studentId, moduleId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching in-progress quiz attempt:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Opens a new attempt. Returns null when the student already has one open: the partial unique
+   * index allows a single in-progress attempt per student and quiz, so concurrent starts cannot
+   * open several.
+   */
+  async startAttempt(studentId: string, moduleId: string, enrollmentId: string, questionIds: string[]): Promise<QuizAttempt | null> {
+    try {
+      const result = await dbManager.query(
+        `INSERT INTO quiz_attempts (module_id, student_id, enrollment_id, question_ids)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (student_id, module_id) WHERE status = 'in_progress' DO NOTHING
+         RETURNING *`,
+        [moduleId, studentId, enrollmentId, JSON.stringify(questionIds)]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error starting quiz attempt:', error);
+      throw error;
+    }
+  }
+
+  async getAttempt(attemptId: string, studentId: string, moduleId: string): Promise<QuizAttempt | null> {
+    try {
+      const result = await dbManager.query(
+        'SELECT * FROM quiz_attempts WHERE id = $1 AND student_id = $2 AND module_id = $3',
+        [attemptId, studentId, moduleId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching quiz attempt:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the graded answers. Returns null if the attempt was already submitted or the student
+   * has used up max_attempts in the meantime, so concurrent submissions grade only once and never
+   * go over the limit.
+   */
+  async submitAttempt(attemptId: string, answers: QuizAnswers, grade: QuizGradeResult, maxAttempts: number | null): Promise<QuizAttempt | null> {
+    try {
+      const result = await dbManager.query(
+        `UPDATE quiz_attempts AS qa
+         SET status = 'submitted', answers = $2, results = $3, points_earned = $4,
+             points_possible = $5, score = $6, passed = $7, submitted_at = CURRENT_TIMESTAMP
+         WHERE qa.id = $1 AND qa.status = 'in_progress'
+           AND ($8::INT IS NULL OR (
+             SELECT COUNT(*) FROM quiz_attempts done
+             WHERE done.student_id = qa.student_id AND done.module_id = qa.module_id AND done.status = 'submitted'
+           ) < $8)
+         RETURNING *`,
+        [
+          attemptId,
+          JSON.stringify(answers),
+          JSON.stringify(grade.results),
+          grade.points_earned,
+          grade.points_possible,
+          grade.score,
+          grade.passed,
+          maxAttempts
+        ]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error submitting quiz attempt:', error);
+      throw error;
+    }
+  }
+
+  async getAttemptHistory(studentId: string, moduleId: string): Promise<QuizAttempt[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT id, module_id, status, points_earned, points_possible, score, passed, started_at, submitted_at
+         FROM quiz_attempts
+         WHERE student_id = $1 AND module_id = $2
+         ORDER BY started_at DESC`,
+        [studentId, moduleId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching quiz attempt history:', error);
+      throw error;
+    }
+  }
+
+}
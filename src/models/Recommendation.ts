@@ -0,0 +1,234 @@
+import { RecommendationReason, RecommendedCourse } from '../types';
+import { dbManager } from '../utils/databaseManager';
+
+// Relative weight of each signal; popularity only breaks ties between equal scores
+const WEIGHTS = {
+  interestTag: 3,
+  interestText: 1.5,
+  goal: 1,
+  sameField: 4,
+  sameCategory: 2,
+  coEnrollment: 2
+};
+
+// Words in learning goals that say nothing about a subject
+const GOAL_STOP_WORDS = new Set([
+  'about', 'and', 'become', 'better', 'build', 'can', 'career', 'for', 'from', 'get', 'good', 'have',
+  'how', 'into', 'job', 'learn', 'learning', 'like', 'more', 'new', 'skills', 'some', 'start', 'that',
+  'the', 'them', 'then', 'this', 'use', 'using', 'want', 'well', 'with', 'work', 'would', 'year', 'you'
+]);
+
+export interface RecommendationProfile {
+  interests: string[];
+  goalWords: string[];
+  fieldIds: Set<string>;
+  categoryIds: Set<string>;
+  // Other students who took one of the student's courses and this one, by course id
+  coEnrollments: Map<string, number>;
+}
+
+export interface RecommendationCandidate {
+  id: string;
+  title: string;
+  tags?: string[] | null;
+  field_id: string;
+  category_id: string;
+  field_name?: string | null;
+  category_name?: string | null;
+  enrolled_students?: number | string | null;
+  rating?: number | string | null;
+}
+
+export interface ScoredCandidate {
+  id: string;
+  score: number;
+  popularity: number;
+  reasons: RecommendationReason[];
+}
+
+export class Recommendation {
+
+  /**
+   * Lower-case words separated by single spaces, so "Machine-Learning" and "machine learning" match
+   */
+  static normalizeTerm(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9+#]+/g, ' ').trim();
+  }
+
+  static buildProfile(
+    student: { interests?: string[] | null; learning_goals?: string | null },
+    owned: { field_id: string; category_id: string }[],
+    coEnrollments: { course_id: string; students: number | string }[]
+  ): RecommendationProfile {
+    const interests = (student.interests || [])
+      .flatMap(interest => String(interest).split(','))
+      .map(Recommendation.normalizeTerm)
+      .filter(Boolean);
+    const goalWords = Recommendation.normalizeTerm(student.learning_goals || '')
+      .split(' ')
+      .filter(word => word.length >= 3 && !GOAL_STOP_WORDS.has(word));
+
+    return {
+      interests: [...new Set(interests)],
+      goalWords: [...new Set(goalWords)],
+      fieldIds: new Set(owned.map(course => String(course.field_id))),
+      categoryIds: new Set(owned.map(course => String(course.category_id))),
+      coEnrollments: new Map(coEnrollments.map(row => [String(row.course_id), Number(row.students) || 0]))
+    };
+  }
+
+  static popularity(candidate: RecommendationCandidate): number {
+    return Math.log10(1 + (Number(candidate.enrolled_students) || 0)) + (Number(candidate.rating) || 0) / 5;
+  }
+
+  /**
+   * Scores one course against the student's profile. Interests count most when they match a
+   * tag exactly and less when they only appear in the title, field or category name.
+   */
+  static scoreCourse(candidate: RecommendationCandidate, profile: RecommendationProfile): ScoredCandidate {
+    const reasons: RecommendationReason[] = [];
+    let score = 0;
+
+    const tags = new Set((candidate.tags || []).map(Recommendation.normalizeTerm));
+    const text = ` ${Recommendation.normalizeTerm(
+      [candidate.title, candidate.field_name, candidate.category_name].filter(Boolean).join(' ')
+    )} `;
+
+    let interestScore = 0;
+    for (const interest of profile.interests) {
+      if (tags.has(interest)) {
+        interestScore += WEIGHTS.interestTag;
+      } else if (text.includes(` ${interest} `)) {
+        interestScore += WEIGHTS.interestText;
+      }
+    }
+    if (interestScore > 0) {
+      score += interestScore;
+      reasons.push('interests');
+    }
+
+    const words = new Set([...tags].flatMap(tag => tag.split(' ')).concat(text.trim().split(' ')));
+    const goalMatches = profile.goalWords.filter(word => words.has(word)).length;
+    if (goalMatches > 0) {
+      score += goalMatches * WEIGHTS.goal;
+      reasons.push('learning_goals');
+    }
+
+    if (profile.fieldIds.has(String(candidate.field_id))) {
+      score += WEIGHTS.sameField;
+      reasons.push('same_field');
+    } else if (profile.categoryIds.has(String(candidate.category_id))) {
+      score += WEIGHTS.sameCategory;
+      reasons.push('same_category');
+    }
+
+    const coEnrolled = profile.coEnrollments.get(String(candidate.id)) || 0;
+    if (coEnrolled > 0) {
+      score += WEIGHTS.coEnrollment * Math.log2(1 + coEnrolled);
+      reasons.push('also_taken');
+    }
+
+    const popularity = Recommendation.popularity(candidate);
+    if (score === 0) {
+      reasons.push('popular');
+    }
+
+    return { id: String(candidate.id), score: Math.round(score * 100) / 100, popularity, reasons };
+  }
+
+  /**
+   * Best matches first, popularity breaking ties. With no signal at all (a new student) every
+   * score is 0 and this is simply the most popular courses.
+   */
+  static rankCandidates(candidates: RecommendationCandidate[], profile: RecommendationProfile, limit: number): ScoredCandidate[] {
+    return candidates
+      .map(candidate => Recommendation.scoreCourse(candidate, profile))
+      .sort((a, b) => b.score - a.score || b.popularity - a.popularity || Number(a.id) - Number(b.id))
+      .slice(0, limit);
+  }
+
+  /**
+   * Published courses the student does not already have, ranked for them
+   */
+  async getRecommendations(studentId: string, limit: number): Promise<{ courses: RecommendedCourse[]; personalized: boolean }> {
+    try {
+      // Courses enrolled directly (refunded ones included, they were tried) or through an active bundle
+      const ownedResult = await dbManager.query(
+        `SELECT c.id, c.field_id, f.category_id
+         FROM courses c
+         JOIN fields f ON c.field_id = f.id
+         WHERE c.id IN (
+           SELECT e.course_id FROM enrollments e WHERE e.user_id = $1 AND e.course_id IS NOT NULL
+           UNION
+           SELECT bc.course_id FROM enrollments e
+           JOIN bundle_courses bc ON bc.bundle_id = e.bundle_id
+           WHERE e.user_id = $1 AND e.is_active = true
+         )`,
+        [studentId]
+      );
+      const ownedIds: string[] = ownedResult.rows.map((row: any) => String(row.id));
+
+      const [studentResult, coEnrollmentResult, candidatesResult] = await Promise.all([
+        dbManager.query('SELECT interests, learning_goals FROM students WHERE id = $1', [studentId]),
+        ownedIds.length === 0
+          ? Promise.resolve({ rows: [] as any[] })
+          : dbManager.query(
+            `SELECT other.course_id, COUNT(DISTINCT other.user_id) as students
+             FROM enrollments mine
+             JOIN enrollments other ON other.user_id = mine.user_id
+             WHERE mine.course_id = ANY($1) AND mine.user_id <> $2
+               AND other.course_id IS NOT NULL AND NOT (other.course_id = ANY($1))
+             GROUP BY other.course_id`,
+            [ownedIds, studentId]
+          ),
+        dbManager.query(
+          `SELECT c.id, c.title, c.tags, c.field_id, f.category_id, f.name as field_name,
+                  cat.name as category_name, c.enrolled_students, c.rating
+           FROM courses c
+           JOIN fields f ON c.field_id = f.id
+           JOIN categories cat ON f.category_id = cat.id
+           WHERE c.is_published = true AND f.is_active = true AND cat.is_active = true
+             AND NOT (c.id = ANY($1))`,
+          [ownedIds]
+        )
+      ]);
+
+      const profile = Recommendation.buildProfile(studentResult.rows[0] || {}, ownedResult.rows, coEnrollmentResult.rows);
+      const ranked = Recommendation.rankCandidates(candidatesResult.rows, profile, limit);
+      if (ranked.length === 0) {
+        return { courses: [], personalized: false };
+      }
+
+      const coursesResult = await dbManager.query(
+        `SELECT c.id, c.title, c.slug, c.description, c.short_description,
+                c.banner_image, c.thumbnail_image, c.duration_hours,
+                c.difficulty_level, c.price, c.is_free, c.is_published,
+                c.instructor_id, c.prerequisites, c.learning_outcomes,
+                c.course_modules, c.tags, c.rating, c.total_ratings,
+                c.enrolled_students, c.created_at, c.updated_at,
+                f.name as field_name, f.slug as field_slug,
+                cat.name as category_name, cat.slug as category_slug,
+                u.username as instructor_name, u.username as instructor_email
+         FROM courses c
+         JOIN fields f ON c.field_id = f.id
+         JOIN categories cat ON f.category_id = cat.id
+         LEFT JOIN users u ON c.instructor_id = u.id
+         WHERE c.id = ANY($1)`,
+        [ranked.map(item => item.id)]
+      );
+      const coursesById = new Map<string, any>(coursesResult.rows.map((course: any) => [String(course.id), course]));
+
+      const courses = ranked
+        .filter(item => coursesById.has(item.id))
+        .map(item => ({
+          ...coursesById.get(item.id),
+          recommendation_score: item.score,
+          recommendation_reasons: item.reasons
+        }));
+      return { courses, personalized: ranked.some(item => item.score > 0) };
+    } catch (error) {
+      console.error('Error building course recommendations:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,307 @@
+import { Order as OrderRecord, RefundRequest as RefundRequestRecord } from '../types';
+import { dbManager } from '../utils/databaseManager';
+import { ConflictError } from '../middleware/errorHandler';
+
+const DEFAULT_REFUND_WINDOW_DAYS = 14;
+
+// A claim left in processing this long (e.g. the server stopped mid-refund) can be picked up again
+const STALE_CLAIM_MINUTES = 10;
+
+export interface RefundApprovalResult {
+  request: RefundRequestRecord;
+  order: OrderRecord;
+  deactivatedEnrollments: string[];
+}
+
+export class RefundRequest {
+
+  static getWindowDays(): number {
+    const days = parseInt(process.env.REFUND_WINDOW_DAYS || '');
+    return isNaN(days) || days < 0 ? DEFAULT_REFUND_WINDOW_DAYS : days;
+  }
+
+  /**
+   * Reason the order cannot be refunded, or null when a request may be made
+   */
+  static checkRefundable(
+    order: Pick<OrderRecord, 'status' | 'amount' | 'paid_at'>,
+    windowDays: number,
+    now: Date = new Date()
+  ): string | null {
+    if (order.status === 'refunded') {
+      return 'This order has already been refunded';
+    }
+    if (order.status !== 'paid' || !order.paid_at) {
+      return 'Only paid orders can be refunded';
+    }
+    if (Number(order.amount) <= 0) {
+      return 'Nothing was charged for this order';
+    }
+    const deadline = new Date(order.paid_at).getTime() + windowDays * 24 * 60 * 60 * 1000;
+    if (now.getTime() > deadline) {
+      return `Refunds can only be requested within ${windowDays} days of purchase`;
+    }
+    return null;
+  }
+
+  async createRequest(orderId: string, studentId: string, reason: string): Promise<RefundRequestRecord> {
+    try {
+      const result = await dbManager.query(
+        `INSERT INTO refund_requests (order_id, student_id, reason)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [orderId, studentId, reason]
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating refund request:', error);
+      throw error;
+    }
+  }
+
+  async getOpenRequestForOrder(orderId: string): Promise<RefundRequestRecord | null> {
+    try {
+      const result = await dbManager.query(
+        `SELECT * FROM refund_requests
+         WHERE order_id = $1 AND status IN ('pending', 'processing', 'approved')
+         LIMIT 1`,
+        [orderId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching open refund request:', error);
+      throw error;
+    }
+  }
+
+  async getStudentRequests(studentId: string): Promise<RefundRequestRecord[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT r.*, o.order_number, o.item_title, o.amount, o.currency
+         FROM refund_requests r
+         JOIN orders o ON r.order_id = o.id
+         WHERE r.student_id = $1
+         ORDER BY r.created_at DESC, r.id DESC`,
+        [studentId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching student refund requests:', error);
+      throw error;
+    }
+  }
+
+  async getById(id: string): Promise<any | null> {
+    try {
+      const result = await dbManager.query(
+        `SELECT r.*, o.order_number, o.item_type, o.item_title, o.amount, o.currency,
+                o.status as order_status, o.paid_at, o.provider,
+                s.first_name, s.last_name, s.email
+         FROM refund_requests r
+         JOIN orders o ON r.order_id = o.id
+         JOIN students s ON r.student_id = s.id
+         WHERE r.id = $1`,
+        [id]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching refund request:', error);
+      throw error;
+    }
+  }
+
+  async getRequests(options: {
+    status?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ requests: any[]; total: number }> {
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (options.status) {
+        params.push(options.status);
+        conditions.push(`r.status = $${params.length}`);
+      }
+
+      const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const requestsQuery = `
+        SELECT r.*, o.order_number, o.item_type, o.item_title, o.amount, o.currency, o.provider,
+               s.first_name, s.last_name, s.email
+        FROM refund_requests r
+        JOIN orders o ON r.order_id = o.id
+        JOIN students s ON r.student_id = s.id
+        ${whereClause}
+        ORDER BY r.created_at ASC, r.id ASC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `;
+      const countQuery = `SELECT COUNT(*) as total FROM refund_requests r ${whereClause}`;
+
+      const [requestsResult, countResult] = await Promise.all([
+        dbManager.query(requestsQuery, [...params, options.limit, (options.page - 1) * options.limit]),
+        dbManager.query(countQuery, params)
+      ]);
+
+      return {
+        requests: requestsResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching refund requests:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Completed payment behind the order, or its already-refunded payment when a previous
+   * approval got as far as the provider
+   */
+  async getOrderPayment(orderId: string): Promise<any | null> {
+    try {
+      const result = await dbManager.query(
+        `SELECT * FROM payments
+         WHERE order_id = $1 AND status IN ('completed', 'refunded')
+         ORDER BY created_at DESC, id DESC
+         LIMIT 1`,
+        [orderId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching order payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves a pending request to processing so only one admin can run its refund
+   */
+  async claim(id: string, adminId: string | undefined): Promise<RefundRequestRecord | null> {
+    try {
+      const result = await dbManager.query(
+        `UPDATE refund_requests
+         SET status = 'processing', reviewed_by = $2, failure_reason = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+           AND (status = 'pending'
+                OR (status = 'processing' AND updated_at < NOW() - INTERVAL '${STALE_CLAIM_MINUTES} minutes'))
+         RETURNING *`,
+        [id, adminId || null]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error claiming refund request:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns a claimed request to pending after the provider refund failed
+   */
+  async releaseClaim(id: string, failureReason: string): Promise<void> {
+    try {
+      await dbManager.query(
+        `UPDATE refund_requests
+         SET status = 'pending', failure_reason = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = 'processing'`,
+        [id, failureReason]
+      );
+    } catch (error) {
+      console.error('Error releasing refund request:', error);
+      throw error;
+    }
+  }
+
+  async deny(id: string, adminId: string | undefined, note: string): Promise<RefundRequestRecord | null> {
+    try {
+      const result = await dbManager.query(
+        `UPDATE refund_requests
+         SET status = 'denied', admin_note = $3, reviewed_by = $2, reviewed_at = CURRENT_TIMESTAMP,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = 'pending'
+         RETURNING *`,
+        [id, adminId || null, note]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error denying refund request:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records an approved refund once the provider has returned the money: the request is closed,
+   * the order marked refunded, and the enrollment it created deactivated with its progress. For a
+   * bundle that includes the per-course rows opened through it.
+   */
+  async completeApproval(
+    id: string,
+    adminId: string | undefined,
+    note: string | undefined,
+    providerRefundId: string | null
+  ): Promise<RefundApprovalResult> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const requestResult = await client.query(
+          `UPDATE refund_requests
+           SET status = 'approved', admin_note = $3, reviewed_by = $2, reviewed_at = CURRENT_TIMESTAMP,
+               provider_refund_id = $4, failure_reason = NULL, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1 AND status = 'processing'
+           RETURNING *`,
+          [id, adminId || null, note || null, providerRefundId]
+        );
+        const request: RefundRequestRecord | undefined = requestResult.rows[0];
+        if (!request) {
+          throw new ConflictError('The refund request was changed by another request');
+        }
+
+        const orderResult = await client.query(
+          `UPDATE orders SET status = 'refunded', refunded_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1
+           RETURNING *`,
+          [request.order_id]
+        );
+        const order: OrderRecord = orderResult.rows[0];
+
+        let enrollments;
+        if (order.item_type === 'bundle') {
+          enrollments = await client.query(
+            `UPDATE enrollments SET is_active = false
+             WHERE user_id = $1 AND is_active = true
+               AND (bundle_id = $2
+                    OR (enrollment_type = 'bundle_course'
+                        AND course_id IN (SELECT course_id FROM bundle_courses WHERE bundle_id = $2)))
+             RETURNING id, bundle_id`,
+            [order.student_id, order.bundle_id]
+          );
+          if (enrollments.rows.some((row: any) => row.bundle_id)) {
+            await client.query(
+              'UPDATE course_bundles SET enrolled_students = GREATEST(COALESCE(enrolled_students, 0) - 1, 0) WHERE id = $1',
+              [order.bundle_id]
+            );
+          }
+        } else {
+          enrollments = await client.query(
+            `UPDATE enrollments SET is_active = false
+             WHERE user_id = $1 AND course_id = $2 AND is_active = true
+             RETURNING id, bundle_id`,
+            [order.student_id, order.course_id]
+          );
+        }
+
+        const deactivatedEnrollments: string[] = enrollments.rows.map((row: any) => String(row.id));
+        if (deactivatedEnrollments.length > 0) {
+          await client.query(
+            'UPDATE course_progress SET is_active = false WHERE enrollment_id = ANY($1)',
+            [deactivatedEnrollments]
+          );
+        }
+
+        return { request, order, deactivatedEnrollments };
+      });
+    } catch (error) {
+      console.error('Error completing refund approval:', error);
+      throw error;
+    }
+  }
+
+}
@@ -0,0 +1,275 @@
+import { PoolClient } from 'pg';
+import { CourseReview, RatingSummary, ReviewStatus } from '../types';
+import { dbManager } from '../utils/databaseManager';
+
+// Hidden reviews drop out of public listings and the course aggregate; flagged ones stay until moderated
+const PUBLIC_STATUS_CONDITION = `COALESCE(r.status, 'visible') <> 'hidden'`;
+
+const REVIEW_SORTS: Record<string, string> = {
+  newest: 'r.created_at DESC, r.id DESC',
+  highest: 'r.rating DESC, r.created_at DESC, r.id DESC',
+  lowest: 'r.rating ASC, r.created_at DESC, r.id DESC'
+};
+
+export class Review {
+
+  async getCourseReviews(
+    courseId: string,
+    options: { page: number; limit: number; sort?: string }
+  ): Promise<{ reviews: CourseReview[]; total: number }> {
+    try {
+      const orderBy = REVIEW_SORTS[options.sort || 'newest'] || REVIEW_SORTS.newest;
+      const offset = (options.page - 1) * options.limit;
+
+      const reviewsQuery = `
+        SELECT r.id, r.course_id, r.rating, r.review_text, r.is_verified_purchase,
+               r.created_at, r.updated_at,
+               s.first_name as student_first_name,
+               LEFT(s.last_name, 1) as student_last_initial,
+               s.profile_image as student_profile_image
+        FROM course_reviews r
+        JOIN students s ON r.user_id = s.id
+        WHERE r.course_id = $1 AND ${PUBLIC_STATUS_CONDITION}
+        ORDER BY ${orderBy}
+        LIMIT $2 OFFSET $3
+      `;
+      const countQuery = `
+        SELECT COUNT(*) as total
+        FROM course_reviews r
+        WHERE r.course_id = $1 AND ${PUBLIC_STATUS_CONDITION}
+      `;
+
+      const [reviewsResult, countResult] = await Promise.all([
+        dbManager.query(reviewsQuery, [courseId, options.limit, offset]),
+        dbManager.query(countQuery, [courseId])
+      ]);
+
+      return {
+        reviews: reviewsResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching course reviews:', error);
+      throw error;
+    }
+  }
+
+  async getRatingSummary(courseId: string): Promise<RatingSummary> {
+    try {
+      const query = `
+        SELECT r.rating, COUNT(*) as count
+        FROM course_reviews r
+        WHERE r.course_id = $1 AND ${PUBLIC_STATUS_CONDITION}
+        GROUP BY r.rating
+      `;
+      const result = await dbManager.query(query, [courseId]);
+
+      const histogram: RatingSummary['histogram'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+      let total = 0;
+      let sum = 0;
+
+      for (const row of result.rows) {
+        const rating = parseInt(row.rating) as 1 | 2 | 3 | 4 | 5;
+        const count = parseInt(row.count) || 0;
+        if (rating in histogram) {
+          histogram[rating] = count;
+          total += count;
+          sum += rating * count;
+        }
+      }
+
+      return {
+        average: total > 0 ? Math.round((sum / total) * 100) / 100 : 0,
+        total,
+        histogram
+      };
+    } catch (error) {
+      console.error('Error fetching rating summary:', error);
+      throw error;
+    }
+  }
+
+  async getStudentReview(studentId: string, courseId: string): Promise<CourseReview | null> {
+    try {
+      const result = await dbManager.query(
+        'SELECT * FROM course_reviews WHERE user_id = $1 AND course_id = $2',
+        [studentId, courseId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching student review:', error);
+      throw error;
+    }
+  }
+
+  async createReview(
+    studentId: string,
+    courseId: string,
+    data: { rating: number; review_text?: string },
+    isVerifiedPurchase: boolean
+  ): Promise<CourseReview | null> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          `INSERT INTO course_reviews (user_id, course_id, rating, review_text, is_verified_purchase, status)
+           VALUES ($1, $2, $3, $4, $5, 'visible')
+           ON CONFLICT (user_id, course_id) DO NOTHING
+           RETURNING *`,
+          [studentId, courseId, data.rating, data.review_text || null, isVerifiedPurchase]
+        );
+
+        if (result.rows[0]) {
+          await this.recomputeCourseRating(client, courseId);
+        }
+        return result.rows[0] || null;
+      });
+    } catch (error) {
+      console.error('Error creating review:', error);
+      throw error;
+    }
+  }
+
+  async updateReview(
+    studentId: string,
+    courseId: string,
+    data: { rating?: number; review_text?: string }
+  ): Promise<CourseReview | null> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          `UPDATE course_reviews
+           SET rating = COALESCE($3, rating),
+               review_text = COALESCE($4, review_text),
+               updated_at = CURRENT_TIMESTAMP
+           WHERE user_id = $1 AND course_id = $2
+           RETURNING *`,
+          [studentId, courseId, data.rating ?? null, data.review_text ?? null]
+        );
+
+        if (result.rows[0]) {
+          await this.recomputeCourseRating(client, courseId);
+        }
+        return result.rows[0] || null;
+      });
+    } catch (error) {
+      console.error('Error updating review:', error);
+      throw error;
+    }
+  }
+
+  async deleteReview(studentId: string, courseId: string): Promise<boolean> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          'DELETE FROM course_reviews WHERE user_id = $1 AND course_id = $2 RETURNING id',
+          [studentId, courseId]
+        );
+
+        if (result.rows.length > 0) {
+          await this.recomputeCourseRating(client, courseId);
+        }
+        return result.rows.length > 0;
+      });
+    } catch (error) {
+      console.error('Error deleting review:', error);
+      throw error;
+    }
+  }
+
+  async getReviewsForModeration(filters: {
+    status?: string;
+    course_id?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ reviews: CourseReview[]; total: number }> {
+    try {
+      let whereClause = 'WHERE r.course_id IS NOT NULL';
+      const values: any[] = [];
+
+      if (filters.status) {
+        values.push(filters.status);
+        whereClause += ` AND COALESCE(r.status, 'visible') = $${values.length}`;
+      }
+
+      if (filters.course_id) {
+        values.push(filters.course_id);
+        whereClause += ` AND r.course_id = $${values.length}`;
+      }
+
+      const reviewsQuery = `
+        SELECT r.*, COALESCE(r.status, 'visible') as status,
+               s.first_name, s.last_name, s.email, s.student_id,
+               c.title as course_title, c.slug as course_slug
+        FROM course_reviews r
+        JOIN students s ON r.user_id = s.id
+        JOIN courses c ON r.course_id = c.id
+        ${whereClause}
+        ORDER BY r.created_at DESC, r.id DESC
+        LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+      `;
+      const countQuery = `SELECT COUNT(*) as total FROM course_reviews r ${whereClause}`;
+
+      const [reviewsResult, countResult] = await Promise.all([
+        dbManager.query(reviewsQuery, [...values, filters.limit, (filters.page - 1) * filters.limit]),
+        dbManager.query(countQuery, values)
+      ]);
+
+      return {
+        reviews: reviewsResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching reviews for moderation:', error);
+      throw error;
+    }
+  }
+
+  async moderateReview(
+    reviewId: string,
+    status: ReviewStatus,
+    reason: string | undefined,
+    moderatorId: string | undefined
+  ): Promise<CourseReview | null> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          `UPDATE course_reviews
+           SET status = $2, moderation_reason = $3, moderated_by = $4,
+               moderated_at = CURRENT_TIMESTAMP
+           WHERE id = $1
+           RETURNING *`,
+          [reviewId, status, reason || null, moderatorId || null]
+        );
+
+        const review = result.rows[0];
+        if (review?.course_id) {
+          await this.recomputeCourseRating(client, review.course_id);
+        }
+        return review || null;
+      });
+    } catch (error) {
+      console.error('Error moderating review:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keeps courses.rating / total_ratings in step with the publicly counted reviews
+   */
+  private async recomputeCourseRating(client: PoolClient, courseId: string): Promise<void> {
+    await client.query(
+      `UPDATE courses
+       SET rating = COALESCE((
+             SELECT ROUND(AVG(r.rating)::DECIMAL, 2) FROM course_reviews r
+             WHERE r.course_id = $1 AND ${PUBLIC_STATUS_CONDITION}
+           ), 0),
+           total_ratings = (
+             SELECT COUNT(*) FROM course_reviews r
+             WHERE r.course_id = $1 AND ${PUBLIC_STATUS_CONDITION}
+           )
+       WHERE id = $1`,
+      [courseId]
+    );
+  }
+
+}
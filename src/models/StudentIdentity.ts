@@ -0,0 +1,117 @@
+import { OidcProviderName, StudentIdentity as StudentIdentityRow } from '../types';
+import { dbManager } from '../utils/databaseManager';
+
+export type IdentityLinkResult = 'linked' | 'already_linked' | 'taken' | 'provider_in_use';
+
+export type IdentityUnlinkResult = 'unlinked' | 'not_found' | 'last_sign_in_method';
+
+export class StudentIdentity {
+
+  /**
+   * Student signed in through this provider account, if it is linked
+   */
+  async findStudentId(provider: OidcProviderName, subject: string): Promise<string | null> {
+    try {
+      const result = await dbManager.query(
+        'SELECT student_id FROM student_identities WHERE provider = $1 AND subject = $2',
+        [provider, subject]
+      );
+      return result.rows[0]?.student_id || null;
+    } catch (error) {
+      console.error('Error finding student identity:', error);
+      throw error;
+    }
+  }
+
+  async listForStudent(studentId: string): Promise<StudentIdentityRow[]> {
+    try {
+      const result = await dbManager.query(
+        `SELECT provider, email, last_login_at, created_at
+         FROM student_identities WHERE student_id = $1 ORDER BY created_at ASC`,
+        [studentId]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error listing student identities:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Links a provider account to the student. Refused when the account already belongs to another
+   * student (taken) or the student has a different account with this provider (provider_in_use).
+   */
+  async link(studentId: string, provider: OidcProviderName, subject: string, email: string | null): Promise<IdentityLinkResult> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const existing = await client.query(
+          `SELECT student_id, subject FROM student_identities
+           WHERE (provider = $1 AND subject = $2) OR (student_id = $3 AND provider = $1)
+           FOR UPDATE`,
+          [provider, subject, studentId]
+        );
+
+        const sameAccount = existing.rows.find((row: any) => row.subject === subject);
+        if (sameAccount) {
+          return sameAccount.student_id === studentId ? 'already_linked' as const : 'taken' as const;
+        }
+        if (existing.rows.length > 0) {
+          return 'provider_in_use' as const;
+        }
+
+        await client.query(
+          'INSERT INTO student_identities (student_id, provider, subject, email) VALUES ($1, $2, $3, $4)',
+          [studentId, provider, subject, email]
+        );
+        return 'linked' as const;
+      });
+    } catch (error) {
+      console.error('Error linking student identity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a linked account, unless the student would be left with no way to sign in
+   * (no password and no other linked account)
+   */
+  async unlink(studentId: string, provider: OidcProviderName): Promise<IdentityUnlinkResult> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          `SELECT s.has_password, i.provider
+           FROM students s
+           JOIN student_identities i ON i.student_id = s.id
+           WHERE s.id = $1
+           FOR UPDATE`,
+          [studentId]
+        );
+
+        if (!result.rows.some((row: any) => row.provider === provider)) {
+          return 'not_found' as const;
+        }
+        if (!result.rows[0].has_password && result.rows.length === 1) {
+          return 'last_sign_in_method' as const;
+        }
+
+        await client.query('DELETE FROM student_identities WHERE student_id = $1 AND provider = $2', [studentId, provider]);
+        return 'unlinked' as const;
+      });
+    } catch (error) {
+      console.error('Error unlinking student identity:', error);
+      throw error;
+    }
+  }
+
+  async recordLogin(provider: OidcProviderName, subject: string): Promise<void> {
+    try {
+      await dbManager.query(
+        'UPDATE student_identities SET last_login_at = NOW() WHERE provider = $1 AND subject = $2',
+        [provider, subject]
+      );
+    } catch (error) {
+      console.error('Error recording identity login:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { OtpPurpose } from '../types';
+import { dbManager } from '../utils/databaseManager';
+import generateOTP from '../utils/otpUtil';
+
+export type OtpIssueResult =
+  | { status: 'issued'; code: string; expiresAt: Date }
+  | { status: 'cooldown'; retryAfterSeconds: number };
+
+export type OtpVerifyResult =
+  | { status: 'verified'; studentId: string | null }
+  | { status: 'invalid'; attemptsLeft: number }
+  | { status: 'expired' | 'too_many_attempts' | 'not_found' };
+
+const seconds = (value: string | undefined, fallback: number): number => parseInt(value || '') || fallback;
+
+export class StudentOtp {
+
+  static settings() {
+    return {
+      ttlSeconds: seconds(process.env.OTP_TTL_SECONDS, 300),
+      cooldownSeconds: seconds(process.env.OTP_RESEND_COOLDOWN_SECONDS, 60),
+      maxAttempts: seconds(process.env.OTP_MAX_ATTEMPTS, 5)
+    };
+  }
+
+  /**
+   * Digits only, keeping a leading +, so "+91 98765-43210" and "+919876543210" are the same phone
+   */
+  static normalizePhone(phone: string): string {
+    const trimmed = String(phone || '').trim();
+    return (trimmed.startsWith('+') ? '+' : '') + trimmed.replace(/\D/g, '');
+  }
+
+  /**
+   * HMAC of the code bound to the phone and purpose, so a stored hash is useless for anything else
+   */
+  static hashCode(phone: string, purpose: OtpPurpose, code: string): string {
+    const secret = process.env.OTP_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+    return createHmac('sha256', secret).update(`${phone}:${purpose}:${code}`).digest('hex');
+  }
+
+  static codeMatches(hash: string, phone: string, purpose: OtpPurpose, code: string): boolean {
+    const expected = Buffer.from(StudentOtp.hashCode(phone, purpose, String(code)), 'hex');
+    const stored = Buffer.from(hash || '', 'hex');
+    return stored.length === expected.length && timingSafeEqual(stored, expected);
+  }
+
+  /**
+   * Creates a new code for the phone, replacing any earlier one, unless the last code was sent
+   * less than the cooldown ago. The caller sends the returned code.
+   */
+  async issue(phone: string, purpose: OtpPurpose, studentId: string | null = null): Promise<OtpIssueResult> {
+    const { ttlSeconds, cooldownSeconds } = StudentOtp.settings();
+
+    try {
+      return await dbManager.transaction(async (client) => {
+        const existing = await client.query(
+          'SELECT last_sent_at FROM student_otps WHERE phone = $1 AND purpose = $2 FOR UPDATE',
+          [phone, purpose]
+        );
+        const lastSentAt = existing.rows[0] ? new Date(existing.rows[0].last_sent_at).getTime() : 0;
+        const waitMs = lastSentAt + cooldownSeconds * 1000 - Date.now();
+        if (waitMs > 0) {
+          return { status: 'cooldown' as const, retryAfterSeconds: Math.ceil(waitMs / 1000) };
+        }
+
+        const code = generateOTP(6);
+        const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+        await client.query(
+          `INSERT INTO student_otps (phone, purpose, student_id, code_hash, attempts, expires_at, consumed_at, last_sent_at)
+           VALUES ($1, $2, $3, $4, 0, $5, NULL, NOW())
+           ON CONFLICT (phone, purpose) DO UPDATE SET
+             student_id = EXCLUDED.student_id, code_hash = EXCLUDED.code_hash, attempts = 0,
+             expires_at = EXCLUDED.expires_at, consumed_at = NULL, last_sent_at = NOW()`,
+          [phone, purpose, studentId, StudentOtp.hashCode(phone, purpose, code), expiresAt]
+        );
+
+        return { status: 'issued' as const, code, expiresAt };
+      });
+    } catch (error) {
+      console.error('Error issuing OTP:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drops a code that could not be delivered, so the student can ask again without waiting
+   */
+  async discard(phone: string, purpose: OtpPurpose): Promise<void> {
+    try {
+      await dbManager.query('DELETE FROM student_otps WHERE phone = $1 AND purpose = $2', [phone, purpose]);
+    } catch (error) {
+      console.error('Error discarding OTP:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks a code. Every wrong guess counts towards OTP_MAX_ATTEMPTS; a correct code is used up.
+   */
+  async verify(phone: string, purpose: OtpPurpose, code: string): Promise<OtpVerifyResult> {
+    const { maxAttempts } = StudentOtp.settings();
+
+    try {
+      return await dbManager.transaction(async (client) => {
+        const result = await client.query(
+          `SELECT id, student_id, code_hash, attempts, expires_at, consumed_at
+           FROM student_otps WHERE phone = $1 AND purpose = $2 FOR UPDATE`,
+          [phone, purpose]
+        );
+        const otp = result.rows[0];
+
+        if (!otp || otp.consumed_at) {
+          return { status: 'not_found' as const };
+        }
+        if (new Date(otp.expires_at).getTime() <= Date.now()) {
+          return { status: 'expired' as const };
+        }
+        const attempts = Number(otp.attempts) || 0;
+        if (attempts >= maxAttempts) {
+          return { status: 'too_many_attempts' as const };
+        }
+
+        if (!StudentOtp.codeMatches(otp.code_hash, phone, purpose, code)) {
+          await client.query('UPDATE student_otps SET attempts = attempts + 1 WHERE id = $1', [otp.id]);
+          return { status: 'invalid' as const, attemptsLeft: Math.max(0, maxAttempts - attempts - 1) };
+        }
+
+        await client.query('UPDATE student_otps SET consumed_at = NOW() WHERE id = $1', [otp.id]);
+        return { status: 'verified' as const, studentId: otp.student_id || null };
+      });
+    } catch (error) {
+      console.error('Error verifying OTP:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import { WishlistItem, WishlistPriceChange, WishlistPriceDrop } from '../types';
+import { dbManager } from '../utils/databaseManager';
+
+// Same course summary as the public catalog, plus when and how the student saved it
+const WISHLIST_ITEM_QUERY = `
+  SELECT c.id, c.title, c.slug, c.description, c.short_description,
+         c.banner_image, c.thumbnail_image, c.duration_hours,
+         c.difficulty_level, c.price, c.is_free, c.is_published,
+         c.instructor_id, c.prerequisites, c.learning_outcomes,
+         c.course_modules, c.tags, c.rating, c.total_ratings,
+         c.enrolled_students, c.created_at, c.updated_at,
+         f.name as field_name, f.slug as field_slug,
+         cat.name as category_name, cat.slug as category_slug,
+         u.username as instructor_name, u.username as instructor_email,
+         w.notify_price_drop, w.created_at as saved_at
+  FROM student_wishlists w
+  JOIN courses c ON w.course_id = c.id
+  JOIN fields f ON c.field_id = f.id
+  JOIN categories cat ON f.category_id = cat.id
+  LEFT JOIN users u ON c.instructor_id = u.id
+  WHERE c.is_published = true AND f.is_active = true AND cat.is_active = true
+`;
+
+export interface WishlistPrice {
+  price: number | string | null;
+  is_free: boolean | null;
+}
+
+export class Wishlist {
+
+  /**
+   * What changed between the price a student was last told about and the current one, if it
+   * is worth an email: the course became free or got cheaper. Rises are not reported.
+   */
+  static detectPriceChange(previous: WishlistPrice, current: WishlistPrice): WishlistPriceChange | null {
+    if (current.is_free) {
+      return previous.is_free ? null : 'became_free';
+    }
+    if (previous.is_free || previous.price === null || current.price === null) {
+      return null;
+    }
+    return Number(current.price) < Number(previous.price) ? 'price_drop' : null;
+  }
+
+  /**
+   * Saved courses that are still in the catalog, most recently saved first
+   */
+  async getWishlist(studentId: string, options: { page: number; limit: number }): Promise<{ items: WishlistItem[]; total: number }> {
+    try {
+      const [itemsResult, countResult] = await Promise.all([
+        dbManager.query(
+          `${WISHLIST_ITEM_QUERY} AND w.student_id = $1
+           ORDER BY w.created_at DESC, w.id DESC
+           LIMIT $2 OFFSET $3`,
+          [studentId, options.limit, (options.page - 1) * options.limit]
+        ),
+        dbManager.query(
+          `SELECT COUNT(*) as total
+           FROM student_wishlists w
+           JOIN courses c ON w.course_id = c.id
+           JOIN fields f ON c.field_id = f.id
+           JOIN categories cat ON f.category_id = cat.id
+           WHERE w.student_id = $1 AND c.is_published = true AND f.is_active = true AND cat.is_active = true`,
+          [studentId]
+        )
+      ]);
+
+      return {
+        items: itemsResult.rows,
+        total: parseInt(countResult.rows[0].total) || 0
+      };
+    } catch (error) {
+      console.error('Error fetching wishlist:', error);
+      throw error;
+    }
+  }
+
+  async getItem(studentId: string, courseId: string): Promise<WishlistItem | null> {
+    try {
+      const result = await dbManager.query(
+        `${WISHLIST_ITEM_QUERY} AND w.student_id = $1 AND w.course_id = $2`,
+        [studentId, courseId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error fetching wishlist item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Saves a published course. Saving it again keeps the original date and only changes the
+   * notification choice when one is given. Returns null when the course is not in the catalog.
+   */
+  async addCourse(
+    studentId: string,
+    courseId: string,
+    notifyPriceDrop?: boolean
+  ): Promise<{ item: WishlistItem; created: boolean } | null> {
+    try {
+      const courseResult = await dbManager.query(
+        `SELECT c.price, c.is_free
+         FROM courses c
+         JOIN fields f ON c.field_id = f.id
+         JOIN categories cat ON f.category_id = cat.id
+         WHERE c.id = $1 AND c.is_published = true AND f.is_active = true AND cat.is_active = true`,
+        [courseId]
+      );
+      if (courseResult.rows.length === 0) {
+        return null;
+      }
+      const course = courseResult.rows[0];
+
+      const inserted = await dbManager.query(
+        `INSERT INTO student_wishlists (student_id, course_id, notify_price_drop, notified_price, notified_is_free)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (student_id, course_id) DO NOTHING
+         RETURNING id`,
+        [studentId, courseId, notifyPriceDrop ?? true, course.price, course.is_free]
+      );
+      const created = inserted.rows.length > 0;
+
+      if (!created && notifyPriceDrop !== undefined) {
+        await this.updateItem(studentId, courseId, notifyPriceDrop);
+      }
+
+      const item = await this.getItem(studentId, courseId);
+      return item ? { item, created } : null;
+    } catch (error) {
+      console.error('Error adding course to wishlist:', error);
+      throw error;
+    }
+  }
+
+  async updateItem(studentId: string, courseId: string, notifyPriceDrop: boolean): Promise<boolean> {
+    try {
+      const result = await dbManager.query(
+        `UPDATE student_wishlists SET notify_price_drop = $3, updated_at = NOW()
+         WHERE student_id = $1 AND course_id = $2
+         RETURNING id`,
+        [studentId, courseId, notifyPriceDrop]
+      );
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Error updating wishlist item:', error);
+      throw error;
+    }
+  }
+
+  async removeCourse(studentId: string, courseId: string): Promise<boolean> {
+    try {
+      const result = await dbManager.query(
+        'DELETE FROM student_wishlists WHERE student_id = $1 AND course_id = $2 RETURNING id',
+        [studentId, courseId]
+      );
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Error removing course from wishlist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds saved courses (one course, or all of them) whose price moved since the student was
+   * last told, moves every baseline to the current price and returns the drops to email.
+   * Rises also move the baseline, so a later drop is measured from the higher price.
+   * Courses that are not published move their baseline without an email.
+   */
+  async collectPriceDrops(courseId?: string): Promise<WishlistPriceDrop[]> {
+    try {
+      return await dbManager.transaction(async (client) => {
+        const values: any[] = [];
+        let courseFilter = '';
+        if (courseId) {
+          values.push(courseId);
+          courseFilter = `AND w.course_id = $${values.length}`;
+        }
+
+        const changed = await client.query(
+          `SELECT w.id, w.course_id, w.notify_price_drop, w.notified_price, w.notified_is_free,
+                  c.title as course_title, c.slug as course_slug, c.price, c.is_free, c.is_published,
+                  s.email as student_email, s.first_name as student_first_name, s.is_active as student_is_active
+           FROM student_wishlists w
+           JOIN courses c ON w.course_id = c.id
+           JOIN students s ON w.student_id = s.id
+           WHERE (w.notified_price IS DISTINCT FROM c.price OR w.notified_is_free IS DISTINCT FROM c.is_free)
+           ${courseFilter}
+           ORDER BY w.id
+           FOR UPDATE OF w`,
+          values
+        );
+        if (changed.rows.length === 0) {
+          return [];
+        }
+
+        await client.query(
+          `UPDATE student_wishlists w
+           SET notified_price = c.price, notified_is_free = c.is_free, updated_at = NOW()
+           FROM courses c
+           WHERE w.course_id = c.id AND w.id = ANY($1)`,
+          [changed.rows.map(row => row.id)]
+        );
+
+        const drops: WishlistPriceDrop[] = [];
+        for (const row of changed.rows) {
+          const change = Wishlist.detectPriceChange(
+            { price: row.notified_price, is_free: row.notified_is_free },
+            { price: row.price, is_free: row.is_free }
+          );
+          if (!change || !row.notify_price_drop || !row.is_published || row.student_is_active === false) {
+            continue;
+          }
+          drops.push({
+            student_email: row.student_email,
+            student_first_name: row.student_first_name,
+            course_id: String(row.course_id),
+            course_title: row.course_title,
+            course_slug: row.course_slug,
+            change,
+            previous_price: Number(row.notified_price) || 0,
+            price: row.is_free ? 0 : Number(row.price) || 0
+          });
+        }
+        return drops;
+      });
+    } catch (error) {
+      console.error('Error collecting wishlist price drops:', error);
+      throw error;
+    }
+  }
+}
@@ -1,7 +1,7 @@
 import express from 'express';
 import { requireAdmin } from '../middleware/adminAuth';
 import { requireAdminCookie } from '../middleware/cookieAuth';
-import { validate, validationSchemas, sanitizeInput, validateContentType } from '../middleware/validation';
+import { validate, validationSchemas, sanitizeInput, validateContentType, validateFileUpload } from '../middleware/validation';
 import { 
   getAdminProfile, 
   updateAdminProfile, 
@@ -66,6 +66,90 @@ import {
   updateEnrollmentStatus,
   deleteEnrollment
 } from '../controllers/enrollmentController';
+import {
+  // Bundles
+  getAllBundlesAdmin,
+  getBundleByIdAdmin,
+  createBundle,
+  updateBundle,
+  deleteBundle
+} from '../controllers/bundleController';
+import {
+  // Curriculum
+  getCurriculumAdmin,
+  getCourseLessonsAdmin,
+  createSection,
+  updateSection,
+  deleteSection,
+  createLesson,
+  updateLesson,
+  deleteLesson,
+  reorderCurriculum
+} from '../controllers/curriculumController';
+import {
+  // Quizzes
+  getQuizAdmin,
+  updateQuizSettings,
+  createQuizQuestion,
+  updateQuizQuestion,
+  deleteQuizQuestion
+} from '../controllers/quizController';
+import {
+  // Assignments
+  getAssignmentAdmin,
+  updateAssignmentSettings,
+  getSubmissionsForGrading,
+  getSubmissionByIdAdmin,
+  gradeSubmission
+} from '../controllers/assignmentController';
+import {
+  // Reviews
+  getReviewsForModeration,
+  moderateReview
+} from '../controllers/reviewController';
+import {
+  getCertificatesAdmin,
+  revokeCertificate,
+  reissueCertificate
+} from '../controllers/certificateController';
+import {
+  getCouponsAdmin,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  getCouponRedemptions
+} from '../controllers/couponController';
+import {
+  getRefundRequestsAdmin,
+  getRefundRequestAdmin,
+  approveRefund,
+  denyRefund
+} from '../controllers/refundController';
+import {
+  getInvoicesAdmin,
+  exportInvoicesAdmin,
+  getInvoiceAdmin,
+  downloadInvoiceAdmin
+} from '../controllers/invoiceController';
+import { getItemPricesAdmin, setItemPricesAdmin } from '../controllers/pricingController';
+import { getCourseSubmissionsAdmin, reviewCourseSubmission } from '../controllers/instructorController';
+import { getCourseStatusHistory, changeCourseStatusAdmin } from '../controllers/courseStatusController';
+import {
+  getRevisionsAdmin,
+  getRevisionAdmin,
+  compareRevisionsAdmin,
+  restoreRevisionAdmin
+} from '../controllers/courseRevisionController';
+import { cloneCourseAdmin, exportCourseAdmin, importCourseAdmin } from '../controllers/courseTemplateController';
+import {
+  getMyTwoFactor,
+  beginMyTwoFactorSetup,
+  enableMyTwoFactor,
+  regenerateMyRecoveryCodes,
+  disableMyTwoFactor,
+  resetAdminTwoFactor
+} from '../controllers/adminTwoFactorController';
+import { exportCatalogCsvAdmin, importCatalogCsvAdmin } from '../controllers/catalogController';
 import { SecurityMonitor } from '../services/securityMonitor';
 import * as migrationController from '../controllers/migrationController';
 import { dbManager } from '../utils/databaseManager';
@@ -167,6 +251,20 @@ router.put('/fields/:id',
 );
 router.delete('/fields/:id', requireAdminCookie, deleteField);
 
+// ==================== CATALOG CSV ADMIN ROUTES ====================
+// Import categories, then fields, then courses: each file refers to the level above by slug
+const validateCsvUpload = validateFileUpload({
+  maxSize: 5 * 1024 * 1024,
+  allowedTypes: ['text/csv', 'application/vnd.ms-excel', 'text/plain'],
+  maxFiles: 1
+});
+router.get('/catalog/categories/export', requireAdminCookie, exportCatalogCsvAdmin('categories'));
+router.post('/catalog/categories/import', requireAdminCookie, validateCsvUpload, importCatalogCsvAdmin('categories'));
+router.get('/catalog/fields/export', requireAdminCookie, exportCatalogCsvAdmin('fields'));
+router.post('/catalog/fields/import', requireAdminCookie, validateCsvUpload, importCatalogCsvAdmin('fields'));
+router.get('/catalog/courses/export', requireAdminCookie, exportCatalogCsvAdmin('courses'));
+router.post('/catalog/courses/import', requireAdminCookie, validateCsvUpload, importCatalogCsvAdmin('courses'));
+
 // ==================== COURSES ADMIN ROUTES ====================
 router.get('/courses', requireAdminCookie, getAllCoursesAdmin);
 router.post('/courses', 
@@ -184,84 +282,241 @@ router.put('/courses/:id',
   updateCourse
 );
 router.delete('/courses/:id', requireAdminCookie, deleteCourse);
+router.get('/courses/:id/prices', requireAdminCookie, getItemPricesAdmin('course'));
+router.put('/courses/:id/prices', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.setItemPrices),
+  setItemPricesAdmin('course')
+);
 
-// ==================== COURSE MODULES ADMIN ROUTES ====================
-router.get('/courses/:courseId/modules', requireAdminCookie, async (req, res) => {
-  try {
-    const { courseId } = req.params;
-    // Mock implementation - replace with actual module fetching
-    const modules: any[] = [];
-    res.json({
-      success: true,
-      data: modules
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: 'Failed to fetch course modules'
-    });
-  }
-});
+// ==================== COURSE TEMPLATE ADMIN ROUTES ====================
+router.post('/courses/import', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.importCourse),
+  importCourseAdmin
+);
+router.get('/courses/:id/export', requireAdminCookie, exportCourseAdmin);
+router.post('/courses/:id/clone', requireAdminCookie, cloneCourseAdmin);
 
-router.post('/courses/:courseId/modules', 
+// ==================== COURSE STATUS ADMIN ROUTES ====================
+router.get('/courses/:courseId/status-history', requireAdminCookie, getCourseStatusHistory);
+router.post('/courses/:courseId/status', 
   requireAdminCookie, 
   validateContentType(),
   sanitizeInput,
-  async (req, res) => {
-    try {
-      const { courseId } = req.params;
-      const moduleData = req.body;
-      // Mock implementation - replace with actual module creation
-      res.json({
-        success: true,
-        data: { id: Date.now(), ...moduleData, courseId }
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        error: 'Failed to create module'
-      });
-    }
-  }
+  validate(validationSchemas.changeCourseStatus),
+  changeCourseStatusAdmin
 );
 
+// ==================== COURSE REVISION ADMIN ROUTES ====================
+router.get('/courses/:id/revisions', requireAdminCookie, getRevisionsAdmin('course'));
+router.get('/courses/:id/revisions/compare', 
+  requireAdminCookie, 
+  validate(validationSchemas.compareRevisions, 'query'),
+  compareRevisionsAdmin('course')
+);
+router.get('/courses/:id/revisions/:revision', requireAdminCookie, getRevisionAdmin('course'));
+router.post('/courses/:id/revisions/:revision/restore', requireAdminCookie, restoreRevisionAdmin('course'));
+router.get('/modules/:id/revisions', requireAdminCookie, getRevisionsAdmin('module'));
+router.get('/modules/:id/revisions/compare', 
+  requireAdminCookie, 
+  validate(validationSchemas.compareRevisions, 'query'),
+  compareRevisionsAdmin('module')
+);
+router.get('/modules/:id/revisions/:revision', requireAdminCookie, getRevisionAdmin('module'));
+router.post('/modules/:id/revisions/:revision/restore', requireAdminCookie, restoreRevisionAdmin('module'));
+
+// ==================== COURSE REVIEW ADMIN ROUTES ====================
+router.get('/course-submissions', requireAdminCookie, getCourseSubmissionsAdmin);
+router.post('/course-submissions/:id/review', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.reviewCourseSubmission),
+  reviewCourseSubmission
+);
+
+// ==================== BUNDLES ADMIN ROUTES ====================
+router.get('/bundles', requireAdminCookie, getAllBundlesAdmin);
+router.get('/bundles/:id', requireAdminCookie, getBundleByIdAdmin);
+router.post('/bundles', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.createBundle),
+  createBundle
+);
+router.put('/bundles/:id', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateBundle),
+  updateBundle
+);
+router.delete('/bundles/:id', requireAdminCookie, deleteBundle);
+router.get('/bundles/:id/prices', requireAdminCookie, getItemPricesAdmin('bundle'));
+router.put('/bundles/:id/prices', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.setItemPrices),
+  setItemPricesAdmin('bundle')
+);
+
+// ==================== REVIEWS ADMIN MODERATION ====================
+router.get('/reviews', requireAdminCookie, getReviewsForModeration);
+router.put('/reviews/:id/moderation', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.moderateReview),
+  moderateReview
+);
+
+// ==================== CURRICULUM ADMIN ROUTES ====================
+router.get('/courses/:courseId/curriculum', requireAdminCookie, getCurriculumAdmin);
+router.put('/courses/:courseId/curriculum/order', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.reorderCurriculum),
+  reorderCurriculum
+);
+router.post('/courses/:courseId/sections', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.createSection),
+  createSection
+);
+router.put('/sections/:sectionId', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateSection),
+  updateSection
+);
+router.delete('/sections/:sectionId', requireAdminCookie, deleteSection);
+
+// ==================== COURSE MODULES ADMIN ROUTES ====================
+router.get('/courses/:courseId/modules', requireAdminCookie, getCourseLessonsAdmin);
+router.post('/courses/:courseId/modules', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.createModule),
+  createLesson
+);
 router.put('/modules/:moduleId', 
   requireAdminCookie, 
   validateContentType(),
   sanitizeInput,
-  async (req, res) => {
-    try {
-      const { moduleId } = req.params;
-      const moduleData = req.body;
-      // Mock implementation - replace with actual module update
-      res.json({
-        success: true,
-        data: { id: moduleId, ...moduleData }
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        error: 'Failed to update module'
-      });
-    }
-  }
+  validate(validationSchemas.updateModule),
+  updateLesson
 );
+router.delete('/modules/:moduleId', requireAdminCookie, deleteLesson);
 
-router.delete('/modules/:moduleId', requireAdminCookie, async (req, res) => {
-  try {
-    const { moduleId } = req.params;
-    // Mock implementation - replace with actual module deletion
-    res.json({
-      success: true,
-      message: 'Module deleted successfully'
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: 'Failed to delete module'
-    });
-  }
-});
+// ==================== QUIZ ADMIN ROUTES ====================
+router.get('/modules/:moduleId/quiz', requireAdminCookie, getQuizAdmin);
+router.put('/modules/:moduleId/quiz/settings', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateQuizSettings),
+  updateQuizSettings
+);
+router.post('/modules/:moduleId/quiz/questions', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.createQuizQuestion),
+  createQuizQuestion
+);
+router.put('/quiz-questions/:questionId', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateQuizQuestion),
+  updateQuizQuestion
+);
+router.delete('/quiz-questions/:questionId', requireAdminCookie, deleteQuizQuestion);
+
+// ==================== ASSIGNMENT ADMIN ROUTES ====================
+router.get('/modules/:moduleId/assignment', requireAdminCookie, getAssignmentAdmin);
+router.put('/modules/:moduleId/assignment', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateAssignmentSettings),
+  updateAssignmentSettings
+);
+router.get('/assignment-submissions', requireAdminCookie, getSubmissionsForGrading);
+router.get('/assignment-submissions/:id', requireAdminCookie, getSubmissionByIdAdmin);
+router.put('/assignment-submissions/:id/grade', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.gradeAssignment),
+  gradeSubmission
+);
+
+// ==================== CERTIFICATES ADMIN ROUTES ====================
+router.get('/certificates', requireAdminCookie, getCertificatesAdmin);
+router.post('/certificates/:id/revoke', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.revokeCertificate),
+  revokeCertificate
+);
+router.post('/certificates/:id/reissue', requireAdminCookie, reissueCertificate);
+
+// ==================== COUPONS ADMIN ROUTES ====================
+router.get('/coupons', requireAdminCookie, getCouponsAdmin);
+router.post('/coupons', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.createCoupon),
+  createCoupon
+);
+router.put('/coupons/:id', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateCoupon),
+  updateCoupon
+);
+router.delete('/coupons/:id', requireAdminCookie, deleteCoupon);
+router.get('/coupons/:id/redemptions', requireAdminCookie, getCouponRedemptions);
+
+// ==================== INVOICES ADMIN ROUTES ====================
+router.get('/invoices', requireAdminCookie, getInvoicesAdmin);
+router.get('/invoices/export', requireAdminCookie, exportInvoicesAdmin);
+router.get('/invoices/:id', requireAdminCookie, getInvoiceAdmin);
+router.get('/invoices/:id/download', requireAdminCookie, downloadInvoiceAdmin);
+
+// ==================== REFUNDS ADMIN ROUTES ====================
+router.get('/refunds', requireAdminCookie, getRefundRequestsAdmin);
+router.get('/refunds/:id', requireAdminCookie, getRefundRequestAdmin);
+router.post('/refunds/:id/approve', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.approveRefund),
+  approveRefund
+);
+router.post('/refunds/:id/deny', 
+  requireAdminCookie, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.denyRefund),
+  denyRefund
+);
 
 // ==================== ENROLLMENTS ADMIN ROUTES ====================
 router.get('/enrollments', requireAdminCookie, getAllEnrollments);
@@ -330,6 +585,33 @@ router.put('/profile', requireAdminCookie, updateAdminProfile);
 router.post('/profile/change-password', requireAdminCookie, changeAdminPassword);
 router.post('/profile/upload-image', requireAdminCookie, uploadProfileImageMiddleware, uploadAdminProfileImage);
 
+// ==================== TWO-FACTOR AUTHENTICATION ROUTES ====================
+router.get('/profile/2fa', requireAdminCookie, getMyTwoFactor);
+router.post('/profile/2fa/setup', requireAdminCookie, beginMyTwoFactorSetup);
+router.post('/profile/2fa/enable',
+  requireAdminCookie,
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.twoFactorCode),
+  enableMyTwoFactor
+);
+router.post('/profile/2fa/recovery-codes',
+  requireAdminCookie,
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.twoFactorCode),
+  regenerateMyRecoveryCodes
+);
+router.post('/profile/2fa/disable',
+  requireAdminCookie,
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.twoFactorCode),
+  disableMyTwoFactor
+);
+// Superuser only: clears another admin's 2FA
+router.delete('/admins/:id/2fa', requireAdminCookie, resetAdminTwoFactor);
+
 // ==================== FILE UPLOAD ====================
 router.post('/upload', requireAdminCookie, async (req, res) => {
   try {
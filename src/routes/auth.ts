@@ -29,6 +29,18 @@ router.post('/secure-login',
   authController.secureLogin
 );
 
+// Second login step for admins with two-factor authentication (accepts both JSON and FormData)
+router.post('/2fa/setup',
+  sanitizeInput,
+  validate(validationSchemas.twoFactorSetup),
+  authController.twoFactorSetup
+);
+router.post('/2fa/verify',
+  sanitizeInput,
+  validate(validationSchemas.twoFactorVerify),
+  authController.twoFactorVerify
+);
+
 // Session verification endpoint (accepts both JSON and FormData)
 router.post('/session-verify', 
   sanitizeInput,
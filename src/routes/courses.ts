@@ -20,7 +20,38 @@ import {
   updateCourse
 } from '../controllers/courseController';
 
-import { authenticateStudent } from '../middleware/studentAuth';
+import {
+  getPublishedBundles,
+  getBundleById,
+  getBundleBySlug,
+  enrollInBundle,
+  getBundleEnrollmentStatus
+} from '../controllers/bundleController';
+
+import { getPublicCurriculum } from '../controllers/curriculumController';
+
+import {
+  getQuizOverview,
+  startQuizAttempt,
+  submitQuizAttempt,
+  getQuizAttemptHistory
+} from '../controllers/quizController';
+
+import {
+  getAssignmentForStudent,
+  submitAssignment
+} from '../controllers/assignmentController';
+
+import {
+  getCourseReviews,
+  getMyCourseReview,
+  createCourseReview,
+  updateCourseReview,
+  deleteCourseReview
+} from '../controllers/reviewController';
+
+import { authenticateStudent, requireVerifiedEmail } from '../middleware/studentAuth';
+import { validate, validationSchemas, sanitizeInput, validateContentType } from '../middleware/validation';
 
 const router = express.Router();
 
@@ -41,12 +72,67 @@ router.get('/courses', getAllCourses);
 router.get('/courses/:id', getCourseById);
 router.get('/courses/slug/:slug', getCourseBySlug);
 
+// Course Curriculum - content_url only on free-preview lessons
+router.get('/courses/:id/curriculum', getPublicCurriculum);
+
+// Course Reviews - Hidden reviews are excluded
+router.get('/courses/:id/reviews', getCourseReviews);
+
+// Bundles Routes - Only show published bundles and their published courses
+router.get('/bundles', getPublishedBundles);
+router.get('/bundles/slug/:slug', getBundleBySlug);
+router.get('/bundles/:id', getBundleById);
+
 // ==================== PROTECTED ROUTES (Require Authentication) ====================
 
 // User enrollment (requires student authentication)
-router.post('/courses/:id/enroll', authenticateStudent, enrollInCourse);
+router.post('/courses/:id/enroll', authenticateStudent, requireVerifiedEmail, enrollInCourse);
 
 // Check enrollment status (requires student authentication)
 router.get('/courses/:id/enrollment-status', authenticateStudent, getEnrollmentStatus);
 
+// Bundle enrollment grants access to every course in the bundle
+router.post('/bundles/:id/enroll', authenticateStudent, requireVerifiedEmail, enrollInBundle);
+router.get('/bundles/:id/enrollment-status', authenticateStudent, getBundleEnrollmentStatus);
+
+// Quizzes - graded server-side; passing marks the quiz module complete
+router.get('/courses/:id/modules/:moduleId/quiz', authenticateStudent, getQuizOverview);
+router.get('/courses/:id/modules/:moduleId/quiz/attempts', authenticateStudent, getQuizAttemptHistory);
+router.post('/courses/:id/modules/:moduleId/quiz/attempts', authenticateStudent, startQuizAttempt);
+router.post('/courses/:id/modules/:moduleId/quiz/attempts/:attemptId/submit', 
+  authenticateStudent, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.submitQuizAttempt),
+  submitQuizAttempt
+);
+
+// Assignments - text and attachment submissions, graded by admins
+router.get('/courses/:id/modules/:moduleId/assignment', authenticateStudent, getAssignmentForStudent);
+router.post('/courses/:id/modules/:moduleId/assignment/submissions', 
+  authenticateStudent, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.submitAssignment),
+  submitAssignment
+);
+
+// Course reviews - one per enrolled student per course
+router.get('/courses/:id/reviews/mine', authenticateStudent, getMyCourseReview);
+router.post('/courses/:id/reviews', 
+  authenticateStudent, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.createReview),
+  createCourseReview
+);
+router.put('/courses/:id/reviews', 
+  authenticateStudent, 
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateReview),
+  updateCourseReview
+);
+router.delete('/courses/:id/reviews', authenticateStudent, deleteCourseReview);
+
 export default router;
@@ -11,6 +11,8 @@ import {
   getChangelog,
 } from "../middleware/apiVersioning";
 import publicRoutes from "./public";
+import paymentRoutes from "./payments";
+import instructorRoutes from "./instructor";
 
 const router = express.Router();
 
@@ -31,5 +33,7 @@ router.use("/admin", adminRoutes);
 router.use("/student-auth", studentAuthRoutes);
 router.use("/student", studentProfileRoutes);
 router.use("/blogs", blogRoutes);
+router.use("/payments", paymentRoutes);
+router.use("/instructor", instructorRoutes);
 
 export default router;
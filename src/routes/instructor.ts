@@ -0,0 +1,107 @@
+import express from 'express';
+import { requireInstructorCookie, requireCourseOwner } from '../middleware/cookieAuth';
+import { validate, validationSchemas, sanitizeInput, validateContentType } from '../middleware/validation';
+import {
+  getInstructorDashboard,
+  getInstructorEnrollments,
+  getInstructorReviews,
+  getInstructorRevenue,
+  getInstructorCourses,
+  getInstructorCourse,
+  createInstructorCourse,
+  updateInstructorCourse,
+  deleteInstructorCourse,
+  submitCourseForReview,
+  withdrawCourseFromReview
+} from '../controllers/instructorController';
+import { getCourseStatusHistory } from '../controllers/courseStatusController';
+import {
+  getCurriculumAdmin,
+  getCourseLessonsAdmin,
+  createSection,
+  updateSection,
+  deleteSection,
+  createLesson,
+  updateLesson,
+  deleteLesson,
+  reorderCurriculum
+} from '../controllers/curriculumController';
+
+const router = express.Router();
+
+// Every instructor route needs an instructor session; course routes also check ownership
+router.use(requireInstructorCookie);
+
+// ==================== INSTRUCTOR DASHBOARD ====================
+router.get('/dashboard', getInstructorDashboard);
+router.get('/enrollments', getInstructorEnrollments);
+router.get('/reviews', getInstructorReviews);
+router.get('/revenue', getInstructorRevenue);
+
+// ==================== INSTRUCTOR COURSES ====================
+router.get('/courses', getInstructorCourses);
+router.post('/courses',
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.createInstructorCourse),
+  createInstructorCourse
+);
+router.get('/courses/:courseId', requireCourseOwner(), getInstructorCourse);
+router.put('/courses/:courseId',
+  requireCourseOwner(),
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateInstructorCourse),
+  updateInstructorCourse
+);
+router.delete('/courses/:courseId', requireCourseOwner(), deleteInstructorCourse);
+
+// Publishing is decided by an admin; see /admin/course-submissions
+router.post('/courses/:courseId/submit', requireCourseOwner(), submitCourseForReview);
+router.post('/courses/:courseId/withdraw', requireCourseOwner(), withdrawCourseFromReview);
+router.get('/courses/:courseId/status-history', requireCourseOwner(), getCourseStatusHistory);
+
+// ==================== INSTRUCTOR CURRICULUM ====================
+router.get('/courses/:courseId/curriculum', requireCourseOwner(), getCurriculumAdmin);
+router.put('/courses/:courseId/curriculum/order',
+  requireCourseOwner(),
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.reorderCurriculum),
+  reorderCurriculum
+);
+router.post('/courses/:courseId/sections',
+  requireCourseOwner(),
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.createSection),
+  createSection
+);
+router.put('/sections/:sectionId',
+  requireCourseOwner('sectionId'),
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateSection),
+  updateSection
+);
+router.delete('/sections/:sectionId', requireCourseOwner('sectionId'), deleteSection);
+
+// ==================== INSTRUCTOR COURSE MODULES ====================
+router.get('/courses/:courseId/modules', requireCourseOwner(), getCourseLessonsAdmin);
+router.post('/courses/:courseId/modules',
+  requireCourseOwner(),
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.createModule),
+  createLesson
+);
+router.put('/modules/:moduleId',
+  requireCourseOwner('moduleId'),
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateModule),
+  updateLesson
+);
+router.delete('/modules/:moduleId', requireCourseOwner('moduleId'), deleteLesson);
+
+export default router;
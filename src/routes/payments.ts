@@ -0,0 +1,56 @@
+import express from 'express';
+import { authenticateStudent, requireVerifiedEmail } from '../middleware/studentAuth';
+import { validate, validationSchemas, sanitizeInput, validateContentType } from '../middleware/validation';
+import {
+  getPriceQuote,
+  createCheckout,
+  getMyOrders,
+  getMyOrder,
+  handlePaymentWebhook
+} from '../controllers/paymentController';
+import { requestRefund, getMyRefundRequests } from '../controllers/refundController';
+
+const router = express.Router();
+
+// ==================== STUDENT CHECKOUT ====================
+
+// Prices an item with an optional coupon code, without reserving anything
+router.post('/quote',
+  authenticateStudent,
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.priceQuote),
+  getPriceQuote
+);
+
+// Starts a provider checkout for a paid course or bundle; enrollment follows the payment webhook,
+// or happens at once when a coupon covers the whole price
+router.post('/checkout',
+  authenticateStudent,
+  requireVerifiedEmail,
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.createCheckout),
+  createCheckout
+);
+router.get('/orders', authenticateStudent, getMyOrders);
+router.get('/orders/:orderNumber', authenticateStudent, getMyOrder);
+
+// ==================== STUDENT REFUNDS ====================
+
+// Allowed within REFUND_WINDOW_DAYS of payment; an admin approves or denies it
+router.post('/orders/:orderNumber/refund',
+  authenticateStudent,
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.requestRefund),
+  requestRefund
+);
+router.get('/refunds', authenticateStudent, getMyRefundRequests);
+
+// ==================== PROVIDER WEBHOOKS ====================
+
+// Authenticated by the provider signature over the raw body
+router.post('/webhooks/:provider', handlePaymentWebhook);
+
+export default router;
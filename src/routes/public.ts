@@ -1,5 +1,9 @@
 import newsletterController from "../controllers/services/newsLetterController";
 import express from "express";
+import {
+  verifyCertificate,
+  downloadCertificate
+} from "../controllers/certificateController";
 
 const router = express.Router();
 
@@ -8,6 +12,9 @@ router.post(
   newsletterController.handleRegisterNewsletter
 );
 
+router.get("/certificates/:code", verifyCertificate);
+router.get("/certificates/:code/download", downloadCertificate);
+
 const publicRoutes = router;
 
 export default publicRoutes;
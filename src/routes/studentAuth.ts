@@ -1,12 +1,25 @@
-import { Router } from "express";
+import { Router, Request, Response, NextFunction } from "express";
 import { studentAuthService } from "../services/studentAuthService";
+import { authenticateStudent } from "../middleware/studentAuth";
 import {
   validateStudentRegistration,
   validateStudentLogin,
+  validateOtpRequest,
+  validateOtpVerify,
+  validateOidcCallback,
 } from "../middleware/studentValidation";
 
 const router = Router();
 
+// Phone verification codes belong to the signed-in student; login codes need no token
+const authenticateForPhoneVerification = (req: Request, res: Response, next: NextFunction) => {
+  if (req.body.purpose === "verify_phone") {
+    authenticateStudent(req, res, next);
+    return;
+  }
+  next();
+};
+
 /**
  * @swagger
  * /student-auth/register:
@@ -286,4 +299,202 @@ router.post("/reset-password", (req, res) => {
   studentAuthService.resetPassword(req, res);
 });
 
+
+/**
+ * @swagger
+ * /student-auth/verify-email:
+ *   post:
+ *     summary: Verify the student's email with the token from the verification link
+ *     tags: [Student Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified (or already verified)
+ *       400:
+ *         description: Invalid or expired verification link
+ */
+router.post("/verify-email", (req, res) => {
+  studentAuthService.verifyEmail(req, res);
+});
+
+/**
+ * @swagger
+ * /student-auth/resend-verification:
+ *   post:
+ *     summary: Send a new verification link to the signed-in student
+ *     description: Earlier links stop working. Limited to 3 emails per hour.
+ *     tags: [Student Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent (or email already verified)
+ *       401:
+ *         description: Unauthorized
+ *       429:
+ *         description: Too many requests
+ */
+router.post("/resend-verification", authenticateStudent, (req, res) => {
+  studentAuthService.resendVerificationEmail(req, res);
+});
+
+
+/**
+ * @swagger
+ * /student-auth/otp/request:
+ *   post:
+ *     summary: Send a one-time code by SMS
+ *     description: For passwordless login (purpose login) or to verify the signed-in student's phone (purpose verify_phone, needs a Bearer token). A new code replaces the previous one and can be requested once per OTP_RESEND_COOLDOWN_SECONDS.
+ *     tags: [Student Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *             properties:
+ *               phone:
+ *                 type: string
+ *               purpose:
+ *                 type: string
+ *                 enum: [login, verify_phone]
+ *                 default: login
+ *     responses:
+ *       200:
+ *         description: Code sent (login does not reveal whether the number is registered)
+ *       400:
+ *         description: Bad request
+ *       401:
+ *         description: Unauthorized (verify_phone)
+ *       409:
+ *         description: Number already verified on another account
+ *       429:
+ *         description: Cooldown or rate limit
+ *       502:
+ *         description: SMS provider rejected the message
+ */
+router.post("/otp/request", validateOtpRequest, authenticateForPhoneVerification, (req, res) => {
+  studentAuthService.requestOtp(req, res);
+});
+
+/**
+ * @swagger
+ * /student-auth/otp/verify:
+ *   post:
+ *     summary: Check a one-time code
+ *     description: Login returns the same tokens as password login. verify_phone (Bearer token) saves the number as the student's verified phone. Each code allows OTP_MAX_ATTEMPTS wrong guesses.
+ *     tags: [Student Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *               - code
+ *             properties:
+ *               phone:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               purpose:
+ *                 type: string
+ *                 enum: [login, verify_phone]
+ *                 default: login
+ *     responses:
+ *       200:
+ *         description: Logged in, or phone verified
+ *       400:
+ *         description: Invalid or expired code
+ *       429:
+ *         description: Too many wrong codes
+ */
+router.post("/otp/verify", validateOtpVerify, authenticateForPhoneVerification, (req, res) => {
+  studentAuthService.verifyOtp(req, res);
+});
+
+/**
+ * @swagger
+ * /student-auth/oidc/{provider}/authorize:
+ *   get:
+ *     summary: Start signing in with Google or another OpenID Connect provider
+ *     description: Returns the provider's authorization_url to redirect to, and a state_token the frontend keeps and sends to the callback endpoint with the code and state from the redirect. Valid for 10 minutes.
+ *     tags: [Student Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [google, oidc]
+ *     responses:
+ *       200:
+ *         description: Authorization URL and state token
+ *       404:
+ *         description: Provider is not configured
+ *       502:
+ *         description: Provider could not be reached
+ */
+router.get("/oidc/:provider/authorize", (req, res) => {
+  studentAuthService.startOidc(req, res);
+});
+
+/**
+ * @swagger
+ * /student-auth/oidc/{provider}/callback:
+ *   post:
+ *     summary: Finish signing in with a provider
+ *     description: Signs in the student linked to the provider account. Otherwise the provider's verified email links the existing student with that email when that student has verified it too, or creates a new student. Returns the same tokens as password login.
+ *     tags: [Student Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, state, state_token]
+ *             properties:
+ *               code:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *               state_token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       201:
+ *         description: New student created and signed in
+ *       400:
+ *         description: State does not match or has expired, or the provider has no verified email
+ *       401:
+ *         description: Provider did not confirm the sign-in
+ *       403:
+ *         description: Account is inactive
+ *       409:
+ *         description: A student with this email has not verified it and must link the provider from their profile
+ */
+router.post("/oidc/:provider/callback", validateOidcCallback, (req, res) => {
+  studentAuthService.completeOidcLogin(req, res);
+});
+
 export default router;
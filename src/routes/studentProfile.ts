@@ -6,6 +6,30 @@ import {
   changePassword,
   uploadProfileImage
 } from "../controllers/studentProfileController";
+import {
+  getMyCertificates,
+  getMyCourseCertificate
+} from "../controllers/certificateController";
+import {
+  getMyInvoices,
+  downloadMyInvoice
+} from "../controllers/invoiceController";
+import {
+  getMyWishlist,
+  addToMyWishlist,
+  updateMyWishlistItem,
+  removeFromMyWishlist
+} from "../controllers/wishlistController";
+import { getMyRecommendations } from "../controllers/recommendationController";
+import { enhancedCourseController } from "../services/paymentService";
+import { studentAuthService } from "../services/studentAuthService";
+import {
+  validate,
+  validationSchemas,
+  sanitizeInput,
+  validateContentType
+} from "../middleware/validation";
+import { validateOidcCallback } from "../middleware/studentValidation";
 
 const router = Router();
 
@@ -271,4 +295,497 @@ router.post("/change-password", authenticateStudent, changePassword);
  */
 router.post("/upload-profile-image", authenticateStudent, uploadProfileImage);
 
+/**
+ * @swagger
+ * /student/enrollments:
+ *   get:
+ *     summary: List current student's course enrollments with progress
+ *     tags: [Student Progress]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [completed, in_progress, not_started]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Enrollments retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/enrollments", authenticateStudent, (req, res) =>
+  enhancedCourseController.getUserEnrollments(req, res)
+);
+
+/**
+ * @swagger
+ * /student/continue-learning:
+ *   get:
+ *     summary: Next incomplete lesson for each unfinished enrollment
+ *     tags: [Student Progress]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *           maximum: 20
+ *     responses:
+ *       200:
+ *         description: Most recently accessed courses with the lesson to resume
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/continue-learning", authenticateStudent, (req, res) =>
+  enhancedCourseController.getContinueLearning(req, res)
+);
+
+/**
+ * @swagger
+ * /student/courses/{id}/progress:
+ *   get:
+ *     summary: Get progress for an enrolled course
+ *     tags: [Student Progress]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Progress retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Not enrolled in this course
+ */
+router.get("/courses/:id/progress", authenticateStudent, (req, res) =>
+  enhancedCourseController.getCourseProgress(req, res)
+);
+
+/**
+ * @swagger
+ * /student/courses/{id}/progress:
+ *   put:
+ *     summary: Record progress on a lesson
+ *     tags: [Student Progress]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - moduleId
+ *             properties:
+ *               moduleId:
+ *                 type: string
+ *               isCompleted:
+ *                 type: boolean
+ *               timeSpent:
+ *                 type: integer
+ *                 description: Total minutes spent on the lesson
+ *               lastPosition:
+ *                 type: integer
+ *                 description: Playback position in seconds
+ *     responses:
+ *       200:
+ *         description: Progress updated and course completion recalculated
+ *       400:
+ *         description: Bad request
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Not enrolled or lesson not in this course
+ */
+router.put(
+  "/courses/:id/progress",
+  authenticateStudent,
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateCourseProgress),
+  (req, res) => enhancedCourseController.updateCourseProgress(req, res)
+);
+
+/**
+ * @swagger
+ * /student/certificates:
+ *   get:
+ *     summary: List current student's completion certificates
+ *     tags: [Student Progress]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Certificates retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/certificates", authenticateStudent, getMyCertificates);
+
+/**
+ * @swagger
+ * /student/courses/{id}/certificate:
+ *   get:
+ *     summary: Get the certificate for a completed course, issuing it if missing
+ *     tags: [Student Progress]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Certificate with its verification code
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not enrolled or course not completed
+ */
+router.get("/courses/:id/certificate", authenticateStudent, getMyCourseCertificate);
+
+/**
+ * @swagger
+ * /student/invoices:
+ *   get:
+ *     summary: List current student's invoices, newest first
+ *     tags: [Student Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invoices retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/invoices", authenticateStudent, getMyInvoices);
+
+/**
+ * @swagger
+ * /student/invoices/{id}/download:
+ *   get:
+ *     summary: Download one of the current student's invoices as printable HTML
+ *     tags: [Student Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice document
+ *         content:
+ *           text/html: {}
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Invoice not found
+ */
+router.get("/invoices/:id/download", authenticateStudent, downloadMyInvoice);
+
+/**
+ * @swagger
+ * /student/recommendations:
+ *   get:
+ *     summary: Published courses recommended for the current student
+ *     description: Ranked by interests and learning goals, the fields and categories of the student's courses and courses taken by students with the same courses. Courses the student already has are left out; new students get the most popular courses.
+ *     tags: [Student Progress]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Courses with recommendation_score and recommendation_reasons
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/recommendations", authenticateStudent, getMyRecommendations);
+
+/**
+ * @swagger
+ * /student/wishlist:
+ *   get:
+ *     summary: List the current student's saved courses, most recently saved first
+ *     tags: [Student Wishlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Saved courses with their catalog summary
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/wishlist", authenticateStudent, getMyWishlist);
+
+/**
+ * @swagger
+ * /student/wishlist:
+ *   post:
+ *     summary: Save a published course to the current student's wishlist
+ *     tags: [Student Wishlist]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - course_id
+ *             properties:
+ *               course_id:
+ *                 type: string
+ *               notify_price_drop:
+ *                 type: boolean
+ *                 description: Email when the course gets cheaper or free (default true)
+ *     responses:
+ *       201:
+ *         description: Course saved
+ *       200:
+ *         description: Course was already saved
+ *       400:
+ *         description: Bad request
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Course not found
+ */
+router.post(
+  "/wishlist",
+  authenticateStudent,
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.addWishlistItem),
+  addToMyWishlist
+);
+
+/**
+ * @swagger
+ * /student/wishlist/{courseId}:
+ *   put:
+ *     summary: Turn price drop emails on or off for a saved course
+ *     tags: [Student Wishlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - notify_price_drop
+ *             properties:
+ *               notify_price_drop:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Wishlist item updated
+ *       400:
+ *         description: Bad request
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Course is not in the wishlist
+ */
+router.put(
+  "/wishlist/:courseId",
+  authenticateStudent,
+  validateContentType(),
+  sanitizeInput,
+  validate(validationSchemas.updateWishlistItem),
+  updateMyWishlistItem
+);
+
+/**
+ * @swagger
+ * /student/wishlist/{courseId}:
+ *   delete:
+ *     summary: Remove a course from the current student's wishlist
+ *     tags: [Student Wishlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Course removed
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Course is not in the wishlist
+ */
+router.delete("/wishlist/:courseId", authenticateStudent, removeFromMyWishlist);
+
+/**
+ * @swagger
+ * /student/identities:
+ *   get:
+ *     summary: List the social sign-in accounts linked to the current student
+ *     tags: [Student Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Linked accounts with the provider and email
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/identities", authenticateStudent, (req, res) => {
+  studentAuthService.listIdentities(req, res);
+});
+
+/**
+ * @swagger
+ * /student/identities/{provider}/authorize:
+ *   get:
+ *     summary: Start linking an account from a sign-in provider
+ *     description: Returns the provider's authorization_url and a state_token to send back to /student/identities/{provider}/link with the code.
+ *     tags: [Student Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [google, oidc]
+ *     responses:
+ *       200:
+ *         description: Authorization URL and state token
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Provider is not configured
+ */
+router.get("/identities/:provider/authorize", authenticateStudent, (req, res) => {
+  studentAuthService.startOidc(req, res);
+});
+
+/**
+ * @swagger
+ * /student/identities/{provider}/link:
+ *   post:
+ *     summary: Link the provider account that returned this code
+ *     tags: [Student Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, state, state_token]
+ *             properties:
+ *               code:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *               state_token:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Account linked
+ *       400:
+ *         description: State does not match or has expired
+ *       401:
+ *         description: Provider did not confirm the sign-in
+ *       409:
+ *         description: Account belongs to another student, or another account with this provider is linked
+ */
+router.post("/identities/:provider/link", authenticateStudent, validateOidcCallback, (req, res) => {
+  studentAuthService.linkOidcIdentity(req, res);
+});
+
+/**
+ * @swagger
+ * /student/identities/{provider}:
+ *   delete:
+ *     summary: Unlink a sign-in provider account
+ *     tags: [Student Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account unlinked
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No linked account for this provider
+ *       409:
+ *         description: It is the only way to sign in and no password is set
+ */
+router.delete("/identities/:provider", authenticateStudent, (req, res) => {
+  studentAuthService.unlinkIdentity(req, res);
+});
+
 export default router;
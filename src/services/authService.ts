@@ -1,29 +1,100 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
-import { getUserByUsername, createUser } from '../utils/userDb';
+import { getUserByUsername, getUserById, createUser } from '../utils/userDb';
 import handleSendEmail from './emailService';
+import { AdminTwoFactor } from '../models/AdminTwoFactor';
+import { identityService } from './identityService';
+import { AppError, ConflictError, ForbiddenError, UnauthorizedError } from '../middleware/errorHandler';
 
 interface LoginRequest {
   username: string;
   password: string;
 }
 
+export type LoginResult =
+  | { status: 'authenticated'; token: string }
+  | { status: 'two_factor_required' | 'two_factor_setup_required'; challengeToken: string };
+
+const TWO_FACTOR_CHALLENGE_TYPE = 'admin_2fa_challenge';
+
 // Enhanced security services (will be initialized in main app)
-let sessionService: any = null;
 let rateLimitService: any = null;
 let securityMonitor: any = null;
 
 export const initializeSecurityServices = (services: {
-  sessionService: any;
   rateLimitService: any;
   securityMonitor: any;
 }) => {
-  sessionService = services.sessionService;
   rateLimitService = services.rateLimitService;
   securityMonitor = services.securityMonitor;
 };
 
+const hashFingerprint = (fingerprint?: string): string | null =>
+  fingerprint ? crypto.createHash('sha256').update(fingerprint).digest('hex') : null;
+
+// Starts the identity session and signs the admin JWT once every login step has passed
+const issueSession = async (user: any, fingerprintHash: string | null, ip?: string, userAgent?: string): Promise<string> => {
+  const { accessToken } = await identityService.issueTokens(
+    { type: user.role, id: user.id, email: user.email, username: user.username },
+    { fingerprintHash, ip, userAgent }
+  );
+
+  // Log successful login
+  if (securityMonitor) {
+    await securityMonitor.logSecurityEvent(
+      'LOGIN_SUCCESS',
+      { username: user.username, userId: user.id, ip },
+      'LOW',
+      ip,
+      userAgent
+    );
+  }
+
+  // Fire-and-forget login notification email if email is available
+  try {
+    if (user.email) {
+      const html = `<html><body style=\"margin:0; padding:0; background:#f5f7fa; font-family:Arial, Helvetica, sans-serif;\"><div style=\"max-width:600px; margin:30px auto; background:white; border-radius:12px; overflow:hidden; box-shadow:0 4px 18px rgba(0,0,0,0.06);\"><div style=\"background:#1e3a8a; padding:22px; text-align:center;\"><img src=\"https://academy.zenow.in/zenow-academy-logo-medium.svg\" alt=\"Zenow Academy\" style=\"width:180px; filter:brightness(0) invert(1);\" /></div><div style=\"padding:30px; color:#333;\"><h2 style=\"color:#1e3a8a; margin-bottom:12px; text-align:center; font-size:24px;\">Login Alert</h2><p style=\"font-size:15px; line-height:24px;\">Hello ${user.username},</p><p style=\"font-size:15px; line-height:24px;\">Your Zenow Academy account was just accessed successfully.</p><div style=\"background:#eef4ff; border-left:5px solid #1e3a8a; padding:15px; margin:20px 0; border-radius:8px; font-size:15px;\"><p style=\"margin:0;\"><strong>IP:</strong> ${ip || 'unknown'}<br><strong>User-Agent:</strong> ${userAgent || 'unknown'}</p></div><p style=\"font-size:15px; line-height:24px;\">If this wasn’t you, please <strong>reset your password immediately</strong> to protect your account.</p><div style=\"text-align:center; margin-top:25px;\"><a href=\"https://academy.zenow.in\" style=\"display:inline-block; padding:12px 24px; background:#1e3a8a; color:white; text-decoration:none; border-radius:8px; font-size:16px;\">Go to Zenow Academy</a></div></div><div style=\"background:#f1f1f1; padding:15px; text-align:center; color:#888; font-size:13px;\">© 2025 Zenow Academy. All rights reserved.</div></div></body></html>`;
+      // Do not await to avoid delaying response
+      handleSendEmail(user.email, 'Login Alert - Zenow Academy', html).catch(() => {});
+    }
+  } catch {}
+
+  return accessToken;
+};
+
+// Short-lived proof that the password step passed; only the 2FA endpoints accept it
+const signTwoFactorChallenge = (userId: string, fingerprintHash: string | null): string =>
+  jwt.sign(
+    { userId, fingerprintHash, type: TWO_FACTOR_CHALLENGE_TYPE },
+    process.env.JWT_SECRET as string,
+    { expiresIn: '5m', issuer: 'zenow-academy', audience: 'zenow-admin-2fa' }
+  );
+
+const readTwoFactorChallenge = (token: string): { userId: string; fingerprintHash: string | null } | null => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET as string, {
+      issuer: 'zenow-academy',
+      audience: 'zenow-admin-2fa'
+    }) as any;
+    if (decoded.type !== TWO_FACTOR_CHALLENGE_TYPE || !decoded.userId) {
+      return null;
+    }
+    return { userId: decoded.userId, fingerprintHash: decoded.fingerprintHash || null };
+  } catch {
+    return null;
+  }
+};
+
+const challengedUser = async (challengeToken: string) => {
+  const challenge = challengeToken ? readTwoFactorChallenge(challengeToken) : null;
+  const user = challenge ? await getUserById(challenge.userId) : null;
+  if (!challenge || !user) {
+    throw new UnauthorizedError('Sign-in challenge is invalid or has expired. Please sign in again.');
+  }
+  return { user, fingerprintHash: challenge.fingerprintHash };
+};
+
 export const register = async ({ username, password }: LoginRequest): Promise<any> => {
   if (!username || !password) throw new Error('Username and password required');
   const existing = await getUserByUsername(username);
@@ -42,7 +113,7 @@ export const login = async ({
   fingerprint?: string; 
   ip?: string; 
   userAgent?: string; 
-}): Promise<string> => {
+}): Promise<LoginResult> => {
   try {
     // Check rate limit if service is available
     if (rateLimitService && ip) {
@@ -106,62 +177,34 @@ export const login = async ({
       throw new Error('Invalid credentials');
     }
     
-    // Generate secure session ID
-    const sessionId = crypto.randomBytes(32).toString('hex');
-    
-    // Create fingerprint hash for validation
-    const fingerprintHash = fingerprint ? 
-      crypto.createHash('sha256').update(fingerprint).digest('hex') : 
-      null;
-    
-    // Create session if service is available
-    if (sessionService) {
-      const sessionCreated = await sessionService.createSession(
-        user.id, 
-        sessionId, 
-        fingerprintHash || ''
-      );
-
-      if (!sessionCreated) {
-        throw new Error('Session creation failed');
-      }
+    // Only roles the identity service knows can hold a session; plain 'user' accounts cannot sign in
+    if (!identityService.isPrincipalType(user.role)) {
+      throw new ForbiddenError('This account cannot sign in');
     }
 
-    // Generate JWT token
-    const token = jwt.sign({ 
-      id: user.id, 
-      username: user.username, 
-      role: user.role,
-      sessionId: sessionId,
-      fingerprintHash: fingerprintHash,
-      iat: Math.floor(Date.now() / 1000)
-    }, process.env.JWT_SECRET as string, { 
-      expiresIn: '4h',
-      issuer: 'zenow-academy',
-      audience: 'zenow-admin'
-    });
+    const fingerprintHash = hashFingerprint(fingerprint);
 
-    // Log successful login
-    if (securityMonitor) {
-      await securityMonitor.logSecurityEvent(
-        'LOGIN_SUCCESS',
-        { username, userId: user.id, ip },
-        'LOW',
-        ip,
-        userAgent
-      );
-    }
-
-    // Fire-and-forget login notification email if email is available
-    try {
-      if (user.email) {
-        const html = `<html><body style=\"margin:0; padding:0; background:#f5f7fa; font-family:Arial, Helvetica, sans-serif;\"><div style=\"max-width:600px; margin:30px auto; background:white; border-radius:12px; overflow:hidden; box-shadow:0 4px 18px rgba(0,0,0,0.06);\"><div style=\"background:#1e3a8a; padding:22px; text-align:center;\"><img src=\"https://academy.zenow.in/zenow-academy-logo-medium.svg\" alt=\"Zenow Academy\" style=\"width:180px; filter:brightness(0) invert(1);\" /></div><div style=\"padding:30px; color:#333;\"><h2 style=\"color:#1e3a8a; margin-bottom:12px; text-align:center; font-size:24px;\">Login Alert</h2><p style=\"font-size:15px; line-height:24px;\">Hello ${user.username},</p><p style=\"font-size:15px; line-height:24px;\">Your Zenow Academy account was just accessed successfully.</p><div style=\"background:#eef4ff; border-left:5px solid #1e3a8a; padding:15px; margin:20px 0; border-radius:8px; font-size:15px;\"><p style=\"margin:0;\"><strong>IP:</strong> ${ip || 'unknown'}<br><strong>User-Agent:</strong> ${userAgent || 'unknown'}</p></div><p style=\"font-size:15px; line-height:24px;\">If this wasn’t you, please <strong>reset your password immediately</strong> to protect your account.</p><div style=\"text-align:center; margin-top:25px;\"><a href=\"https://academy.zenow.in\" style=\"display:inline-block; padding:12px 24px; background:#1e3a8a; color:white; text-decoration:none; border-radius:8px; font-size:16px;\">Go to Zenow Academy</a></div></div><div style=\"background:#f1f1f1; padding:15px; text-align:center; color:#888; font-size:13px;\">© 2025 Zenow Academy. All rights reserved.</div></div></body></html>`;
-        // Do not await to avoid delaying response
-        handleSendEmail(user.email, 'Login Alert - Zenow Academy', html).catch(() => {});
+    // Admins with 2FA (or every admin when it is required) get a challenge instead of a session
+    if (user.role === 'admin' || user.role === 'superuser') {
+      const twoFactor = await new AdminTwoFactor().getStatus(user.id);
+      if (twoFactor.enabled || twoFactor.required) {
+        if (securityMonitor) {
+          await securityMonitor.logSecurityEvent(
+            'LOGIN_TWO_FACTOR_CHALLENGE',
+            { username, userId: user.id, ip, setupRequired: !twoFactor.enabled },
+            'LOW',
+            ip,
+            userAgent
+          );
+        }
+        return {
+          status: twoFactor.enabled ? 'two_factor_required' : 'two_factor_setup_required',
+          challengeToken: signTwoFactorChallenge(user.id, fingerprintHash)
+        };
       }
-    } catch {}
+    }
 
-    return token;
+    return { status: 'authenticated', token: await issueSession(user, fingerprintHash, ip, userAgent) };
   } catch (error) {
     // Log failed login attempt
     if (securityMonitor) {
@@ -179,9 +222,7 @@ export const login = async ({
 
 export const logout = async (sessionId: string, ip?: string, userAgent?: string): Promise<void> => {
   try {
-    if (sessionService) {
-      await sessionService.blacklistSession(sessionId, 'User logout');
-    }
+    await identityService.revokeSession(sessionId, 'User logout');
     
     if (securityMonitor) {
       await securityMonitor.logSecurityEvent(
@@ -197,4 +238,71 @@ export const logout = async (sessionId: string, ip?: string, userAgent?: string)
   }
 };
 
-export default { register, login, logout, initializeSecurityServices };
+// Enrolment for an admin who has to set up 2FA before their first sign-in can finish
+export const startTwoFactorSetup = async ({ challengeToken }: { challengeToken: string }) => {
+  const { user } = await challengedUser(challengeToken);
+  const enrolment = await new AdminTwoFactor().beginEnrolment(user.id, user.username);
+  if (!enrolment) {
+    throw new ConflictError('Two-factor authentication is already enabled');
+  }
+  return enrolment;
+};
+
+/**
+ * Second login step. Takes an authenticator or recovery code, or the first authenticator code when
+ * the admin is enrolling, and only then creates the session. Recovery codes are returned on enrolment.
+ */
+export const completeTwoFactorLogin = async ({
+  challengeToken,
+  code,
+  ip,
+  userAgent
+}: {
+  challengeToken: string;
+  code: string;
+  ip?: string;
+  userAgent?: string;
+}): Promise<{ token: string; recoveryCodes?: string[] }> => {
+  const { user, fingerprintHash } = await challengedUser(challengeToken);
+
+  if (rateLimitService) {
+    const rateLimitCheck = await rateLimitService.checkRateLimit(`admin:${user.id}`, 'two_factor', ip);
+    if (!rateLimitCheck.allowed) {
+      throw new AppError('Too many verification attempts. Please try again later.', 429, 'RATE_LIMIT_EXCEEDED');
+    }
+  }
+
+  const twoFactor = new AdminTwoFactor();
+  const status = await twoFactor.getStatus(user.id);
+  let recoveryCodes: string[] | undefined;
+
+  if (status.enabled) {
+    const method = await twoFactor.verify(user.id, code);
+    if (!method) {
+      if (securityMonitor) {
+        await securityMonitor.logSecurityEvent('TWO_FACTOR_FAILED', { userId: user.id, ip }, 'MEDIUM', ip, userAgent);
+      }
+      throw new UnauthorizedError('Invalid verification code');
+    }
+    if (method === 'recovery_code' && securityMonitor) {
+      await securityMonitor.logSecurityEvent('TWO_FACTOR_RECOVERY_CODE_USED', { userId: user.id, ip }, 'MEDIUM', ip, userAgent);
+    }
+  } else {
+    const confirmed = await twoFactor.confirmEnrolment(user.id, code);
+    if (confirmed.status === 'not_pending') {
+      throw new UnauthorizedError('Set up two-factor authentication first');
+    }
+    if (confirmed.status === 'invalid') {
+      throw new UnauthorizedError('Invalid verification code');
+    }
+    recoveryCodes = confirmed.recoveryCodes;
+    if (securityMonitor) {
+      await securityMonitor.logSecurityEvent('TWO_FACTOR_ENABLED', { userId: user.id, ip }, 'LOW', ip, userAgent);
+    }
+  }
+
+  const token = await issueSession(user, fingerprintHash, ip, userAgent);
+  return recoveryCodes ? { token, recoveryCodes } : { token };
+};
+
+export default { register, login, logout, startTwoFactorSetup, completeTwoFactorLogin, initializeSecurityServices };
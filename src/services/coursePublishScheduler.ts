@@ -0,0 +1,49 @@
+import { CoursePublishing } from '../models/CoursePublishing';
+import { cacheManager } from '../utils/cacheManager';
+import { logger } from '../utils/logger';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// One pass over scheduled courses whose publish_at has passed
+export const publishDueCourses = async (): Promise<string[]> => {
+  if (running) {
+    return [];
+  }
+  running = true;
+  try {
+    const published = await new CoursePublishing().publishDueCourses();
+    if (published.length > 0) {
+      logger.info(`Published ${published.length} scheduled course(s): ${published.join(', ')}`);
+      try {
+        await cacheManager.invalidateCourseCache();
+      } catch (error) {
+        console.error('Error invalidating course cache after scheduled publish:', error);
+      }
+    }
+    return published;
+  } catch (error) {
+    console.error('Scheduled course publishing failed:', error);
+    return [];
+  } finally {
+    running = false;
+  }
+};
+
+// Checks every COURSE_PUBLISH_CHECK_SECONDS (default 60); every instance may run it
+export const startCoursePublishScheduler = (): void => {
+  if (timer) {
+    return;
+  }
+  const seconds = parseInt(process.env.COURSE_PUBLISH_CHECK_SECONDS || '60') || 60;
+  timer = setInterval(publishDueCourses, seconds * 1000);
+  timer.unref();
+  publishDueCourses();
+};
+
+export const stopCoursePublishScheduler = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -0,0 +1,267 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { IdentitySession } from '../models/IdentitySession';
+import { RateLimitService } from './rateLimitService';
+import { Principal, PrincipalType } from '../types';
+
+/**
+ * How tokens are issued for one kind of principal
+ */
+export interface PrincipalTypeDefinition {
+  accessTokenTtlSeconds: number;
+  // null when this kind of principal signs in again instead of refreshing
+  refreshTokenTtlSeconds: number | null;
+  // RateLimitService endpoint applied to each authenticated request
+  rateLimitEndpoint: string;
+  // Claims the existing frontends read from the access token
+  legacyClaims(principal: Principal): Record<string, unknown>;
+}
+
+export interface IssueContext {
+  fingerprintHash?: string | null;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  sessionId: string;
+  expiresIn: number;
+}
+
+export interface VerifiedToken {
+  principal: Principal;
+  sessionId: string;
+  fingerprintHash: string | null;
+}
+
+const ISSUER = 'zenow-academy';
+const AUDIENCE = 'zenow-api';
+// How long a session found active is trusted before it is looked up again; a session revoked
+// through another server instance stops working within this time
+const SESSION_CHECK_INTERVAL_MS = 30 * 1000;
+const MAX_CHECKED_SESSIONS = 10000;
+
+const staffDefinition: PrincipalTypeDefinition = {
+  accessTokenTtlSeconds: 4 * 60 * 60,
+  refreshTokenTtlSeconds: null,
+  rateLimitEndpoint: 'admin',
+  legacyClaims: (principal) => ({ id: principal.id, username: principal.username, role: principal.type })
+};
+
+/**
+ * Single issuer and verifier of access and refresh tokens for students and staff users. Every
+ * token belongs to a row in identity_sessions, so logout, password resets and admin actions can
+ * revoke it before it expires.
+ */
+export class IdentityService {
+  private readonly JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+  private rateLimitService: RateLimitService | null = null;
+  private sessions = new IdentitySession();
+  private checkedSessions = new Map<string, number>();
+  private definitions = new Map<PrincipalType, PrincipalTypeDefinition>([
+    ['student', {
+      accessTokenTtlSeconds: 24 * 60 * 60,
+      refreshTokenTtlSeconds: 7 * 24 * 60 * 60,
+      rateLimitEndpoint: 'api',
+      legacyClaims: (principal) => ({ studentId: principal.id, email: principal.email, type: 'student' })
+    }],
+    ['instructor', staffDefinition],
+    ['admin', staffDefinition],
+    ['superuser', staffDefinition]
+  ]);
+
+  /**
+   * Adds or replaces a kind of principal
+   */
+  registerPrincipalType(type: PrincipalType, definition: PrincipalTypeDefinition): void {
+    this.definitions.set(type, definition);
+  }
+
+  isPrincipalType(type: string): type is PrincipalType {
+    return this.definitions.has(type as PrincipalType);
+  }
+
+  getDefinition(type: PrincipalType): PrincipalTypeDefinition {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new Error(`Unknown principal type: ${type}`);
+    }
+    return definition;
+  }
+
+  /**
+   * Per-principal request limits, set once the security services start
+   */
+  setRateLimitService(rateLimitService: RateLimitService | null): void {
+    this.rateLimitService = rateLimitService;
+  }
+
+  /**
+   * Starts a session and signs its tokens; call once every sign-in step has passed
+   */
+  async issueTokens(principal: Principal, context: IssueContext = {}): Promise<IssuedTokens> {
+    const definition = this.getDefinition(principal.type);
+    const sessionId = crypto.randomBytes(32).toString('hex');
+    const fingerprintHash = context.fingerprintHash || null;
+    const refreshToken = definition.refreshTokenTtlSeconds
+      ? this.sign({ sub: principal.id, principal: principal.type, sid: sessionId, token_use: 'refresh' }, definition.refreshTokenTtlSeconds)
+      : null;
+    const sessionTtlSeconds = definition.refreshTokenTtlSeconds || definition.accessTokenTtlSeconds;
+
+    await this.sessions.create({
+      sessionId,
+      principal,
+      fingerprintHash,
+      refreshToken,
+      ip: context.ip,
+      userAgent: context.userAgent,
+      expiresAt: new Date(Date.now() + sessionTtlSeconds * 1000)
+    });
+    this.markChecked(sessionId);
+
+    return {
+      accessToken: this.signAccessToken(principal, sessionId, fingerprintHash),
+      refreshToken,
+      sessionId,
+      expiresIn: definition.accessTokenTtlSeconds
+    };
+  }
+
+  signAccessToken(principal: Principal, sessionId: string, fingerprintHash: string | null = null): string {
+    const definition = this.getDefinition(principal.type);
+    return this.sign(
+      {
+        ...definition.legacyClaims(principal),
+        sub: principal.id,
+        principal: principal.type,
+        email: principal.email || undefined,
+        sid: sessionId,
+        fingerprintHash: fingerprintHash || undefined,
+        token_use: 'access'
+      },
+      definition.accessTokenTtlSeconds
+    );
+  }
+
+  /**
+   * Principal behind a valid access token whose session is still active, or null. Rejects only
+   * when the session store cannot be reached.
+   */
+  async verifyAccessToken(token: string): Promise<VerifiedToken | null> {
+    const claims = this.decode(token, 'access');
+    if (!claims || !(await this.isSessionActive(claims.sid, claims.sub))) {
+      return null;
+    }
+
+    return {
+      principal: {
+        type: claims.principal,
+        id: claims.sub,
+        email: claims.email || null,
+        username: claims.username || null
+      },
+      sessionId: claims.sid,
+      fingerprintHash: claims.fingerprintHash || null
+    };
+  }
+
+  /**
+   * Session and principal behind a refresh token that is still the one stored for its session
+   */
+  async verifyRefreshToken(token: string): Promise<{ principalId: string; principalType: PrincipalType; sessionId: string } | null> {
+    const claims = this.decode(token, 'refresh');
+    if (!claims) {
+      return null;
+    }
+
+    const session = await this.sessions.findActive(claims.sid);
+    if (!session || session.principal_id !== claims.sub || session.refresh_token_hash !== IdentitySession.hashToken(token)) {
+      return null;
+    }
+    return { principalId: claims.sub, principalType: claims.principal, sessionId: claims.sid };
+  }
+
+  async revokeSession(sessionId: string, reason: string): Promise<boolean> {
+    this.checkedSessions.delete(sessionId);
+    return this.sessions.revoke(sessionId, reason);
+  }
+
+  /**
+   * Ends the session a refresh token belongs to; expired tokens are accepted so a client can
+   * always sign out
+   */
+  async revokeRefreshToken(token: string, reason: string): Promise<boolean> {
+    const claims = this.decode(token, 'refresh', true);
+    return claims ? this.revokeSession(claims.sid, reason) : false;
+  }
+
+  /**
+   * Signs a principal out everywhere, optionally keeping one session (the one making the request)
+   */
+  async revokeAllSessions(principalId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    const revoked = await this.sessions.revokeAllForPrincipal(principalId, reason, exceptSessionId);
+    revoked.forEach(sessionId => this.checkedSessions.delete(sessionId));
+    return revoked.length;
+  }
+
+  /**
+   * Counts a request against the principal's limit; allowed when rate limiting is not running
+   */
+  async checkRateLimit(principal: Principal, ip?: string): Promise<{ allowed: boolean; resetTime?: number }> {
+    if (!this.rateLimitService) {
+      return { allowed: true };
+    }
+    const { rateLimitEndpoint } = this.getDefinition(principal.type);
+    const result = await this.rateLimitService.checkRateLimit(`${principal.type}:${principal.id}`, rateLimitEndpoint, ip);
+    return { allowed: result.allowed, resetTime: result.resetTime };
+  }
+
+  private sign(claims: Record<string, unknown>, ttlSeconds: number): string {
+    return jwt.sign(claims, this.JWT_SECRET, { expiresIn: ttlSeconds, issuer: ISSUER, audience: AUDIENCE });
+  }
+
+  private decode(token: string, tokenUse: 'access' | 'refresh', ignoreExpiration = false): any | null {
+    try {
+      const claims = jwt.verify(token, this.JWT_SECRET, { issuer: ISSUER, audience: AUDIENCE, ignoreExpiration }) as any;
+      if (claims.token_use !== tokenUse || !claims.sub || !claims.sid || !this.isPrincipalType(claims.principal)) {
+        return null;
+      }
+      return claims;
+    } catch {
+      return null;
+    }
+  }
+
+  private async isSessionActive(sessionId: string, principalId: string): Promise<boolean> {
+    const checkedAt = this.checkedSessions.get(sessionId);
+    if (checkedAt && Date.now() - checkedAt < SESSION_CHECK_INTERVAL_MS) {
+      return true;
+    }
+
+    const session = await this.sessions.findActive(sessionId);
+    if (!session || session.principal_id !== principalId) {
+      this.checkedSessions.delete(sessionId);
+      return false;
+    }
+
+    this.markChecked(sessionId);
+    this.sessions.touch(sessionId).catch(() => {});
+    return true;
+  }
+
+  private markChecked(sessionId: string): void {
+    const now = Date.now();
+    if (this.checkedSessions.size >= MAX_CHECKED_SESSIONS) {
+      this.checkedSessions.forEach((checkedAt, id) => {
+        if (now - checkedAt >= SESSION_CHECK_INTERVAL_MS) {
+          this.checkedSessions.delete(id);
+        }
+      });
+    }
+    this.checkedSessions.set(sessionId, now);
+  }
+}
+
+export const identityService = new IdentityService();
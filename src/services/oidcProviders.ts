@@ -0,0 +1,209 @@
+import { createHash, createPublicKey, randomBytes, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OidcProviderName } from '../types';
+
+export interface OidcClaims {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  givenName: string | null;
+  familyName: string | null;
+  picture: string | null;
+}
+
+export interface OidcAuthorizationParams {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface OidcProvider {
+  readonly name: OidcProviderName;
+  /**
+   * URL of the provider's consent page (authorization code flow with PKCE)
+   */
+  authorizationUrl(params: OidcAuthorizationParams): Promise<string>;
+  /**
+   * Redeems the code returned to the redirect URI and checks the ID token (signature, issuer,
+   * audience, expiry and nonce); rejects when any check fails
+   */
+  exchangeCode(code: string, params: { codeVerifier: string; nonce: string }): Promise<OidcClaims>;
+}
+
+export interface OidcClientConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes?: string[];
+  // Other spellings of the issuer found in ID tokens (Google also uses "accounts.google.com")
+  issuerAliases?: string[];
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+const base64Url = (buffer: Buffer): string =>
+  buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const randomToken = (): string => base64Url(randomBytes(32));
+
+export const codeChallenge = (codeVerifier: string): string =>
+  base64Url(createHash('sha256').update(codeVerifier).digest());
+
+const getJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`OIDC request to ${url} failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+/**
+ * Standard OpenID Connect client. Endpoints come from the issuer's discovery document and signing
+ * keys from its JWKS, both cached; keys are fetched again when a token names an unknown key id.
+ */
+export class OidcClient implements OidcProvider {
+  private discovery: Promise<OidcDiscovery> | null = null;
+  private keys = new Map<string, KeyObject>();
+
+  constructor(readonly name: OidcProviderName, private readonly config: OidcClientConfig) {}
+
+  async authorizationUrl({ state, nonce, codeVerifier }: OidcAuthorizationParams): Promise<string> {
+    const { authorization_endpoint } = await this.getDiscovery();
+    const url = new URL(authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: (this.config.scopes || ['openid', 'email', 'profile']).join(' '),
+      state,
+      nonce,
+      code_challenge: codeChallenge(codeVerifier),
+      code_challenge_method: 'S256'
+    }).toString();
+    return url.toString();
+  }
+
+  async exchangeCode(code: string, { codeVerifier, nonce }: { codeVerifier: string; nonce: string }): Promise<OidcClaims> {
+    const { token_endpoint } = await this.getDiscovery();
+    const tokens = await getJson(token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.config.redirectUri,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        code_verifier: codeVerifier
+      }).toString()
+    });
+
+    if (!tokens.id_token) {
+      throw new Error('OIDC token response has no ID token');
+    }
+    return this.verifyIdToken(tokens.id_token, nonce);
+  }
+
+  async verifyIdToken(idToken: string, nonce: string): Promise<OidcClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Malformed ID token');
+    }
+
+    const discovery = await this.getDiscovery();
+    const key = await this.getSigningKey(decoded.header.kid);
+    const claims = jwt.verify(idToken, key, {
+      algorithms: ['RS256'],
+      issuer: [discovery.issuer, ...(this.config.issuerAliases || [])] as [string, ...string[]],
+      audience: this.config.clientId
+    }) as jwt.JwtPayload;
+
+    if (claims.nonce !== nonce) {
+      throw new Error('ID token nonce does not match');
+    }
+    if (!claims.sub) {
+      throw new Error('ID token has no subject');
+    }
+
+    return {
+      subject: String(claims.sub),
+      email: claims.email ? String(claims.email).toLowerCase() : null,
+      // Some providers send "true" as a string
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      givenName: claims.given_name || null,
+      familyName: claims.family_name || null,
+      picture: claims.picture || null
+    };
+  }
+
+  private getDiscovery(): Promise<OidcDiscovery> {
+    if (!this.discovery) {
+      const url = `${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+      this.discovery = getJson(url).catch((error) => {
+        // Try again on the next sign-in instead of caching the failure
+        this.discovery = null;
+        throw error;
+      });
+    }
+    return this.discovery!;
+  }
+
+  private async getSigningKey(kid?: string): Promise<KeyObject> {
+    const cached = kid ? this.keys.get(kid) : undefined;
+    if (cached) {
+      return cached;
+    }
+
+    const { jwks_uri } = await this.getDiscovery();
+    const { keys = [] } = await getJson(jwks_uri);
+    this.keys = new Map(
+      keys
+        .filter((jwk: any) => jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig'))
+        .map((jwk: any) => [jwk.kid || '', createPublicKey({ key: jwk, format: 'jwk' })])
+    );
+
+    const key = this.keys.get(kid || '') || (!kid && this.keys.size === 1 ? [...this.keys.values()][0] : undefined);
+    if (!key) {
+      throw new Error('ID token is signed with an unknown key');
+    }
+    return key;
+  }
+}
+
+/**
+ * Provider by name, or null when it is not configured:
+ * google (GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET / GOOGLE_REDIRECT_URI) or
+ * oidc, any OpenID Connect issuer (OIDC_ISSUER / OIDC_CLIENT_ID / OIDC_CLIENT_SECRET / OIDC_REDIRECT_URI)
+ */
+export const getOidcProvider = (name: string): OidcProvider | null => {
+  switch (name) {
+    case 'google':
+      return process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET && process.env.GOOGLE_REDIRECT_URI
+        ? new OidcClient('google', {
+            issuer: 'https://accounts.google.com',
+            issuerAliases: ['accounts.google.com'],
+            clientId: process.env.GOOGLE_CLIENT_ID,
+            clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+            redirectUri: process.env.GOOGLE_REDIRECT_URI
+          })
+        : null;
+    case 'oidc':
+      return process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID && process.env.OIDC_CLIENT_SECRET && process.env.OIDC_REDIRECT_URI
+        ? new OidcClient('oidc', {
+            issuer: process.env.OIDC_ISSUER,
+            clientId: process.env.OIDC_CLIENT_ID,
+            clientSecret: process.env.OIDC_CLIENT_SECRET,
+            redirectUri: process.env.OIDC_REDIRECT_URI,
+            scopes: process.env.OIDC_SCOPES ? process.env.OIDC_SCOPES.split(/[\s,]+/).filter(Boolean) : undefined
+          })
+        : null;
+    default:
+      return null;
+  }
+};
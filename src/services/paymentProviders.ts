@@ -0,0 +1,318 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { Order, PaymentProviderName } from '../types';
+import { ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export interface CheckoutSession {
+  reference: string;
+  redirectUrl: string | null;
+}
+
+export interface CheckoutContext {
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+/**
+ * Provider event reduced to what fulfilment needs. 'approved' means the buyer approved
+ * a payment that still has to be captured (PayPal).
+ */
+export interface PaymentEvent {
+  id: string;
+  type: string;
+  outcome: 'paid' | 'failed' | 'approved' | 'ignored';
+  reference?: string;
+  transactionId?: string;
+  amount?: number;
+  currency?: string;
+  failureReason?: string;
+  payload: any;
+}
+
+export interface RefundTarget {
+  transactionId: string;
+  amount: string | number;
+  currency: string;
+  reason?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  createCheckout(order: Order, context: CheckoutContext): Promise<CheckoutSession>;
+  /**
+   * Checks the webhook signature against the raw body; throws ValidationError when it does not match
+   */
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PaymentEvent>;
+  capture?(reference: string): Promise<void>;
+  /**
+   * Refunds a settled payment in full; resolves with the provider's refund id
+   */
+  refund(target: RefundTarget): Promise<string>;
+}
+
+const header = (headers: IncomingHttpHeaders, name: string): string | undefined => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const toMinorUnits = (amount: string | number): number => Math.round(Number(amount) * 100);
+
+/**
+ * Stripe Checkout Sessions; fulfilment runs on checkout.session.* webhooks
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+  private stripe: any;
+
+  constructor(secretKey: string, private webhookSecret: string) {
+    this.stripe = require('stripe')(secretKey);
+  }
+
+  async createCheckout(order: Order, context: CheckoutContext): Promise<CheckoutSession> {
+    const session = await this.stripe.checkout.sessions.create({
+      mode: 'payment',
+      line_items: [{
+        quantity: 1,
+        price_data: {
+          currency: order.currency.toLowerCase(),
+          unit_amount: toMinorUnits(order.amount),
+          product_data: { name: order.item_title }
+        }
+      }],
+      client_reference_id: order.order_number,
+      customer_email: context.customerEmail,
+      metadata: { order_number: order.order_number },
+      success_url: context.successUrl,
+      cancel_url: context.cancelUrl
+    });
+
+    return { reference: session.id, redirectUrl: session.url };
+  }
+
+  async parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PaymentEvent> {
+    let event: any;
+    try {
+      event = this.stripe.webhooks.constructEvent(rawBody, header(headers, 'stripe-signature'), this.webhookSecret);
+    } catch (error) {
+      throw new ValidationError('Invalid webhook signature');
+    }
+
+    const session = event.data?.object || {};
+    const base = {
+      id: event.id,
+      type: event.type,
+      reference: session.id,
+      transactionId: typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id,
+      amount: typeof session.amount_total === 'number' ? session.amount_total / 100 : undefined,
+      currency: session.currency ? String(session.currency).toUpperCase() : undefined,
+      payload: event
+    };
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        // Delayed methods (bank debits) complete later with async_payment_succeeded
+        return { ...base, outcome: session.payment_status === 'paid' ? 'paid' : 'ignored' };
+      case 'checkout.session.async_payment_succeeded':
+        return { ...base, outcome: 'paid' };
+      case 'checkout.session.async_payment_failed':
+        return { ...base, outcome: 'failed', failureReason: 'Payment failed' };
+      case 'checkout.session.expired':
+        return { ...base, outcome: 'failed', failureReason: 'Checkout session expired' };
+      default:
+        return { ...base, outcome: 'ignored' };
+    }
+  }
+
+  async refund(target: RefundTarget): Promise<string> {
+    const refund = await this.stripe.refunds.create({
+      payment_intent: target.transactionId,
+      reason: 'requested_by_customer',
+      metadata: target.reason ? { reason: target.reason.slice(0, 500) } : undefined
+    });
+    return refund.id;
+  }
+}
+
+/**
+ * PayPal Orders v2: approval triggers a capture, fulfilment runs on PAYMENT.CAPTURE.COMPLETED
+ */
+export class PayPalPaymentProvider implements PaymentProvider {
+  readonly name = 'paypal' as const;
+  private paypal: any;
+  private client: any;
+
+  constructor(clientId: string, clientSecret: string, private webhookId: string) {
+    this.paypal = require('@paypal/checkout-server-sdk');
+    const environment = process.env.PAYPAL_MODE === 'live'
+      ? new this.paypal.core.LiveEnvironment(clientId, clientSecret)
+      : new this.paypal.core.SandboxEnvironment(clientId, clientSecret);
+    this.client = new this.paypal.core.PayPalHttpClient(environment);
+  }
+
+  async createCheckout(order: Order, context: CheckoutContext): Promise<CheckoutSession> {
+    const request = new this.paypal.orders.OrdersCreateRequest();
+    request.prefer('return=representation');
+    request.requestBody({
+      intent: 'CAPTURE',
+      purchase_units: [{
+        reference_id: order.order_number,
+        custom_id: order.order_number,
+        description: order.item_title,
+        amount: { currency_code: order.currency, value: Number(order.amount).toFixed(2) }
+      }],
+      application_context: {
+        return_url: context.successUrl,
+        cancel_url: context.cancelUrl,
+        user_action: 'PAY_NOW'
+      }
+    });
+
+    const response = await this.client.execute(request);
+    const approveLink = (response.result.links || []).find((link: any) => link.rel === 'approve');
+    return { reference: response.result.id, redirectUrl: approveLink?.href || null };
+  }
+
+  async parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PaymentEvent> {
+    let event: any;
+    try {
+      event = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new ValidationError('Invalid webhook payload');
+    }
+
+    const verification = await this.client.execute({
+      verb: 'POST',
+      path: '/v1/notifications/verify-webhook-signature',
+      headers: { 'Content-Type': 'application/json' },
+      body: {
+        auth_algo: header(headers, 'paypal-auth-algo'),
+        cert_url: header(headers, 'paypal-cert-url'),
+        transmission_id: header(headers, 'paypal-transmission-id'),
+        transmission_sig: header(headers, 'paypal-transmission-sig'),
+        transmission_time: header(headers, 'paypal-transmission-time'),
+        webhook_id: this.webhookId,
+        webhook_event: event
+      }
+    }).catch((error: Error) => {
+      logger.error('PayPal Webhook Verification Error', error);
+      return null;
+    });
+    if (verification?.result?.verification_status !== 'SUCCESS') {
+      throw new ValidationError('Invalid webhook signature');
+    }
+
+    const resource = event.resource || {};
+    switch (event.event_type) {
+      case 'CHECKOUT.ORDER.APPROVED':
+        return { id: event.id, type: event.event_type, outcome: 'approved', reference: resource.id, payload: event };
+      case 'PAYMENT.CAPTURE.COMPLETED':
+      case 'PAYMENT.CAPTURE.DENIED':
+        return {
+          id: event.id,
+          type: event.event_type,
+          outcome: event.event_type === 'PAYMENT.CAPTURE.COMPLETED' ? 'paid' : 'failed',
+          reference: resource.supplementary_data?.related_ids?.order_id,
+          transactionId: resource.id,
+          amount: resource.amount ? Number(resource.amount.value) : undefined,
+          currency: resource.amount?.currency_code,
+          failureReason: event.event_type === 'PAYMENT.CAPTURE.DENIED' ? 'Payment capture denied' : undefined,
+          payload: event
+        };
+      default:
+        return { id: event.id, type: event.event_type, outcome: 'ignored', payload: event };
+    }
+  }
+
+  async capture(reference: string): Promise<void> {
+    const request = new this.paypal.orders.OrdersCaptureRequest(reference);
+    request.requestBody({});
+    await this.client.execute(request);
+  }
+
+  // transactionId is the capture id stored from PAYMENT.CAPTURE.COMPLETED
+  async refund(target: RefundTarget): Promise<string> {
+    const request = new this.paypal.payments.CapturesRefundRequest(target.transactionId);
+    request.requestBody({
+      amount: { currency_code: target.currency, value: Number(target.amount).toFixed(2) },
+      note_to_payer: target.reason ? target.reason.slice(0, 255) : undefined
+    });
+    const response = await this.client.execute(request);
+    return response.result.id;
+  }
+}
+
+/**
+ * Offline provider for development and tests. Webhooks carry an HMAC-SHA256 of the raw
+ * body in X-Fake-Signature.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+
+  constructor(private webhookSecret: string) {}
+
+  static sign(payload: string | Buffer, secret: string): string {
+    return createHmac('sha256', secret).update(payload).digest('hex');
+  }
+
+  async createCheckout(order: Order, context: CheckoutContext): Promise<CheckoutSession> {
+    return { reference: `fake_cs_${randomBytes(12).toString('hex')}`, redirectUrl: null };
+  }
+
+  async parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PaymentEvent> {
+    const expected = Buffer.from(FakePaymentProvider.sign(rawBody, this.webhookSecret), 'hex');
+    const received = Buffer.from(header(headers, 'x-fake-signature') || '', 'hex');
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      throw new ValidationError('Invalid webhook signature');
+    }
+
+    let event: any;
+    try {
+      event = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new ValidationError('Invalid webhook payload');
+    }
+
+    const data = event.data || {};
+    const outcome = event.type === 'payment.succeeded' ? 'paid' : event.type === 'payment.failed' ? 'failed' : 'ignored';
+    return {
+      id: event.id,
+      type: event.type,
+      outcome,
+      reference: data.reference,
+      transactionId: data.transaction_id || `fake_txn_${event.id}`,
+      amount: data.amount !== undefined ? Number(data.amount) : undefined,
+      currency: data.currency,
+      failureReason: outcome === 'failed' ? data.reason || 'Payment failed' : undefined,
+      payload: event
+    };
+  }
+
+  async refund(target: RefundTarget): Promise<string> {
+    return `fake_re_${randomBytes(12).toString('hex')}`;
+  }
+}
+
+/**
+ * Configured provider by name, or null when its credentials are missing. The fake provider also
+ * has to be switched on with PAYMENT_FAKE_ENABLED=true.
+ */
+export const getPaymentProvider = (name: string): PaymentProvider | null => {
+  switch (name) {
+    case 'stripe':
+      return process.env.STRIPE_SECRET_KEY && process.env.STRIPE_WEBHOOK_SECRET
+        ? new StripePaymentProvider(process.env.STRIPE_SECRET_KEY, process.env.STRIPE_WEBHOOK_SECRET)
+        : null;
+    case 'paypal':
+      return process.env.PAYPAL_CLIENT_ID && process.env.PAYPAL_CLIENT_SECRET && process.env.PAYPAL_WEBHOOK_ID
+        ? new PayPalPaymentProvider(process.env.PAYPAL_CLIENT_ID, process.env.PAYPAL_CLIENT_SECRET, process.env.PAYPAL_WEBHOOK_ID)
+        : null;
+    case 'fake':
+      return process.env.PAYMENT_FAKE_ENABLED === 'true' && process.env.FAKE_PAYMENT_WEBHOOK_SECRET
+        ? new FakePaymentProvider(process.env.FAKE_PAYMENT_WEBHOOK_SECRET)
+        : null;
+    default:
+      return null;
+  }
+};
@@ -3,6 +3,8 @@ import { dbManager } from '../utils/databaseManager';
 import { ApiResponse, Course as CourseType, Enrollment } from '../types';
 import { ValidationError, NotFoundError, ConflictError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { CourseProgress } from '../models/CourseProgress';
+import { getPaymentProvider } from './paymentProviders';
 
 /**
  * Enhanced payment service with multiple payment providers
@@ -31,7 +33,8 @@ export class PaymentService {
     courseId: number,
     userId: number,
     paymentMethodId: string,
-    amount: number
+    amount: number,
+    currency: string = process.env.PAYMENT_CURRENCY || 'USD'
   ): Promise<{ success: boolean; transactionId?: string; error?: string }> {
     try {
       if (!this.stripe) {
@@ -41,7 +44,7 @@ export class PaymentService {
       // Create payment intent
       const paymentIntent = await this.stripe.paymentIntents.create({
         amount: Math.round(amount * 100), // Convert to cents
-        currency: 'usd',
+        currency: currency.toLowerCase(),
         payment_method: paymentMethodId,
         confirmation_method: 'manual',
         confirm: true,
@@ -166,10 +169,9 @@ export class PaymentService {
   }
 
   /**
-   * Process refund
-   * New method - doesn't change existing interfaces
+   * Refunds a completed payment through the provider that took it and marks it refunded
    */
-  async processRefund(paymentId: number, reason: string): Promise<{ success: boolean; refundId?: string; error?: string }> {
+  async processRefund(paymentId: string, reason: string): Promise<{ success: boolean; refundId?: string; error?: string }> {
     try {
       // Get payment details
       const paymentResult = await dbManager.query(
@@ -186,31 +188,28 @@ export class PaymentService {
 
       const payment = paymentResult.rows[0];
 
-      let refundId: string;
+      if (payment.status !== 'completed') {
+        return {
+          success: false,
+          error: `Payment is ${payment.status} and cannot be refunded`
+        };
+      }
 
-      if (payment.payment_method === 'stripe' && this.stripe) {
-        // Process Stripe refund
-        const refund = await this.stripe.refunds.create({
-          payment_intent: payment.transaction_id,
-          reason: 'requested_by_customer'
-        });
-        refundId = refund.id;
-      } else if (payment.payment_method === 'paypal' && this.paypal) {
-        // Process PayPal refund
-        const refund = await this.paypal.payments.refund(payment.transaction_id, {
-          amount: {
-            total: payment.amount.toString(),
-            currency: 'USD'
-          }
-        });
-        refundId = refund.id;
-      } else {
+      const provider = getPaymentProvider(payment.payment_method);
+      if (!provider) {
         return {
           success: false,
           error: 'Refund not supported for this payment method'
         };
       }
 
+      const refundId = await provider.refund({
+        transactionId: payment.transaction_id,
+        amount: payment.amount,
+        currency: payment.currency || 'USD',
+        reason
+      });
+
       // Update payment status
       await dbManager.query(
         'UPDATE payments SET status = $1, refund_id = $2, refund_reason = $3, refunded_at = NOW() WHERE id = $4',
@@ -248,9 +247,11 @@ export class PaymentService {
  */
 export class EnhancedCourseController {
   private paymentService: PaymentService;
+  private courseProgress: CourseProgress;
 
   constructor() {
     this.paymentService = new PaymentService();
+    this.courseProgress = new CourseProgress();
   }
 
   /**
@@ -401,21 +402,10 @@ export class EnhancedCourseController {
       const { id } = req.params;
       const userId = (req as any).user!.id;
 
-      // Get enrollment and progress
-      const progressResult = await dbManager.query(
-        `SELECT e.*, c.title as course_title, c.duration_hours,
-         COUNT(cm.id) as total_modules,
-         COUNT(cp.module_id) as completed_modules
-         FROM enrollments e
-         JOIN courses c ON e.course_id = c.id
-         LEFT JOIN course_modules cm ON c.id = cm.course_id
-         LEFT JOIN course_progress cp ON e.id = cp.enrollment_id AND cm.id = cp.module_id AND cp.is_completed = true
-         WHERE e.user_id = $1 AND e.course_id = $2
-         GROUP BY e.id, c.title, c.duration_hours`,
-        [userId, id]
-      );
+      // Bundle-only access resolves to a course-level enrollment
+      const enrollment = await this.courseProgress.resolveCourseEnrollment(userId, id);
 
-      if (progressResult.rows.length === 0) {
+      if (!enrollment) {
         const response: ApiResponse = {
           success: false,
           error: 'Enrollment not found'
@@ -424,7 +414,27 @@ export class EnhancedCourseController {
         return;
       }
 
-      const progress = progressResult.rows[0];
+      // Get enrollment and progress
+      const progressResult = await dbManager.query(
+        `SELECT c.title as course_title, c.duration_hours,
+         COUNT(cm.id) as total_modules,
+         COUNT(cp.module_id) as completed_modules
+         FROM courses c
+         LEFT JOIN course_modules cm ON c.id = cm.course_id
+         LEFT JOIN course_progress cp ON cp.enrollment_id = $1 AND cm.id = cp.module_id AND cp.is_completed = true
+         WHERE c.id = $2
+         GROUP BY c.id, c.title, c.duration_hours`,
+        [enrollment.id, id]
+      );
+
+      const modulesResult = await dbManager.query(
+        `SELECT cp.module_id, cp.is_completed, cp.completion_date, cp.time_spent_minutes, cp.last_position_seconds, cp.updated_at
+         FROM course_progress cp
+         WHERE cp.enrollment_id = $1`,
+        [enrollment.id]
+      );
+
+      const progress = { ...enrollment, ...progressResult.rows[0] };
       const completionPercentage = progress.total_modules > 0 
         ? Math.round((progress.completed_modules / progress.total_modules) * 100)
         : 0;
@@ -434,13 +444,14 @@ export class EnhancedCourseController {
         data: {
           enrollment: progress,
           progress: {
-            completedModules: parseInt(progress.completed_modules),
-            totalModules: parseInt(progress.total_modules),
+            completedModules: parseInt(progress.completed_modules) || 0,
+            totalModules: parseInt(progress.total_modules) || 0,
             completionPercentage,
             estimatedTimeRemaining: Math.round(
-              (progress.duration_hours * (100 - completionPercentage)) / 100
+              ((progress.duration_hours || 0) * (100 - completionPercentage)) / 100
             )
-          }
+          },
+          modules: modulesResult.rows
         }
       };
       res.status(200).json(response);
@@ -470,12 +481,9 @@ export class EnhancedCourseController {
       const userId = (req as any).user!.id;
 
       // Verify enrollment
-      const enrollmentResult = await dbManager.query(
-        'SELECT id FROM enrollments WHERE user_id = $1 AND course_id = $2',
-        [userId, id]
-      );
+      const enrollment = await this.courseProgress.resolveCourseEnrollment(userId, id);
 
-      if (enrollmentResult.rows.length === 0) {
+      if (!enrollment) {
         const response: ApiResponse = {
           success: false,
           error: 'Enrollment not found'
@@ -484,56 +492,43 @@ export class EnhancedCourseController {
         return;
       }
 
-      const enrollmentId = enrollmentResult.rows[0].id;
-
-      // Update or create progress record
-      await dbManager.query(
-        `INSERT INTO course_progress (enrollment_id, module_id, is_completed, completion_date, time_spent_minutes, last_position_seconds, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, NOW())
-         ON CONFLICT (enrollment_id, module_id)
-         DO UPDATE SET 
-           is_completed = $3,
-           completion_date = CASE WHEN $3 = true THEN NOW() ELSE course_progress.completion_date END,
-           time_spent_minutes = $5,
-           last_position_seconds = $6,
-           updated_at = NOW()`,
-        [
-          enrollmentId,
-          moduleId,
-          isCompleted,
-          isCompleted ? new Date() : null,
-          timeSpent || 0,
-          lastPosition || 0
-        ]
+      const moduleResult = await dbManager.query(
+        'SELECT id, module_type FROM course_modules WHERE id = $1 AND course_id = $2',
+        [moduleId, id]
       );
 
-      // Update overall enrollment progress
-      const progressResult = await dbManager.query(
-        `SELECT 
-           COUNT(cm.id) as total_modules,
-           COUNT(cp.module_id) as completed_modules
-         FROM course_modules cm
-         LEFT JOIN course_progress cp ON cm.id = cp.module_id AND cp.enrollment_id = $1 AND cp.is_completed = true
-         WHERE cm.course_id = $2`,
-        [enrollmentId, id]
-      );
+      if (moduleResult.rows.length === 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Module not found in this course'
+        };
+        res.status(404).json(response);
+        return;
+      }
 
-      const progress = progressResult.rows[0];
-      const completionPercentage = progress.total_modules > 0 
-        ? Math.round((progress.completed_modules / progress.total_modules) * 100)
-        : 0;
+      // Quizzes and assignments are completed by passing or being graded
+      const moduleType = moduleResult.rows[0].module_type;
+      if (isCompleted !== undefined && (moduleType === 'quiz' || moduleType === 'assignment')) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Completion of ${moduleType} lessons is recorded automatically`
+        };
+        res.status(400).json(response);
+        return;
+      }
 
-      const isCourseCompleted = completionPercentage === 100;
+      const enrollmentId = String(enrollment.id);
 
-      await dbManager.query(
-        'UPDATE enrollments SET completion_percentage = $1, is_completed = $2, completion_date = $3 WHERE id = $4',
-        [
-          completionPercentage,
-          isCourseCompleted,
-          isCourseCompleted ? new Date() : null,
-          enrollmentId
-        ]
-      );
+      // Update or create progress record
+      await this.courseProgress.recordModuleProgress(enrollmentId, moduleId, {
+        isCompleted,
+        timeSpent,
+        lastPosition
+      });
+
+      // Update overall enrollment progress
+      const { completionPercentage, isCourseCompleted } =
+        await this.courseProgress.recalculateEnrollmentProgress(enrollmentId, id);
 
       logger.info('Course Progress Updated', {
         userId,
@@ -576,7 +571,7 @@ export class EnhancedCourseController {
       const userId = (req as any).user!.id;
       const { status, limit = 20, page = 1 } = req.query;
 
-      let whereClause = 'WHERE e.user_id = $1';
+      let whereClause = 'WHERE e.user_id = $1 AND e.is_active = true';
       const queryParams: any[] = [userId];
       let paramCount = 1;
 
@@ -622,6 +617,53 @@ export class EnhancedCourseController {
       res.status(500).json(response);
     }
   }
+
+  /**
+   * Next lesson to resume for each unfinished enrollment
+   * New method - doesn't change existing interfaces
+   */
+  async getContinueLearning(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user!.id;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 5, 1), 20);
+
+      const items = await this.courseProgress.getContinueLearning(userId, limit);
+
+      const response: ApiResponse = {
+        success: true,
+        data: items.map(item => ({
+          enrollmentId: item.enrollment_id,
+          courseId: item.course_id,
+          courseTitle: item.course_title,
+          courseSlug: item.course_slug,
+          thumbnailImage: item.thumbnail_image,
+          completionPercentage: parseFloat(item.completion_percentage) || 0,
+          lastAccessed: item.last_accessed,
+          nextModule: item.module_id ? {
+            id: item.module_id,
+            title: item.module_title,
+            moduleType: item.module_type,
+            sectionId: item.section_id,
+            sectionTitle: item.section_title,
+            lastPositionSeconds: parseInt(item.last_position_seconds) || 0
+          } : null
+        })),
+        count: items.length
+      };
+      res.status(200).json(response);
+
+    } catch (error) {
+      logger.error('Continue Learning Error', error as Error, {
+        userId: (req as any).user?.id
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: (error as Error).message
+      };
+      res.status(500).json(response);
+    }
+  }
 }
 
 // Export singleton instance
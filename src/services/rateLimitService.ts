@@ -10,6 +10,9 @@ export class RateLimitService {
     api: { requests: 100, window: 60 * 1000 }, // 100 requests per minute
     admin: { requests: 200, window: 60 * 1000 }, // 200 requests per minute for admin
     password_reset: { requests: 3, window: 60 * 60 * 1000 }, // 3 attempts per hour
+    email_verification: { requests: 3, window: 60 * 60 * 1000 }, // 3 verification emails per hour
+    otp_request: { requests: 5, window: 60 * 60 * 1000 }, // 5 SMS codes per phone per hour
+    two_factor: { requests: 5, window: 15 * 60 * 1000 }, // 5 admin 2FA codes per 15 minutes
   };
 
   constructor() {
@@ -0,0 +1,61 @@
+import { SmsProviderName } from '../types';
+import SendOtp from './otpServices';
+import { logger } from '../utils/logger';
+
+export interface SmsProvider {
+  readonly name: SmsProviderName;
+  /**
+   * Delivers a one-time code; rejects when the provider did not accept the message
+   */
+  sendOtp(phone: string, code: string): Promise<void>;
+}
+
+/**
+ * Fast2SMS OTP route (FAST2SMSAPIKEY / FAST2SMSURL)
+ */
+export class Fast2SmsProvider implements SmsProvider {
+  readonly name = 'fast2sms' as const;
+
+  async sendOtp(phone: string, code: string): Promise<void> {
+    // Fast2SMS takes Indian numbers without the country code
+    const result = await SendOtp(phone.replace(/^\+?91(?=\d{10}$)/, ''), code);
+    if (result !== 'success') {
+      throw new Error('Fast2SMS did not accept the OTP message');
+    }
+  }
+}
+
+/**
+ * Offline provider for development and tests. Codes are kept in memory and logged instead of sent.
+ */
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = 'fake' as const;
+  readonly sent: { phone: string; code: string; sentAt: Date }[] = [];
+
+  async sendOtp(phone: string, code: string): Promise<void> {
+    this.sent.push({ phone, code, sentAt: new Date() });
+    logger.info(`[fake sms] OTP for ${phone}: ${code}`);
+  }
+
+  lastCodeFor(phone: string): string | null {
+    const messages = this.sent.filter(message => message.phone === phone);
+    return messages.length > 0 ? messages[messages.length - 1].code : null;
+  }
+}
+
+/**
+ * Provider named by SMS_PROVIDER (fast2sms when unset), or null when it is not configured.
+ * The fake provider is available outside production, or when SMS_FAKE_ENABLED=true.
+ */
+export const getSmsProvider = (name: string = process.env.SMS_PROVIDER || 'fast2sms'): SmsProvider | null => {
+  switch (name) {
+    case 'fast2sms':
+      return process.env.FAST2SMSAPIKEY && process.env.FAST2SMSURL ? new Fast2SmsProvider() : null;
+    case 'fake':
+      return process.env.NODE_ENV !== 'production' || process.env.SMS_FAKE_ENABLED === 'true'
+        ? new FakeSmsProvider()
+        : null;
+    default:
+      return null;
+  }
+};
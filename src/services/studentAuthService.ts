@@ -4,17 +4,75 @@ import crypto from 'crypto';
 import { Request, Response } from 'express';
 import { dbManager } from '../utils/databaseManager';
 import handleSendEmail from './emailService';
+import { RateLimitService } from './rateLimitService';
+import { identityService } from './identityService';
+import { SmsProvider, getSmsProvider } from './smsProviders';
+import { OidcProvider, getOidcProvider, randomToken } from './oidcProviders';
+import { StudentOtp } from '../models/StudentOtp';
+import { StudentIdentity } from '../models/StudentIdentity';
+import { OidcProviderName, OtpPurpose } from '../types';
+
+export interface EmailVerificationPayload {
+  studentId: string;
+  email: string;
+  nonce: string;
+}
+
+export interface OidcStatePayload {
+  provider: OidcProviderName;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  // Set when a signed-in student is linking an account rather than signing in
+  studentId: string | null;
+}
 
 export class StudentAuthService {
   private readonly JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-  private readonly JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key';
-  private readonly JWT_EXPIRES_IN = '24h';
-  private readonly JWT_REFRESH_EXPIRES_IN = '7d';
+  private readonly EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24') || 24;
+  private rateLimitService: RateLimitService | null = null;
+  private smsProvider: SmsProvider | null | undefined;
+  private oidcProviders = new Map<string, OidcProvider | null>();
 
   constructor() {
     // Initialize without external services for now
   }
 
+  /**
+   * Rate limiting for verification email resends, set once the security services start
+   */
+  setRateLimitService(rateLimitService: RateLimitService): void {
+    this.rateLimitService = rateLimitService;
+  }
+
+  /**
+   * SMS provider for OTPs; defaults to the one configured through SMS_PROVIDER
+   */
+  setSmsProvider(smsProvider: SmsProvider | null): void {
+    this.smsProvider = smsProvider;
+  }
+
+  private getSmsProvider(): SmsProvider | null {
+    if (this.smsProvider === undefined) {
+      this.smsProvider = getSmsProvider();
+    }
+    return this.smsProvider;
+  }
+
+  /**
+   * Social sign-in provider; defaults to the one configured through the environment
+   */
+  setOidcProvider(name: string, provider: OidcProvider | null): void {
+    this.oidcProviders.set(name, provider);
+  }
+
+  private getOidcProvider(name: string): OidcProvider | null {
+    if (!this.oidcProviders.has(name)) {
+      this.oidcProviders.set(name, getOidcProvider(name));
+    }
+    return this.oidcProviders.get(name)!;
+  }
+
   /**
    * Register a new student
    */
@@ -72,12 +130,8 @@ export class StudentAuthService {
 
       const student = studentResult.rows[0];
 
-      // Generate tokens
-      const accessToken = this.generateAccessToken(student);
-      const refreshToken = this.generateRefreshToken(student);
-
-      // Store refresh token in database
-      await this.storeRefreshToken(student.id, refreshToken);
+      // Start a session and generate its tokens
+      const { accessToken, refreshToken } = await this.issueTokens(student, req);
 
       // Fire-and-forget welcome email
       try {
@@ -85,9 +139,12 @@ export class StudentAuthService {
         handleSendEmail(student.email, 'Welcome to Zenow Academy', html).catch(() => {});
       } catch {}
 
+      // Fire-and-forget verification email; a new one can be requested later
+      this.sendVerificationEmail(student).catch((error) => console.error('Verification email error:', error));
+
       res.status(201).json({
         success: true,
-        message: 'Student registered successfully',
+        message: 'Student registered successfully. Check your email to verify your address.',
         data: {
           student: {
             id: student.id,
@@ -190,12 +247,8 @@ export class StudentAuthService {
         [student.id]
       );
 
-      // Generate tokens
-      const accessToken = this.generateAccessToken(student);
-      const refreshToken = this.generateRefreshToken(student);
-
-      // Store refresh token
-      await this.storeRefreshToken(student.id, refreshToken);
+      // Start a session and generate its tokens
+      const { accessToken, refreshToken } = await this.issueTokens(student, req);
 
       // Fire-and-forget login alert email
       try {
@@ -248,16 +301,10 @@ export class StudentAuthService {
         return;
       }
 
-      // Verify refresh token
-      const decoded = jwt.verify(refreshToken, this.JWT_REFRESH_SECRET) as any;
-      
-      // Check if refresh token exists in database
-      const tokenResult = await dbManager.query(
-        'SELECT student_id FROM student_refresh_tokens WHERE token = $1 AND expires_at > NOW()',
-        [refreshToken]
-      );
+      // Verify refresh token and that its session is still active
+      const session = await identityService.verifyRefreshToken(refreshToken);
 
-      if (tokenResult.rows.length === 0) {
+      if (!session || session.principalType !== 'student') {
         res.status(401).json({
           success: false,
           message: 'Invalid or expired refresh token'
@@ -268,7 +315,7 @@ export class StudentAuthService {
       // Get student data
       const studentResult = await dbManager.query(
         'SELECT id, student_id, email, first_name, last_name, is_active, email_verified FROM students WHERE id = $1',
-        [decoded.studentId]
+        [session.principalId]
       );
 
       if (studentResult.rows.length === 0) {
@@ -289,8 +336,11 @@ export class StudentAuthService {
         return;
       }
 
-      // Generate new access token
-      const newAccessToken = this.generateAccessToken(student);
+      // New access token for the same session
+      const newAccessToken = identityService.signAccessToken(
+        { type: 'student', id: student.id, email: student.email },
+        session.sessionId
+      );
 
       res.json({
         success: true,
@@ -316,11 +366,8 @@ export class StudentAuthService {
       const { refreshToken } = req.body;
 
       if (refreshToken) {
-        // Remove refresh token from database
-        await dbManager.query(
-          'DELETE FROM student_refresh_tokens WHERE token = $1',
-          [refreshToken]
-        );
+        // End the session the refresh token belongs to
+        await identityService.revokeRefreshToken(refreshToken, 'Student logout');
       }
 
       res.json({
@@ -338,45 +385,14 @@ export class StudentAuthService {
   }
 
   /**
-   * Generate access token
-   */
-  private generateAccessToken(student: any): string {
-    return jwt.sign(
-      {
-        studentId: student.id,
-        student_id: student.student_id,
-        email: student.email,
-        type: 'student'
-      },
-      this.JWT_SECRET,
-      { expiresIn: this.JWT_EXPIRES_IN }
-    );
-  }
-
-  /**
-   * Generate refresh token
-   */
-  private generateRefreshToken(student: any): string {
-    return jwt.sign(
-      {
-        studentId: student.id,
-        type: 'student_refresh'
-      },
-      this.JWT_REFRESH_SECRET,
-      { expiresIn: this.JWT_REFRESH_EXPIRES_IN }
-    );
-  }
-
-  /**
-   * Store refresh token in database
+   * Start an identity session for the student and sign its tokens
    */
-  private async storeRefreshToken(studentId: string, refreshToken: string): Promise<void> {
-    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-    
-    await dbManager.query(
-      'INSERT INTO student_refresh_tokens (student_id, token, expires_at) VALUES ($1, $2, $3)',
-      [studentId, refreshToken, expiresAt]
+  private async issueTokens(student: { id: string; email: string }, req: Request): Promise<{ accessToken: string; refreshToken: string | null }> {
+    const { accessToken, refreshToken } = await identityService.issueTokens(
+      { type: 'student', id: student.id, email: student.email },
+      { ip: req.ip || req.connection.remoteAddress || 'unknown', userAgent: req.get('User-Agent') || 'unknown' }
     );
+    return { accessToken, refreshToken };
   }
 
   /**
@@ -492,10 +508,13 @@ export class StudentAuthService {
 
       // Update password and clear reset token
       await dbManager.query(
-        'UPDATE students SET password_hash = $1, password_reset_token = NULL, password_reset_expires = NULL WHERE id = $2',
+        'UPDATE students SET password_hash = $1, has_password = true, password_reset_token = NULL, password_reset_expires = NULL WHERE id = $2',
         [hashedPassword, student.id]
       );
 
+      // Sign the student out everywhere, in case the old password was stolen
+      await identityService.revokeAllSessions(student.id, 'Password reset');
+
       res.json({
         success: true,
         message: 'Password reset successfully'
@@ -510,6 +529,735 @@ export class StudentAuthService {
     }
   }
 
+  /**
+   * Signed, expiring token for the verification link. The nonce is stored on the student, so
+   * only the latest link works and it works once; changing the email invalidates it too.
+   */
+  signEmailVerificationToken(student: { id: string; email: string }, nonce: string): string {
+    return jwt.sign(
+      {
+        studentId: student.id,
+        email: student.email,
+        nonce,
+        type: 'email_verification'
+      },
+      this.JWT_SECRET,
+      { expiresIn: `${this.EMAIL_VERIFICATION_TTL_HOURS}h` }
+    );
+  }
+
+  /**
+   * Payload of a valid verification token, or null when it is forged, expired or another kind of token
+   */
+  readEmailVerificationToken(token: string): EmailVerificationPayload | null {
+    try {
+      const decoded = jwt.verify(token, this.JWT_SECRET) as any;
+      if (decoded.type !== 'email_verification' || !decoded.studentId || !decoded.email || !decoded.nonce) {
+        return null;
+      }
+      return { studentId: decoded.studentId, email: decoded.email, nonce: decoded.nonce };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stores a new verification nonce (replacing any earlier link) and mails the link
+   */
+  private async sendVerificationEmail(student: { id: string; email: string; first_name?: string }): Promise<void> {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const expires = new Date(Date.now() + this.EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+
+    await dbManager.query(
+      'UPDATE students SET email_verification_token = $1, email_verification_expires = $2 WHERE id = $3',
+      [nonce, expires, student.id]
+    );
+
+    try {
+      const token = this.signEmailVerificationToken(student, nonce);
+      const verifyUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/verify-email?token=${encodeURIComponent(token)}`;
+      const html = `<html><body style=\"margin:0; padding:0; background:#f5f7fa; font-family:Arial, Helvetica, sans-serif;\"><div style=\"max-width:600px; margin:30px auto; background:#ffffff; border-radius:12px; overflow:hidden; box-shadow:0 4px 18px rgba(0,0,0,0.06);\"><div style=\"background:#1e3a8a; padding:22px; text-align:center;\"><img src=\"https://academy.zenow.in/zenow-academy-logo-medium.svg\" alt=\"Zenow Academy\" style=\"width:180px; filter:brightness(0) invert(1);\" /></div><div style=\"padding:30px; color:#333;\"><h2 style=\"color:#1e3a8a; margin-bottom:14px; text-align:center; font-size:24px;\">Verify Your Email</h2><p style=\"font-size:15px; line-height:24px;\">Hi ${student.first_name || ''},</p><p style=\"font-size:15px; line-height:24px;\">Please confirm that this is your email address by clicking the button below:</p><p style=\"text-align:center; margin:25px 0;\"><a href=\"${verifyUrl}\" style=\"display:inline-block; padding:12px 24px; background:#1e3a8a; color:#ffffff; text-decoration:none; border-radius:8px; font-size:16px;\">Verify Email</a></p><p style=\"font-size:15px; line-height:24px;\">This link will expire in ${this.EMAIL_VERIFICATION_TTL_HOURS} hours.</p><p style=\"font-size:15px; line-height:24px;\">If you didn’t create an account, you can safely ignore this email.</p></div><div style=\"background:#f1f1f1; padding:15px; text-align:center; color:#888; font-size:13px;\">© 2025 Zenow Academy. All rights reserved.</div></div></body></html>`;
+      handleSendEmail(student.email, 'Verify Your Email - Zenow Academy', html).catch(() => {});
+    } catch {}
+  }
+
+  /**
+   * Verify email address with the token from the verification link
+   */
+  async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      if (!token) {
+        res.status(400).json({
+          success: false,
+          message: 'Token is required'
+        });
+        return;
+      }
+
+      const payload = this.readEmailVerificationToken(token);
+      if (!payload) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid or expired verification link'
+        });
+        return;
+      }
+
+      const studentResult = await dbManager.query(
+        `SELECT id, email, email_verified, email_verification_token, email_verification_expires
+         FROM students WHERE id = $1`,
+        [payload.studentId]
+      );
+      const student = studentResult.rows[0];
+
+      if (student && student.email_verified && student.email === payload.email) {
+        res.json({
+          success: true,
+          message: 'Email is already verified'
+        });
+        return;
+      }
+
+      if (
+        !student ||
+        student.email !== payload.email ||
+        student.email_verification_token !== payload.nonce ||
+        !student.email_verification_expires ||
+        new Date(student.email_verification_expires) <= new Date()
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid or expired verification link'
+        });
+        return;
+      }
+
+      await dbManager.query(
+        `UPDATE students
+         SET email_verified = true, email_verification_token = NULL, email_verification_expires = NULL, updated_at = NOW()
+         WHERE id = $1`,
+        [student.id]
+      );
+
+      res.json({
+        success: true,
+        message: 'Email verified successfully'
+      });
+
+    } catch (error) {
+      console.error('Email verification error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Send a new verification link to the signed-in student
+   */
+  async resendVerificationEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const studentId = req.user!.id;
+      const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
+
+      const studentResult = await dbManager.query(
+        'SELECT id, email, first_name, email_verified FROM students WHERE id = $1 AND is_active = true',
+        [studentId]
+      );
+
+      if (studentResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Student not found'
+        });
+        return;
+      }
+
+      const student = studentResult.rows[0];
+
+      if (student.email_verified) {
+        res.json({
+          success: true,
+          message: 'Email is already verified'
+        });
+        return;
+      }
+
+      if (this.rateLimitService) {
+        const rateLimit = await this.rateLimitService.checkRateLimit(`student:${student.id}`, 'email_verification', clientIP);
+        if (!rateLimit.allowed) {
+          res.setHeader('Retry-After', Math.max(1, Math.ceil((rateLimit.resetTime - Date.now()) / 1000)).toString());
+          res.status(429).json({
+            success: false,
+            message: 'Too many verification emails requested. Please try again later.'
+          });
+          return;
+        }
+      }
+
+      await this.sendVerificationEmail(student);
+
+      res.json({
+        success: true,
+        message: 'Verification email sent'
+      });
+
+    } catch (error) {
+      console.error('Resend verification email error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Send a one-time code by SMS, for passwordless login or to verify the signed-in student's phone
+   */
+  async requestOtp(req: Request, res: Response): Promise<void> {
+    try {
+      const purpose: OtpPurpose = req.body.purpose === 'verify_phone' ? 'verify_phone' : 'login';
+      const phone = StudentOtp.normalizePhone(req.body.phone);
+      const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
+      const sentMessage = 'If the number belongs to an account, a code has been sent';
+
+      const smsProvider = this.getSmsProvider();
+      if (!smsProvider) {
+        res.status(503).json({
+          success: false,
+          message: 'SMS delivery is not configured'
+        });
+        return;
+      }
+
+      if (this.rateLimitService) {
+        const rateLimit = await this.rateLimitService.checkRateLimit(`phone:${phone}`, 'otp_request', clientIP);
+        if (!rateLimit.allowed) {
+          res.setHeader('Retry-After', Math.max(1, Math.ceil((rateLimit.resetTime - Date.now()) / 1000)).toString());
+          res.status(429).json({
+            success: false,
+            message: 'Too many codes requested for this number. Please try again later.'
+          });
+          return;
+        }
+      }
+
+      let studentId: string;
+      if (purpose === 'verify_phone') {
+        studentId = req.user!.id;
+
+        // A number verified on another account would make phone login ambiguous
+        const taken = await dbManager.query(
+          `SELECT id FROM students
+           WHERE regexp_replace(phone, '[^0-9]', '', 'g') = $1 AND phone_verified = true AND id <> $2
+           LIMIT 1`,
+          [phone.replace(/\D/g, ''), studentId]
+        );
+        if (taken.rows.length > 0) {
+          res.status(409).json({
+            success: false,
+            message: 'This phone number is already verified on another account'
+          });
+          return;
+        }
+      } else {
+        const student = await this.findStudentByPhone(phone);
+        if (!student) {
+          // Don't reveal whether the number is registered
+          res.json({
+            success: true,
+            message: sentMessage
+          });
+          return;
+        }
+        studentId = student.id;
+      }
+
+      const otpModel = new StudentOtp();
+      const issued = await otpModel.issue(phone, purpose, studentId);
+      if (issued.status === 'cooldown') {
+        res.setHeader('Retry-After', issued.retryAfterSeconds.toString());
+        res.status(429).json({
+          success: false,
+          message: `Please wait ${issued.retryAfterSeconds} seconds before requesting another code`,
+          retryAfter: issued.retryAfterSeconds
+        });
+        return;
+      }
+
+      try {
+        await smsProvider.sendOtp(phone, issued.code);
+      } catch (error) {
+        console.error('OTP SMS delivery error:', error);
+        await otpModel.discard(phone, purpose);
+        res.status(502).json({
+          success: false,
+          message: 'Could not send the code. Please try again.'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: purpose === 'login' ? sentMessage : 'Verification code sent',
+        expiresAt: issued.expiresAt
+      });
+
+    } catch (error) {
+      console.error('OTP request error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Check a one-time code. Login returns tokens like password login; phone verification
+   * saves the number on the signed-in student as verified.
+   */
+  async verifyOtp(req: Request, res: Response): Promise<void> {
+    try {
+      const purpose: OtpPurpose = req.body.purpose === 'verify_phone' ? 'verify_phone' : 'login';
+      const phone = StudentOtp.normalizePhone(req.body.phone);
+
+      const result = await new StudentOtp().verify(phone, purpose, req.body.code);
+      if (result.status !== 'verified') {
+        const messages = {
+          invalid: 'Invalid code',
+          expired: 'The code has expired. Please request a new one.',
+          too_many_attempts: 'Too many wrong codes. Please request a new one.',
+          not_found: 'Invalid code'
+        };
+        res.status(result.status === 'too_many_attempts' ? 429 : 400).json({
+          success: false,
+          message: messages[result.status],
+          ...(result.status === 'invalid' ? { attemptsLeft: result.attemptsLeft } : {})
+        });
+        return;
+      }
+
+      if (purpose === 'verify_phone') {
+        if (!result.studentId || result.studentId !== req.user!.id) {
+          res.status(400).json({
+            success: false,
+            message: 'Invalid code'
+          });
+          return;
+        }
+
+        await dbManager.query(
+          'UPDATE students SET phone = $1, phone_verified = true, updated_at = NOW() WHERE id = $2',
+          [phone, result.studentId]
+        );
+
+        res.json({
+          success: true,
+          message: 'Phone number verified successfully'
+        });
+        return;
+      }
+
+      const studentResult = await dbManager.query(
+        `SELECT id, student_id, email, first_name, last_name, is_active, email_verified, account_locked_until
+         FROM students WHERE id = $1`,
+        [result.studentId]
+      );
+      const student = studentResult.rows[0];
+
+      if (!student || !student.is_active) {
+        res.status(403).json({
+          success: false,
+          message: 'Account is inactive'
+        });
+        return;
+      }
+
+      if (student.account_locked_until && new Date() < new Date(student.account_locked_until)) {
+        res.status(423).json({
+          success: false,
+          message: 'Account is temporarily locked due to multiple failed login attempts'
+        });
+        return;
+      }
+
+      // Receiving the code proves the student holds the number
+      await dbManager.query(
+        `UPDATE students SET phone_verified = true, failed_login_attempts = 0, account_locked_until = NULL, last_login_at = NOW()
+         WHERE id = $1`,
+        [student.id]
+      );
+
+      const { accessToken, refreshToken } = await this.issueTokens(student, req);
+
+      res.json({
+        success: true,
+        message: 'Login successful',
+        data: {
+          student: {
+            id: student.id,
+            student_id: student.student_id,
+            email: student.email,
+            first_name: student.first_name,
+            last_name: student.last_name,
+            is_active: student.is_active,
+            email_verified: student.email_verified
+          },
+          tokens: {
+            accessToken,
+            refreshToken
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('OTP verification error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Active student with this phone, preferring one who verified it. Unverified numbers shared
+   * by several accounts match nobody.
+   */
+  private async findStudentByPhone(phone: string): Promise<{ id: string } | null> {
+    const result = await dbManager.query(
+      `SELECT id, phone_verified FROM students
+       WHERE regexp_replace(phone, '[^0-9]', '', 'g') = $1 AND is_active = true
+       ORDER BY phone_verified DESC, created_at ASC
+       LIMIT 2`,
+      [phone.replace(/\D/g, '')]
+    );
+    const [first, second] = result.rows;
+    if (!first || (second && !first.phone_verified)) {
+      return null;
+    }
+    return { id: first.id };
+  }
+
+  /**
+   * Everything needed to finish a social sign-in, signed so the frontend can hold it between the
+   * redirect to the provider and the callback. Valid for 10 minutes.
+   */
+  signOidcState(payload: OidcStatePayload): string {
+    return jwt.sign({ ...payload, type: 'oidc_state' }, this.JWT_SECRET, { expiresIn: '10m' });
+  }
+
+  readOidcState(token: string): OidcStatePayload | null {
+    try {
+      const decoded = jwt.verify(token, this.JWT_SECRET) as any;
+      if (decoded.type !== 'oidc_state' || !decoded.provider || !decoded.state || !decoded.nonce || !decoded.codeVerifier) {
+        return null;
+      }
+      return {
+        provider: decoded.provider,
+        state: decoded.state,
+        nonce: decoded.nonce,
+        codeVerifier: decoded.codeVerifier,
+        studentId: decoded.studentId || null
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Start a social sign-in, or account linking when called for a signed-in student. The frontend
+   * redirects to authorization_url and sends state_token back with the code from the callback.
+   */
+  async startOidc(req: Request, res: Response): Promise<void> {
+    try {
+      const provider = this.getOidcProvider(req.params.provider);
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          message: 'Sign-in provider is not available'
+        });
+        return;
+      }
+
+      const payload: OidcStatePayload = {
+        provider: provider.name,
+        state: randomToken(),
+        nonce: randomToken(),
+        codeVerifier: randomToken(),
+        studentId: req.user?.id || null
+      };
+
+      res.json({
+        success: true,
+        data: {
+          authorization_url: await provider.authorizationUrl(payload),
+          state_token: this.signOidcState(payload)
+        }
+      });
+
+    } catch (error) {
+      console.error('OIDC start error:', error);
+      res.status(502).json({
+        success: false,
+        message: 'Sign-in provider could not be reached'
+      });
+    }
+  }
+
+  /**
+   * Finish a social sign-in. A linked account signs in its student; otherwise the provider's
+   * verified email links an existing student whose email is verified too, or creates a new one.
+   * Returns the same tokens as password login.
+   */
+  async completeOidcLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const checked = await this.checkOidcCallback(req, res, false);
+      if (!checked) {
+        return;
+      }
+      const { provider, claims } = checked;
+      const identities = new StudentIdentity();
+
+      let studentId = await identities.findStudentId(provider, claims.subject);
+      let created = false;
+
+      if (!studentId) {
+        if (!claims.email || !claims.emailVerified) {
+          res.status(400).json({
+            success: false,
+            message: 'Your account with this provider has no verified email address'
+          });
+          return;
+        }
+
+        const existing = await dbManager.query('SELECT id, email_verified FROM students WHERE LOWER(email) = $1', [claims.email]);
+        if (existing.rows.length > 0) {
+          // Whoever registered an unverified address may not own it; linking would hand the
+          // provider account to a password they chose
+          if (!existing.rows[0].email_verified) {
+            res.status(409).json({
+              success: false,
+              message: 'An account with this email exists but is not verified. Sign in with your password and link this provider from your profile'
+            });
+            return;
+          }
+          studentId = existing.rows[0].id as string;
+        } else {
+          // No usable password until the student sets one through password reset
+          const passwordHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 12);
+          const inserted = await dbManager.query(
+            `INSERT INTO students (
+              student_id, email, password_hash, has_password, first_name, last_name, profile_image,
+              is_active, email_verified, created_at, updated_at
+            ) VALUES ($1, $2, $3, false, $4, $5, $6, true, true, NOW(), NOW())
+            RETURNING id`,
+            [
+              await this.generateStudentId(), claims.email, passwordHash,
+              claims.givenName || claims.email.split('@')[0], claims.familyName || '', claims.picture
+            ]
+          );
+          studentId = inserted.rows[0].id as string;
+          created = true;
+        }
+
+        if (await identities.link(studentId!, provider, claims.subject, claims.email) === 'provider_in_use') {
+          res.status(409).json({
+            success: false,
+            message: 'This account is linked to a different sign-in with this provider'
+          });
+          return;
+        }
+
+        // The provider vouches for the address
+        await dbManager.query(
+          'UPDATE students SET email_verified = true, email_verification_token = NULL, updated_at = NOW() WHERE id = $1',
+          [studentId]
+        );
+      }
+
+      const studentResult = await dbManager.query(
+        `SELECT id, student_id, email, first_name, last_name, is_active, email_verified, account_locked_until
+         FROM students WHERE id = $1`,
+        [studentId]
+      );
+      const student = studentResult.rows[0];
+
+      if (!student || !student.is_active) {
+        res.status(403).json({
+          success: false,
+          message: 'Account is inactive'
+        });
+        return;
+      }
+
+      if (student.account_locked_until && new Date() < new Date(student.account_locked_until)) {
+        res.status(423).json({
+          success: false,
+          message: 'Account is temporarily locked due to multiple failed login attempts'
+        });
+        return;
+      }
+
+      await dbManager.query('UPDATE students SET last_login_at = NOW() WHERE id = $1', [student.id]);
+      await identities.recordLogin(provider, claims.subject);
+
+      const { accessToken, refreshToken } = await this.issueTokens(student, req);
+
+      res.status(created ? 201 : 200).json({
+        success: true,
+        message: created ? 'Student registered successfully' : 'Login successful',
+        data: {
+          student: {
+            id: student.id,
+            student_id: student.student_id,
+            email: student.email,
+            first_name: student.first_name,
+            last_name: student.last_name,
+            is_active: student.is_active,
+            email_verified: student.email_verified
+          },
+          tokens: {
+            accessToken,
+            refreshToken
+          },
+          created
+        }
+      });
+
+    } catch (error) {
+      console.error('OIDC login error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error during login'
+      });
+    }
+  }
+
+  /**
+   * Link a provider account to the signed-in student
+   */
+  async linkOidcIdentity(req: Request, res: Response): Promise<void> {
+    try {
+      const checked = await this.checkOidcCallback(req, res, true);
+      if (!checked) {
+        return;
+      }
+      const { provider, claims } = checked;
+
+      const result = await new StudentIdentity().link(req.user!.id, provider, claims.subject, claims.email);
+      if (result === 'taken' || result === 'provider_in_use') {
+        res.status(409).json({
+          success: false,
+          message: result === 'taken'
+            ? 'This account is already linked to another student'
+            : 'Unlink your current account with this provider first'
+        });
+        return;
+      }
+
+      res.status(result === 'linked' ? 201 : 200).json({
+        success: true,
+        message: 'Account linked successfully',
+        data: await new StudentIdentity().listForStudent(req.user!.id)
+      });
+
+    } catch (error) {
+      console.error('OIDC link error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  async listIdentities(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: await new StudentIdentity().listForStudent(req.user!.id)
+      });
+    } catch (error) {
+      console.error('List identities error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  async unlinkIdentity(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await new StudentIdentity().unlink(req.user!.id, req.params.provider as OidcProviderName);
+
+      if (result === 'not_found') {
+        res.status(404).json({
+          success: false,
+          message: 'No linked account for this provider'
+        });
+        return;
+      }
+      if (result === 'last_sign_in_method') {
+        res.status(409).json({
+          success: false,
+          message: 'Set a password before removing your only sign-in method'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Account unlinked successfully'
+      });
+
+    } catch (error) {
+      console.error('Unlink identity error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Checks the state token against the callback and redeems the code. Sends the error response
+   * and returns null when the callback cannot be trusted.
+   */
+  private async checkOidcCallback(req: Request, res: Response, linking: boolean) {
+    const provider = this.getOidcProvider(req.params.provider);
+    if (!provider) {
+      res.status(404).json({
+        success: false,
+        message: 'Sign-in provider is not available'
+      });
+      return null;
+    }
+
+    const state = this.readOidcState(req.body.state_token);
+    const expectedStudentId = linking ? req.user!.id : null;
+    if (!state || state.provider !== provider.name || state.state !== req.body.state || state.studentId !== expectedStudentId) {
+      res.status(400).json({
+        success: false,
+        message: 'Sign-in session expired or does not match. Please try again.'
+      });
+      return null;
+    }
+
+    try {
+      const claims = await provider.exchangeCode(req.body.code, { codeVerifier: state.codeVerifier, nonce: state.nonce });
+      return { provider: provider.name, claims };
+    } catch (error) {
+      console.error('OIDC code exchange error:', error);
+      res.status(401).json({
+        success: false,
+        message: 'Sign-in with the provider could not be verified'
+      });
+      return null;
+    }
+  }
+
   /**
    * Verify student session
    */
@@ -527,10 +1275,18 @@ export class StudentAuthService {
 
       const token = authHeader.substring(7);
       
-      // Verify access token
-      const decoded = jwt.verify(token, this.JWT_SECRET) as any;
-      
-      if (decoded.type !== 'student') {
+      // Verify access token and its session
+      const verified = await identityService.verifyAccessToken(token);
+
+      if (!verified) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid token'
+        });
+        return;
+      }
+
+      if (verified.principal.type !== 'student') {
         res.status(401).json({
           success: false,
           message: 'Invalid token type'
@@ -541,7 +1297,7 @@ export class StudentAuthService {
       // Get student data
       const studentResult = await dbManager.query(
         'SELECT id, student_id, email, first_name, last_name, is_active, email_verified FROM students WHERE id = $1',
-        [decoded.studentId]
+        [verified.principal.id]
       );
 
       if (studentResult.rows.length === 0) {
@@ -581,14 +1337,6 @@ export class StudentAuthService {
     } catch (error) {
       console.error('Session verification error:', error);
       
-      if (error instanceof jwt.JsonWebTokenError) {
-        res.status(401).json({
-          success: false,
-          message: 'Invalid token'
-        });
-        return;
-      }
-      
       res.status(500).json({
         success: false,
         message: 'Internal server error during session verification'
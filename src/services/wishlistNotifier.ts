@@ -0,0 +1,36 @@
+import { CoursePrice } from '../models/CoursePrice';
+import { Wishlist } from '../models/Wishlist';
+import { WishlistPriceDrop } from '../types';
+import handleSendEmail from './emailService';
+import { logger } from '../utils/logger';
+
+const formatPrice = (amount: number): string => `${CoursePrice.baseCurrency()} ${amount.toFixed(2)}`;
+
+const sendPriceDropEmail = (drop: WishlistPriceDrop): void => {
+  try {
+    const heading = drop.change === 'became_free' ? 'A Course You Saved Is Now Free' : 'Price Drop on a Course You Saved';
+    const message = drop.change === 'became_free'
+      ? `<strong>${drop.course_title}</strong> from your wishlist is now free. Enroll any time at no cost.`
+      : `<strong>${drop.course_title}</strong> from your wishlist is now <strong>${formatPrice(drop.price)}</strong>, down from ${formatPrice(drop.previous_price)}.`;
+    const html = `<html><body style=\"margin:0; padding:0; background:#f5f7fa; font-family:Arial, Helvetica, sans-serif;\"><div style=\"max-width:600px; margin:30px auto; background:white; border-radius:12px; overflow:hidden; box-shadow:0 4px 18px rgba(0,0,0,0.06);\"><div style=\"background:#1e3a8a; padding:22px; text-align:center;\"><img src=\"https://academy.zenow.in/zenow-academy-logo-medium.svg\" alt=\"Zenow Academy\" style=\"width:180px; filter:brightness(0) invert(1);\" /></div><div style=\"padding:30px; color:#333;\"><h2 style=\"color:#1e3a8a; margin-bottom:14px; text-align:center; font-size:24px;\">${heading}</h2><p style=\"font-size:15px; line-height:24px;\">Hello ${drop.student_first_name || 'there'},</p><p style=\"font-size:15px; line-height:24px;\">${message}</p><div style=\"text-align:center; margin-top:25px;\"><a href=\"https://academy.zenow.in/courses/${drop.course_slug}\" style=\"display:inline-block; padding:12px 24px; background:#1e3a8a; color:white; text-decoration:none; border-radius:8px; font-size:16px;\">View Course</a></div><p style=\"font-size:13px; line-height:20px; color:#888; margin-top:25px;\">You are receiving this because you saved this course to your wishlist. You can turn these emails off for the course from your wishlist.</p></div><div style=\"background:#f1f1f1; padding:15px; text-align:center; color:#888; font-size:13px;\">© 2025 Zenow Academy. All rights reserved.</div></div></body></html>`;
+    handleSendEmail(drop.student_email, `${heading} - ${drop.course_title}`, html).catch(() => {});
+  } catch {}
+};
+
+/**
+ * Emails students who saved a course (or any course, when no id is given) and asked to hear
+ * about price drops. Runs after course price edits; never throws, so callers need not wait.
+ */
+export const notifyWishlistPriceDrops = async (courseId?: string): Promise<number> => {
+  try {
+    const drops = await new Wishlist().collectPriceDrops(courseId);
+    drops.forEach(sendPriceDropEmail);
+    if (drops.length > 0) {
+      logger.info(`Sent ${drops.length} wishlist price drop email(s)`);
+    }
+    return drops.length;
+  } catch (error) {
+    console.error('Wishlist price drop notification failed:', error);
+    return 0;
+  }
+};
@@ -46,46 +46,441 @@ export interface Course {
   instructor_id?: string;
   prerequisites?: string;
   learning_outcomes?: string;
-  course_modules?: CourseModule[];
+  course_modules?: any[]; // Read-only snapshot of course_sections / course_modules
   tags?: string;
   rating?: number;
   total_ratings?: number;
   enrolled_students?: number;
   created_at: string;
   updated_at: string;
+  category_id?: string;
   field_name?: string;
   field_slug?: string;
   category_name?: string;
   category_slug?: string;
   instructor_name?: string;
   instructor_email?: string;
+  status?: CourseStatus;
+  publish_at?: string | null;
+  review_note?: string | null;
+  submitted_at?: string | null;
+  reviewed_at?: string | null;
 }
 
+// is_published is kept equal to (status === 'published')
+export type CourseStatus = 'draft' | 'in_review' | 'scheduled' | 'published' | 'archived';
+
+export type CourseStatusActorRole = 'admin' | 'instructor' | 'system';
+
+export interface CourseStatusChange {
+  id: string;
+  course_id: string;
+  from_status: CourseStatus | null;
+  to_status: CourseStatus;
+  comment?: string | null;
+  publish_at?: string | null;
+  changed_by?: string | null;
+  changed_by_role: CourseStatusActorRole;
+  changed_by_name?: string | null;
+  created_at: string;
+}
+
+export type CourseRevisionEntity = 'course' | 'module';
+
+export type CourseRevisionChangeType = 'baseline' | 'update' | 'restore';
+
+export interface CourseRevisionFieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface CourseRevisionEditor {
+  id?: string | null;
+  role: CourseStatusActorRole;
+}
+
+export interface CourseRevision {
+  id: string;
+  course_id: string;
+  entity_type: CourseRevisionEntity;
+  entity_id: string;
+  revision_number: number;
+  change_type: CourseRevisionChangeType;
+  snapshot?: Record<string, any>;
+  changes: CourseRevisionFieldChange[];
+  restored_from?: number | null;
+  edited_by?: string | null;
+  edited_by_role: CourseStatusActorRole;
+  edited_by_name?: string | null;
+  created_at: string;
+}
+
+export type ModuleType = 'video' | 'text' | 'quiz' | 'assignment';
+
+// A lesson; stored in course_modules and ordered within its section
 export interface CourseModule {
   id: string;
   course_id: string;
+  section_id?: string;
   title: string;
   description?: string;
-  content_type: 'video' | 'text' | 'quiz' | 'assignment';
-  content_url?: string;
+  module_type: ModuleType;
+  content_url?: string | null;
   duration_minutes?: number;
   sort_order: number;
-  is_published: boolean;
+  is_free: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CourseSection {
+  id: string;
+  course_id: string;
+  title: string;
+  description?: string;
+  sort_order: number;
+  lessons: CourseModule[];
   created_at: string;
   updated_at: string;
 }
 
+export interface CourseCurriculum {
+  course_id: string;
+  sections: CourseSection[];
+  total_lessons: number;
+  total_duration_minutes: number;
+}
+
+export type QuizQuestionType = 'single_choice' | 'multiple_choice' | 'true_false' | 'short_answer';
+
+export interface QuizOption {
+  id: string;
+  text: string;
+}
+
+export interface QuizQuestion {
+  id: string;
+  module_id: string;
+  question_type: QuizQuestionType;
+  prompt: string;
+  options?: QuizOption[] | null;
+  correct_answers?: Array<string | boolean>;
+  explanation?: string;
+  points: number;
+  sort_order: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface QuizSettings {
+  module_id: string;
+  passing_score: number;
+  max_attempts: number | null;
+  shuffle_questions: boolean;
+}
+
+// Answer per question id: option id, option ids, boolean or free text depending on the question type
+export type QuizAnswers = Record<string, string | string[] | boolean>;
+
+export interface QuizQuestionResult {
+  question_id: string;
+  correct: boolean;
+  points_awarded: number;
+  points_possible: number;
+}
+
+export interface QuizGradeResult {
+  results: QuizQuestionResult[];
+  points_earned: number;
+  points_possible: number;
+  score: number;
+  passed: boolean;
+}
+
+export interface QuizAttempt {
+  id: string;
+  module_id: string;
+  student_id: string;
+  enrollment_id?: string;
+  status: 'in_progress' | 'submitted';
+  question_ids: string[];
+  answers?: QuizAnswers | null;
+  results?: QuizQuestionResult[] | null;
+  points_earned: number;
+  points_possible: number;
+  score?: number | null;
+  passed: boolean;
+  started_at: string;
+  submitted_at?: string | null;
+}
+
+export interface AssignmentSettings {
+  module_id: string;
+  instructions?: string | null;
+  due_at?: string | null;
+  allow_late: boolean;
+  max_submissions: number | null;
+  resubmit_after_grading: boolean;
+  max_score: number;
+}
+
+export interface AssignmentAttachment {
+  url: string;
+  filename: string;
+  content_type?: string;
+  size?: number;
+}
+
+export type AssignmentSubmissionStatus = 'submitted' | 'graded' | 'returned';
+
+export interface AssignmentSubmission {
+  id: string;
+  module_id: string;
+  student_id: string;
+  enrollment_id?: string;
+  attempt_number: number;
+  submission_text?: string | null;
+  attachments: AssignmentAttachment[];
+  status: AssignmentSubmissionStatus;
+  is_late: boolean;
+  submitted_at: string;
+  score?: number | null;
+  feedback?: string | null;
+  graded_by?: string | null;
+  graded_at?: string | null;
+}
+
+// Portable course format: ids are left out and the field is referenced by slug,
+// so a template exported from one database can be imported into another
+export interface CourseTemplateLesson {
+  title: string;
+  description?: string | null;
+  module_type: string;
+  content_url?: string | null;
+  duration_minutes: number;
+  is_free: boolean;
+  quiz?: {
+    settings: Omit<QuizSettings, 'module_id'> | null;
+    questions: Array<Omit<QuizQuestion, 'id' | 'module_id' | 'created_at' | 'updated_at'>>;
+  };
+  assignment?: Omit<AssignmentSettings, 'module_id'>;
+}
+
+export interface CourseTemplateSection {
+  title: string;
+  description?: string | null;
+  lessons: CourseTemplateLesson[];
+}
+
+export interface CourseTemplate {
+  format: 'zenow-course';
+  version: 1;
+  exported_at: string;
+  course: {
+    category_slug: string;
+    field_slug: string;
+    title: string;
+    slug: string;
+    description?: string | null;
+    short_description?: string | null;
+    banner_image?: string | null;
+    thumbnail_image?: string | null;
+    duration_hours: number;
+    difficulty_level: string;
+    price: number;
+    is_free: boolean;
+    instructor_email?: string | null;
+    prerequisites?: string | null;
+    learning_outcomes?: any;
+    tags?: string[] | null;
+    prices: Array<{ currency: string; amount: number }>;
+  };
+  sections: CourseTemplateSection[];
+  // Every image and lesson URL in the template, for copying the files between storage buckets
+  media: string[];
+}
+
+export type CertificateStatus = 'active' | 'revoked' | 'reissued';
+
+export interface Certificate {
+  id: string;
+  verification_code: string;
+  enrollment_id?: string | null;
+  student_id: string;
+  course_id: string;
+  student_name: string;
+  course_title: string;
+  instructor_name?: string | null;
+  completion_date: string;
+  issued_at: string;
+  status: CertificateStatus;
+  revoked_at?: string | null;
+  revoked_by?: string | null;
+  revocation_reason?: string | null;
+  reissued_from?: string | null;
+}
+
+export type PaymentProviderName = 'stripe' | 'paypal' | 'fake';
+export type OrderItemType = 'course' | 'bundle';
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'cancelled' | 'refunded';
+
+export interface Order {
+  id: string;
+  order_number: string;
+  student_id: string;
+  item_type: OrderItemType;
+  course_id?: string | null;
+  bundle_id?: string | null;
+  item_title: string;
+  amount: string;
+  currency: string;
+  status: OrderStatus;
+  provider: PaymentProviderName;
+  provider_reference?: string | null;
+  failure_reason?: string | null;
+  enrollment_id?: string | null;
+  subtotal_amount?: string | null;
+  discount_amount?: string | null;
+  coupon_id?: string | null;
+  billing_country?: string | null;
+  billing_state?: string | null;
+  tax_amount?: string | null;
+  paid_at?: string | null;
+  refunded_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CoursePrice {
+  id: string;
+  course_id?: string | null;
+  bundle_id?: string | null;
+  currency: string;
+  amount: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type InvoiceTaxType = 'intra_state' | 'inter_state' | 'export';
+
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  financial_year: string;
+  order_id?: string | null;
+  student_id?: string | null;
+  billing_name: string;
+  billing_email?: string | null;
+  billing_country?: string | null;
+  billing_state?: string | null;
+  item_type: OrderItemType;
+  item_title: string;
+  currency: string;
+  subtotal_amount: string;
+  discount_amount: string;
+  taxable_amount: string;
+  tax_type: InvoiceTaxType;
+  tax_rate: string;
+  cgst_amount: string;
+  sgst_amount: string;
+  igst_amount: string;
+  tax_amount: string;
+  total_amount: string;
+  payment_provider?: string | null;
+  issued_at: string;
+  order_number?: string;
+}
+
+export type RefundRequestStatus = 'pending' | 'processing' | 'approved' | 'denied';
+
+export interface RefundRequest {
+  id: string;
+  order_id: string;
+  student_id: string;
+  reason: string;
+  status: RefundRequestStatus;
+  admin_note?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  provider_refund_id?: string | null;
+  failure_reason?: string | null;
+  created_at: string;
+  updated_at: string;
+  order_number?: string;
+  item_title?: string;
+  amount?: string;
+  currency?: string;
+}
+
+export type CouponDiscountType = 'percentage' | 'fixed';
+export type CouponScopeType = 'all' | 'course' | 'bundle' | 'field' | 'category';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description?: string | null;
+  discount_type: CouponDiscountType;
+  discount_value: string;
+  max_discount_amount?: string | null;
+  min_order_amount?: string | null;
+  scope_type: CouponScopeType;
+  scope_id?: string | null;
+  currency?: string | null;
+  starts_at?: string | null;
+  expires_at?: string | null;
+  max_redemptions?: number | null;
+  max_redemptions_per_student?: number | null;
+  first_purchase_only: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PriceQuote {
+  item_type: OrderItemType;
+  item_id: string;
+  item_title: string;
+  currency: string;
+  subtotal: number;
+  discount: number;
+  total: number;
+  tax: {
+    type: InvoiceTaxType;
+    rate: number;
+    amount: number;
+    inclusive: true;
+  };
+  coupon: { id: string; code: string; description?: string | null } | null;
+}
+
 export interface CourseBundle {
   id: string;
-  name: string;
+  title: string;
   slug: string;
-  description: string;
+  description?: string;
+  short_description?: string;
   banner_image?: string;
   thumbnail_image?: string;
-  price: number;
+  total_duration_hours?: number;
+  difficulty_level?: string;
+  bundle_price: number;
+  individual_price: number;
+  discount_percentage: number;
   is_published: boolean;
+  instructor_id?: string;
+  prerequisites?: string;
+  learning_outcomes?: string[];
+  tags?: string[];
+  rating?: number;
+  total_ratings?: number;
+  enrolled_students?: number;
   created_at: string;
   updated_at: string;
+  course_count?: number;
+  savings_amount?: number;
+  savings_percentage?: number;
+  courses?: Course[];
 }
 
 export interface BundleCourse {
@@ -96,6 +491,21 @@ export interface BundleCourse {
   created_at: string;
 }
 
+export type SmsProviderName = 'fast2sms' | 'fake';
+
+export type OtpPurpose = 'login' | 'verify_phone';
+
+// 'oidc' is a generic OpenID Connect provider configured through OIDC_* settings
+export type OidcProviderName = 'google' | 'oidc';
+
+// An external sign-in account linked to a student
+export interface StudentIdentity {
+  provider: OidcProviderName;
+  email: string | null;
+  last_login_at: string | null;
+  created_at: string;
+}
+
 export interface User {
   id: string;
   email: string;
@@ -118,6 +528,65 @@ export interface Enrollment {
   progress_percentage: number;
 }
 
+// A course a student saved for later, with the catalog summary of the course
+export interface WishlistItem extends Course {
+  notify_price_drop: boolean;
+  saved_at: string;
+}
+
+export type WishlistPriceChange = 'price_drop' | 'became_free';
+
+export interface WishlistPriceDrop {
+  student_email: string;
+  student_first_name: string;
+  course_id: string;
+  course_title: string;
+  course_slug: string;
+  change: WishlistPriceChange;
+  previous_price: number;
+  price: number;
+}
+
+export type RecommendationReason = 'interests' | 'learning_goals' | 'same_field' | 'same_category' | 'also_taken' | 'popular';
+
+export interface RecommendedCourse extends Course {
+  recommendation_score: number;
+  recommendation_reasons: RecommendationReason[];
+}
+
+export type ReviewStatus = 'visible' | 'flagged' | 'hidden';
+
+export interface CourseReview {
+  id: string;
+  user_id?: string;
+  course_id: string;
+  rating: number;
+  review_text?: string;
+  is_verified_purchase: boolean;
+  status?: ReviewStatus;
+  moderation_reason?: string;
+  moderated_by?: string;
+  moderated_at?: string;
+  student_first_name?: string;
+  student_last_initial?: string;
+  student_profile_image?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RatingSummary {
+  average: number;
+  total: number;
+  histogram: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface CreateReviewRequest {
+  rating: number;
+  review_text?: string;
+}
+
+export interface UpdateReviewRequest extends Partial<CreateReviewRequest> {}
+
 // API Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -128,13 +597,64 @@ export interface ApiResponse<T = any> {
   timestamp?: string;
 }
 
+export interface PagePagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface CursorPagination {
+  limit: number;
+  sort: string;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
+  pagination: PagePagination | CursorPagination;
+}
+
+// Course Search Types
+export interface FacetBucket {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+export interface CourseSearchFacets {
+  difficulty_level: FacetBucket[];
+  is_free: FacetBucket[];
+  price: FacetBucket[];
+  category: FacetBucket[];
+  field: FacetBucket[];
+}
+
+export interface CourseSearchResult {
+  courses: Course[];
+  total: number;
+  facets: CourseSearchFacets;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export type CatalogEntity = 'categories' | 'fields' | 'courses';
+
+export interface CatalogImportRow {
+  // Line in the uploaded file, counting the header as line 1
+  line: number;
+  slug: string | null;
+  action: 'create' | 'update' | 'error';
+  errors?: string[];
+}
+
+export interface CatalogImportResult {
+  entity: CatalogEntity;
+  dry_run: boolean;
+  total_rows: number;
+  created: number;
+  updated: number;
+  rows: CatalogImportRow[];
 }
 
 // Request/Response Types
@@ -191,19 +711,167 @@ export interface UpdateCourseRequest extends Partial<CreateCourseRequest> {
   id: string;
 }
 
+// Instructors cannot publish or reassign a course; they submit it for review instead
+export interface InstructorCourseRequest {
+  field_id: string;
+  title: string;
+  slug?: string;
+  description?: string | null;
+  short_description?: string | null;
+  banner_image?: string | null;
+  thumbnail_image?: string | null;
+  duration_hours?: number;
+  difficulty_level?: 'beginner' | 'intermediate' | 'advanced';
+  price?: number;
+  is_free?: boolean;
+  prerequisites?: string | null;
+  learning_outcomes?: string[] | null;
+  tags?: string[] | string | null;
+}
+
+export interface CourseReviewDecisionRequest {
+  decision: 'approve' | 'request_changes';
+  note?: string;
+  // Approve into 'scheduled' instead of publishing right away
+  publish_at?: string;
+}
+
+export interface ChangeCourseStatusRequest {
+  status: CourseStatus;
+  comment?: string;
+  publish_at?: string;
+}
+
+export interface CreateBundleRequest {
+  title: string;
+  slug?: string;
+  description?: string;
+  short_description?: string;
+  banner_image?: string;
+  thumbnail_image?: string;
+  difficulty_level?: string;
+  bundle_price: number;
+  is_published?: boolean;
+  instructor_id?: string;
+  prerequisites?: string;
+  learning_outcomes?: string[];
+  tags?: string[] | string;
+  course_ids?: string[];
+}
+
+export interface UpdateBundleRequest extends Partial<CreateBundleRequest> {}
+
+export interface CreateSectionRequest {
+  title: string;
+  description?: string;
+}
+
+export interface UpdateSectionRequest extends Partial<CreateSectionRequest> {}
+
 export interface CreateModuleRequest {
-  course_id: string;
+  section_id?: string;
   title: string;
   description?: string;
-  content_type: 'video' | 'text' | 'quiz' | 'assignment';
+  module_type?: ModuleType;
   content_url?: string;
   duration_minutes?: number;
+  is_free?: boolean;
+}
+
+export interface UpdateModuleRequest extends Partial<CreateModuleRequest> {}
+
+export interface CreateQuizQuestionRequest {
+  question_type: QuizQuestionType;
+  prompt: string;
+  options?: QuizOption[];
+  correct_answers: Array<string | boolean>;
+  explanation?: string;
+  points?: number;
   sort_order?: number;
-  is_published?: boolean;
 }
 
-export interface UpdateModuleRequest extends Partial<CreateModuleRequest> {
-  id: string;
+export interface UpdateQuizQuestionRequest extends Partial<CreateQuizQuestionRequest> {}
+
+export interface UpdateQuizSettingsRequest {
+  passing_score?: number;
+  max_attempts?: number | null;
+  shuffle_questions?: boolean;
+}
+
+export interface UpdateAssignmentSettingsRequest {
+  instructions?: string | null;
+  due_at?: string | null;
+  allow_late?: boolean;
+  max_submissions?: number | null;
+  resubmit_after_grading?: boolean;
+  max_score?: number;
+}
+
+export interface CreateAssignmentSubmissionRequest {
+  submission_text?: string;
+  attachments?: AssignmentAttachment[];
+}
+
+export interface GradeAssignmentRequest {
+  score: number;
+  feedback?: string;
+  status?: 'graded' | 'returned';
+}
+
+export interface PriceQuoteRequest {
+  item_type: OrderItemType;
+  item_id: string;
+  coupon_code?: string;
+}
+
+export interface CreateCheckoutRequest extends PriceQuoteRequest {
+  provider: PaymentProviderName;
+}
+
+export interface CreateCouponRequest {
+  code: string;
+  description?: string | null;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  max_discount_amount?: number | null;
+  min_order_amount?: number | null;
+  scope_type?: CouponScopeType;
+  scope_id?: string | null;
+  currency?: string | null;
+  starts_at?: string | null;
+  expires_at?: string | null;
+  max_redemptions?: number | null;
+  max_redemptions_per_student?: number | null;
+  first_purchase_only?: boolean;
+  is_active?: boolean;
+}
+
+export type UpdateCouponRequest = Partial<CreateCouponRequest>;
+
+export interface SetItemPricesRequest {
+  prices: { currency: string; amount: number }[];
+}
+
+export interface CreateRefundRequest {
+  reason: string;
+}
+
+export interface RefundDecisionRequest {
+  note?: string;
+}
+
+export interface RevokeCertificateRequest {
+  reason: string;
+}
+
+export interface AddWishlistRequest {
+  course_id: string;
+  notify_price_drop?: boolean;
+}
+
+// Drag-and-drop payload: every section of the course in order, each with every lesson it should hold
+export interface CurriculumOrderRequest {
+  sections: { id: string; lessons: string[] }[];
 }
 
 // Admin Statistics
@@ -218,10 +886,32 @@ export interface AdminStats {
 }
 
 // Authentication Types
+export type PrincipalType = 'student' | 'instructor' | 'admin' | 'superuser';
+
+// Anyone who can sign in: a student, or a staff user (instructor, admin, superuser)
+export interface Principal {
+  type: PrincipalType;
+  id: string;
+  email?: string | null;
+  username?: string | null;
+}
+
 export interface AuthUser {
   id: string;
   email: string;
-  role: 'student' | 'instructor' | 'admin' | 'superuser';
+  role: PrincipalType;
+  // Identity session the request was authenticated with
+  sessionId?: string;
+}
+
+export interface IdentitySession {
+  session_id: string;
+  principal_type: PrincipalType;
+  principal_id: string;
+  refresh_token_hash?: string | null;
+  created_at: string;
+  last_activity: string;
+  expires_at: string;
 }
 
 export interface LoginRequest {
@@ -238,6 +928,16 @@ export interface LoginResponse {
   error?: string;
 }
 
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+export interface AdminTwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  recovery_codes_remaining: number;
+  // ADMIN_2FA_REQUIRED: sign-in cannot finish without 2FA, and it cannot be turned off
+  required: boolean;
+}
+
 // Database Connection Types
 export interface DatabaseConfig {
   connectionString: string;
@@ -249,6 +949,8 @@ declare global {
   namespace Express {
     interface Request {
       user?: AuthUser;
+      // Unparsed JSON body, kept for payment webhook signature checks
+      rawBody?: Buffer;
     }
   }
 }
@@ -179,14 +179,23 @@ export class CacheManager {
     return await this.get('fields:all');
   }
 
-  public async cacheCourses(courses: any[], filters?: any): Promise<void> {
-    const key = filters ? `courses:filtered:${JSON.stringify(filters)}` : 'courses:all';
-    await this.set(key, courses, 900); // 15 minutes
+  // Pages are keyed under a versioned prefix so entries cached as plain arrays before cursor
+  // pagination are never read back as a page
+  public async cacheCoursePage(page: any, filters: any): Promise<void> {
+    await this.set(`courses:page:v2:${JSON.stringify(filters)}`, page, 900); // 15 minutes
   }
 
-  public async getCachedCourses(filters?: any): Promise<any[] | null> {
-    const key = filters ? `courses:filtered:${JSON.stringify(filters)}` : 'courses:all';
-    return await this.get(key);
+  public async getCachedCoursePage(filters: any): Promise<any | null> {
+    return await this.get(`courses:page:v2:${JSON.stringify(filters)}`);
+  }
+
+  // v2: next cursors are (rank, id) keysets instead of offsets
+  public async cacheCourseSearch(result: any, filters: any): Promise<void> {
+    await this.set(`courses:search:v2:${JSON.stringify(filters)}`, result, 300); // 5 minutes
+  }
+
+  public async getCachedCourseSearch(filters: any): Promise<any | null> {
+    return await this.get(`courses:search:v2:${JSON.stringify(filters)}`);
   }
 
   public async cacheCourse(courseId: number, course: any): Promise<void> {
@@ -0,0 +1,101 @@
+/**
+ * Minimal RFC 4180 CSV helpers for admin imports and exports
+ */
+
+// Spreadsheets evaluate a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+/**
+ * Quotes a cell when needed. Text that a spreadsheet would run as a formula (names and emails come
+ * from students) gets a leading apostrophe; plain numbers such as -10.00 are left alone.
+ */
+export const escapeCsv = (value: unknown): string => {
+  let text = value === null || value === undefined ? '' : String(value instanceof Date ? value.toISOString() : value);
+  if (FORMULA_PREFIX.test(text) && !NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Header line plus one line per row, CRLF-terminated as spreadsheet tools expect
+ */
+export const toCsv = (columns: readonly string[], rows: Record<string, unknown>[]): string => {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => escapeCsv(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with commas, doubled quotes and
+ * line breaks, CRLF or LF line endings and a leading byte order mark; blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted cell');
+  }
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
+
+// Drops the apostrophe escapeCsv puts before formula characters, so exports import unchanged
+const unescapeFormula = (cell: string): string =>
+  cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell;
+
+/**
+ * Turns parsed rows into objects keyed by the (trimmed) header row
+ */
+export const csvToRecords = (rows: string[][]): { headers: string[]; records: Record<string, string>[] } => {
+  const [headerRow = [], ...dataRows] = rows;
+  const headers = headerRow.map(header => header.trim());
+  const records = dataRows.map(cells =>
+    Object.fromEntries(headers.map((header, index) => [header, unescapeFormula(cells[index] ?? '')]))
+  );
+  return { headers, records };
+};
@@ -0,0 +1,143 @@
+import { ValidationError } from '../middleware/errorHandler';
+
+// Keyset (cursor) pagination helpers for catalog listings.
+// A cursor records the sort key and id of the last row served, so rows
+// inserted mid-scroll never shift later pages or cause duplicates.
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+export type CourseSort = 'newest' | 'price_asc' | 'price_desc' | 'rating' | 'enrolled_students' | 'title';
+
+export interface KeysetSort {
+  // SQL expressions compared as a row value; the last one must be unique (the id)
+  columns: string[];
+  // SQL types used to cast cursor values back before comparing
+  types: string[];
+  direction: 'ASC' | 'DESC';
+}
+
+export const COURSE_SORTS: Record<CourseSort, KeysetSort> = {
+  newest: { columns: ['c.created_at', 'c.id'], types: ['TIMESTAMP', 'INT8'], direction: 'DESC' },
+  price_asc: { columns: ['c.price', 'c.id'], types: ['DECIMAL', 'INT8'], direction: 'ASC' },
+  price_desc: { columns: ['c.price', 'c.id'], types: ['DECIMAL', 'INT8'], direction: 'DESC' },
+  rating: { columns: ['COALESCE(c.rating, 0)', 'c.id'], types: ['DECIMAL', 'INT8'], direction: 'DESC' },
+  enrolled_students: { columns: ['COALESCE(c.enrolled_students, 0)', 'c.id'], types: ['INT8', 'INT8'], direction: 'DESC' },
+  title: { columns: ['c.title', 'c.id'], types: ['TEXT', 'INT8'], direction: 'ASC' }
+};
+
+export const FIELD_SORT: KeysetSort = {
+  columns: ['COALESCE(f.sort_order, 0)', 'f.name', 'f.id'],
+  types: ['INT8', 'TEXT', 'INT8'],
+  direction: 'ASC'
+};
+
+export interface CursorPayload {
+  // Sort the cursor was issued for; a cursor cannot be replayed against another sort
+  s: string;
+  // Keyset values of the last row, as text
+  v: string[];
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export const parseCourseSort = (value: unknown, fallback: CourseSort = 'newest'): CourseSort => {
+  if (value === undefined || value === null || value === '') {
+    return fallback;
+  }
+  if (typeof value !== 'string' || !(value in COURSE_SORTS)) {
+    throw new ValidationError(`Invalid sort. Must be one of: ${Object.keys(COURSE_SORTS).join(', ')}`);
+  }
+  return value as CourseSort;
+};
+
+export const parseLimit = (value: unknown): number => {
+  const limit = parseInt(value as string);
+  if (isNaN(limit) || limit < 1) {
+    return DEFAULT_PAGE_LIMIT;
+  }
+  return Math.min(limit, MAX_PAGE_LIMIT);
+};
+
+export const encodeCursor = (payload: CursorPayload): string => {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+export const decodeCursor = (cursor: unknown, sort: string): CursorPayload | null => {
+  if (cursor === undefined || cursor === null || cursor === '') {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    const validKeyset = Array.isArray(payload.v) && payload.v.every((value: unknown) => typeof value === 'string');
+
+    if (payload.s !== sort || !validKeyset) {
+      throw new Error('Cursor does not match request');
+    }
+    return payload;
+  } catch {
+    throw new ValidationError('Invalid or expired cursor');
+  }
+};
+
+/**
+ * Builds the "after cursor" predicate for a keyset sort and appends its values.
+ * Returns an empty string when there is no cursor.
+ */
+export const buildKeysetCondition = (sort: KeysetSort, cursor: CursorPayload | null, values: any[]): string => {
+  if (!cursor) {
+    return '';
+  }
+  if (cursor.v.length !== sort.columns.length) {
+    throw new ValidationError('Invalid or expired cursor');
+  }
+
+  const placeholders = cursor.v.map((value, index) => {
+    values.push(value);
+    return `$${values.length}::${sort.types[index]}`;
+  });
+  const operator = sort.direction === 'DESC' ? '<' : '>';
+
+  return ` AND (${sort.columns.join(', ')}) ${operator} (${placeholders.join(', ')})`;
+};
+
+export const buildKeysetOrder = (sort: KeysetSort): string => {
+  return sort.columns.map(column => `${column} ${sort.direction}`).join(', ');
+};
+
+/**
+ * Selects the keyset values as text so the cursor round-trips without precision loss
+ * (JS Dates drop the microseconds CockroachDB stores).
+ */
+export const buildKeysetSelect = (sort: KeysetSort): string => {
+  return sort.columns.map((column, index) => `(${column})::TEXT as cursor_key_${index}`).join(', ');
+};
+
+/**
+ * Trims the look-ahead row fetched with LIMIT n + 1, strips the cursor_key_* columns
+ * and encodes the cursor for the next page.
+ */
+export const toKeysetPage = <T>(rows: any[], limit: number, sortName: string, sort: KeysetSort): CursorPage<T> => {
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  const items = pageRows.map(row => {
+    const item = { ...row };
+    sort.columns.forEach((_, index) => delete item[`cursor_key_${index}`]);
+    return item as T;
+  });
+
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore && last
+      ? encodeCursor({ s: sortName, v: sort.columns.map((_, index) => last[`cursor_key_${index}`]) })
+      : null
+  };
+};
@@ -29,6 +29,12 @@ export const getUserByUsername = async (username: string): Promise<any> => {
   return res.rows[0] || null;
 };
 
+export const getUserById = async (id: string): Promise<any> => {
+  const client = await getClient();
+  const res = await client.query('SELECT * FROM users WHERE id = $1 LIMIT 1', [id]);
+  return res.rows[0] || null;
+};
+
 export const createUser = async ({ username, password, role = 'user' }: { username: string; password: string; role?: string }): Promise<any> => {
   const client = await getClient();
   const res = await client.query(
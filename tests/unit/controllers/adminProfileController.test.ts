@@ -0,0 +1,78 @@
+import bcrypt from 'bcryptjs';
+import { changeAdminPassword } from '../../../src/controllers/adminProfileController';
+import { identityService } from '../../../src/services/identityService';
+import { dbManager } from '../../../src/utils/databaseManager';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/services/identityService', () => ({
+  identityService: {
+    revokeAllSessions: jest.fn().mockResolvedValue(2),
+  },
+}));
+
+jest.mock('../../../src/services/securityMonitor', () => ({
+  SecurityMonitor: jest.fn().mockImplementation(() => ({
+    logSecurityEvent: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn() },
+}));
+
+const mockResponse = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+describe('changeAdminPassword', () => {
+  const mockQuery = dbManager.query as jest.MockedFunction<typeof dbManager.query>;
+  const request = (body: Record<string, string>) => ({
+    user: { id: 'admin-1', email: '', role: 'admin', sessionId: 'session-1' },
+    body,
+    ip: '10.0.0.1',
+    get: () => 'jest'
+  } as any);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const password = await bcrypt.hash('old-password', 4);
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ id: 'admin-1', username: 'ops', password }] } as any)
+      .mockResolvedValue({ rows: [] } as any);
+  });
+
+  it('should sign out every other session once the password is changed', async () => {
+    const res = mockResponse();
+
+    await changeAdminPassword(
+      request({ current_password: 'old-password', new_password: 'new-password', confirm_password: 'new-password' }),
+      res
+    );
+
+    expect(mockQuery.mock.calls[1][0]).toContain('UPDATE users');
+    expect(identityService.revokeAllSessions).toHaveBeenCalledWith('admin-1', 'Password changed', 'session-1');
+    expect(res.json).toHaveBeenCalledWith({ success: true, message: 'Password changed successfully' });
+  });
+
+  it('should keep the sessions when the current password is wrong', async () => {
+    const res = mockResponse();
+
+    await changeAdminPassword(
+      request({ current_password: 'guess', new_password: 'new-password', confirm_password: 'new-password' }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(identityService.revokeAllSessions).not.toHaveBeenCalled();
+  });
+});
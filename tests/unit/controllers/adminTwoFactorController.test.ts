@@ -0,0 +1,74 @@
+import { disableMyTwoFactor, setTwoFactorRateLimitService } from '../../../src/controllers/adminTwoFactorController';
+import { AdminTwoFactor } from '../../../src/models/AdminTwoFactor';
+import { RateLimitService } from '../../../src/services/rateLimitService';
+
+const mockLogSecurityEvent = jest.fn().mockResolvedValue(undefined);
+
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/services/securityMonitor', () => ({
+  SecurityMonitor: jest.fn().mockImplementation(() => ({
+    logSecurityEvent: (...args: unknown[]) => mockLogSecurityEvent(...args),
+  })),
+}));
+
+const mockResponse = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+// asyncHandler does not return its promise; resolves with what reached next()
+const run = (handler: any, req: any, res: any): Promise<any> =>
+  new Promise(resolve => {
+    handler(req, res, resolve);
+    res.json.mockImplementation(() => resolve(undefined));
+  });
+
+describe('adminTwoFactorController', () => {
+  const rateLimitService = { checkRateLimit: jest.fn() };
+  const request = () => ({
+    user: { id: 'admin-1', email: '', role: 'admin', sessionId: 'session-1' },
+    body: { code: '123456' },
+    ip: '10.0.0.1',
+    get: () => 'jest'
+  } as any);
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    setTwoFactorRateLimitService(rateLimitService as unknown as RateLimitService);
+    rateLimitService.checkRateLimit.mockResolvedValue({ allowed: true });
+    jest.spyOn(AdminTwoFactor, 'isRequired').mockReturnValue(false);
+  });
+
+  it('should count code checks against the two_factor limit and log failures', async () => {
+    jest.spyOn(AdminTwoFactor.prototype, 'verify').mockResolvedValue(null);
+
+    const error = await run(disableMyTwoFactor, request(), mockResponse());
+
+    expect(rateLimitService.checkRateLimit).toHaveBeenCalledWith('admin:admin-1', 'two_factor', '10.0.0.1');
+    expect(error.statusCode).toBe(401);
+    expect(mockLogSecurityEvent).toHaveBeenCalledWith(
+      'TWO_FACTOR_FAILED', { userId: 'admin-1', ip: '10.0.0.1' }, 'MEDIUM', '10.0.0.1', 'jest'
+    );
+  });
+
+  it('should not check the code once the limit is reached', async () => {
+    rateLimitService.checkRateLimit.mockResolvedValue({ allowed: false });
+    const verify = jest.spyOn(AdminTwoFactor.prototype, 'verify');
+    const disable = jest.spyOn(AdminTwoFactor.prototype, 'disable');
+
+    const error = await run(disableMyTwoFactor, request(), mockResponse());
+
+    expect(error.statusCode).toBe(429);
+    expect(verify).not.toHaveBeenCalled();
+    expect(disable).not.toHaveBeenCalled();
+  });
+});
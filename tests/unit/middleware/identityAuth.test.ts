@@ -0,0 +1,88 @@
+import { authenticateIdentity } from '../../../src/middleware/identityAuth';
+import { identityService } from '../../../src/services/identityService';
+
+jest.mock('../../../src/services/identityService', () => ({
+  identityService: {
+    verifyAccessToken: jest.fn(),
+    checkRateLimit: jest.fn(),
+  },
+}));
+
+const mockResponse = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  res.set = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+describe('authenticateIdentity', () => {
+  const verifyAccessToken = identityService.verifyAccessToken as jest.Mock;
+  const checkRateLimit = identityService.checkRateLimit as jest.Mock;
+  const requireAdmin = authenticateIdentity({
+    source: 'bearer',
+    types: ['admin', 'superuser'],
+    forbidden: { status: 403, error: 'Admin access required' }
+  });
+  const bearer = (token: string) => ({ headers: { authorization: `Bearer ${token}` }, ip: '10.0.0.1' } as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    checkRateLimit.mockResolvedValue({ allowed: true });
+  });
+
+  it('should set req.user from the verified principal', async () => {
+    verifyAccessToken.mockResolvedValue({
+      principal: { type: 'admin', id: 'admin-1', email: 'ops@example.com' },
+      sessionId: 'session-1',
+      fingerprintHash: null
+    });
+    const req = bearer('token-1');
+    const next = jest.fn();
+
+    await requireAdmin(req, mockResponse(), next);
+
+    expect(verifyAccessToken).toHaveBeenCalledWith('token-1');
+    expect(req.user).toEqual({ id: 'admin-1', email: 'ops@example.com', role: 'admin', sessionId: 'session-1' });
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should read the cookie for cookie routes', async () => {
+    verifyAccessToken.mockResolvedValue(null);
+    const res = mockResponse();
+
+    await authenticateIdentity({ source: 'cookie' })({ headers: {}, cookies: { token: 'cookie-token' } } as any, res, jest.fn());
+
+    expect(verifyAccessToken).toHaveBeenCalledWith('cookie-token');
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Invalid token' });
+  });
+
+  it('should answer 401 without a token and the configured error for another principal type', async () => {
+    const missing = mockResponse();
+    await requireAdmin({ headers: {} } as any, missing, jest.fn());
+    expect(missing.status).toHaveBeenCalledWith(401);
+    expect(missing.json).toHaveBeenCalledWith({ error: 'No token provided' });
+
+    verifyAccessToken.mockResolvedValue({ principal: { type: 'student', id: 'student-1' }, sessionId: 'session-1' });
+    const wrongType = mockResponse();
+    const next = jest.fn();
+    await requireAdmin(bearer('token-1'), wrongType, next);
+    expect(wrongType.status).toHaveBeenCalledWith(403);
+    expect(wrongType.json).toHaveBeenCalledWith({ error: 'Admin access required' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should answer 429 once the principal is over its rate limit', async () => {
+    verifyAccessToken.mockResolvedValue({ principal: { type: 'admin', id: 'admin-1' }, sessionId: 'session-1' });
+    checkRateLimit.mockResolvedValue({ allowed: false, resetTime: Date.now() + 30000 });
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await requireAdmin(bearer('token-1'), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.set).toHaveBeenCalledWith('Retry-After', '30');
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import { AdminTwoFactor } from '../../../src/models/AdminTwoFactor';
+import { dbManager } from '../../../src/utils/databaseManager';
+import { timeStep, totp } from '../../../src/utils/totp';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const mockDbManager = dbManager as jest.Mocked<typeof dbManager>;
+
+describe('AdminTwoFactor Model', () => {
+  const client = { query: jest.fn() };
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDbManager.transaction.mockImplementation(async (callback: any) => callback(client));
+  });
+
+  describe('secrets and recovery codes', () => {
+    it('should encrypt secrets so only this server can read them back', () => {
+      const stored = AdminTwoFactor.encryptSecret(secret);
+
+      expect(stored).not.toContain(secret);
+      expect(AdminTwoFactor.encryptSecret(secret)).not.toBe(stored);
+      expect(AdminTwoFactor.decryptSecret(stored)).toBe(secret);
+    });
+
+    it('should hash recovery codes regardless of case and separators', () => {
+      const [code] = AdminTwoFactor.generateRecoveryCodes(1);
+
+      expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(AdminTwoFactor.hashRecoveryCode(code.toUpperCase().replace('-', ' '))).toBe(AdminTwoFactor.hashRecoveryCode(code));
+    });
+  });
+
+  describe('beginEnrolment', () => {
+    it('should store an encrypted secret and return the provisioning URI', async () => {
+      client.query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [] });
+
+      const enrolment = await new AdminTwoFactor().beginEnrolment('user-1', 'admin');
+
+      expect(enrolment!.otpauth_url).toBe(
+        `otpauth://totp/Zenow%20Academy:admin?secret=${enrolment!.secret}&issuer=Zenow%20Academy&algorithm=SHA1&digits=6&period=30`
+      );
+      const stored = client.query.mock.calls[1][1][1];
+      expect(AdminTwoFactor.decryptSecret(stored)).toBe(enrolment!.secret);
+    });
+
+    it('should not replace an authenticator that is already enabled', async () => {
+      client.query.mockResolvedValueOnce({ rows: [{ enabled_at: new Date() }] });
+
+      expect(await new AdminTwoFactor().beginEnrolment('user-1', 'admin')).toBeNull();
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('confirmEnrolment', () => {
+    it('should enable 2FA and store only hashes of the recovery codes', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [{ secret_encrypted: AdminTwoFactor.encryptSecret(secret), enabled_at: null }] })
+        .mockResolvedValue({ rows: [] });
+
+      const result = await new AdminTwoFactor().confirmEnrolment('user-1', totp(secret));
+
+      expect(result.status).toBe('enabled');
+      const codes = (result as { recoveryCodes: string[] }).recoveryCodes;
+      expect(codes).toHaveLength(10);
+      expect(client.query.mock.calls[1][0]).toContain('enabled_at = NOW()');
+      expect(client.query.mock.calls[3][1][1]).toEqual(codes.map(code => AdminTwoFactor.hashRecoveryCode(code)));
+    });
+
+    it('should refuse a wrong code', async () => {
+      client.query.mockResolvedValueOnce({ rows: [{ secret_encrypted: AdminTwoFactor.encryptSecret(secret), enabled_at: null }] });
+
+      expect(await new AdminTwoFactor().confirmEnrolment('user-1', '000000')).toEqual({ status: 'invalid' });
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('verify', () => {
+    const enabled = (lastUsedStep: number | null = null) => ({
+      rows: [{ secret_encrypted: AdminTwoFactor.encryptSecret(secret), last_used_step: lastUsedStep }]
+    });
+
+    it('should accept an authenticator code once', async () => {
+      client.query.mockResolvedValueOnce(enabled()).mockResolvedValueOnce({ rows: [] });
+
+      expect(await new AdminTwoFactor().verify('user-1', totp(secret))).toBe('totp');
+      expect(client.query.mock.calls[1][1][0]).toBe(timeStep());
+
+      client.query.mockResolvedValueOnce(enabled(timeStep() + 1)).mockResolvedValueOnce({ rows: [] });
+      expect(await new AdminTwoFactor().verify('user-1', totp(secret))).toBeNull();
+    });
+
+    it('should use up a matching recovery code', async () => {
+      client.query.mockResolvedValueOnce(enabled()).mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      expect(await new AdminTwoFactor().verify('user-1', 'ABCDE-12345')).toBe('recovery_code');
+      expect(client.query.mock.calls[1][0]).toContain('used_at IS NULL');
+      expect(client.query.mock.calls[1][1]).toEqual(['user-1', AdminTwoFactor.hashRecoveryCode('abcde12345')]);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { Assignment } from '../../../src/models/Assignment';
+import { AssignmentSettings } from '../../../src/types';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('Assignment Model', () => {
+  const settings: AssignmentSettings = {
+    module_id: '5',
+    due_at: '2025-06-01T00:00:00.000Z',
+    allow_late: true,
+    max_submissions: 3,
+    resubmit_after_grading: false,
+    max_score: 100
+  };
+  const beforeDue = new Date('2025-05-20T00:00:00.000Z');
+  const afterDue = new Date('2025-06-02T00:00:00.000Z');
+
+  describe('checkSubmissionAllowed', () => {
+    it('should allow a first on-time submission', () => {
+      const check = Assignment.checkSubmissionAllowed(settings, [], beforeDue);
+
+      expect(check).toEqual({ allowed: true, isLate: false, attemptNumber: 1 });
+    });
+
+    it('should flag late submissions when late work is accepted', () => {
+      const check = Assignment.checkSubmissionAllowed(settings, [{ status: 'returned', attempt_number: 1 }], afterDue);
+
+      expect(check.allowed).toBe(true);
+      expect(check.isLate).toBe(true);
+      expect(check.attemptNumber).toBe(2);
+    });
+
+    it('should reject late submissions when late work is not accepted', () => {
+      const check = Assignment.checkSubmissionAllowed({ ...settings, allow_late: false }, [], afterDue);
+
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toMatch(/due date/);
+    });
+
+    it('should reject resubmission after grading unless enabled', () => {
+      const previous = [{ status: 'graded' as const, attempt_number: 1 }];
+
+      expect(Assignment.checkSubmissionAllowed(settings, previous, beforeDue).allowed).toBe(false);
+      expect(Assignment.checkSubmissionAllowed({ ...settings, resubmit_after_grading: true }, previous, beforeDue).allowed).toBe(true);
+    });
+
+    it('should enforce the submission limit', () => {
+      const previous = [
+        { status: 'returned' as const, attempt_number: 3 },
+        { status: 'returned' as const, attempt_number: 2 },
+        { status: 'returned' as const, attempt_number: 1 }
+      ];
+
+      const check = Assignment.checkSubmissionAllowed(settings, previous, beforeDue);
+
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toMatch(/No submissions remaining/);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { Bundle } from '../../../src/models/Bundle';
+import { dbManager } from '../../../src/utils/databaseManager';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('Bundle Model', () => {
+  let bundleModel: Bundle;
+  const mockQuery = dbManager.query as jest.MockedFunction<typeof dbManager.query>;
+
+  beforeEach(() => {
+    bundleModel = new Bundle();
+    jest.clearAllMocks();
+  });
+
+  describe('withSavings', () => {
+    it('should compute savings versus individual price', () => {
+      const bundle = Bundle.withSavings({ id: '1', bundle_price: '2999.00', individual_price: '4500.00' });
+
+      expect(bundle.savings_amount).toBe(1501);
+      expect(bundle.savings_percentage).toBe(33.36);
+    });
+
+    it('should never report negative savings', () => {
+      const bundle = Bundle.withSavings({ id: '1', bundle_price: '500.00', individual_price: '400.00' });
+
+      expect(bundle.savings_amount).toBe(0);
+      expect(bundle.savings_percentage).toBe(0);
+    });
+  });
+
+  describe('getBundleById', () => {
+    it('should return the bundle with its ordered published courses', async () => {
+      const courses = [
+        { id: '10', title: 'First', sort_order: 0 },
+        { id: '11', title: 'Second', sort_order: 1 }
+      ];
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: '1', title: 'Bundle', bundle_price: '100.00', individual_price: '150.00' }] } as any)
+        .mockResolvedValueOnce({ rows: courses } as any);
+
+      const result = await bundleModel.getBundleById('1');
+
+      expect(result?.courses).toEqual(courses);
+      expect(result?.course_count).toBe(2);
+      expect(result?.savings_amount).toBe(50);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('ORDER BY bc.sort_order ASC'),
+        ['1']
+      );
+    });
+
+    it('should return null for an unpublished or missing bundle', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      const result = await bundleModel.getBundleById('99');
+
+      expect(result).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
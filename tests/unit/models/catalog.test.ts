@@ -0,0 +1,82 @@
+import { Catalog, CatalogLookups } from '../../../src/models/Catalog';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('Catalog Model', () => {
+  const lookups: CatalogLookups = {
+    categories: new Map([['technology', '1']]),
+    fields: new Map([['technology/databases', '4']]),
+    users: new Map([['teacher@example.com', '0b5c1a9e-2f7d-4c1e-9a43-5d6f7e8a9b0c']])
+  };
+
+  describe('prepareRow', () => {
+    it('should validate a category and derive its slug from the name', () => {
+      const row = Catalog.prepareRow('categories', { name: 'Data Science', sort_order: '2', is_active: 'true' }, lookups);
+
+      expect(row.errors).toEqual([]);
+      expect(row.key).toBe('data-science');
+      expect(row.values).toEqual({ name: 'Data Science', slug: 'data-science', sort_order: 2, is_active: true });
+    });
+
+    it('should resolve the category of a field and key it under that category', () => {
+      const row = Catalog.prepareRow('fields', { category_slug: 'technology', name: 'Databases', slug: 'databases' }, lookups);
+
+      expect(row.errors).toEqual([]);
+      expect(row.key).toBe('technology/databases');
+      expect(row.values.category_id).toBe('1');
+    });
+
+    it('should report an unknown parent instead of the missing id', () => {
+      const row = Catalog.prepareRow('fields', { category_slug: 'cooking', name: 'Baking' }, lookups);
+
+      expect(row.errors).toEqual(['Unknown category_slug cooking']);
+    });
+
+    it('should turn course tags, outcomes and instructor email into column values', () => {
+      const row = Catalog.prepareRow('courses', {
+        category_slug: 'technology',
+        field_slug: 'databases',
+        title: 'SQL Basics',
+        price: '499',
+        is_free: 'false',
+        instructor_email: 'Teacher@example.com',
+        learning_outcomes: '["Write joins"]',
+        tags: 'sql, databases',
+        status: 'published'
+      }, lookups);
+
+      expect(row.errors).toEqual([]);
+      expect(row.key).toBe('technology/databases/sql-basics');
+      expect(row.values).toMatchObject({
+        field_id: '4',
+        price: 499,
+        is_free: false,
+        instructor_id: '0b5c1a9e-2f7d-4c1e-9a43-5d6f7e8a9b0c',
+        learning_outcomes: ['Write joins'],
+        tags: ['sql', 'databases']
+      });
+      expect(row.values).not.toHaveProperty('status');
+    });
+
+    it('should collect every schema error for a row', () => {
+      const row = Catalog.prepareRow('courses', {
+        category_slug: 'technology',
+        field_slug: 'databases',
+        title: 'SQL Basics',
+        difficulty_level: 'expert',
+        price: 'free',
+        learning_outcomes: 'not json'
+      }, lookups);
+
+      expect(row.errors).toHaveLength(3);
+      expect(row.errors[0]).toMatch(/learning_outcomes must be JSON/);
+      expect(row.values).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { Certificate } from '../../../src/models/Certificate';
+import { Certificate as CertificateRecord } from '../../../src/types';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('Certificate Model', () => {
+  const certificate: CertificateRecord = {
+    id: '1',
+    verification_code: 'ZA-ABCD-EFGH-JKLM',
+    student_id: 'student-uuid',
+    course_id: '3',
+    student_name: 'Ana <Script> & Co',
+    course_title: 'Advanced "React"',
+    instructor_name: 'Jamie Doe',
+    completion_date: '2025-03-09T10:00:00.000Z',
+    issued_at: '2025-03-09T10:00:00.000Z',
+    status: 'active'
+  };
+
+  describe('generateVerificationCode', () => {
+    it('should produce codes without ambiguous characters', () => {
+      const code = Certificate.generateVerificationCode();
+
+      expect(code).toMatch(/^ZA-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+    });
+
+    it('should not repeat codes', () => {
+      const codes = new Set(Array.from({ length: 50 }, () => Certificate.generateVerificationCode()));
+
+      expect(codes.size).toBe(50);
+    });
+  });
+
+  describe('normalizeCode', () => {
+    it('should accept codes typed in lower case with surrounding spaces', () => {
+      expect(Certificate.normalizeCode('  za-abcd-efgh-jklm ')).toBe('ZA-ABCD-EFGH-JKLM');
+    });
+  });
+
+  describe('renderSvg', () => {
+    it('should render the certificate details with markup escaped', () => {
+      const svg = Certificate.renderSvg(certificate, 'https://example.com/certificates/ZA-ABCD-EFGH-JKLM');
+
+      expect(svg).toContain('Ana &lt;Script&gt; &amp; Co');
+      expect(svg).toContain('Advanced &quot;React&quot;');
+      expect(svg).toContain('Instructor: Jamie Doe');
+      expect(svg).toContain('9 March 2025');
+      expect(svg).toContain('ZA-ABCD-EFGH-JKLM');
+      expect(svg).not.toContain('<Script>');
+    });
+
+    it('should leave out the instructor line when there is no instructor', () => {
+      const svg = Certificate.renderSvg({ ...certificate, instructor_name: null }, 'https://example.com');
+
+      expect(svg).not.toContain('Instructor:');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { Coupon } from '../../../src/models/Coupon';
+import { Coupon as CouponRecord } from '../../../src/types';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const buildCoupon = (overrides: Partial<CouponRecord> = {}): CouponRecord => ({
+  id: '1',
+  code: 'SPRING20',
+  discount_type: 'percentage',
+  discount_value: '20.00',
+  max_discount_amount: null,
+  min_order_amount: null,
+  scope_type: 'all',
+  scope_id: null,
+  starts_at: null,
+  expires_at: null,
+  max_redemptions: null,
+  max_redemptions_per_student: 1,
+  first_purchase_only: false,
+  is_active: true,
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('Coupon Model', () => {
+  describe('normalizeCode', () => {
+    it('should trim and uppercase codes', () => {
+      expect(Coupon.normalizeCode('  spring20 ')).toBe('SPRING20');
+    });
+  });
+
+  describe('calculateDiscount', () => {
+    it('should apply a percentage of the amount', () => {
+      expect(Coupon.calculateDiscount(buildCoupon(), 49.99)).toBe(10);
+    });
+
+    it('should cap a percentage discount at max_discount_amount', () => {
+      expect(Coupon.calculateDiscount(buildCoupon({ max_discount_amount: '5.00' }), 100)).toBe(5);
+    });
+
+    it('should apply a fixed discount', () => {
+      expect(Coupon.calculateDiscount(buildCoupon({ discount_type: 'fixed', discount_value: '15.00' }), 100)).toBe(15);
+    });
+
+    it('should never discount more than the amount', () => {
+      expect(Coupon.calculateDiscount(buildCoupon({ discount_type: 'fixed', discount_value: '50.00' }), 30)).toBe(30);
+    });
+  });
+
+  describe('appliesTo', () => {
+    const course = { type: 'course' as const, id: '7', field_id: '3', category_id: '2' };
+    const bundle = { type: 'bundle' as const, id: '7' };
+
+    it('should apply site-wide coupons to anything', () => {
+      expect(Coupon.appliesTo(buildCoupon(), course)).toBe(true);
+      expect(Coupon.appliesTo(buildCoupon(), bundle)).toBe(true);
+    });
+
+    it('should match course and bundle scopes by type and id', () => {
+      expect(Coupon.appliesTo(buildCoupon({ scope_type: 'course', scope_id: '7' }), course)).toBe(true);
+      expect(Coupon.appliesTo(buildCoupon({ scope_type: 'course', scope_id: '7' }), bundle)).toBe(false);
+      expect(Coupon.appliesTo(buildCoupon({ scope_type: 'bundle', scope_id: '7' }), bundle)).toBe(true);
+      expect(Coupon.appliesTo(buildCoupon({ scope_type: 'bundle', scope_id: '8' }), bundle)).toBe(false);
+    });
+
+    it('should match courses by field and category', () => {
+      expect(Coupon.appliesTo(buildCoupon({ scope_type: 'field', scope_id: '3' }), course)).toBe(true);
+      expect(Coupon.appliesTo(buildCoupon({ scope_type: 'category', scope_id: '2' }), course)).toBe(true);
+      expect(Coupon.appliesTo(buildCoupon({ scope_type: 'category', scope_id: '9' }), course)).toBe(false);
+      expect(Coupon.appliesTo(buildCoupon({ scope_type: 'field', scope_id: '3' }), bundle)).toBe(false);
+    });
+  });
+
+  describe('checkEligibility', () => {
+    const now = new Date('2025-06-01T12:00:00.000Z');
+    const context = {
+      item: { type: 'course' as const, id: '7' },
+      amount: 100,
+      usage: { total: 0, student: 0 },
+      hasPriorPurchase: false,
+      now,
+    };
+
+    it('should accept a usable coupon', () => {
+      expect(Coupon.checkEligibility(buildCoupon(), context)).toBeNull();
+    });
+
+    it('should reject inactive, future and expired coupons', () => {
+      expect(Coupon.checkEligibility(buildCoupon({ is_active: false }), context)).toMatch(/no longer active/);
+      expect(Coupon.checkEligibility(buildCoupon({ starts_at: '2025-07-01T00:00:00.000Z' }), context)).toMatch(/not active yet/);
+      expect(Coupon.checkEligibility(buildCoupon({ expires_at: '2025-05-31T00:00:00.000Z' }), context)).toMatch(/expired/);
+    });
+
+    it('should reject items outside the coupon scope', () => {
+      expect(Coupon.checkEligibility(buildCoupon({ scope_type: 'bundle', scope_id: '7' }), context)).toMatch(/does not apply/);
+    });
+
+    it('should only accept a coupon in its own currency', () => {
+      const coupon = buildCoupon({ discount_type: 'fixed', discount_value: '500.00', currency: 'INR' });
+
+      expect(Coupon.checkEligibility(coupon, { ...context, currency: 'INR' })).toBeNull();
+      expect(Coupon.checkEligibility(coupon, { ...context, currency: 'USD' })).toMatch(/not valid for payments in USD/);
+    });
+
+    it('should enforce the minimum order amount', () => {
+      expect(Coupon.checkEligibility(buildCoupon({ min_order_amount: '150.00' }), context)).toMatch(/minimum order/);
+    });
+
+    it('should reject first-purchase coupons for returning buyers', () => {
+      const coupon = buildCoupon({ first_purchase_only: true });
+
+      expect(Coupon.checkEligibility(coupon, context)).toBeNull();
+      expect(Coupon.checkEligibility(coupon, { ...context, hasPriorPurchase: true })).toMatch(/first purchase/);
+    });
+
+    it('should enforce total and per-student caps', () => {
+      expect(Coupon.checkEligibility(buildCoupon({ max_redemptions: 10 }), { ...context, usage: { total: 10, student: 0 } }))
+        .toMatch(/usage limit/);
+      expect(Coupon.checkEligibility(buildCoupon(), { ...context, usage: { total: 3, student: 1 } }))
+        .toMatch(/already used/);
+      expect(Coupon.checkEligibility(buildCoupon({ max_redemptions_per_student: null }), { ...context, usage: { total: 3, student: 1 } }))
+        .toBeNull();
+    });
+  });
+
+  describe('redeemForOrder', () => {
+    const order = { id: '42', student_id: 'student-1' };
+    const client = { query: jest.fn() };
+
+    beforeEach(() => {
+      client.query.mockReset();
+    });
+
+    it('should redeem a pending use while the coupon is under its caps', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [{ coupon_id: '1', status: 'pending' }] })
+        .mockResolvedValueOnce({ rows: [buildCoupon({ max_redemptions: 10 })] })
+        .mockResolvedValueOnce({ rows: [{ total: '9', student: '0' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(new Coupon().redeemForOrder(client as any, order)).resolves.toBeNull();
+
+      expect(client.query.mock.calls[1][0]).toContain('FOR UPDATE');
+      expect(client.query.mock.calls[2][0]).toContain('cr.order_id <> $3');
+      expect(client.query.mock.calls[2][1]).toEqual(['1', 'student-1', '42']);
+      expect(client.query.mock.calls[3][0]).toContain("status = 'pending'");
+    });
+
+    it('should refuse a late payment once the caps were reached by others', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [{ coupon_id: '1', status: 'pending' }] })
+        .mockResolvedValueOnce({ rows: [buildCoupon({ max_redemptions: 10 })] })
+        .mockResolvedValueOnce({ rows: [{ total: '10', student: '0' }] });
+
+      await expect(new Coupon().redeemForOrder(client as any, order)).resolves.toMatch(/usage limit/);
+      expect(client.query).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not revive a released use', async () => {
+      client.query.mockResolvedValueOnce({ rows: [{ coupon_id: '1', status: 'released' }] });
+
+      await expect(new Coupon().redeemForOrder(client as any, order)).resolves.toMatch(/released/);
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+  });
+});
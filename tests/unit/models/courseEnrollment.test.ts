@@ -0,0 +1,42 @@
+import { Course } from '../../../src/models/Course';
+import { dbManager } from '../../../src/utils/databaseManager';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+  },
+}));
+
+describe('Course Model enrollment', () => {
+  let courseModel: Course;
+  const mockQuery = dbManager.query as jest.MockedFunction<typeof dbManager.query>;
+
+  beforeEach(() => {
+    courseModel = new Course();
+    jest.clearAllMocks();
+  });
+
+  describe('enrollUser', () => {
+    it('should reactivate an enrollment ended by a refund', async () => {
+      const reactivated = { id: 1, user_id: 'student-1', course_id: 1, is_active: true };
+      mockQuery.mockResolvedValueOnce({ rows: [reactivated] } as any);
+
+      const result = await courseModel.enrollUser('student-1', '1');
+
+      expect(result).toEqual(reactivated);
+      expect(mockQuery.mock.calls[0][0]).toContain('DO UPDATE SET is_active = true WHERE enrollments.is_active = false');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the existing enrollment when it is already active', async () => {
+      const existing = { id: 1, user_id: 'student-1', course_id: 1, is_active: true };
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [existing] } as any);
+
+      await expect(courseModel.enrollUser('student-1', '1')).resolves.toEqual(existing);
+      expect(mockQuery.mock.calls[1][1]).toEqual(['student-1', '1']);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { CoursePrice } from '../../../src/models/CoursePrice';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('CoursePrice Model', () => {
+  describe('currencyForCountry', () => {
+    it('should use INR for India however the country is written', () => {
+      expect(CoursePrice.currencyForCountry('India')).toBe('INR');
+      expect(CoursePrice.currencyForCountry(' IN ')).toBe('INR');
+    });
+
+    it('should use the international currency elsewhere or when unknown', () => {
+      expect(CoursePrice.currencyForCountry('Germany')).toBe('USD');
+      expect(CoursePrice.currencyForCountry(null)).toBe('USD');
+    });
+  });
+
+  describe('pickPrice', () => {
+    const prices = [{ currency: 'INR', amount: '3999.00' }];
+
+    it('should use the price in the wanted currency', () => {
+      expect(CoursePrice.pickPrice(prices, 'inr', 49.99)).toEqual({ amount: 3999, currency: 'INR' });
+    });
+
+    it('should fall back to the base price and currency', () => {
+      expect(CoursePrice.pickPrice(prices, 'EUR', 49.99)).toEqual({ amount: 49.99, currency: 'USD' });
+    });
+  });
+});
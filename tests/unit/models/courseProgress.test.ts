@@ -0,0 +1,129 @@
+import { CourseProgress } from '../../../src/models/CourseProgress';
+import { Certificate } from '../../../src/models/Certificate';
+import { dbManager } from '../../../src/utils/databaseManager';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('CourseProgress Model', () => {
+  let progress: CourseProgress;
+  const mockQuery = dbManager.query as jest.MockedFunction<typeof dbManager.query>;
+  const mockTransaction = dbManager.transaction as jest.MockedFunction<typeof dbManager.transaction>;
+  const client = { query: jest.fn() };
+
+  beforeEach(() => {
+    progress = new CourseProgress();
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    client.query.mockReset();
+    mockTransaction.mockImplementation(async (callback: any) => callback(client));
+  });
+
+  describe('resolveCourseEnrollment', () => {
+    it('should use an active course enrollment as it is', async () => {
+      const enrollment = { id: '5', course_id: '3', is_active: true };
+      client.query.mockResolvedValueOnce({ rows: [enrollment] });
+
+      await expect(progress.resolveCourseEnrollment('student-1', '3')).resolves.toEqual(enrollment);
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should create a course row for a student with access only through a bundle', async () => {
+      const created = { id: '9', course_id: '3', enrollment_type: 'bundle_course', is_active: true };
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: '7' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [created] });
+
+      await expect(progress.resolveCourseEnrollment('student-1', '3')).resolves.toEqual(created);
+
+      const [insertSql, insertValues] = client.query.mock.calls[2];
+      expect(insertSql).toContain("'bundle_course'");
+      expect(insertSql).toContain('ON CONFLICT (user_id, course_id) DO NOTHING');
+      expect(insertValues).toEqual(['student-1', '3']);
+    });
+
+    it('should return null without a course or bundle enrollment', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [{ id: '5', is_active: false }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(progress.resolveCourseEnrollment('student-1', '3')).resolves.toBeNull();
+      expect(client.query).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('recordModuleProgress', () => {
+    it('should pass null for isCompleted left undefined so the stored completion is kept', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await progress.recordModuleProgress('5', '11', { timeSpent: 12, lastPosition: 340 });
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('is_completed = COALESCE($3, course_progress.is_completed)');
+      expect(sql).toContain('ELSE course_progress.completion_date');
+      expect(values).toEqual(['5', '11', null, 12, 340]);
+    });
+  });
+
+  describe('recalculateEnrollmentProgress', () => {
+    it('should store the rounded completion percentage', async () => {
+      const issue = jest.spyOn(Certificate.prototype, 'issueForEnrollment');
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ total_modules: '3', completed_modules: '2', was_completed: false }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(progress.recalculateEnrollmentProgress('5', '3'))
+        .resolves.toEqual({ completionPercentage: 67, isCourseCompleted: false });
+
+      expect(mockQuery.mock.calls[1][1]).toEqual([67, false, '5', '3']);
+      expect(issue).not.toHaveBeenCalled();
+    });
+
+    it('should issue the certificate only on the first completion', async () => {
+      const issue = jest.spyOn(Certificate.prototype, 'issueForEnrollment').mockResolvedValue({} as any);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ total_modules: '4', completed_modules: '4', was_completed: false }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [{ total_modules: '4', completed_modules: '4', was_completed: true }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(progress.recalculateEnrollmentProgress('5', '3'))
+        .resolves.toEqual({ completionPercentage: 100, isCourseCompleted: true });
+      await progress.recalculateEnrollmentProgress('5', '3');
+
+      expect(issue).toHaveBeenCalledTimes(1);
+      expect(issue).toHaveBeenCalledWith('5');
+    });
+
+    it('should keep the progress when the certificate cannot be issued', async () => {
+      jest.spyOn(Certificate.prototype, 'issueForEnrollment').mockRejectedValue(new Error('boom'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ total_modules: '1', completed_modules: '1', was_completed: false }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(progress.recalculateEnrollmentProgress('5', '3'))
+        .resolves.toEqual({ completionPercentage: 100, isCourseCompleted: true });
+    });
+  });
+
+  describe('getContinueLearning', () => {
+    it('should pick the next incomplete lesson in curriculum order', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ enrollment_id: '5', module_id: '12' }] } as any);
+
+      await expect(progress.getContinueLearning('student-1', 3)).resolves.toEqual([{ enrollment_id: '5', module_id: '12' }]);
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('ORDER BY s.sort_order ASC NULLS LAST, m.sort_order ASC, m.id ASC');
+      expect(sql).toContain('COALESCE(cp.is_completed, false) = false');
+      expect(values).toEqual(['student-1', 3]);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { CoursePublishing } from '../../../src/models/CoursePublishing';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('CoursePublishing Model', () => {
+  describe('checkTransition', () => {
+    const now = new Date('2025-06-01T12:00:00.000Z');
+    const admin = { role: 'admin' as const };
+
+    it('should allow the admin lifecycle moves', () => {
+      expect(CoursePublishing.checkTransition('draft', 'published', admin, now)).toBeNull();
+      expect(CoursePublishing.checkTransition('in_review', 'published', admin, now)).toBeNull();
+      expect(CoursePublishing.checkTransition('published', 'archived', admin, now)).toBeNull();
+      expect(CoursePublishing.checkTransition('archived', 'draft', admin, now)).toBeNull();
+    });
+
+    it('should reject moves the lifecycle does not have', () => {
+      expect(CoursePublishing.checkTransition('published', 'in_review', admin, now)).toMatch(/cannot be moved/);
+      expect(CoursePublishing.checkTransition('archived', 'scheduled', admin, now)).toMatch(/cannot be moved/);
+      expect(CoursePublishing.checkTransition('draft', 'draft', admin, now)).toMatch(/already draft/);
+    });
+
+    it('should limit instructors to submitting and withdrawing', () => {
+      const instructor = { role: 'instructor' as const };
+
+      expect(CoursePublishing.checkTransition('draft', 'in_review', instructor, now)).toBeNull();
+      expect(CoursePublishing.checkTransition('in_review', 'draft', instructor, now)).toBeNull();
+      expect(CoursePublishing.checkTransition('draft', 'published', instructor, now)).toMatch(/Only an admin/);
+      expect(CoursePublishing.checkTransition('published', 'archived', instructor, now)).toMatch(/Only an admin/);
+    });
+
+    it('should only let the scheduler publish scheduled courses', () => {
+      expect(CoursePublishing.checkTransition('scheduled', 'published', { role: 'system' }, now)).toBeNull();
+      expect(CoursePublishing.checkTransition('draft', 'published', { role: 'system' }, now)).toMatch(/automatically/);
+    });
+
+    it('should require a future publish_at when scheduling', () => {
+      expect(CoursePublishing.checkTransition('draft', 'scheduled', admin, now)).toMatch(/publish_at is required/);
+      expect(CoursePublishing.checkTransition('draft', 'scheduled', { ...admin, publishAt: new Date('2025-05-31T00:00:00.000Z') }, now))
+        .toMatch(/in the future/);
+      expect(CoursePublishing.checkTransition('draft', 'scheduled', { ...admin, publishAt: new Date('2025-06-02T00:00:00.000Z') }, now))
+        .toBeNull();
+      expect(CoursePublishing.checkTransition('draft', 'published', { ...admin, publishAt: new Date('2025-06-02T00:00:00.000Z') }, now))
+        .toMatch(/only applies when scheduling/);
+    });
+
+    it('should require a reviewer comment when sending a course back from review', () => {
+      expect(CoursePublishing.checkTransition('in_review', 'draft', admin, now)).toMatch(/comment is required/);
+      expect(CoursePublishing.checkTransition('in_review', 'draft', { ...admin, comment: 'Add captions' }, now)).toBeNull();
+    });
+  });
+
+  describe('transitionWithin', () => {
+    it('should reject a disallowed move on the caller\'s transaction without writing', async () => {
+      const client = { query: jest.fn().mockResolvedValueOnce({ rows: [{ id: 7, status: 'published', publish_at: null }] }) };
+
+      await expect(
+        new CoursePublishing().transitionWithin(client as any, '7', 'in_review', { role: 'admin' })
+      ).rejects.toThrow('A published course cannot be moved to in review');
+      expect(client.query).toHaveBeenCalledTimes(1);
+      expect(client.query.mock.calls[0][0]).toContain('FOR UPDATE');
+    });
+  });
+});
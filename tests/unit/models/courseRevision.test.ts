@@ -0,0 +1,85 @@
+import { CourseRevision } from '../../../src/models/CourseRevision';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('CourseRevision Model', () => {
+  describe('diffSnapshots', () => {
+    it('should list only the fields that changed, in field order', () => {
+      const before = { title: 'SQL Basics', price: '499.00', tags: ['sql'], is_free: false };
+      const after = { title: 'SQL Fundamentals', price: '499.00', tags: ['sql', 'databases'], is_free: false };
+
+      expect(CourseRevision.diffSnapshots(before, after)).toEqual([
+        { field: 'title', from: 'SQL Basics', to: 'SQL Fundamentals' },
+        { field: 'tags', from: ['sql'], to: ['sql', 'databases'] }
+      ]);
+    });
+
+    it('should compare nested values by content and treat missing fields as null', () => {
+      const before = { learning_outcomes: { items: ['Joins'] }, description: null };
+      const after = { learning_outcomes: { items: ['Joins'] }, content_url: 'https://cdn.example.com/1.mp4' };
+
+      expect(CourseRevision.diffSnapshots(before, after)).toEqual([
+        { field: 'content_url', from: null, to: 'https://cdn.example.com/1.mp4' }
+      ]);
+    });
+
+    it('should return nothing for identical snapshots', () => {
+      expect(CourseRevision.diffSnapshots({ title: 'A' }, { title: 'A' })).toEqual([]);
+    });
+  });
+
+  describe('trackEdit', () => {
+    const snapshotRow = (title: string) => ({ rows: [{ revision_course_id: 7, title }] });
+
+    it('should store a baseline before the first tracked edit', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce(snapshotRow('Old title'))
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce(snapshotRow('New title'))
+          .mockResolvedValueOnce({ rows: [{ latest: null }] })
+          .mockResolvedValue({ rows: [] })
+      };
+
+      const result = await new CourseRevision().trackEdit(
+        client as any, 'course', '7', { id: 'admin-1', role: 'admin' }, () => client.query('UPDATE courses')
+      );
+
+      expect(result).toEqual({ rows: [] });
+      const inserts = client.query.mock.calls.filter(([sql]) => String(sql).includes('INSERT INTO course_revisions'));
+      expect(inserts).toHaveLength(2);
+      expect(inserts[0][1].slice(3, 5)).toEqual([1, 'baseline']);
+      expect(inserts[1][1].slice(3, 5)).toEqual([2, 'update']);
+      expect(JSON.parse(inserts[1][1][6])).toEqual([{ field: 'title', from: 'Old title', to: 'New title' }]);
+    });
+
+    it('should not store a revision when nothing changed', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce(snapshotRow('Same'))
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce(snapshotRow('Same'))
+      };
+
+      await new CourseRevision().trackEdit(
+        client as any, 'course', '7', { role: 'admin' }, () => client.query('UPDATE courses')
+      );
+
+      expect(client.query).toHaveBeenCalledTimes(3);
+    });
+
+    it('should skip the edit when the course does not exist', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+      const edit = jest.fn();
+
+      expect(await new CourseRevision().trackEdit(client as any, 'course', '7', { role: 'admin' }, edit)).toBeNull();
+      expect(edit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { Course } from '../../../src/models/Course';
+import { dbManager } from '../../../src/utils/databaseManager';
+import { decodeCursor } from '../../../src/utils/pagination';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+  },
+}));
+
+describe('Course search and pagination', () => {
+  let courseModel: Course;
+  const mockQuery = dbManager.query as jest.MockedFunction<typeof dbManager.query>;
+
+  beforeEach(() => {
+    courseModel = new Course();
+    jest.clearAllMocks();
+  });
+
+  describe('getCoursePage', () => {
+    it('should continue after the cursor and strip keyset columns', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { id: 3, title: 'A', cursor_key_0: '499.00', cursor_key_1: '3' },
+          { id: 4, title: 'B', cursor_key_0: '499.00', cursor_key_1: '4' },
+          { id: 5, title: 'C', cursor_key_0: '599.00', cursor_key_1: '5' }
+        ]
+      });
+
+      const page = await courseModel.getCoursePage(
+        { field_id: '7' },
+        { sort: 'price_asc', cursor: { s: 'price_asc', v: ['450.00', '2'] }, limit: 2 }
+      );
+
+      expect(page.items).toEqual([{ id: 3, title: 'A' }, { id: 4, title: 'B' }]);
+      expect(page.hasMore).toBe(true);
+      expect(page.nextCursor).not.toBeNull();
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('AND (c.price, c.id) > ($2::DECIMAL, $3::INT8)'),
+        ['7', '450.00', '2', 3]
+      );
+    });
+  });
+
+  describe('searchCourses', () => {
+    it('should rank matches and build facets from the matched set', async () => {
+      const mockCourses = [{ id: 2, title: 'JavaScript Basics', search_rank: 4.2 }];
+      mockQuery
+        .mockResolvedValueOnce({ rows: mockCourses })
+        .mockResolvedValueOnce({
+          rows: [
+            { facet: 'total', value: null, label: null, count: '3' },
+            { facet: 'difficulty_level', value: 'beginner', label: null, count: '1' },
+            { facet: 'difficulty_level', value: 'advanced', label: null, count: '2' },
+            { facet: 'is_free', value: 'true', label: null, count: '3' },
+            { facet: 'price', value: 'free', label: null, count: '3' },
+            { facet: 'category', value: '1', label: 'Programming', count: '3' },
+            { facet: 'field', value: '4', label: 'Web Development', count: '3' }
+          ]
+        });
+
+      const result = await courseModel.searchCourses(
+        { q: 'javscript basics', difficulty_level: 'beginner' },
+        { cursor: null, limit: 20 }
+      );
+
+      expect(result.courses).toEqual(mockCourses);
+      expect(result.total).toBe(3);
+      expect(result.facets.difficulty_level[0]).toEqual({ value: 'advanced', count: 2 });
+      expect(result.facets.category).toEqual([{ value: '1', label: 'Programming', count: 3 }]);
+      expect(result.facets.price.map(bucket => bucket.value)).toEqual(['free', 'under_1000', '1000_4999', '5000_plus']);
+      expect(result.facets.price[1].count).toBe(0);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('c.id DESC'),
+        ['javscript basics', ['javscript', 'basics'], 'beginner', 21]
+      );
+      expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should continue after the rank and id of the last course and leave facets unpaged', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 9, title: 'SQL', search_rank: 3.5, cursor_key_0: '3.5', cursor_key_1: '9' },
+            { id: 4, title: 'SQL Joins', search_rank: 2.25, cursor_key_0: '2.25', cursor_key_1: '4' }
+          ]
+        })
+        .mockResolvedValueOnce({ rows: [{ facet: 'total', value: null, label: null, count: '12' }] });
+
+      const result = await courseModel.searchCourses(
+        { q: 'sql' },
+        { cursor: { s: 'relevance', v: ['4.1', '17'] }, limit: 1 }
+      );
+
+      const [coursesQuery, coursesValues] = mockQuery.mock.calls[0];
+      expect(coursesQuery).toMatch(/\) < \(\$3::FLOAT8, \$4::INT8\)/);
+      expect(coursesValues).toEqual(['sql', ['sql'], '4.1', '17', 2]);
+      expect(mockQuery.mock.calls[1][0]).not.toContain('::FLOAT8');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['sql', ['sql']]);
+      expect(result.courses).toEqual([{ id: 9, title: 'SQL', search_rank: 3.5 }]);
+      expect(result.hasMore).toBe(true);
+      expect(decodeCursor(result.nextCursor, 'relevance')).toEqual({ s: 'relevance', v: ['3.5', '9'] });
+    });
+
+    it('should tokenize search terms', () => {
+      expect(Course.tokenizeSearch('  Node.js, React & node.js  a ')).toEqual(['node.js', 'react']);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { CourseTemplate } from '../../../src/models/CourseTemplate';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('CourseTemplate Model', () => {
+  describe('buildTemplate', () => {
+    const course = {
+      id: '7', field_id: '2', category_slug: 'technology', field_slug: 'databases',
+      title: 'SQL Basics', slug: 'sql-basics', banner_image: 'https://cdn.example.com/banner.png',
+      thumbnail_image: null, duration_hours: '12', difficulty_level: 'beginner', price: '499.00',
+      is_free: false, instructor_email: 'teacher@example.com', tags: ['sql']
+    };
+    const sections = [{ id: '10', title: 'Getting Started', description: null }, { id: '11', title: 'Queries' }];
+    const lessons = [
+      { id: '20', section_id: '10', title: 'Welcome', module_type: 'video', content_url: 'https://cdn.example.com/1.mp4', duration_minutes: '5', is_free: true },
+      { id: '21', section_id: '11', title: 'Check yourself', module_type: 'quiz', content_url: null, duration_minutes: '10', is_free: false },
+      { id: '22', section_id: '99', title: 'Orphan', module_type: 'text', duration_minutes: '1', is_free: false }
+    ];
+    const quizSettings = [{ module_id: '21', passing_score: '80', max_attempts: null, shuffle_questions: true }];
+    const questions = [{
+      id: '30', module_id: '21', question_type: 'true_false', prompt: 'SELECT reads rows',
+      options: null, correct_answers: [true], explanation: null, points: '2', sort_order: '1'
+    }];
+
+    const template = CourseTemplate.buildTemplate(course, [{ currency: 'INR', amount: '39999.00' }], sections, lessons, quizSettings, questions, []);
+
+    it('should describe the course without database ids', () => {
+      expect(template.format).toBe('zenow-course');
+      expect(template.course).toMatchObject({
+        category_slug: 'technology',
+        field_slug: 'databases',
+        duration_hours: 12,
+        price: 499,
+        prices: [{ currency: 'INR', amount: 39999 }]
+      });
+      expect(template.course).not.toHaveProperty('id');
+      expect(template.course).not.toHaveProperty('field_id');
+    });
+
+    it('should nest lessons with their quizzes under sections and drop lessons without one', () => {
+      expect(template.sections.map(section => section.lessons.map(lesson => lesson.title))).toEqual([['Welcome'], ['Check yourself']]);
+      expect(template.sections[1].lessons[0].quiz).toEqual({
+        settings: { passing_score: 80, max_attempts: null, shuffle_questions: true },
+        questions: [{
+          question_type: 'true_false', prompt: 'SELECT reads rows', options: null,
+          correct_answers: [true], explanation: null, points: 2, sort_order: 1
+        }]
+      });
+      expect(template.sections[0].lessons[0]).not.toHaveProperty('quiz');
+    });
+
+    it('should list the media the course refers to', () => {
+      expect(template.media).toEqual(['https://cdn.example.com/banner.png', 'https://cdn.example.com/1.mp4']);
+    });
+  });
+
+  describe('cloneSlug', () => {
+    it('should add a copy suffix that is not taken yet', () => {
+      expect(CourseTemplate.cloneSlug('sql-basics', [])).toBe('sql-basics-copy');
+      expect(CourseTemplate.cloneSlug('sql-basics', ['sql-basics-copy', 'sql-basics-copy-2'])).toBe('sql-basics-copy-3');
+    });
+
+    it('should not stack suffixes when cloning a clone', () => {
+      expect(CourseTemplate.cloneSlug('sql-basics-copy', ['sql-basics-copy'])).toBe('sql-basics-copy-2');
+    });
+  });
+});
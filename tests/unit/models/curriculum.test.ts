@@ -0,0 +1,96 @@
+import { Curriculum } from '../../../src/models/Curriculum';
+import { dbManager } from '../../../src/utils/databaseManager';
+import { ValidationError } from '../../../src/middleware/errorHandler';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('Curriculum Model', () => {
+  let curriculumModel: Curriculum;
+  const mockTransaction = dbManager.transaction as jest.MockedFunction<typeof dbManager.transaction>;
+  const mockClientQuery = jest.fn();
+
+  const sections = [
+    { id: '1', course_id: '10', title: 'Getting Started', sort_order: 1 },
+    { id: '2', course_id: '10', title: 'Deep Dive', sort_order: 2 }
+  ];
+  const lessons = [
+    { id: '100', section_id: '1', title: 'Welcome', content_url: 'https://cdn/welcome.mp4', duration_minutes: 5, is_free: true },
+    { id: '101', section_id: '1', title: 'Setup', content_url: 'https://cdn/setup.mp4', duration_minutes: 15, is_free: false },
+    { id: '200', section_id: '2', title: 'Internals', content_url: 'https://cdn/internals.mp4', duration_minutes: 40, is_free: false }
+  ];
+
+  beforeEach(() => {
+    curriculumModel = new Curriculum();
+    jest.clearAllMocks();
+    mockTransaction.mockImplementation(async (callback: any) => callback({ query: mockClientQuery }));
+  });
+
+  describe('buildCurriculum', () => {
+    it('should nest lessons under their sections with totals', () => {
+      const curriculum = Curriculum.buildCurriculum('10', sections, lessons, true);
+
+      expect(curriculum.sections.map(section => section.lessons.map(lesson => lesson.id))).toEqual([['100', '101'], ['200']]);
+      expect(curriculum.total_lessons).toBe(3);
+      expect(curriculum.total_duration_minutes).toBe(60);
+    });
+
+    it('should only expose content_url on free-preview lessons for the public view', () => {
+      const curriculum = Curriculum.buildCurriculum('10', sections, lessons, false);
+      const urls = curriculum.sections.flatMap(section => section.lessons.map(lesson => lesson.content_url));
+
+      expect(urls).toEqual(['https://cdn/welcome.mp4', null, null]);
+    });
+  });
+
+  describe('reorderCurriculum', () => {
+    const mockExistingIds = () => {
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [{ id: '1' }, { id: '2' }] })
+        .mockResolvedValueOnce({ rows: [{ id: '100' }, { id: '101' }, { id: '200' }] });
+    };
+
+    it('should apply section and lesson positions, moving lessons between sections', async () => {
+      mockExistingIds();
+      mockClientQuery.mockResolvedValue({ rows: [] });
+
+      await curriculumModel.reorderCurriculum('10', {
+        sections: [
+          { id: '2', lessons: ['200', '101'] },
+          { id: '1', lessons: ['100'] }
+        ]
+      });
+
+      expect(mockClientQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE course_sections'), [1, '2']);
+      expect(mockClientQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE course_modules'), ['2', 2, '101']);
+      expect(mockClientQuery).toHaveBeenLastCalledWith(expect.stringContaining('course_modules = COALESCE'), ['10']);
+    });
+
+    it('should reject a payload that omits a lesson', async () => {
+      mockExistingIds();
+
+      await expect(curriculumModel.reorderCurriculum('10', {
+        sections: [
+          { id: '1', lessons: ['100', '101'] },
+          { id: '2', lessons: [] }
+        ]
+      })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should reject a payload that lists a lesson twice', async () => {
+      mockExistingIds();
+
+      await expect(curriculumModel.reorderCurriculum('10', {
+        sections: [
+          { id: '1', lessons: ['100', '101'] },
+          { id: '2', lessons: ['200', '100'] }
+        ]
+      })).rejects.toThrow('more than once');
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { Instructor } from '../../../src/models/Instructor';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('Instructor Model', () => {
+  describe('slugify', () => {
+    it('should build a url slug from the title', () => {
+      expect(Instructor.slugify('Intro to SQL & Databases')).toBe('intro-to-sql--databases');
+    });
+  });
+
+  describe('checkSubmittable', () => {
+    const draft = { status: 'draft' as const, description: 'Learn the basics' };
+
+    it('should accept a described draft with lessons', () => {
+      expect(Instructor.checkSubmittable(draft, 3)).toBeNull();
+    });
+
+    it('should reject courses that are not drafts', () => {
+      expect(Instructor.checkSubmittable({ ...draft, status: 'in_review' }, 3)).toMatch(/waiting for review/);
+      expect(Instructor.checkSubmittable({ ...draft, status: 'published' }, 3)).toMatch(/published course cannot be submitted/);
+      expect(Instructor.checkSubmittable({ ...draft, status: 'archived' }, 3)).toMatch(/archived course cannot be submitted/);
+    });
+
+    it('should require a description and at least one lesson', () => {
+      expect(Instructor.checkSubmittable({ ...draft, description: '  ' }, 3)).toMatch(/description/);
+      expect(Instructor.checkSubmittable(draft, 0)).toMatch(/at least one lesson/);
+    });
+  });
+});
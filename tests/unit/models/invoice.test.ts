@@ -0,0 +1,92 @@
+import { Invoice } from '../../../src/models/Invoice';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('Invoice Model', () => {
+  describe('calculateTax', () => {
+    const config = { rate: 18, sellerState: 'Karnataka' };
+
+    it('should split GST into CGST and SGST within the seller state', () => {
+      const tax = Invoice.calculateTax(1180, { country: 'India', state: 'karnataka' }, config);
+
+      expect(tax).toEqual({
+        tax_type: 'intra_state',
+        tax_rate: 18,
+        taxable_amount: 1000,
+        cgst_amount: 90,
+        sgst_amount: 90,
+        igst_amount: 0,
+        tax_amount: 180
+      });
+    });
+
+    it('should charge IGST for other Indian states', () => {
+      const tax = Invoice.calculateTax(1180, { country: 'IN', state: 'Maharashtra' }, config);
+
+      expect(tax.tax_type).toBe('inter_state');
+      expect(tax.igst_amount).toBe(180);
+      expect(tax.cgst_amount + tax.sgst_amount).toBe(0);
+    });
+
+    it('should keep the parts adding up to the total when rounding', () => {
+      const tax = Invoice.calculateTax(499, { country: 'India', state: 'Karnataka' }, config);
+
+      expect(tax.taxable_amount + tax.tax_amount).toBeCloseTo(499, 2);
+      expect(tax.cgst_amount + tax.sgst_amount).toBeCloseTo(tax.tax_amount, 2);
+    });
+
+    it('should treat a missing state as the seller state', () => {
+      expect(Invoice.calculateTax(1180, { country: 'India', state: null }, config).tax_type).toBe('intra_state');
+    });
+
+    it('should zero-rate sales outside India', () => {
+      const tax = Invoice.calculateTax(49.99, { country: 'United States', state: 'California' }, config);
+
+      expect(tax).toMatchObject({ tax_type: 'export', tax_amount: 0, taxable_amount: 49.99 });
+    });
+  });
+
+  describe('financialYear', () => {
+    it('should start the year in April', () => {
+      expect(Invoice.financialYear(new Date('2025-04-01T00:00:00+05:30'))).toBe('2025-26');
+      expect(Invoice.financialYear(new Date('2026-03-31T23:59:00+05:30'))).toBe('2025-26');
+    });
+
+    it('should use Indian time at the year boundary', () => {
+      // 21:00 UTC on 31 March is already 1 April in India
+      expect(Invoice.financialYear(new Date('2026-03-31T21:00:00.000Z'))).toBe('2026-27');
+    });
+  });
+
+  describe('formatInvoiceNumber', () => {
+    it('should pad the sequence within the financial year', () => {
+      const invoiceNumber = Invoice.formatInvoiceNumber('ZA', '2025-26', 42);
+
+      expect(invoiceNumber).toBe('ZA/25-26/000042');
+      expect(invoiceNumber.length).toBeLessThanOrEqual(16);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write a header and quote values that need it', () => {
+      const csv = Invoice.toCsv([{
+        invoice_number: 'ZA/25-26/000001',
+        billing_name: 'Asha "AK" Kumar',
+        item_title: 'Node, Express & SQL',
+        total_amount: '1180.00'
+      }]);
+      const [header, row] = csv.split('\r\n');
+
+      expect(header.startsWith('invoice_number,issued_at,order_number')).toBe(true);
+      expect(row).toContain('"Asha ""AK"" Kumar"');
+      expect(row).toContain('"Node, Express & SQL"');
+      expect(row).toContain('1180.00');
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { Order } from '../../../src/models/Order';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('Order Model', () => {
+  describe('generateOrderNumber', () => {
+    it('should prefix the order date', () => {
+      const orderNumber = Order.generateOrderNumber(new Date('2025-03-09T12:00:00.000Z'));
+
+      expect(orderNumber).toMatch(/^ORD-20250309-[0-9A-F]{8}$/);
+    });
+  });
+
+  describe('checkPaymentMatches', () => {
+    const order = { amount: '49.99', currency: 'USD' };
+
+    it('should accept a payment for the order total', () => {
+      expect(Order.checkPaymentMatches(order, { amount: 49.99, currency: 'usd' })).toBeNull();
+    });
+
+    it('should accept events that do not report an amount', () => {
+      expect(Order.checkPaymentMatches(order, {})).toBeNull();
+    });
+
+    it('should reject a different amount', () => {
+      expect(Order.checkPaymentMatches(order, { amount: 0.5, currency: 'USD' })).toMatch(/order total is 49.99/);
+    });
+
+    it('should reject a different currency', () => {
+      expect(Order.checkPaymentMatches(order, { amount: 49.99, currency: 'EUR' })).toMatch(/Paid in EUR/);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { Quiz } from '../../../src/models/Quiz';
+import { QuizQuestion } from '../../../src/types';
+import { ValidationError } from '../../../src/middleware/errorHandler';
+import { dbManager } from '../../../src/utils/databaseManager';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('Quiz Model', () => {
+  const options = [
+    { id: 'a', text: 'Option A' },
+    { id: 'b', text: 'Option B' },
+    { id: 'c', text: 'Option C' }
+  ];
+
+  const questions: QuizQuestion[] = [
+    { id: '1', module_id: '9', question_type: 'single_choice', prompt: 'Pick one', options, correct_answers: ['b'], points: 1, sort_order: 1 },
+    { id: '2', module_id: '9', question_type: 'multiple_choice', prompt: 'Pick many', options, correct_answers: ['a', 'c'], points: 2, sort_order: 2 },
+    { id: '3', module_id: '9', question_type: 'true_false', prompt: 'True?', correct_answers: [false], points: 1, sort_order: 3 },
+    { id: '4', module_id: '9', question_type: 'short_answer', prompt: 'Name it', correct_answers: ['Virtual DOM', 'vdom'], points: 1, sort_order: 4 }
+  ];
+
+  describe('gradeQuiz', () => {
+    it('should award full marks for correct answers of every type', () => {
+      const grade = Quiz.gradeQuiz(questions, {
+        '1': 'b',
+        '2': ['c', 'a'],
+        '3': 'false',
+        '4': '  virtual   dom '
+      }, 70);
+
+      expect(grade.points_earned).toBe(5);
+      expect(grade.points_possible).toBe(5);
+      expect(grade.score).toBe(100);
+      expect(grade.passed).toBe(true);
+    });
+
+    it('should grade multiple choice all-or-nothing and count missing answers as wrong', () => {
+      const grade = Quiz.gradeQuiz(questions, {
+        '1': 'b',
+        '2': ['a'],
+        '3': false
+      }, 70);
+
+      expect(grade.results.map(result => result.correct)).toEqual([true, false, true, false]);
+      expect(grade.points_earned).toBe(2);
+      expect(grade.score).toBe(40);
+      expect(grade.passed).toBe(false);
+    });
+
+    it('should not pass an empty quiz', () => {
+      const grade = Quiz.gradeQuiz([], {}, 0);
+
+      expect(grade.score).toBe(0);
+      expect(grade.passed).toBe(false);
+    });
+  });
+
+  describe('validateQuestion', () => {
+    it('should accept a well-formed choice question', () => {
+      expect(() => Quiz.validateQuestion({
+        question_type: 'multiple_choice',
+        prompt: 'Pick many',
+        options,
+        correct_answers: ['a', 'b']
+      })).not.toThrow();
+    });
+
+    it('should reject answers that do not reference an option', () => {
+      expect(() => Quiz.validateQuestion({
+        question_type: 'single_choice',
+        prompt: 'Pick one',
+        options,
+        correct_answers: ['z']
+      })).toThrow(ValidationError);
+    });
+
+    it('should reject single choice questions with several correct answers', () => {
+      expect(() => Quiz.validateQuestion({
+        question_type: 'single_choice',
+        prompt: 'Pick one',
+        options,
+        correct_answers: ['a', 'b']
+      })).toThrow('exactly one');
+    });
+
+    it('should reject a true/false question without a boolean answer', () => {
+      expect(() => Quiz.validateQuestion({
+        question_type: 'true_false',
+        prompt: 'True?',
+        correct_answers: ['maybe']
+      })).toThrow(ValidationError);
+    });
+  });
+
+  describe('shuffle', () => {
+    it('should return a permutation without mutating the input', () => {
+      const ids = ['1', '2', '3', '4', '5'];
+      const shuffled = Quiz.shuffle(ids);
+
+      expect(ids).toEqual(['1', '2', '3', '4', '5']);
+      expect([...shuffled].sort()).toEqual(ids);
+    });
+  });
+
+  describe('toStudentQuestion', () => {
+    it('should strip correct answers and explanation', () => {
+      const visible = Quiz.toStudentQuestion({ ...questions[0], explanation: 'Because' });
+
+      expect(visible).not.toHaveProperty('correct_answers');
+      expect(visible).not.toHaveProperty('explanation');
+      expect(visible.options).toEqual(options);
+    });
+  });
+
+  describe('attempts', () => {
+    const mockQuery = dbManager.query as jest.MockedFunction<typeof dbManager.query>;
+    const grade = { results: [], points_earned: 1, points_possible: 1, score: 100, passed: true };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should return null instead of opening a second in-progress attempt', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(new Quiz().startAttempt('student-1', '9', '3', ['1'])).resolves.toBeNull();
+      expect(mockQuery.mock.calls[0][0]).toContain("ON CONFLICT (student_id, module_id) WHERE status = 'in_progress' DO NOTHING");
+    });
+
+    it('should only submit while the student has attempts left', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(new Quiz().submitAttempt('7', {}, grade, 1)).resolves.toBeNull();
+      expect(mockQuery.mock.calls[0][0]).toContain("done.status = 'submitted'");
+      expect(mockQuery.mock.calls[0][1]).toEqual(['7', '{}', '[]', 1, 1, 100, true, 1]);
+    });
+  });
+});
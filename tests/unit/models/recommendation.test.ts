@@ -0,0 +1,89 @@
+import { Recommendation, RecommendationCandidate } from '../../../src/models/Recommendation';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const course = (overrides: Partial<RecommendationCandidate>): RecommendationCandidate => ({
+  id: '1',
+  title: 'Untitled',
+  tags: [],
+  field_id: '100',
+  category_id: '10',
+  field_name: 'General',
+  category_name: 'Other',
+  enrolled_students: '0',
+  rating: '0',
+  ...overrides
+});
+
+describe('Recommendation Model', () => {
+  describe('buildProfile', () => {
+    it('should normalize interests and keep only meaningful goal words', () => {
+      const profile = Recommendation.buildProfile(
+        { interests: ['Machine-Learning', 'python, SQL', 'python'], learning_goals: 'I want to learn SQL for data work' },
+        [{ field_id: '2', category_id: '1' }],
+        [{ course_id: '9', students: '3' }]
+      );
+
+      expect(profile.interests).toEqual(['machine learning', 'python', 'sql']);
+      expect(profile.goalWords).toEqual(['sql', 'data']);
+      expect([...profile.fieldIds]).toEqual(['2']);
+      expect(profile.coEnrollments.get('9')).toBe(3);
+    });
+  });
+
+  describe('scoreCourse', () => {
+    const profile = Recommendation.buildProfile(
+      { interests: ['python'], learning_goals: 'data analysis' },
+      [{ field_id: '100', category_id: '10' }],
+      [{ course_id: '4', students: 3 }]
+    );
+
+    it('should weigh a tag match above a title match', () => {
+      const tagged = Recommendation.scoreCourse(course({ id: '2', tags: ['Python'], field_id: '300', category_id: '30' }), profile);
+      const titled = Recommendation.scoreCourse(course({ id: '3', title: 'Python for Everyone', field_id: '300', category_id: '30' }), profile);
+
+      expect(tagged.score).toBe(3);
+      expect(titled.score).toBe(1.5);
+      expect(tagged.reasons).toEqual(['interests']);
+    });
+
+    it('should add field, category and co-enrollment signals with their reasons', () => {
+      const sameField = Recommendation.scoreCourse(course({ id: '5' }), profile);
+      const sameCategory = Recommendation.scoreCourse(course({ id: '6', field_id: '200' }), profile);
+      const alsoTaken = Recommendation.scoreCourse(course({ id: '4', field_id: '300', category_id: '30', title: 'Data Analysis' }), profile);
+
+      expect(sameField).toMatchObject({ score: 4, reasons: ['same_field'] });
+      expect(sameCategory).toMatchObject({ score: 2, reasons: ['same_category'] });
+      expect(alsoTaken).toMatchObject({ score: 6, reasons: ['learning_goals', 'also_taken'] });
+    });
+
+    it('should mark courses with no signal as popular picks', () => {
+      expect(Recommendation.scoreCourse(course({ id: '7', field_id: '300', category_id: '30' }), profile)).toMatchObject({
+        score: 0,
+        reasons: ['popular']
+      });
+    });
+  });
+
+  describe('rankCandidates', () => {
+    it('should rank by score and fall back to popularity for a new student', () => {
+      const candidates = [
+        course({ id: '1', enrolled_students: '10', rating: '4.0' }),
+        course({ id: '2', enrolled_students: '900', rating: '4.5' }),
+        course({ id: '3', tags: ['design'], enrolled_students: '5' })
+      ];
+
+      const newStudent = Recommendation.buildProfile({}, [], []);
+      expect(Recommendation.rankCandidates(candidates, newStudent, 2).map(item => item.id)).toEqual(['2', '1']);
+
+      const designer = Recommendation.buildProfile({ interests: ['design'] }, [], []);
+      expect(Recommendation.rankCandidates(candidates, designer, 2).map(item => item.id)).toEqual(['3', '2']);
+    });
+  });
+});
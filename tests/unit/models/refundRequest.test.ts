@@ -0,0 +1,63 @@
+import { RefundRequest } from '../../../src/models/RefundRequest';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('RefundRequest Model', () => {
+  describe('getWindowDays', () => {
+    const original = process.env.REFUND_WINDOW_DAYS;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.REFUND_WINDOW_DAYS;
+      } else {
+        process.env.REFUND_WINDOW_DAYS = original;
+      }
+    });
+
+    it('should default to 14 days', () => {
+      delete process.env.REFUND_WINDOW_DAYS;
+
+      expect(RefundRequest.getWindowDays()).toBe(14);
+    });
+
+    it('should read REFUND_WINDOW_DAYS', () => {
+      process.env.REFUND_WINDOW_DAYS = '30';
+
+      expect(RefundRequest.getWindowDays()).toBe(30);
+    });
+
+    it('should ignore invalid values', () => {
+      process.env.REFUND_WINDOW_DAYS = 'soon';
+
+      expect(RefundRequest.getWindowDays()).toBe(14);
+    });
+  });
+
+  describe('checkRefundable', () => {
+    const now = new Date('2025-03-20T12:00:00.000Z');
+    const order = { status: 'paid' as const, amount: '49.99', paid_at: '2025-03-10T12:00:00.000Z' };
+
+    it('should allow a paid order inside the window', () => {
+      expect(RefundRequest.checkRefundable(order, 14, now)).toBeNull();
+    });
+
+    it('should reject a paid order outside the window', () => {
+      expect(RefundRequest.checkRefundable(order, 7, now)).toMatch(/within 7 days/);
+    });
+
+    it('should reject orders that were not paid', () => {
+      expect(RefundRequest.checkRefundable({ ...order, status: 'pending', paid_at: null }, 14, now)).toMatch(/Only paid orders/);
+      expect(RefundRequest.checkRefundable({ ...order, status: 'refunded' }, 14, now)).toMatch(/already been refunded/);
+    });
+
+    it('should reject orders fully covered by a coupon', () => {
+      expect(RefundRequest.checkRefundable({ ...order, amount: '0.00' }, 14, now)).toMatch(/Nothing was charged/);
+    });
+  });
+});
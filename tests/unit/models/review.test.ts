@@ -0,0 +1,89 @@
+import { Review } from '../../../src/models/Review';
+import { dbManager } from '../../../src/utils/databaseManager';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('Review Model', () => {
+  let reviewModel: Review;
+  const mockQuery = dbManager.query as jest.MockedFunction<typeof dbManager.query>;
+  const mockTransaction = dbManager.transaction as jest.MockedFunction<typeof dbManager.transaction>;
+  const mockClientQuery = jest.fn();
+
+  beforeEach(() => {
+    reviewModel = new Review();
+    jest.clearAllMocks();
+    mockTransaction.mockImplementation(async (callback: any) => callback({ query: mockClientQuery }));
+  });
+
+  describe('getRatingSummary', () => {
+    it('should build a full 1-5 histogram and average', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { rating: 5, count: '3' },
+          { rating: 4, count: '1' },
+          { rating: 2, count: '1' }
+        ]
+      } as any);
+
+      const summary = await reviewModel.getRatingSummary('1');
+
+      expect(summary.total).toBe(5);
+      expect(summary.average).toBe(4.2);
+      expect(summary.histogram).toEqual({ 1: 0, 2: 1, 3: 0, 4: 1, 5: 3 });
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining(`<> 'hidden'`), ['1']);
+    });
+
+    it('should return zeroes when a course has no reviews', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      const summary = await reviewModel.getRatingSummary('1');
+
+      expect(summary).toEqual({ average: 0, total: 0, histogram: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 } });
+    });
+  });
+
+  describe('createReview', () => {
+    it('should insert the review and recompute the course rating', async () => {
+      const review = { id: '7', course_id: '1', rating: 5, is_verified_purchase: true };
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [review] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await reviewModel.createReview('student-1', '1', { rating: 5, review_text: 'Great' }, true);
+
+      expect(result).toEqual(review);
+      expect(mockClientQuery).toHaveBeenCalledTimes(2);
+      expect(mockClientQuery).toHaveBeenLastCalledWith(expect.stringContaining('UPDATE courses'), ['1']);
+    });
+
+    it('should return null without touching the aggregate for a duplicate review', async () => {
+      mockClientQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await reviewModel.createReview('student-1', '1', { rating: 4 }, false);
+
+      expect(result).toBeNull();
+      expect(mockClientQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('moderateReview', () => {
+    it('should recompute the rating of the moderated review course', async () => {
+      const review = { id: '7', course_id: '3', status: 'hidden' };
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [review] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await reviewModel.moderateReview('7', 'hidden', 'Spam', 'admin-1');
+
+      expect(result).toEqual(review);
+      expect(mockClientQuery).toHaveBeenNthCalledWith(1, expect.stringContaining('UPDATE course_reviews'), ['7', 'hidden', 'Spam', 'admin-1']);
+      expect(mockClientQuery).toHaveBeenLastCalledWith(expect.stringContaining('UPDATE courses'), ['3']);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { StudentOtp } from '../../../src/models/StudentOtp';
+import { dbManager } from '../../../src/utils/databaseManager';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const mockDbManager = dbManager as jest.Mocked<typeof dbManager>;
+
+describe('StudentOtp Model', () => {
+  const client = { query: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDbManager.transaction.mockImplementation(async (callback: any) => callback(client));
+  });
+
+  describe('normalizePhone', () => {
+    it('should keep only digits and a leading plus', () => {
+      expect(StudentOtp.normalizePhone(' +91 98765-43210 ')).toBe('+919876543210');
+      expect(StudentOtp.normalizePhone('(987) 654 3210')).toBe('9876543210');
+    });
+  });
+
+  describe('hashCode', () => {
+    it('should bind the code to the phone and purpose', () => {
+      const hash = StudentOtp.hashCode('+919876543210', 'login', '123456');
+
+      expect(hash).not.toContain('123456');
+      expect(StudentOtp.codeMatches(hash, '+919876543210', 'login', '123456')).toBe(true);
+      expect(StudentOtp.codeMatches(hash, '+919876543210', 'verify_phone', '123456')).toBe(false);
+      expect(StudentOtp.codeMatches(hash, '+919876543211', 'login', '123456')).toBe(false);
+      expect(StudentOtp.codeMatches(hash, '+919876543210', 'login', '654321')).toBe(false);
+    });
+  });
+
+  describe('issue', () => {
+    it('should store only the hash of a new code', async () => {
+      client.query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [] });
+
+      const issued = await new StudentOtp().issue('+919876543210', 'login', 'student-1');
+
+      expect(issued.status).toBe('issued');
+      const code = (issued as { code: string }).code;
+      expect(code).toMatch(/^\d{6}$/);
+      const values = client.query.mock.calls[1][1];
+      expect(values).not.toContain(code);
+      expect(values[3]).toBe(StudentOtp.hashCode('+919876543210', 'login', code));
+    });
+
+    it('should refuse a new code during the resend cooldown', async () => {
+      client.query.mockResolvedValueOnce({ rows: [{ last_sent_at: new Date(Date.now() - 20 * 1000) }] });
+
+      const issued = await new StudentOtp().issue('+919876543210', 'login', 'student-1');
+
+      expect(issued).toEqual({ status: 'cooldown', retryAfterSeconds: 40 });
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('verify', () => {
+    const otp = (overrides: Record<string, any> = {}) => ({
+      id: '1',
+      student_id: 'student-1',
+      code_hash: StudentOtp.hashCode('+919876543210', 'login', '123456'),
+      attempts: '0',
+      expires_at: new Date(Date.now() + 60000),
+      consumed_at: null,
+      ...overrides
+    });
+
+    it('should use up a correct code', async () => {
+      client.query.mockResolvedValueOnce({ rows: [otp()] }).mockResolvedValueOnce({ rows: [] });
+
+      expect(await new StudentOtp().verify('+919876543210', 'login', '123456')).toEqual({ status: 'verified', studentId: 'student-1' });
+      expect(client.query.mock.calls[1][0]).toContain('consumed_at = NOW()');
+    });
+
+    it('should count a wrong guess', async () => {
+      client.query.mockResolvedValueOnce({ rows: [otp({ attempts: '3' })] }).mockResolvedValueOnce({ rows: [] });
+
+      expect(await new StudentOtp().verify('+919876543210', 'login', '000000')).toEqual({ status: 'invalid', attemptsLeft: 1 });
+      expect(client.query.mock.calls[1][0]).toContain('attempts = attempts + 1');
+    });
+
+    it('should refuse expired, exhausted and used codes without checking them', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [otp({ expires_at: new Date(Date.now() - 1000) })] })
+        .mockResolvedValueOnce({ rows: [otp({ attempts: '5' })] })
+        .mockResolvedValueOnce({ rows: [otp({ consumed_at: new Date() })] });
+      const model = new StudentOtp();
+
+      expect(await model.verify('+919876543210', 'login', '123456')).toEqual({ status: 'expired' });
+      expect(await model.verify('+919876543210', 'login', '123456')).toEqual({ status: 'too_many_attempts' });
+      expect(await model.verify('+919876543210', 'login', '123456')).toEqual({ status: 'not_found' });
+      expect(client.query).toHaveBeenCalledTimes(3);
+    });
+  });
+});
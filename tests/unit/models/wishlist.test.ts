@@ -0,0 +1,81 @@
+import { Wishlist } from '../../../src/models/Wishlist';
+import { dbManager } from '../../../src/utils/databaseManager';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const mockDbManager = dbManager as jest.Mocked<typeof dbManager>;
+
+describe('Wishlist Model', () => {
+  describe('detectPriceChange', () => {
+    it('should report a lower price as a drop', () => {
+      expect(Wishlist.detectPriceChange({ price: '499.00', is_free: false }, { price: '299.00', is_free: false })).toBe('price_drop');
+    });
+
+    it('should report a course that became free', () => {
+      expect(Wishlist.detectPriceChange({ price: '499.00', is_free: false }, { price: '499.00', is_free: true })).toBe('became_free');
+    });
+
+    it('should ignore rises, unchanged prices and courses that were already free', () => {
+      expect(Wishlist.detectPriceChange({ price: '299.00', is_free: false }, { price: '499.00', is_free: false })).toBeNull();
+      expect(Wishlist.detectPriceChange({ price: '299.00', is_free: false }, { price: '299', is_free: false })).toBeNull();
+      expect(Wishlist.detectPriceChange({ price: '0.00', is_free: true }, { price: '0.00', is_free: true })).toBeNull();
+      expect(Wishlist.detectPriceChange({ price: '0.00', is_free: true }, { price: '199.00', is_free: false })).toBeNull();
+    });
+  });
+
+  describe('collectPriceDrops', () => {
+    const client = { query: jest.fn() };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockDbManager.transaction.mockImplementation(async (callback: any) => callback(client));
+    });
+
+    it('should move every baseline but only return drops for opted-in students on published courses', async () => {
+      const row = {
+        course_id: '7', course_title: 'SQL Basics', course_slug: 'sql-basics', notified_price: '499.00',
+        notified_is_free: false, is_free: false, is_published: true, notify_price_drop: true,
+        student_email: 'student@example.com', student_first_name: 'Asha', student_is_active: true
+      };
+      client.query
+        .mockResolvedValueOnce({
+          rows: [
+            { ...row, id: '1', price: '299.00' },
+            { ...row, id: '2', price: '299.00', notify_price_drop: false },
+            { ...row, id: '3', price: '599.00' },
+            { ...row, id: '4', price: '299.00', is_published: false }
+          ]
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const drops = await new Wishlist().collectPriceDrops('7');
+
+      expect(client.query.mock.calls[0][1]).toEqual(['7']);
+      expect(client.query.mock.calls[1][1]).toEqual([['1', '2', '3', '4']]);
+      expect(drops).toEqual([{
+        student_email: 'student@example.com',
+        student_first_name: 'Asha',
+        course_id: '7',
+        course_title: 'SQL Basics',
+        course_slug: 'sql-basics',
+        change: 'price_drop',
+        previous_price: 499,
+        price: 299
+      }]);
+    });
+
+    it('should not write anything when no saved course changed price', async () => {
+      client.query.mockResolvedValueOnce({ rows: [] });
+
+      expect(await new Wishlist().collectPriceDrops()).toEqual([]);
+      expect(client.query).toHaveBeenCalledTimes(1);
+      expect(client.query.mock.calls[0][1]).toEqual([]);
+    });
+  });
+});
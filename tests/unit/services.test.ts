@@ -154,13 +154,14 @@ describe('AuthService Unit Tests', () => {
 
     await authService.register(userData);
 
-    const token = await authService.login({
+    const result = await authService.login({
       username: userData.username,
       password: userData.password
     });
 
-    expect(typeof token).toBe('string');
-    expect(token.length).toBeGreaterThan(0);
+    expect(result.status).toBe('authenticated');
+    expect(typeof result.token).toBe('string');
+    expect(result.token.length).toBeGreaterThan(0);
   });
 
   it('should reject invalid credentials', async () => {
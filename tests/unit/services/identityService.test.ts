@@ -0,0 +1,140 @@
+import jwt from 'jsonwebtoken';
+import { IdentityService } from '../../../src/services/identityService';
+import { IdentitySession } from '../../../src/models/IdentitySession';
+import { RateLimitService } from '../../../src/services/rateLimitService';
+import { dbManager } from '../../../src/utils/databaseManager';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('IdentityService', () => {
+  let service: IdentityService;
+  const mockQuery = dbManager.query as jest.MockedFunction<typeof dbManager.query>;
+  const student = { type: 'student' as const, id: 'student-1', email: 'asha@example.com' };
+  const admin = { type: 'admin' as const, id: 'admin-1', email: 'ops@example.com', username: 'ops' };
+  const activeSession = (principalId: string, refreshToken?: string | null) => ({
+    rows: [{
+      session_id: 'ignored',
+      principal_type: 'student',
+      principal_id: principalId,
+      refresh_token_hash: refreshToken ? IdentitySession.hashToken(refreshToken) : null
+    }]
+  } as any);
+
+  beforeEach(() => {
+    service = new IdentityService();
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+  });
+
+  describe('issueTokens', () => {
+    it('should store the session with a hashed refresh token and sign both tokens for it', async () => {
+      const tokens = await service.issueTokens(student, { ip: '10.0.0.1', userAgent: 'jest' });
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO identity_sessions');
+      expect(params).toEqual([
+        tokens.sessionId, 'student', 'student-1', null,
+        IdentitySession.hashToken(tokens.refreshToken!), '10.0.0.1', 'jest', expect.any(Date)
+      ]);
+      expect(jwt.decode(tokens.accessToken)).toMatchObject({
+        sub: 'student-1', principal: 'student', sid: tokens.sessionId, token_use: 'access',
+        studentId: 'student-1', type: 'student', aud: 'zenow-api'
+      });
+      expect(jwt.decode(tokens.refreshToken!)).toMatchObject({ sid: tokens.sessionId, token_use: 'refresh' });
+      expect(tokens.expiresIn).toBe(24 * 60 * 60);
+    });
+
+    it('should give staff a 4 hour access token with the claims the admin frontend reads and no refresh token', async () => {
+      const tokens = await service.issueTokens(admin, { fingerprintHash: 'hash-1' });
+
+      expect(tokens.refreshToken).toBeNull();
+      expect(tokens.expiresIn).toBe(4 * 60 * 60);
+      expect(jwt.decode(tokens.accessToken)).toMatchObject({
+        id: 'admin-1', username: 'ops', role: 'admin', fingerprintHash: 'hash-1', principal: 'admin'
+      });
+    });
+
+    it('should use a principal type registered later', async () => {
+      service.registerPrincipalType('instructor', {
+        accessTokenTtlSeconds: 60,
+        refreshTokenTtlSeconds: null,
+        rateLimitEndpoint: 'api',
+        legacyClaims: (principal) => ({ instructorId: principal.id })
+      });
+
+      const tokens = await service.issueTokens({ type: 'instructor', id: 'instructor-1' });
+
+      expect(jwt.decode(tokens.accessToken)).toMatchObject({ instructorId: 'instructor-1', principal: 'instructor' });
+      expect(tokens.expiresIn).toBe(60);
+    });
+  });
+
+  describe('verifyAccessToken', () => {
+    it('should accept a token whose session is active', async () => {
+      const token = service.signAccessToken(student, 'session-1');
+      mockQuery.mockResolvedValueOnce(activeSession('student-1'));
+
+      await expect(service.verifyAccessToken(token)).resolves.toEqual({
+        principal: { type: 'student', id: 'student-1', email: 'asha@example.com', username: null },
+        sessionId: 'session-1',
+        fingerprintHash: null
+      });
+      expect(mockQuery.mock.calls[0][1]).toEqual(['session-1']);
+    });
+
+    it('should reject a token once its session is revoked', async () => {
+      const token = service.signAccessToken(student, 'session-1');
+      mockQuery.mockResolvedValueOnce(activeSession('student-1'));
+      await service.verifyAccessToken(token);
+
+      await service.revokeSession('session-1', 'User logout');
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(service.verifyAccessToken(token)).resolves.toBeNull();
+    });
+
+    it('should reject tokens from before the identity service, refresh tokens and sessions of someone else', async () => {
+      const legacy = jwt.sign({ studentId: 'student-1', type: 'student' }, process.env.JWT_SECRET || 'your-secret-key');
+      const { refreshToken } = await service.issueTokens(student);
+      mockQuery.mockClear();
+
+      await expect(service.verifyAccessToken(legacy)).resolves.toBeNull();
+      await expect(service.verifyAccessToken(refreshToken!)).resolves.toBeNull();
+      expect(mockQuery).not.toHaveBeenCalled();
+
+      mockQuery.mockResolvedValueOnce(activeSession('student-2'));
+      await expect(service.verifyAccessToken(service.signAccessToken(student, 'session-2'))).resolves.toBeNull();
+    });
+  });
+
+  describe('verifyRefreshToken', () => {
+    it('should only accept the refresh token stored for the session', async () => {
+      const { refreshToken, sessionId } = await service.issueTokens(student);
+      const other = await service.issueTokens(student);
+
+      mockQuery.mockResolvedValueOnce(activeSession('student-1', refreshToken));
+      await expect(service.verifyRefreshToken(refreshToken!)).resolves.toEqual({
+        principalId: 'student-1', principalType: 'student', sessionId
+      });
+
+      mockQuery.mockResolvedValueOnce(activeSession('student-1', other.refreshToken));
+      await expect(service.verifyRefreshToken(refreshToken!)).resolves.toBeNull();
+    });
+  });
+
+  describe('checkRateLimit', () => {
+    it('should count requests per principal against the endpoint of its type', async () => {
+      const rateLimitService = { checkRateLimit: jest.fn().mockResolvedValue({ allowed: false, remaining: 0, resetTime: 5000 }) };
+      service.setRateLimitService(rateLimitService as unknown as RateLimitService);
+
+      await expect(service.checkRateLimit(admin, '10.0.0.1')).resolves.toEqual({ allowed: false, resetTime: 5000 });
+      expect(rateLimitService.checkRateLimit).toHaveBeenCalledWith('admin:admin-1', 'admin', '10.0.0.1');
+    });
+  });
+});
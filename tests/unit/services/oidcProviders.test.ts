@@ -0,0 +1,145 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OidcClient, codeChallenge } from '../../../src/services/oidcProviders';
+
+/**
+ * Minimal OpenID Connect issuer on localhost: discovery, JWKS and a token endpoint that
+ * checks the PKCE verifier and returns whatever ID token the test asks for
+ */
+const startMockIssuer = async () => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, { challenge: string; claims: Record<string, any> }>();
+  const tokenRequests: URLSearchParams[] = [];
+  let issuer = '';
+
+  const server = http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+      send(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`
+      });
+    } else if (req.url === '/jwks') {
+      send(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'RS256' }] });
+    } else if (req.url === '/token' && req.method === 'POST') {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        tokenRequests.push(params);
+        const grant = codes.get(params.get('code') || '');
+        if (!grant || codeChallenge(params.get('code_verifier') || '') !== grant.challenge) {
+          send(400, { error: 'invalid_grant' });
+          return;
+        }
+        send(200, { access_token: 'access', token_type: 'Bearer', id_token: sign(grant.claims) });
+      });
+    } else {
+      send(404, {});
+    }
+  });
+
+  const sign = (claims: Record<string, any>, options: jwt.SignOptions = {}) =>
+    jwt.sign(claims, privateKey.export({ format: 'pem', type: 'pkcs8' }), {
+      algorithm: 'RS256',
+      keyid: 'key-1',
+      issuer,
+      audience: 'client-1',
+      expiresIn: '5m',
+      ...options
+    });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    tokenRequests,
+    sign,
+    grant: (code: string, codeVerifier: string, claims: Record<string, any>) =>
+      codes.set(code, { challenge: codeChallenge(codeVerifier), claims }),
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+};
+
+describe('OidcClient', () => {
+  let issuer: Awaited<ReturnType<typeof startMockIssuer>>;
+  let client: OidcClient;
+  const claims = { sub: 'user-42', email: 'Asha@Example.com', email_verified: true, given_name: 'Asha', nonce: 'nonce-1' };
+
+  beforeAll(async () => {
+    issuer = await startMockIssuer();
+  });
+
+  afterAll(async () => {
+    await issuer.close();
+  });
+
+  beforeEach(() => {
+    client = new OidcClient('oidc', {
+      issuer: issuer.issuer,
+      clientId: 'client-1',
+      clientSecret: 'secret-1',
+      redirectUri: 'http://localhost:5173/auth/callback'
+    });
+  });
+
+  it('should build an authorization URL with state, nonce and a PKCE challenge', async () => {
+    const url = new URL(await client.authorizationUrl({ state: 'state-1', nonce: 'nonce-1', codeVerifier: 'verifier-1' }));
+
+    expect(`${url.origin}${url.pathname}`).toBe(`${issuer.issuer}/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: 'client-1',
+      redirect_uri: 'http://localhost:5173/auth/callback',
+      scope: 'openid email profile',
+      state: 'state-1',
+      nonce: 'nonce-1',
+      code_challenge: codeChallenge('verifier-1'),
+      code_challenge_method: 'S256'
+    });
+  });
+
+  it('should redeem a code and return the verified claims', async () => {
+    issuer.grant('code-1', 'verifier-1', claims);
+
+    await expect(client.exchangeCode('code-1', { codeVerifier: 'verifier-1', nonce: 'nonce-1' })).resolves.toEqual({
+      subject: 'user-42',
+      email: 'asha@example.com',
+      emailVerified: true,
+      givenName: 'Asha',
+      familyName: null,
+      picture: null
+    });
+    const request = issuer.tokenRequests[issuer.tokenRequests.length - 1];
+    expect(request.get('client_secret')).toBe('secret-1');
+    expect(request.get('redirect_uri')).toBe('http://localhost:5173/auth/callback');
+  });
+
+  it('should reject a wrong PKCE verifier or nonce', async () => {
+    issuer.grant('code-2', 'verifier-2', claims);
+
+    await expect(client.exchangeCode('code-2', { codeVerifier: 'other', nonce: 'nonce-1' })).rejects.toThrow('status 400');
+    await expect(client.exchangeCode('code-2', { codeVerifier: 'verifier-2', nonce: 'nonce-2' })).rejects.toThrow('nonce');
+  });
+
+  it('should reject ID tokens for another client, from another issuer or signed with another key', async () => {
+    const { privateKey: otherKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    await expect(client.verifyIdToken(issuer.sign(claims, { audience: 'client-2' }), 'nonce-1')).rejects.toThrow('audience');
+    await expect(client.verifyIdToken(issuer.sign(claims, { issuer: 'https://evil.example' }), 'nonce-1')).rejects.toThrow('issuer');
+    await expect(client.verifyIdToken(
+      jwt.sign(claims, otherKey.export({ format: 'pem', type: 'pkcs8' }), { algorithm: 'RS256', keyid: 'key-1', issuer: issuer.issuer, audience: 'client-1' }),
+      'nonce-1'
+    )).rejects.toThrow('invalid signature');
+    await expect(client.verifyIdToken(issuer.sign(claims, { keyid: 'key-9' }), 'nonce-1')).rejects.toThrow('unknown key');
+  });
+});
@@ -0,0 +1,84 @@
+import { FakePaymentProvider, getPaymentProvider } from '../../../src/services/paymentProviders';
+import { ValidationError } from '../../../src/middleware/errorHandler';
+
+describe('Payment Providers', () => {
+  describe('FakePaymentProvider', () => {
+    const secret = 'test-secret';
+    const provider = new FakePaymentProvider(secret);
+    const body = Buffer.from(JSON.stringify({
+      id: 'evt_1',
+      type: 'payment.succeeded',
+      data: { reference: 'fake_cs_abc', transaction_id: 'txn_1', amount: '49.99', currency: 'USD' }
+    }));
+
+    it('should parse a correctly signed payment event', async () => {
+      const event = await provider.parseWebhook(body, { 'x-fake-signature': FakePaymentProvider.sign(body, secret) });
+
+      expect(event).toMatchObject({
+        id: 'evt_1',
+        outcome: 'paid',
+        reference: 'fake_cs_abc',
+        transactionId: 'txn_1',
+        amount: 49.99,
+        currency: 'USD'
+      });
+    });
+
+    it('should reject a tampered body', async () => {
+      const signature = FakePaymentProvider.sign(body, secret);
+      const tampered = Buffer.from(body.toString().replace('49.99', '0.01'));
+
+      await expect(provider.parseWebhook(tampered, { 'x-fake-signature': signature })).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a missing signature', async () => {
+      await expect(provider.parseWebhook(body, {})).rejects.toThrow('Invalid webhook signature');
+    });
+
+    it('should map failed payments with a reason', async () => {
+      const failedBody = Buffer.from(JSON.stringify({
+        id: 'evt_2',
+        type: 'payment.failed',
+        data: { reference: 'fake_cs_abc', reason: 'Card declined' }
+      }));
+
+      const event = await provider.parseWebhook(failedBody, { 'x-fake-signature': FakePaymentProvider.sign(failedBody, secret) });
+
+      expect(event.outcome).toBe('failed');
+      expect(event.failureReason).toBe('Card declined');
+    });
+
+    it('should issue a refund id', async () => {
+      const refundId = await provider.refund({ transactionId: 'txn_1', amount: '49.99', currency: 'USD' });
+
+      expect(refundId).toMatch(/^fake_re_[0-9a-f]{24}$/);
+    });
+  });
+
+  describe('getPaymentProvider', () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should not offer providers without credentials', () => {
+      process.env = { ...originalEnv, STRIPE_SECRET_KEY: '', PAYPAL_CLIENT_ID: '' };
+
+      expect(getPaymentProvider('stripe')).toBeNull();
+      expect(getPaymentProvider('paypal')).toBeNull();
+      expect(getPaymentProvider('bitcoin')).toBeNull();
+    });
+
+    it('should only offer the fake provider when enabled with a webhook secret', () => {
+      process.env = { ...originalEnv, NODE_ENV: 'development', PAYMENT_FAKE_ENABLED: '', FAKE_PAYMENT_WEBHOOK_SECRET: 'fake-secret' };
+      expect(getPaymentProvider('fake')).toBeNull();
+
+      process.env = { ...originalEnv, PAYMENT_FAKE_ENABLED: 'true', FAKE_PAYMENT_WEBHOOK_SECRET: '' };
+      expect(getPaymentProvider('fake')).toBeNull();
+
+      process.env = { ...originalEnv, PAYMENT_FAKE_ENABLED: 'true', FAKE_PAYMENT_WEBHOOK_SECRET: 'fake-secret' };
+      expect(getPaymentProvider('fake')).toBeInstanceOf(FakePaymentProvider);
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import jwt from 'jsonwebtoken';
+import { StudentAuthService } from '../../../src/services/studentAuthService';
+import { RateLimitService } from '../../../src/services/rateLimitService';
+import { FakeSmsProvider } from '../../../src/services/smsProviders';
+import { OidcProvider } from '../../../src/services/oidcProviders';
+import { StudentOtp } from '../../../src/models/StudentOtp';
+import { dbManager } from '../../../src/utils/databaseManager';
+
+// Mock the database manager
+jest.mock('../../../src/utils/databaseManager', () => ({
+  dbManager: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/services/emailService', () => jest.fn().mockResolvedValue(undefined));
+
+const mockResponse = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  res.setHeader = jest.fn();
+  return res;
+};
+
+describe('StudentAuthService', () => {
+  let service: StudentAuthService;
+  const mockQuery = dbManager.query as jest.MockedFunction<typeof dbManager.query>;
+  const mockTransaction = dbManager.transaction as jest.MockedFunction<typeof dbManager.transaction>;
+  const student = { id: 'student-1', email: 'asha@example.com', first_name: 'Asha' };
+
+  beforeEach(() => {
+    service = new StudentAuthService();
+    jest.clearAllMocks();
+  });
+
+  describe('verification tokens', () => {
+    it('should read back a token it signed', () => {
+      const token = service.signEmailVerificationToken(student, 'nonce-1');
+
+      expect(service.readEmailVerificationToken(token)).toEqual({
+        studentId: 'student-1',
+        email: 'asha@example.com',
+        nonce: 'nonce-1'
+      });
+    });
+
+    it('should reject tampered, expired and other kinds of tokens', () => {
+      const token = service.signEmailVerificationToken(student, 'nonce-1');
+      const expired = jwt.sign(
+        { studentId: 'student-1', email: 'asha@example.com', nonce: 'nonce-1', type: 'email_verification' },
+        process.env.JWT_SECRET || 'your-secret-key',
+        { expiresIn: -10 }
+      );
+      const accessToken = jwt.sign({ studentId: 'student-1', type: 'student' }, process.env.JWT_SECRET || 'your-secret-key');
+
+      expect(service.readEmailVerificationToken(`${token}x`)).toBeNull();
+      expect(service.readEmailVerificationToken(expired)).toBeNull();
+      expect(service.readEmailVerificationToken(accessToken)).toBeNull();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    const stored = {
+      id: 'student-1',
+      email: 'asha@example.com',
+      email_verified: false,
+      email_verification_token: 'nonce-1',
+      email_verification_expires: new Date(Date.now() + 60000)
+    };
+
+    it('should mark the email verified when the link is the latest one', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [stored] } as any).mockResolvedValueOnce({ rows: [] } as any);
+      const res = mockResponse();
+
+      await service.verifyEmail({ body: { token: service.signEmailVerificationToken(student, 'nonce-1') } } as any, res);
+
+      expect(mockQuery.mock.calls[1][0]).toContain('email_verified = true');
+      expect(res.json).toHaveBeenCalledWith({ success: true, message: 'Email verified successfully' });
+    });
+
+    it('should refuse a link replaced by a newer one', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...stored, email_verification_token: 'nonce-2' }] } as any);
+      const res = mockResponse();
+
+      await service.verifyEmail({ body: { token: service.signEmailVerificationToken(student, 'nonce-1') } } as any, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    it('should answer 429 once the rate limit is used up', async () => {
+      const rateLimitService = { checkRateLimit: jest.fn().mockResolvedValue({ allowed: false, remaining: 0, resetTime: Date.now() + 60000 }) };
+      service.setRateLimitService(rateLimitService as unknown as RateLimitService);
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...student, email_verified: false }] } as any);
+      const res = mockResponse();
+
+      await service.resendVerificationEmail({ user: { id: 'student-1' }, ip: '10.0.0.1' } as any, res);
+
+      expect(rateLimitService.checkRateLimit).toHaveBeenCalledWith('student:student-1', 'email_verification', '10.0.0.1');
+      expect(res.status).toHaveBeenCalledWith(429);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store a new nonce before sending the link', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...student, email_verified: false }] } as any).mockResolvedValueOnce({ rows: [] } as any);
+      const res = mockResponse();
+
+      await service.resendVerificationEmail({ user: { id: 'student-1' }, ip: '10.0.0.1' } as any, res);
+
+      expect(mockQuery.mock.calls[1][0]).toContain('email_verification_token = $1');
+      expect(res.json).toHaveBeenCalledWith({ success: true, message: 'Verification email sent' });
+    });
+  });
+
+  describe('phone OTP', () => {
+    const client = { query: jest.fn() };
+    let sms: FakeSmsProvider;
+
+    beforeEach(() => {
+      sms = new FakeSmsProvider();
+      service.setSmsProvider(sms);
+      mockTransaction.mockImplementation(async (callback: any) => callback(client));
+    });
+
+    it('should text a login code to a registered number and store only its hash', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'student-1', phone_verified: true }] } as any);
+      client.query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [] });
+      const res = mockResponse();
+
+      await service.requestOtp({ body: { phone: '+91 98765 43210', purpose: 'login' }, ip: '10.0.0.1' } as any, res);
+
+      const code = sms.lastCodeFor('+919876543210');
+      expect(code).toMatch(/^\d{6}$/);
+      expect(client.query.mock.calls[1][1][3]).toBe(StudentOtp.hashCode('+919876543210', 'login', code!));
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+    });
+
+    it('should answer the same for an unknown number without sending anything', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      const res = mockResponse();
+
+      await service.requestOtp({ body: { phone: '9876543210', purpose: 'login' }, ip: '10.0.0.1' } as any, res);
+
+      expect(sms.sent).toHaveLength(0);
+      expect(mockTransaction).not.toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith({ success: true, message: 'If the number belongs to an account, a code has been sent' });
+    });
+
+    it('should mark the phone verified for the signed-in student', async () => {
+      client.query
+        .mockResolvedValueOnce({
+          rows: [{
+            id: '1', student_id: 'student-1', attempts: '0', consumed_at: null,
+            code_hash: StudentOtp.hashCode('+919876543210', 'verify_phone', '123456'),
+            expires_at: new Date(Date.now() + 60000)
+          }]
+        })
+        .mockResolvedValueOnce({ rows: [] });
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      const res = mockResponse();
+
+      await service.verifyOtp({
+        body: { phone: '+919876543210', purpose: 'verify_phone', code: '123456' },
+        user: { id: 'student-1' }
+      } as any, res);
+
+      expect(mockQuery.mock.calls[0][0]).toContain('phone_verified = true');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['+919876543210', 'student-1']);
+      expect(res.json).toHaveBeenCalledWith({ success: true, message: 'Phone number verified successfully' });
+    });
+  });
+
+  describe('social sign-in', () => {
+    const client = { query: jest.fn() };
+    const provider = {
+      name: 'google' as const,
+      authorizationUrl: jest.fn().mockResolvedValue('https://accounts.example/authorize'),
+      exchangeCode: jest.fn()
+    };
+    const callback = (overrides: Record<string, any> = {}) => {
+      const stateToken = service.signOidcState({
+        provider: 'google', state: 'state-1', nonce: 'nonce-1', codeVerifier: 'verifier-1', studentId: null
+      });
+      return {
+        params: { provider: 'google' },
+        body: { code: 'code-1', state: 'state-1', state_token: stateToken, ...overrides },
+        ip: '127.0.0.1',
+        get: () => 'jest'
+      } as any;
+    };
+
+    beforeEach(() => {
+      service.setOidcProvider('google', provider as OidcProvider);
+      mockTransaction.mockImplementation(async (callback: any) => callback(client));
+      client.query.mockResolvedValue({ rows: [] });
+      provider.exchangeCode.mockResolvedValue({
+        subject: 'google-42', email: 'new@example.com', emailVerified: true,
+        givenName: 'Ravi', familyName: 'Kumar', picture: null
+      });
+    });
+
+    it('should hand out an authorization URL with a matching state token', async () => {
+      const res = mockResponse();
+
+      await service.startOidc({ params: { provider: 'google' } } as any, res);
+
+      const { state_token } = res.json.mock.calls[0][0].data;
+      const state = service.readOidcState(state_token)!;
+      expect(state).toMatchObject({ provider: 'google', studentId: null });
+      expect(provider.authorizationUrl).toHaveBeenCalledWith(state);
+    });
+
+    it('should create a student with a verified email for a new account', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any) // no linked account
+        .mockResolvedValueOnce({ rows: [] } as any) // no student with the email
+        .mockResolvedValueOnce({ rows: [] } as any) // student_id is free
+        .mockResolvedValueOnce({ rows: [{ id: 'student-9' }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 'student-9', student_id: 'STU0000000009', email: 'new@example.com', is_active: true, email_verified: true }] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+      const res = mockResponse();
+
+      await service.completeOidcLogin(callback(), res);
+
+      expect(provider.exchangeCode).toHaveBeenCalledWith('code-1', { codeVerifier: 'verifier-1', nonce: 'nonce-1' });
+      expect(mockQuery.mock.calls[3][0]).toContain('has_password');
+      expect(mockQuery.mock.calls[3][1]).toEqual(expect.arrayContaining(['new@example.com', 'Ravi', 'Kumar']));
+      expect(client.query.mock.calls[1][1]).toEqual(['student-9', 'google', 'google-42', 'new@example.com']);
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(mockQuery.mock.calls[mockQuery.mock.calls.length - 1][0]).toContain('INSERT INTO identity_sessions');
+      expect(res.json.mock.calls[0][0].data.tokens.accessToken).toBeDefined();
+    });
+
+    it('should not link a student who never verified the email', async () => {
+      provider.exchangeCode.mockResolvedValue({
+        subject: 'google-42', email: 'asha@example.com', emailVerified: true,
+        givenName: null, familyName: null, picture: null
+      });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any) // no linked account
+        .mockResolvedValueOnce({ rows: [{ id: 'student-1', email_verified: false }] } as any);
+      const res = mockResponse();
+
+      await service.completeOidcLogin(callback(), res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a callback whose state does not match', async () => {
+      const res = mockResponse();
+
+      await service.completeOidcLogin(callback({ state: 'state-2' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(provider.exchangeCode).not.toHaveBeenCalled();
+    });
+
+    it('should not link by email the provider has not verified', async () => {
+      provider.exchangeCode.mockResolvedValue({
+        subject: 'google-42', email: 'asha@example.com', emailVerified: false,
+        givenName: null, familyName: null, picture: null
+      });
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      const res = mockResponse();
+
+      await service.completeOidcLogin(callback(), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
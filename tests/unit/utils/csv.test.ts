@@ -0,0 +1,67 @@
+import { csvToRecords, escapeCsv, parseCsv, toCsv } from '../../../src/utils/csv';
+
+describe('CSV helpers', () => {
+  describe('parseCsv', () => {
+    it('should split plain rows with CRLF or LF line endings', () => {
+      expect(parseCsv('name,slug\r\nTechnology,technology\nDesign,design\n')).toEqual([
+        ['name', 'slug'],
+        ['Technology', 'technology'],
+        ['Design', 'design']
+      ]);
+    });
+
+    it('should keep commas, quotes and line breaks inside quoted cells', () => {
+      expect(parseCsv('title,tags\n"SQL, the ""easy"" way","sql,databases"\n"Two\nlines",\n')).toEqual([
+        ['title', 'tags'],
+        ['SQL, the "easy" way', 'sql,databases'],
+        ['Two\nlines', '']
+      ]);
+    });
+
+    it('should drop a byte order mark and blank lines', () => {
+      expect(parseCsv('\uFEFFname\n\nDesign\n\n')).toEqual([['name'], ['Design']]);
+    });
+
+    it('should reject an unterminated quoted cell', () => {
+      expect(() => parseCsv('name\n"Design')).toThrow(/Unterminated/);
+    });
+  });
+
+  describe('csvToRecords', () => {
+    it('should key cells by the trimmed header and fill missing cells', () => {
+      expect(csvToRecords([[' name ', 'slug'], ['Design']]).records).toEqual([{ name: 'Design', slug: '' }]);
+    });
+
+    it('should read back cells escaped against formulas', () => {
+      const csv = toCsv(['title', 'description'], [{ title: '-Ops-', description: "'quoted'" }]);
+      expect(csvToRecords(parseCsv(csv)).records).toEqual([{ title: '-Ops-', description: "'quoted'" }]);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should round-trip through parseCsv', () => {
+      const rows = [{ title: 'SQL, "basics"', price: 499, is_free: false, description: null }];
+      const csv = toCsv(['title', 'price', 'is_free', 'description'], rows);
+
+      expect(csv.endsWith('\r\n')).toBe(true);
+      expect(parseCsv(csv)).toEqual([
+        ['title', 'price', 'is_free', 'description'],
+        ['SQL, "basics"', '499', 'false', '']
+      ]);
+    });
+
+    it('should keep spreadsheets from running cells as formulas', () => {
+      expect(escapeCsv('=HYPERLINK("http://evil.example","x")')).toBe('"\'=HYPERLINK(""http://evil.example"",""x"")"');
+      expect(escapeCsv('+91 98765')).toBe("'+91 98765");
+      expect(escapeCsv('@SUM(A1)')).toBe("'@SUM(A1)");
+      expect(escapeCsv('\tcmd')).toBe("'\tcmd");
+      expect(escapeCsv('\r=1')).toBe('"\'\r=1"');
+      expect(escapeCsv('-10.00')).toBe('-10.00');
+      expect(escapeCsv(-5)).toBe('-5');
+    });
+
+    it('should write dates as ISO timestamps', () => {
+      expect(escapeCsv(new Date('2025-04-01T00:00:00.000Z'))).toBe('2025-04-01T00:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  COURSE_SORTS,
+  buildKeysetCondition,
+  decodeCursor,
+  encodeCursor,
+  parseCourseSort,
+  parseLimit,
+  toKeysetPage
+} from '../../../src/utils/pagination';
+import { ValidationError } from '../../../src/middleware/errorHandler';
+
+describe('Cursor pagination', () => {
+  describe('parseCourseSort', () => {
+    it('should default to newest', () => {
+      expect(parseCourseSort(undefined)).toBe('newest');
+    });
+
+    it('should reject unknown sorts', () => {
+      expect(() => parseCourseSort('popularity')).toThrow(ValidationError);
+    });
+  });
+
+  describe('parseLimit', () => {
+    it('should clamp limits', () => {
+      expect(parseLimit(undefined)).toBe(20);
+      expect(parseLimit('0')).toBe(20);
+      expect(parseLimit('500')).toBe(100);
+      expect(parseLimit('15')).toBe(15);
+    });
+  });
+
+  describe('cursors', () => {
+    it('should round-trip a keyset cursor', () => {
+      const cursor = encodeCursor({ s: 'newest', v: ['2024-01-15 10:30:00.123456', '42'] });
+
+      expect(decodeCursor(cursor, 'newest')).toEqual({ s: 'newest', v: ['2024-01-15 10:30:00.123456', '42'] });
+    });
+
+    it('should reject a cursor issued for another sort', () => {
+      const cursor = encodeCursor({ s: 'newest', v: ['2024-01-15 10:30:00', '42'] });
+
+      expect(() => decodeCursor(cursor, 'title')).toThrow(ValidationError);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => decodeCursor('not-a-cursor', 'newest')).toThrow(ValidationError);
+    });
+  });
+
+  describe('buildKeysetCondition', () => {
+    it('should compare descending sorts with <', () => {
+      const values: any[] = ['existing'];
+      const clause = buildKeysetCondition(COURSE_SORTS.newest, { s: 'newest', v: ['2024-01-15 10:30:00', '42'] }, values);
+
+      expect(clause).toBe(' AND (c.created_at, c.id) < ($2::TIMESTAMP, $3::INT8)');
+      expect(values).toEqual(['existing', '2024-01-15 10:30:00', '42']);
+    });
+
+    it('should return an empty clause without a cursor', () => {
+      expect(buildKeysetCondition(COURSE_SORTS.title, null, [])).toBe('');
+    });
+  });
+
+  describe('toKeysetPage', () => {
+    it('should report the last page', () => {
+      const page = toKeysetPage([{ id: 1, cursor_key_0: 'A', cursor_key_1: '1' }], 2, 'title', COURSE_SORTS.title);
+
+      expect(page).toEqual({ items: [{ id: 1 }], hasMore: false, nextCursor: null });
+    });
+  });
+});
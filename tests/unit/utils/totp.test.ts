@@ -0,0 +1,50 @@
+import { base32Decode, base32Encode, provisioningUri, totp, verifyTotp } from '../../../src/utils/totp';
+
+// RFC 6238 appendix B secret ("12345678901234567890")
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  describe('base32', () => {
+    it('should round-trip bytes and ignore case, spaces and padding', () => {
+      expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(SECRET);
+      expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq').toString()).toBe('12345678901234567890');
+      expect(base32Decode('MZXW6===').toString()).toBe('foo');
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('totp', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      expect(totp(SECRET, 59 * 1000)).toBe('287082');
+      expect(totp(SECRET, 1111111109 * 1000)).toBe('081804');
+      expect(totp(SECRET, 1234567890 * 1000)).toBe('005924');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const time = 1234567890 * 1000;
+    const step = Math.floor(1234567890 / 30);
+
+    it('should accept codes from the neighbouring steps only', () => {
+      expect(verifyTotp(SECRET, '005924', { time })).toBe(step);
+      expect(verifyTotp(SECRET, totp(SECRET, time - 30000), { time })).toBe(step - 1);
+      expect(verifyTotp(SECRET, totp(SECRET, time + 30000), { time })).toBe(step + 1);
+      expect(verifyTotp(SECRET, totp(SECRET, time - 60000), { time })).toBeNull();
+    });
+
+    it('should refuse a code that was already used and malformed input', () => {
+      expect(verifyTotp(SECRET, '005924', { time, afterStep: step })).toBeNull();
+      expect(verifyTotp(SECRET, '005 924', { time })).toBe(step);
+      expect(verifyTotp(SECRET, '5924', { time })).toBeNull();
+      expect(verifyTotp(SECRET, '', { time })).toBeNull();
+    });
+  });
+
+  describe('provisioningUri', () => {
+    it('should build an otpauth URI authenticator apps can scan', () => {
+      expect(provisioningUri(SECRET, 'admin user', 'Zenow Academy')).toBe(
+        `otpauth://totp/Zenow%20Academy:admin%20user?secret=${SECRET}&issuer=Zenow%20Academy&algorithm=SHA1&digits=6&period=30`
+      );
+    });
+  });
+});